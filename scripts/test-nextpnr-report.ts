@@ -0,0 +1,108 @@
+#!/usr/bin/env npx tsx
+/**
+ * Test script: utilization and Fmax from nextpnr output
+ *
+ * Feeds parseNextpnrReport the --report JSON and the log of an ice40 and
+ * an ECP5 place-and-route, with and without the report (the log is the
+ * fallback when nextpnr failed before writing it).
+ *
+ * Usage: npx tsx scripts/test-nextpnr-report.ts
+ */
+
+import { parseNextpnrReport } from "../src/tools/fpga.js";
+
+// nextpnr-ice40 --up5k --package sg48: utilization after packing, then after routing
+const ICE40_LOG = `Info: Packing constants..
+Info: Device utilisation:
+Info: 	         ICESTORM_LC:   131/ 5280     2%
+Info: 	        ICESTORM_RAM:     0/   30     0%
+Info: 	               SB_IO:     6/   96     6%
+Info: 	               SB_GB:     1/    8    12%
+Info: Placed 137 cells based on constraints.
+Info: Device utilisation:
+Info: 	         ICESTORM_LC:   126/ 5280     2%
+Info: 	        ICESTORM_RAM:     0/   30     0%
+Info: 	               SB_IO:     6/   96     6%
+Info: 	               SB_GB:     2/    8    25%
+Info: Max frequency for clock 'clk$SB_IO_IN_$glb_clk': 71.28 MHz (PASS at 12.00 MHz)
+Info: Max frequency for clock 'pll_out': 38.04 MHz (FAIL at 48.00 MHz)
+Info: Program finished normally.
+`;
+
+const ICE40_REPORT = JSON.stringify({
+  utilization: {
+    ICESTORM_LC: { available: 5280, used: 126 },
+    ICESTORM_RAM: { available: 30, used: 0 },
+    SB_IO: { available: 96, used: 6 },
+    SB_GB: { available: 8, used: 2 },
+  },
+  fmax: {
+    "clk$SB_IO_IN_$glb_clk": { achieved: 71.28, constraint: 12.0 },
+    pll_out: { achieved: 38.04, constraint: 48.0 },
+  },
+});
+
+// nextpnr-ecp5 --25k, no frequency constraint
+const ECP5_LOG = `Info: Device utilisation:
+Info: 	          TRELLIS_IO:     9/  197     4%
+Info: 	        TRELLIS_COMB:   212/24288     0%
+Info: 	          TRELLIS_FF:    64/24288     0%
+Info: Max frequency for clock '$glbnet$clk': 151.33 MHz
+`;
+
+let failures = 0;
+
+function check(label: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    console.log(`  ✓ ${label}`);
+  } else {
+    failures++;
+    console.log(`  ✗ ${label}${detail ? `: ${detail}` : ""}`);
+  }
+}
+
+function testReport(): void {
+  console.log("=== ice40 with --report JSON ===");
+
+  const { utilization, clocks } = parseNextpnrReport(ICE40_REPORT, ICE40_LOG);
+  check("LCs from the report", utilization.ICESTORM_LC?.used === 126 && utilization.ICESTORM_LC?.available === 5280,
+    JSON.stringify(utilization.ICESTORM_LC));
+  check("percent rounded to 0.1", utilization.SB_GB?.percent === 25, JSON.stringify(utilization.SB_GB));
+  check("unused resources kept", utilization.ICESTORM_RAM?.used === 0);
+  check("two clocks", clocks.length === 2, JSON.stringify(clocks));
+  const clk = clocks.find((c) => c.clock === "clk$SB_IO_IN_$glb_clk");
+  check("met clock passes", clk?.achievedMhz === 71.28 && clk?.constraintMhz === 12 && clk?.pass === true, JSON.stringify(clk));
+  const pll = clocks.find((c) => c.clock === "pll_out");
+  check("missed clock fails", pll?.pass === false, JSON.stringify(pll));
+}
+
+function testLogFallback(): void {
+  console.log("\n=== ice40 log only ===");
+
+  const { utilization, clocks } = parseNextpnrReport("", ICE40_LOG);
+  check("post-route utilization wins", utilization.ICESTORM_LC?.used === 126 && utilization.SB_GB?.used === 2,
+    JSON.stringify(utilization));
+  check("clocks from the log", clocks.length === 2 && clocks.some((c) => c.clock === "pll_out" && c.pass === false),
+    JSON.stringify(clocks));
+
+  const truncated = parseNextpnrReport("{\"utilization\": {", ICE40_LOG);
+  check("truncated report falls back to the log", truncated.utilization.ICESTORM_LC?.used === 126);
+}
+
+function testEcp5(): void {
+  console.log("\n=== ECP5 log without a constraint ===");
+
+  const { utilization, clocks } = parseNextpnrReport("", ECP5_LOG);
+  check("counts without padding", utilization.TRELLIS_COMB?.used === 212 && utilization.TRELLIS_COMB?.available === 24288,
+    JSON.stringify(utilization.TRELLIS_COMB));
+  check("one clock", clocks.length === 1, JSON.stringify(clocks));
+  check("no constraint, no verdict", clocks[0]?.achievedMhz === 151.33 && clocks[0]?.constraintMhz === undefined && clocks[0]?.pass === undefined,
+    JSON.stringify(clocks[0]));
+}
+
+testReport();
+testLogFallback();
+testEcp5();
+
+console.log(failures === 0 ? "\nAll nextpnr report checks passed." : `\n${failures} check(s) FAILED.`);
+process.exit(failures === 0 ? 0 : 1);
@@ -0,0 +1,188 @@
+#!/usr/bin/env npx tsx
+/**
+ * Test script: hostile file names must round-trip through the executors
+ *
+ * Every name in the corpus is written, listed, read back and passed
+ * through bashScript/stdin/env. Any name that gets interpreted by a shell
+ * would create a PWNED marker file, which fails the test.
+ *
+ * Runs against the native executor (and the cancellable wrapper around it),
+ * and against the Docker container too when it is running.
+ *
+ * Usage: npx tsx scripts/test-shell-safety.ts
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  NativeExecutor,
+  DockerExecutor,
+  CancellableExecutor,
+  RecordingExecutor,
+  ReplayExecutor,
+  bashScript,
+  yosysQuote,
+  type CommandExecutor,
+} from "../src/executor/index.js";
+
+const MARKER = "PWNED";
+
+const HOSTILE_NAMES = [
+  `$(touch ${MARKER}).v`,
+  `\`touch ${MARKER}\`.v`,
+  `a; touch ${MARKER}.v`,
+  `a && touch ${MARKER}.v`,
+  `a | touch ${MARKER}.v`,
+  `a'$(touch ${MARKER})'.v`,
+  `a"$(touch ${MARKER})".v`,
+  `it's.v`,
+  `say "hi".v`,
+  `back\\slash.v`,
+  `space name.v`,
+  `  leading and trailing  .v`,
+  `-rf.v`,
+  `--help.v`,
+  `new\nline.v`,
+  `tab\tname.v`,
+  `*.v`,
+  `?.v`,
+  `[abc].v`,
+  `{a,b}.v`,
+  `$HOME.v`,
+  `\${IFS}.v`,
+  `~root.v`,
+  `#hash.v`,
+  `>redirect.v`,
+  `<input.v`,
+  `!bang.v`,
+  `%s%n%x.v`,
+  `unicode-ü-日本.v`,
+];
+
+let failures = 0;
+
+function check(label: string, ok: boolean, detail = ""): void {
+  if (ok) {
+    console.log(`  ✓ ${label}`);
+  } else {
+    failures++;
+    console.log(`  ✗ ${label}${detail ? `: ${detail}` : ""}`);
+  }
+}
+
+async function exerciseExecutor(name: string, executor: CommandExecutor, dir: string): Promise<void> {
+  console.log(`\n=== ${name} executor (${dir}) ===`);
+
+  await executor.run(["rm", "-rf", "--", dir]);
+  const mkdir = await executor.run(["mkdir", "-p", "--", dir]);
+  check("create scratch directory", mkdir.success, mkdir.stderr);
+
+  for (const fileName of HOSTILE_NAMES) {
+    const label = JSON.stringify(fileName);
+    const filePath = `${dir}/${fileName}`;
+    const content = `// ${fileName}\nmodule m; endmodule\n`;
+
+    const write = await executor.writeFile(filePath, content);
+    const read = await executor.run(["cat", "--", filePath], { workdir: dir });
+    const viaScript = await executor.run(bashScript('cat -- "$1"', filePath), { workdir: dir });
+    const viaEnv = await executor.run(bashScript('printf "%s" "$MCP4EDA_VALUE"'), {
+      env: { MCP4EDA_VALUE: fileName },
+    });
+    const viaStdin = await executor.run(["cat"], { stdin: fileName });
+
+    check(
+      `${label} round-trips`,
+      write.success &&
+        read.stdout === content &&
+        viaScript.stdout === content &&
+        viaEnv.stdout === fileName &&
+        viaStdin.stdout === fileName,
+      write.stderr || read.stderr || viaScript.stderr || viaEnv.stderr || viaStdin.stderr
+    );
+  }
+
+  // Every name must come back from a directory listing unchanged
+  const listing = await executor.run(["find", dir, "-maxdepth", "1", "-type", "f", "-printf", "%f\\0"]);
+  const listed = new Set(listing.stdout.split("\0").filter(Boolean));
+  const missing = HOSTILE_NAMES.filter((f) => !listed.has(f));
+  check("directory listing returns every name", missing.length === 0, JSON.stringify(missing));
+
+  // Nothing may have been executed, here or in the working directory
+  const marker = await executor.run(
+    ["find", dir, ".", "/tmp", "-maxdepth", "1", "-name", `${MARKER}*`],
+    { workdir: dir }
+  );
+  check("no injected command ran", marker.stdout.trim() === "", marker.stdout.trim());
+
+  await executor.run(["rm", "-rf", "--", dir]);
+}
+
+async function testReplay(dir: string): Promise<void> {
+  console.log("\n=== Record/replay ===");
+
+  const cassette = path.join(dir, "cassette.json");
+  const recorder = new RecordingExecutor(new NativeExecutor(), cassette);
+  for (const fileName of HOSTILE_NAMES) {
+    await recorder.run(["printf", "%s", fileName]);
+  }
+
+  const replay = new ReplayExecutor(cassette);
+  let matched = 0;
+  for (const fileName of HOSTILE_NAMES) {
+    const result = await replay.run(["printf", "%s", fileName]);
+    if (result.success && result.stdout === fileName) matched++;
+  }
+  check("every argv replays from the cassette", matched === HOSTILE_NAMES.length, `${matched}/${HOSTILE_NAMES.length}`);
+}
+
+function testYosysQuote(): void {
+  console.log("\n=== Yosys script quoting ===");
+
+  const rejected = HOSTILE_NAMES.filter((f) => /["\x00-\x1f]/.test(f));
+  for (const fileName of HOSTILE_NAMES) {
+    let quoted: string | undefined;
+    try {
+      quoted = yosysQuote(fileName);
+    } catch {
+      // Rejected
+    }
+    const shouldReject = rejected.includes(fileName);
+    check(
+      `${JSON.stringify(fileName)} ${shouldReject ? "rejected" : "quoted"}`,
+      shouldReject ? quoted === undefined : quoted === `"${fileName}"`
+    );
+  }
+}
+
+async function main(): Promise<void> {
+  const scratch = fs.mkdtempSync(path.join(os.tmpdir(), "mcp4eda-shell-safety-"));
+
+  try {
+    await exerciseExecutor("native", new NativeExecutor(), path.join(scratch, "native"));
+    await exerciseExecutor(
+      "cancellable(native)",
+      new CancellableExecutor(new NativeExecutor(), "shell_safety"),
+      path.join(scratch, "cancellable")
+    );
+    await testReplay(scratch);
+    testYosysQuote();
+
+    const docker = new DockerExecutor();
+    if ((await docker.run(["true"], { timeout: 10000 })).success) {
+      await exerciseExecutor("docker", docker, "/tmp/mcp4eda-shell-safety");
+    } else {
+      console.log("\n(Docker container not running - skipping docker executor)");
+    }
+  } finally {
+    fs.rmSync(scratch, { recursive: true, force: true });
+  }
+
+  console.log(failures === 0 ? "\nAll shell-safety checks passed." : `\n${failures} check(s) FAILED.`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,13 @@
+/**
+ * Cache Module
+ *
+ * Content-hash result cache for synthesis and OpenLane runs, so repeated
+ * requests with identical inputs and tool versions skip the flow.
+ */
+
+export {
+  resultCache,
+  type CachedTool,
+  type CacheStats,
+  type EvictOptions,
+} from "./result-cache.js";
@@ -0,0 +1,191 @@
+/**
+ * Result Cache - Reuse synthesis and OpenLane results for identical inputs
+ *
+ * The key is a hash of the run's input snapshot (RTL, scripts, configs),
+ * the tool parameters and the EDA tool versions. Entries live in the
+ * result_cache table; output files are kept in the snapshot store.
+ */
+
+import { createHash } from "crypto";
+import { database } from "../db/database.js";
+import { projectManager } from "../files/project-manager.js";
+import { snapshotStore } from "../files/snapshot-store.js";
+import type { ResultCacheEntry, RunSnapshot } from "../types/project.js";
+
+// Bump when the stored result format changes to invalidate old entries
+const KEY_VERSION = 1;
+
+export type CachedTool = ResultCacheEntry["tool"];
+
+/**
+ * Cache statistics
+ */
+export interface CacheStats {
+  entries: number;
+  totalHits: number;
+  totalBytes: number;
+  byTool: Record<CachedTool, { entries: number; hits: number; bytes: number }>;
+  sessionHits: number;     // Since the server started
+  sessionMisses: number;
+  oldestEntry?: Date;
+  newestEntry?: Date;
+}
+
+/**
+ * Eviction options (no filter evicts everything)
+ */
+export interface EvictOptions {
+  tool?: CachedTool;
+  olderThanDays?: number;  // Created more than N days ago
+  unusedForDays?: number;  // Not hit in the last N days
+}
+
+/**
+ * ResultCache - Singleton cache of successful runs
+ */
+class ResultCache {
+  private sessionHits = 0;
+  private sessionMisses = 0;
+
+  /**
+   * Compute the cache key for a run, or null if the tool versions are unknown
+   * (without them a hit could silently come from a different toolchain)
+   */
+  keyFor(tool: CachedTool, snapshot: RunSnapshot, params: Record<string, unknown>): string | null {
+    if (Object.keys(snapshot.toolVersions).length === 0) return null;
+
+    const material = {
+      version: KEY_VERSION,
+      tool,
+      inputs: snapshot.files.map((file) => [file.path, file.sha256]).sort(),
+      params: Object.entries(params).filter(([, value]) => value !== undefined).sort(),
+      toolVersions: Object.entries(snapshot.toolVersions).sort(),
+    };
+
+    return createHash("sha256").update(JSON.stringify(material)).digest("hex");
+  }
+
+  /**
+   * Look up an entry (does not count as a hit until recordHit)
+   */
+  get(key: string): ResultCacheEntry | null {
+    return database.getCacheEntry(key);
+  }
+
+  /**
+   * Count a hit for an entry that was served
+   */
+  recordHit(key: string): void {
+    this.sessionHits++;
+    database.recordCacheHit(key);
+  }
+
+  /**
+   * Count a lookup that had to run the tool
+   */
+  recordMiss(): void {
+    this.sessionMisses++;
+  }
+
+  /**
+   * Store the result of a successful run
+   * artifactPaths are project-relative output files restored on a hit.
+   */
+  store(
+    tool: CachedTool,
+    key: string,
+    runId: string,
+    projectId: string,
+    result: Record<string, any>,
+    artifactPaths: string[] = []
+  ): void {
+    try {
+      const artifacts = projectManager.storeFiles(projectId, artifactPaths);
+      const sizeBytes =
+        JSON.stringify(result).length + artifacts.reduce((total, file) => total + file.size, 0);
+
+      database.saveCacheEntry({ key, tool, runId, result, artifacts, sizeBytes });
+    } catch (error) {
+      console.error(`Failed to cache ${tool} result of run ${runId}:`, error);
+    }
+  }
+
+  /**
+   * Write an entry's output files into a project
+   * Returns false (and drops the entry) if they can no longer be restored.
+   */
+  restoreArtifacts(entry: ResultCacheEntry, projectId: string): boolean {
+    try {
+      projectManager.restoreFiles(projectId, entry.artifacts);
+      return true;
+    } catch (error) {
+      console.error(`Dropping cache entry ${entry.key}:`, error);
+      this.invalidate(entry.key);
+      return false;
+    }
+  }
+
+  /**
+   * Drop a single entry (e.g. its artifacts are gone)
+   */
+  invalidate(key: string): void {
+    database.deleteCacheEntries([key]);
+  }
+
+  /**
+   * Evict entries and free stored artifacts nothing else refers to
+   */
+  evict(options: EvictOptions = {}): { entriesEvicted: number; bytesFreed: number } {
+    const now = Date.now();
+    const day = 24 * 60 * 60 * 1000;
+
+    const evicted = database.getCacheEntries(options.tool).filter((entry) => {
+      if (options.olderThanDays !== undefined && now - entry.createdAt.getTime() < options.olderThanDays * day) {
+        return false;
+      }
+      if (options.unusedForDays !== undefined) {
+        const lastUsed = (entry.lastHitAt || entry.createdAt).getTime();
+        if (now - lastUsed < options.unusedForDays * day) return false;
+      }
+      return true;
+    });
+
+    const entriesEvicted = database.deleteCacheEntries(evicted.map((entry) => entry.key));
+    const { bytesFreed } = snapshotStore.prune(database.getSnapshotHashes());
+
+    return { entriesEvicted, bytesFreed };
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): CacheStats {
+    const entries = database.getCacheEntries();
+    const byTool: CacheStats["byTool"] = {
+      synthesis: { entries: 0, hits: 0, bytes: 0 },
+      openlane: { entries: 0, hits: 0, bytes: 0 },
+    };
+
+    for (const entry of entries) {
+      const stats = byTool[entry.tool];
+      if (!stats) continue;
+      stats.entries++;
+      stats.hits += entry.hitCount;
+      stats.bytes += entry.sizeBytes;
+    }
+
+    return {
+      entries: entries.length,
+      totalHits: entries.reduce((total, entry) => total + entry.hitCount, 0),
+      totalBytes: entries.reduce((total, entry) => total + entry.sizeBytes, 0),
+      byTool,
+      sessionHits: this.sessionHits,
+      sessionMisses: this.sessionMisses,
+      oldestEntry: entries[0]?.createdAt,
+      newestEntry: entries[entries.length - 1]?.createdAt,
+    };
+  }
+}
+
+// Export singleton instance
+export const resultCache = new ResultCache();
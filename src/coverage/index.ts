@@ -0,0 +1,38 @@
+/**
+ * Coverage Module
+ *
+ * Code and toggle coverage of simulations: Verilator coverage.dat
+ * parsing, toggle coverage derived from a VCD for Icarus, merging across
+ * regression tests, per-module/per-line reports and the project's
+ * coverage history.
+ */
+
+export {
+  parseCoverageDat,
+  formatCoverageDat,
+  coverageKey,
+  mergeCoverage,
+  COVERAGE_KINDS,
+  type CoverageKind,
+  type CoveragePoint,
+} from "./points.js";
+
+export { toggleCoverageFromVcd } from "./toggle.js";
+
+export {
+  summarizeCoverage,
+  formatCoverageTotals,
+  formatCoverageReport,
+  type CoverageTotals,
+  type CoverageByKind,
+  type ModuleCoverage,
+  type FileCoverage,
+  type CoverageSummary,
+} from "./report.js";
+
+export {
+  recordCoverage,
+  COVERAGE_REPORT_FILE,
+  COVERAGE_DAT_FILE,
+  type CoverageResult,
+} from "./record.js";
@@ -0,0 +1,117 @@
+/**
+ * Coverage Points - Verilator coverage.dat and merging
+ *
+ * A coverage point is one thing a test can hit: a line or branch, a
+ * 0->1 or 1->0 toggle of a signal bit, or a user cover property. Points
+ * are identified by their key, so the results of several tests merge by
+ * adding up the counts of equal keys, as verilator_coverage --write does.
+ */
+
+export type CoverageKind = "line" | "toggle" | "user" | "expression";
+
+export const COVERAGE_KINDS: CoverageKind[] = ["line", "toggle", "user", "expression"];
+
+/**
+ * One coverage point with its hit count
+ */
+export interface CoveragePoint {
+  key: string;                  // Identifies the point across tests (coverage.dat key)
+  kind: CoverageKind;
+  module: string;               // Module (Verilator) or instance scope (VCD toggles)
+  file?: string;                // Source as passed to the simulator (relative to src/)
+  lines?: number[];             // Source lines the point covers
+  name: string;                 // e.g. "if", "block", "count[3] 0->1", or the cover property
+  hierarchy?: string;
+  count: number;
+}
+
+// coverage.dat pages; branch points belong to line coverage, as in verilator_coverage
+const PAGE_KINDS: Record<string, CoverageKind> = {
+  v_line: "line",
+  v_branch: "line",
+  v_toggle: "toggle",
+  v_user: "user",
+  v_expr: "expression",
+};
+
+const DAT_HEADER = "# SystemC::Coverage-3";
+
+/**
+ * Parse a Verilator coverage.dat: lines of C '<key>' <count>, where the key
+ * holds \x01-separated name\x02value fields (f file, l line, S line ranges,
+ * page v_<kind>/<module>, o comment, h hierarchy)
+ */
+export function parseCoverageDat(text: string): CoveragePoint[] {
+  const points: CoveragePoint[] = [];
+  for (const line of text.split("\n")) {
+    const match = line.match(/^C '(.*)' (\d+)\s*$/);
+    if (!match) continue;
+    const fields = parseKey(match[1]);
+    const [page, module = ""] = (fields.page || "").split("/");
+    points.push({
+      key: match[1],
+      kind: PAGE_KINDS[page] || "user",
+      module,
+      file: fields.f,
+      lines: fields.S ? parseLineRanges(fields.S) : fields.l ? [parseInt(fields.l, 10)] : undefined,
+      name: fields.o || "",
+      hierarchy: fields.h,
+      count: parseInt(match[2], 10),
+    });
+  }
+  return points;
+}
+
+/**
+ * Write points in coverage.dat format (readable by verilator_coverage)
+ */
+export function formatCoverageDat(points: CoveragePoint[]): string {
+  return [DAT_HEADER, ...points.map((point) => `C '${point.key}' ${point.count}`), ""].join("\n");
+}
+
+/**
+ * Key in coverage.dat form for points that do not come from Verilator
+ */
+export function coverageKey(fields: Record<string, string>): string {
+  return Object.entries(fields).map(([name, value]) => `\x01${name}\x02${value}`).join("") + "\x01";
+}
+
+/**
+ * Merge the points of several tests: counts of equal keys are added up
+ */
+export function mergeCoverage(sets: CoveragePoint[][]): CoveragePoint[] {
+  const merged = new Map<string, CoveragePoint>();
+  for (const points of sets) {
+    for (const point of points) {
+      const existing = merged.get(point.key);
+      if (existing) {
+        existing.count += point.count;
+      } else {
+        merged.set(point.key, { ...point });
+      }
+    }
+  }
+  return [...merged.values()];
+}
+
+function parseKey(key: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const field of key.split("\x01")) {
+    const separator = field.indexOf("\x02");
+    if (separator > 0) fields[field.slice(0, separator)] = field.slice(separator + 1);
+  }
+  return fields;
+}
+
+/**
+ * "12-14,16" -> [12, 13, 14, 16]
+ */
+function parseLineRanges(ranges: string): number[] {
+  const lines: number[] = [];
+  for (const range of ranges.split(",")) {
+    const [first, last = first] = range.split("-").map((n) => parseInt(n, 10));
+    if (!Number.isInteger(first) || !Number.isInteger(last)) continue;
+    for (let line = first; line <= last && line - first < 10000; line++) lines.push(line);
+  }
+  return lines;
+}
@@ -0,0 +1,81 @@
+/**
+ * Coverage Recording - Reports and history of a run's coverage
+ *
+ * Writes the annotated text report (and the points as coverage.dat) to
+ * the run's output directory and adds the totals to the project's
+ * coverage history, which the tapeout checklist compares with its
+ * thresholds.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { projectManager } from "../files/project-manager.js";
+import { pathResolver } from "../files/path-resolver.js";
+import { fileManager } from "../files/file-manager.js";
+import type { CoverageSource } from "../types/project.js";
+import { formatCoverageDat, type CoveragePoint } from "./points.js";
+import { summarizeCoverage, formatCoverageReport, type CoverageSummary } from "./report.js";
+
+export const COVERAGE_REPORT_FILE = "coverage_report.txt";
+export const COVERAGE_DAT_FILE = "coverage.dat";
+
+/**
+ * Coverage of a run, as reported by simulate_verilog and run_regression
+ */
+export interface CoverageResult extends CoverageSummary {
+  source: CoverageSource;
+  reportFile: string;           // Project-relative annotated report
+  datFile?: string;             // Project-relative coverage.dat (merged points of a regression)
+}
+
+/**
+ * Summarize points, write the report under output/ (or output/<dir>/) and optionally save the history entry
+ */
+export function recordCoverage(options: {
+  projectId: string;
+  runId: string;
+  source: CoverageSource;
+  points: CoveragePoint[];
+  title: string;
+  dir?: string;                 // Subdirectory of output/
+  writeDat?: boolean;           // Also write the points as coverage.dat
+  saveHistory?: boolean;
+}): CoverageResult {
+  const { projectId, runId, source, points } = options;
+  const prefix = options.dir ? `${options.dir}/` : "";
+  const summary = summarizeCoverage(points);
+
+  const readSource = (file: string): string | null => {
+    const hostFile = pathResolver.getFileHostPath(projectId, file);
+    return existsSync(hostFile) ? readFileSync(hostFile, "utf-8") : null;
+  };
+  fileManager.writeFile(
+    projectId,
+    `${prefix}${COVERAGE_REPORT_FILE}`,
+    formatCoverageReport(options.title, points, summary, readSource),
+    "report",
+    runId
+  );
+  if (options.writeDat) {
+    fileManager.writeFile(projectId, `${prefix}${COVERAGE_DAT_FILE}`, formatCoverageDat(points), "report", runId);
+  }
+
+  if (options.saveHistory) {
+    const { line, toggle, user, expression } = summary.totals;
+    projectManager.saveCoverageMetrics(runId, {
+      source,
+      linePct: line?.percent,
+      togglePct: toggle?.percent,
+      userPct: user?.percent,
+      expressionPct: expression?.percent,
+      coveredPoints: points.filter((p) => p.count > 0).length,
+      totalPoints: points.length,
+    });
+  }
+
+  return {
+    source,
+    ...summary,
+    reportFile: `output/${prefix}${COVERAGE_REPORT_FILE}`,
+    datFile: options.writeDat ? `output/${prefix}${COVERAGE_DAT_FILE}` : undefined,
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * Coverage Reports - Totals per kind, module and source line
+ *
+ * A source line is covered when every line or branch point on it was
+ * hit, so a line with an untaken branch arm is reported as uncovered.
+ * The text report annotates each design file with its line counts and
+ * marks uncovered lines, then lists untoggled bits and unhit cover points.
+ */
+
+import { formatTable } from "../waveform/index.js";
+import { COVERAGE_KINDS, type CoverageKind, type CoveragePoint } from "./points.js";
+
+// Untoggled bits and unhit points listed per module in the text report
+const MAX_LISTED_POINTS = 100;
+
+export interface CoverageTotals {
+  covered: number;
+  total: number;
+  percent: number;
+}
+
+export type CoverageByKind = Partial<Record<CoverageKind, CoverageTotals>>;
+
+export interface ModuleCoverage {
+  module: string;
+  coverage: CoverageByKind;
+}
+
+export interface FileCoverage {
+  file: string;                 // Project-relative, e.g. src/fifo.v
+  linesHit: number;
+  lines: number;                // Lines with line or branch points
+  uncoveredLines: number[];
+}
+
+export interface CoverageSummary {
+  totals: CoverageByKind;
+  modules: ModuleCoverage[];
+  files: FileCoverage[];
+}
+
+/**
+ * Totals per kind, per module, and line coverage per file
+ */
+export function summarizeCoverage(points: CoveragePoint[]): CoverageSummary {
+  const byModule = new Map<string, CoveragePoint[]>();
+  for (const point of points) {
+    const list = byModule.get(point.module);
+    if (list) list.push(point);
+    else byModule.set(point.module, [point]);
+  }
+
+  const files = [...lineCounts(points)].map(([file, counts]): FileCoverage => {
+    const uncoveredLines = [...counts].filter(([, count]) => count === 0).map(([line]) => line).sort((a, b) => a - b);
+    return { file, linesHit: counts.size - uncoveredLines.length, lines: counts.size, uncoveredLines };
+  });
+
+  return {
+    totals: totalsByKind(points),
+    modules: [...byModule]
+      .map(([module, list]) => ({ module, coverage: totalsByKind(list) }))
+      .sort((a, b) => a.module.localeCompare(b.module)),
+    files: files.sort((a, b) => a.file.localeCompare(b.file)),
+  };
+}
+
+/**
+ * Percent of points hit for the kinds present, e.g. "line 87.5% (35/40)"
+ */
+export function formatCoverageTotals(totals: CoverageByKind): string {
+  return COVERAGE_KINDS.filter((kind) => totals[kind])
+    .map((kind) => `${kind} ${totals[kind]!.percent}% (${totals[kind]!.covered}/${totals[kind]!.total})`)
+    .join(", ") || "no coverage points";
+}
+
+/**
+ * Text report: summary, modules, annotated design files, untoggled bits and unhit cover points
+ */
+export function formatCoverageReport(
+  title: string,
+  points: CoveragePoint[],
+  summary: CoverageSummary,
+  readSource: (file: string) => string | null
+): string {
+  const kinds = COVERAGE_KINDS.filter((kind) => summary.totals[kind]);
+  const cell = (totals?: CoverageTotals) => (totals ? `${totals.percent}% (${totals.covered}/${totals.total})` : "-");
+  const lines = [
+    `Coverage report: ${title}`,
+    "",
+    formatTable(["scope", ...kinds], [
+      ["total", ...kinds.map((kind) => cell(summary.totals[kind]))],
+      ...summary.modules.map((m) => [m.module, ...kinds.map((kind) => cell(m.coverage[kind]))]),
+    ]),
+  ];
+
+  // Annotated sources; ">>" marks lines with an unhit point
+  const counts = lineCounts(points);
+  for (const file of summary.files) {
+    const source = readSource(file.file);
+    lines.push("", `== ${file.file}: ${file.linesHit}/${file.lines} lines covered ==`);
+    if (source === null) {
+      lines.push(`(source not readable; uncovered lines: ${file.uncoveredLines.join(", ") || "none"})`);
+      continue;
+    }
+    const fileCounts = counts.get(file.file)!;
+    source.split("\n").forEach((text, index) => {
+      const count = fileCounts.get(index + 1);
+      const marker = count === 0 ? ">>" : "  ";
+      lines.push(`${marker}${count === undefined ? "".padStart(8) : String(count).padStart(8)} | ${text}`);
+    });
+  }
+
+  for (const [kind, heading] of [["toggle", "Untoggled bits"], ["user", "Unhit cover points"], ["expression", "Unhit expression terms"]] as const) {
+    const missed = points.filter((p) => p.kind === kind && p.count === 0);
+    if (missed.length === 0) continue;
+    lines.push("", `== ${heading} ==`);
+    const byModule = new Map<string, string[]>();
+    for (const point of missed) {
+      const label = point.hierarchy && point.hierarchy !== point.module ? `${point.name} (${point.hierarchy})` : point.name;
+      byModule.set(point.module, [...(byModule.get(point.module) || []), label]);
+    }
+    for (const [module, names] of byModule) {
+      const shown = names.slice(0, MAX_LISTED_POINTS).join(", ");
+      lines.push(`${module}: ${shown}${names.length > MAX_LISTED_POINTS ? `, ... (${names.length - MAX_LISTED_POINTS} more)` : ""}`);
+    }
+  }
+
+  lines.push("");
+  return lines.join("\n");
+}
+
+function totalsByKind(points: CoveragePoint[]): CoverageByKind {
+  const totals: CoverageByKind = {};
+  for (const point of points) {
+    const entry = (totals[point.kind] ||= { covered: 0, total: 0, percent: 0 });
+    entry.total++;
+    if (point.count > 0) entry.covered++;
+  }
+  for (const entry of Object.values(totals)) {
+    entry.percent = Math.round((entry.covered / entry.total) * 1000) / 10;
+  }
+  return totals;
+}
+
+/**
+ * Per file and line: the lowest count of the line and branch points on it
+ */
+function lineCounts(points: CoveragePoint[]): Map<string, Map<number, number>> {
+  const files = new Map<string, Map<number, number>>();
+  for (const point of points) {
+    if (point.kind !== "line" || !point.file || !point.lines) continue;
+    let counts = files.get(point.file);
+    if (!counts) files.set(point.file, (counts = new Map()));
+    for (const line of point.lines) {
+      const current = counts.get(line);
+      counts.set(line, current === undefined ? point.count : Math.min(current, point.count));
+    }
+  }
+  return files;
+}
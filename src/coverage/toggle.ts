@@ -0,0 +1,63 @@
+/**
+ * Toggle Coverage from a VCD - for simulators without coverage support
+ *
+ * Every bit of every signal below the testbench (tb.dut.* and deeper)
+ * gets a 0->1 and a 1->0 point, counted from the dumped value changes.
+ * Signals the testbench did not dump ($dumpvars scope/depth) are not
+ * covered, so dump the whole design for a complete result.
+ */
+
+import { parseVcdHeader, readVcdChanges } from "../waveform/index.js";
+import { coverageKey, type CoveragePoint } from "./points.js";
+
+// Variables that are state or nets; parameters, reals and events have no bits to toggle
+const TOGGLE_TYPES = new Set(["wire", "reg", "logic", "bit", "tri", "wand", "wor", "tri0", "tri1", "supply0", "supply1"]);
+
+/**
+ * Toggle points of the design signals in a VCD
+ */
+export function toggleCoverageFromVcd(text: string): CoveragePoint[] {
+  const header = parseVcdHeader(text);
+  // Signals of the testbench module itself (tb.clk) are not part of the design
+  const signals = header.signals.filter((s) => TOGGLE_TYPES.has(s.type) && s.name.split(".").length > 2);
+  const changes = readVcdChanges(text, header, new Set(signals.map((s) => s.id)));
+
+  const points: CoveragePoint[] = [];
+  for (const signal of signals) {
+    const trace = changes.traces.get(signal.id)!;
+    const rises = new Array<number>(signal.width).fill(0);
+    const falls = new Array<number>(signal.width).fill(0);
+    for (let i = 1; i < trace.values.length; i++) {
+      const previous = trace.values[i - 1];
+      const value = trace.values[i];
+      if (previous.length !== value.length || value.length !== signal.width) continue;
+      // Strings are MSB first
+      for (let bit = 0; bit < value.length; bit++) {
+        if (previous[bit] === "0" && value[bit] === "1") rises[value.length - 1 - bit]++;
+        else if (previous[bit] === "1" && value[bit] === "0") falls[value.length - 1 - bit]++;
+      }
+    }
+
+    const dot = signal.name.lastIndexOf(".");
+    const scope = signal.name.slice(0, dot);
+    const base = signal.name.slice(dot + 1);
+    // Bit numbers follow the declared range, e.g. [8:1]
+    const range = signal.range?.match(/\[(\d+):(\d+)\]/);
+    const low = range ? Math.min(parseInt(range[1], 10), parseInt(range[2], 10)) : 0;
+    for (let bit = 0; bit < signal.width; bit++) {
+      const bitName = signal.width > 1 || range ? `${base}[${low + bit}]` : base;
+      for (const [direction, count] of [["0->1", rises[bit]], ["1->0", falls[bit]]] as const) {
+        const name = `${bitName} ${direction}`;
+        points.push({
+          key: coverageKey({ page: `v_toggle/${scope}`, o: name, h: scope }),
+          kind: "toggle",
+          module: scope,
+          name,
+          hierarchy: scope,
+          count,
+        });
+      }
+    }
+  }
+  return points;
+}
@@ -11,6 +11,10 @@ import {
   Run,
   TrackedFile,
   PPAMetrics,
+  PPAStage,
+  CoverageMetrics,
+  ResultCacheEntry,
+  RunSnapshot,
   RunType,
   RunStatus,
   FileType,
@@ -24,6 +28,10 @@ const __dirname = dirname(__filename);
 // Calculate the MCP4EDA root directory (two levels up from src/db/)
 const MCP4EDA_ROOT = join(__dirname, "..", "..");
 
+// Allowed values for the runs table CHECK constraints (keep in sync with schema.sql)
+const RUN_TYPES: RunType[] = ["synthesis", "simulation", "openlane", "tuning", "signoff", "eco", "lint", "equivalence", "formal", "fpga", "regression", "gate_level"];
+const RUN_STATUSES: RunStatus[] = ["pending", "running", "success", "failed", "cancelled"];
+
 /**
  * Database manager singleton
  */
@@ -37,6 +45,13 @@ class DatabaseManager {
     this.dbPath = process.env.MCP4EDA_DB_PATH || join(MCP4EDA_ROOT, "mcp4eda.db");
   }
 
+  /**
+   * Get the database file path
+   */
+  getDbPath(): string {
+    return this.dbPath;
+  }
+
   /**
    * Get database instance, creating if needed
    */
@@ -82,6 +97,7 @@ class DatabaseManager {
           started_at DATETIME,
           completed_at DATETIME,
           parent_run_id TEXT,
+          job_tool TEXT,
           FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
           FOREIGN KEY (parent_run_id) REFERENCES runs(id) ON DELETE SET NULL
         );
@@ -100,6 +116,7 @@ class DatabaseManager {
         CREATE TABLE IF NOT EXISTS ppa_metrics (
           id INTEGER PRIMARY KEY AUTOINCREMENT,
           run_id TEXT NOT NULL,
+          stage TEXT,
           area_um2 REAL,
           power_mw REAL,
           frequency_mhz REAL,
@@ -108,6 +125,41 @@ class DatabaseManager {
           cell_count INTEGER,
           FOREIGN KEY (run_id) REFERENCES runs(id) ON DELETE CASCADE
         );
+
+        CREATE TABLE IF NOT EXISTS coverage_metrics (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          run_id TEXT NOT NULL,
+          source TEXT NOT NULL,
+          line_pct REAL,
+          toggle_pct REAL,
+          user_pct REAL,
+          expression_pct REAL,
+          covered_points INTEGER NOT NULL,
+          total_points INTEGER NOT NULL,
+          FOREIGN KEY (run_id) REFERENCES runs(id) ON DELETE CASCADE
+        );
+
+        CREATE TABLE IF NOT EXISTS run_snapshots (
+          run_id TEXT PRIMARY KEY,
+          files TEXT NOT NULL,
+          tool_versions TEXT,
+          executor TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (run_id) REFERENCES runs(id) ON DELETE CASCADE
+        );
+
+        CREATE TABLE IF NOT EXISTS result_cache (
+          cache_key TEXT PRIMARY KEY,
+          tool TEXT NOT NULL,
+          run_id TEXT NOT NULL,
+          result TEXT NOT NULL,
+          artifacts TEXT NOT NULL,
+          size_bytes INTEGER DEFAULT 0,
+          hit_count INTEGER DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          last_hit_at DATETIME,
+          FOREIGN KEY (run_id) REFERENCES runs(id) ON DELETE CASCADE
+        );
       `);
       // Migration: add parent_run_id column if it doesn't exist
       this.migrateSchema();
@@ -126,9 +178,79 @@ class DatabaseManager {
       if (!hasParentRunId) {
         this.db!.exec("ALTER TABLE runs ADD COLUMN parent_run_id TEXT REFERENCES runs(id) ON DELETE SET NULL");
       }
+
+      // Check if job_tool column exists (background job queue)
+      const hasJobTool = tableInfo.some((col: any) => col.name === "job_tool");
+
+      if (!hasJobTool) {
+        this.db!.exec("ALTER TABLE runs ADD COLUMN job_tool TEXT");
+      }
+      this.db!.exec("CREATE INDEX IF NOT EXISTS idx_runs_job_tool ON runs(job_tool)");
+
+      // Check if ppa_metrics has the stage column (pre-layout estimates)
+      const ppaInfo = this.db!.prepare("PRAGMA table_info(ppa_metrics)").all() as any[];
+      if (!ppaInfo.some((col: any) => col.name === "stage")) {
+        this.db!.exec("ALTER TABLE ppa_metrics ADD COLUMN stage TEXT");
+      }
     } catch (error) {
       // Ignore migration errors - column might already exist
     }
+
+    try {
+      this.migrateRunConstraints();
+    } catch (error) {
+      console.error("Failed to migrate runs table constraints:", error);
+    }
+  }
+
+  /**
+   * Rebuild the runs table if its CHECK constraints predate newer run types or statuses
+   * (SQLite cannot alter a constraint in place)
+   */
+  private migrateRunConstraints(): void {
+    const db = this.db!;
+    const row = db
+      .prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'runs'")
+      .get() as { sql: string } | undefined;
+
+    if (!row || !/CHECK\s*\(\s*run_type/i.test(row.sql)) return;
+    const outdated = [...RUN_TYPES, ...RUN_STATUSES].some((value) => !row.sql.includes(`'${value}'`));
+    if (!outdated) return;
+
+    const columns = (db.prepare("PRAGMA table_info(runs)").all() as any[]).map((col: any) => col.name as string);
+    const known = ["id", "project_id", "run_type", "status", "config", "results", "started_at", "completed_at", "parent_run_id", "job_tool"];
+    const copied = known.filter((name) => columns.includes(name)).join(", ");
+    const list = (values: string[]) => values.map((value) => `'${value}'`).join(", ");
+
+    db.pragma("foreign_keys = OFF");
+    try {
+      db.transaction(() => {
+        db.exec(`
+          CREATE TABLE runs_new (
+            id TEXT PRIMARY KEY,
+            project_id TEXT NOT NULL,
+            run_type TEXT NOT NULL CHECK (run_type IN (${list(RUN_TYPES)})),
+            status TEXT NOT NULL CHECK (status IN (${list(RUN_STATUSES)})),
+            config TEXT,
+            results TEXT,
+            started_at DATETIME,
+            completed_at DATETIME,
+            parent_run_id TEXT,
+            job_tool TEXT,
+            FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
+            FOREIGN KEY (parent_run_id) REFERENCES runs(id) ON DELETE SET NULL
+          );
+          INSERT INTO runs_new (${copied}) SELECT ${copied} FROM runs;
+          DROP TABLE runs;
+          ALTER TABLE runs_new RENAME TO runs;
+          CREATE INDEX IF NOT EXISTS idx_runs_project_id ON runs(project_id);
+          CREATE INDEX IF NOT EXISTS idx_runs_status ON runs(status);
+          CREATE INDEX IF NOT EXISTS idx_runs_job_tool ON runs(job_tool);
+        `);
+      })();
+    } finally {
+      db.pragma("foreign_keys = ON");
+    }
   }
 
   /**
@@ -242,8 +364,8 @@ class DatabaseManager {
     const now = new Date().toISOString();
 
     const stmt = db.prepare(`
-      INSERT INTO runs (id, project_id, run_type, status, config, started_at, parent_run_id)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO runs (id, project_id, run_type, status, config, started_at, parent_run_id, job_tool)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
@@ -253,7 +375,8 @@ class DatabaseManager {
       "pending",
       input.config ? JSON.stringify(input.config) : null,
       now,
-      input.parentRunId || null
+      input.parentRunId || null,
+      input.jobTool || null
     );
 
     return {
@@ -264,6 +387,7 @@ class DatabaseManager {
       config: input.config,
       startedAt: new Date(now),
       parentRunId: input.parentRunId,
+      jobTool: input.jobTool,
     };
   }
 
@@ -300,7 +424,7 @@ class DatabaseManager {
 
     if (status === "running") {
       db.prepare("UPDATE runs SET status = ?, started_at = ? WHERE id = ?").run(status, now, id);
-    } else if (status === "success" || status === "failed") {
+    } else if (status === "success" || status === "failed" || status === "cancelled") {
       db.prepare("UPDATE runs SET status = ?, results = ?, completed_at = ? WHERE id = ?").run(
         status,
         results ? JSON.stringify(results) : null,
@@ -314,6 +438,30 @@ class DatabaseManager {
     return this.getRun(id);
   }
 
+  /**
+   * Get runs submitted through the job queue, newest first
+   */
+  getJobRuns(filter: { projectId?: string; statuses?: RunStatus[]; limit?: number } = {}): Run[] {
+    const db = this.getDb();
+    const clauses = ["job_tool IS NOT NULL"];
+    const params: any[] = [];
+
+    if (filter.projectId) {
+      clauses.push("project_id = ?");
+      params.push(filter.projectId);
+    }
+    if (filter.statuses && filter.statuses.length > 0) {
+      clauses.push(`status IN (${filter.statuses.map(() => "?").join(", ")})`);
+      params.push(...filter.statuses);
+    }
+
+    const rows = db
+      .prepare(`SELECT * FROM runs WHERE ${clauses.join(" AND ")} ORDER BY started_at DESC LIMIT ?`)
+      .all(...params, filter.limit || 50) as any[];
+
+    return rows.map(this.rowToRun);
+  }
+
   // ==================== File Operations ====================
 
   /**
@@ -372,12 +520,13 @@ class DatabaseManager {
     const db = this.getDb();
 
     const stmt = db.prepare(`
-      INSERT INTO ppa_metrics (run_id, area_um2, power_mw, frequency_mhz, wns_ns, tns_ns, cell_count)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO ppa_metrics (run_id, stage, area_um2, power_mw, frequency_mhz, wns_ns, tns_ns, cell_count)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     const result = stmt.run(
       runId,
+      metrics.stage || "layout",
       metrics.areaUm2 || null,
       metrics.powerMw || null,
       metrics.frequencyMhz || null,
@@ -390,21 +539,25 @@ class DatabaseManager {
       id: result.lastInsertRowid as number,
       runId,
       ...metrics,
+      stage: metrics.stage || "layout",
     };
   }
 
   /**
-   * Get PPA metrics for a run
+   * Get PPA metrics for a run: its first row, or the latest row of a stage
    */
-  getPPAMetrics(runId: string): PPAMetrics | null {
+  getPPAMetrics(runId: string, stage?: PPAStage): PPAMetrics | null {
     const db = this.getDb();
-    const row = db.prepare("SELECT * FROM ppa_metrics WHERE run_id = ?").get(runId) as any;
+    const row = (stage
+      ? db.prepare("SELECT * FROM ppa_metrics WHERE run_id = ? AND COALESCE(stage, 'layout') = ? ORDER BY id DESC").get(runId, stage)
+      : db.prepare("SELECT * FROM ppa_metrics WHERE run_id = ? ORDER BY id").get(runId)) as any;
 
     if (!row) return null;
 
     return {
       id: row.id,
       runId: row.run_id,
+      stage: row.stage || "layout",  // Rows from before the stage column are OpenLane runs
       areaUm2: row.area_um2,
       powerMw: row.power_mw,
       frequencyMhz: row.frequency_mhz,
@@ -425,7 +578,7 @@ class DatabaseManager {
       SELECT ppa.* FROM ppa_metrics ppa
       JOIN runs r ON ppa.run_id = r.id
       WHERE r.project_id = ?
-      ORDER BY r.completed_at DESC
+      ORDER BY r.completed_at DESC, ppa.id DESC
     `
       )
       .all(projectId) as any[];
@@ -433,6 +586,7 @@ class DatabaseManager {
     return rows.map((row) => ({
       id: row.id,
       runId: row.run_id,
+      stage: row.stage || "layout",  // Rows from before the stage column are OpenLane runs
       areaUm2: row.area_um2,
       powerMw: row.power_mw,
       frequencyMhz: row.frequency_mhz,
@@ -442,6 +596,197 @@ class DatabaseManager {
     }));
   }
 
+  // ==================== Coverage Operations ====================
+
+  /**
+   * Save the coverage of a run
+   */
+  saveCoverageMetrics(runId: string, metrics: Omit<CoverageMetrics, "id" | "runId">): CoverageMetrics {
+    const db = this.getDb();
+
+    const result = db.prepare(`
+      INSERT INTO coverage_metrics (run_id, source, line_pct, toggle_pct, user_pct, expression_pct, covered_points, total_points)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      runId,
+      metrics.source,
+      metrics.linePct ?? null,
+      metrics.togglePct ?? null,
+      metrics.userPct ?? null,
+      metrics.expressionPct ?? null,
+      metrics.coveredPoints,
+      metrics.totalPoints
+    );
+
+    return { id: result.lastInsertRowid as number, runId, ...metrics };
+  }
+
+  /**
+   * Get coverage history for a project (newest first)
+   */
+  getCoverageHistory(projectId: string): CoverageMetrics[] {
+    const db = this.getDb();
+    const rows = db
+      .prepare(
+        `
+      SELECT cov.* FROM coverage_metrics cov
+      JOIN runs r ON cov.run_id = r.id
+      WHERE r.project_id = ?
+      ORDER BY r.completed_at DESC, cov.id DESC
+    `
+      )
+      .all(projectId) as any[];
+
+    return rows.map((row) => ({
+      id: row.id,
+      runId: row.run_id,
+      source: row.source,
+      linePct: row.line_pct ?? undefined,
+      togglePct: row.toggle_pct ?? undefined,
+      userPct: row.user_pct ?? undefined,
+      expressionPct: row.expression_pct ?? undefined,
+      coveredPoints: row.covered_points,
+      totalPoints: row.total_points,
+    }));
+  }
+
+  // ==================== Snapshot Operations ====================
+
+  /**
+   * Save the input snapshot of a run
+   */
+  saveRunSnapshot(snapshot: RunSnapshot): RunSnapshot {
+    const db = this.getDb();
+
+    db.prepare(`
+      INSERT OR REPLACE INTO run_snapshots (run_id, files, tool_versions, executor, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(
+      snapshot.runId,
+      JSON.stringify(snapshot.files),
+      JSON.stringify(snapshot.toolVersions),
+      snapshot.executor,
+      snapshot.createdAt.toISOString()
+    );
+
+    return snapshot;
+  }
+
+  /**
+   * Get the input snapshot of a run
+   */
+  getRunSnapshot(runId: string): RunSnapshot | null {
+    const db = this.getDb();
+    const row = db.prepare("SELECT * FROM run_snapshots WHERE run_id = ?").get(runId) as any;
+
+    if (!row) return null;
+
+    return {
+      runId: row.run_id,
+      files: JSON.parse(row.files),
+      toolVersions: row.tool_versions ? JSON.parse(row.tool_versions) : {},
+      executor: row.executor,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  /**
+   * Get every content hash still referenced by a snapshot or cache entry
+   */
+  getSnapshotHashes(): Set<string> {
+    const db = this.getDb();
+    const rows = db
+      .prepare("SELECT files FROM run_snapshots UNION ALL SELECT artifacts FROM result_cache")
+      .all() as any[];
+
+    const hashes = new Set<string>();
+    for (const row of rows) {
+      for (const file of JSON.parse(row.files) as { sha256: string }[]) {
+        hashes.add(file.sha256);
+      }
+    }
+    return hashes;
+  }
+
+  // ==================== Result Cache Operations ====================
+
+  /**
+   * Get a cache entry by key
+   */
+  getCacheEntry(key: string): ResultCacheEntry | null {
+    const db = this.getDb();
+    const row = db
+      .prepare("SELECT c.*, r.project_id FROM result_cache c JOIN runs r ON r.id = c.run_id WHERE c.cache_key = ?")
+      .get(key) as any;
+
+    if (!row) return null;
+
+    return this.rowToCacheEntry(row);
+  }
+
+  /**
+   * Get cache entries, optionally for one tool, oldest first
+   */
+  getCacheEntries(tool?: ResultCacheEntry["tool"]): ResultCacheEntry[] {
+    const db = this.getDb();
+    const rows = (tool
+      ? db
+          .prepare("SELECT c.*, r.project_id FROM result_cache c JOIN runs r ON r.id = c.run_id WHERE c.tool = ? ORDER BY c.created_at")
+          .all(tool)
+      : db
+          .prepare("SELECT c.*, r.project_id FROM result_cache c JOIN runs r ON r.id = c.run_id ORDER BY c.created_at")
+          .all()) as any[];
+
+    return rows.map(this.rowToCacheEntry);
+  }
+
+  /**
+   * Save a cache entry (replaces an entry with the same key)
+   */
+  saveCacheEntry(entry: Omit<ResultCacheEntry, "projectId" | "hitCount" | "createdAt" | "lastHitAt">): void {
+    const db = this.getDb();
+
+    db.prepare(`
+      INSERT OR REPLACE INTO result_cache (cache_key, tool, run_id, result, artifacts, size_bytes, hit_count, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, 0, ?)
+    `).run(
+      entry.key,
+      entry.tool,
+      entry.runId,
+      JSON.stringify(entry.result),
+      JSON.stringify(entry.artifacts),
+      entry.sizeBytes,
+      new Date().toISOString()
+    );
+  }
+
+  /**
+   * Count a cache hit
+   */
+  recordCacheHit(key: string): void {
+    const db = this.getDb();
+    db.prepare("UPDATE result_cache SET hit_count = hit_count + 1, last_hit_at = ? WHERE cache_key = ?").run(
+      new Date().toISOString(),
+      key
+    );
+  }
+
+  /**
+   * Delete cache entries by key
+   */
+  deleteCacheEntries(keys: string[]): number {
+    const db = this.getDb();
+    const stmt = db.prepare("DELETE FROM result_cache WHERE cache_key = ?");
+
+    let deleted = 0;
+    db.transaction(() => {
+      for (const key of keys) {
+        deleted += stmt.run(key).changes;
+      }
+    })();
+    return deleted;
+  }
+
   // ==================== Cleanup Operations ====================
 
   /**
@@ -499,6 +844,22 @@ class DatabaseManager {
       startedAt: row.started_at ? new Date(row.started_at) : undefined,
       completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
       parentRunId: row.parent_run_id || undefined,
+      jobTool: row.job_tool || undefined,
+    };
+  }
+
+  private rowToCacheEntry(row: any): ResultCacheEntry {
+    return {
+      key: row.cache_key,
+      tool: row.tool,
+      runId: row.run_id,
+      projectId: row.project_id,
+      result: JSON.parse(row.result),
+      artifacts: JSON.parse(row.artifacts),
+      sizeBytes: row.size_bytes || 0,
+      hitCount: row.hit_count || 0,
+      createdAt: new Date(row.created_at),
+      lastHitAt: row.last_hit_at ? new Date(row.last_hit_at) : undefined,
     };
   }
 
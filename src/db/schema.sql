@@ -11,17 +11,19 @@ CREATE TABLE IF NOT EXISTS projects (
   updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
--- Runs table (synthesis, simulation, openlane, tuning)
+-- Runs table (synthesis, simulation, openlane, tuning, signoff, eco, lint, equivalence, formal, fpga, regression, gate_level)
+-- Background jobs are runs with job_tool set
 CREATE TABLE IF NOT EXISTS runs (
   id TEXT PRIMARY KEY,
   project_id TEXT NOT NULL,
-  run_type TEXT NOT NULL CHECK (run_type IN ('synthesis', 'simulation', 'openlane', 'tuning')),
-  status TEXT NOT NULL CHECK (status IN ('pending', 'running', 'success', 'failed')),
+  run_type TEXT NOT NULL CHECK (run_type IN ('synthesis', 'simulation', 'openlane', 'tuning', 'signoff', 'eco', 'lint', 'equivalence', 'formal', 'fpga', 'regression', 'gate_level')),
+  status TEXT NOT NULL CHECK (status IN ('pending', 'running', 'success', 'failed', 'cancelled')),
   config TEXT,  -- JSON string
   results TEXT, -- JSON string
   started_at DATETIME,
   completed_at DATETIME,
   parent_run_id TEXT,
+  job_tool TEXT,
   FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
   FOREIGN KEY (parent_run_id) REFERENCES runs(id) ON DELETE SET NULL
 );
@@ -42,6 +44,7 @@ CREATE TABLE IF NOT EXISTS files (
 CREATE TABLE IF NOT EXISTS ppa_metrics (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   run_id TEXT NOT NULL,
+  stage TEXT,   -- synthesis (pre-layout estimate), layout (OpenLane) or activity (OpenLane, VCD/SAIF power)
   area_um2 REAL,
   power_mw REAL,
   frequency_mhz REAL,
@@ -51,12 +54,53 @@ CREATE TABLE IF NOT EXISTS ppa_metrics (
   FOREIGN KEY (run_id) REFERENCES runs(id) ON DELETE CASCADE
 );
 
+-- Coverage history (simulation and regression runs with coverage enabled)
+CREATE TABLE IF NOT EXISTS coverage_metrics (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  run_id TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('verilator', 'vcd')),
+  line_pct REAL,
+  toggle_pct REAL,
+  user_pct REAL,
+  expression_pct REAL,
+  covered_points INTEGER NOT NULL,
+  total_points INTEGER NOT NULL,
+  FOREIGN KEY (run_id) REFERENCES runs(id) ON DELETE CASCADE
+);
+
+-- Run snapshots (exact inputs and tool versions, for reproduce_run)
+-- files is a JSON array of {path, sha256, size}; contents live in the snapshot store
+CREATE TABLE IF NOT EXISTS run_snapshots (
+  run_id TEXT PRIMARY KEY,
+  files TEXT NOT NULL,
+  tool_versions TEXT,
+  executor TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (run_id) REFERENCES runs(id) ON DELETE CASCADE
+);
+
+-- Result cache (synthesis/OpenLane results keyed by a hash of inputs and tool versions)
+CREATE TABLE IF NOT EXISTS result_cache (
+  cache_key TEXT PRIMARY KEY,
+  tool TEXT NOT NULL CHECK (tool IN ('synthesis', 'openlane')),
+  run_id TEXT NOT NULL,
+  result TEXT NOT NULL,
+  artifacts TEXT NOT NULL,
+  size_bytes INTEGER DEFAULT 0,
+  hit_count INTEGER DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  last_hit_at DATETIME,
+  FOREIGN KEY (run_id) REFERENCES runs(id) ON DELETE CASCADE
+);
+
 -- Indexes for faster queries
 CREATE INDEX IF NOT EXISTS idx_runs_project_id ON runs(project_id);
 CREATE INDEX IF NOT EXISTS idx_runs_status ON runs(status);
 CREATE INDEX IF NOT EXISTS idx_files_project_id ON files(project_id);
 CREATE INDEX IF NOT EXISTS idx_files_run_id ON files(run_id);
 CREATE INDEX IF NOT EXISTS idx_ppa_run_id ON ppa_metrics(run_id);
+CREATE INDEX IF NOT EXISTS idx_coverage_run_id ON coverage_metrics(run_id);
+CREATE INDEX IF NOT EXISTS idx_result_cache_run_id ON result_cache(run_id);
 
 -- Trigger to update updated_at on projects
 CREATE TRIGGER IF NOT EXISTS update_project_timestamp
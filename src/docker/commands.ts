@@ -2,10 +2,10 @@
  * Docker Commands - High-level wrappers for EDA tool execution
  *
  * Provides typed interfaces for running Yosys, iverilog, OpenLane, etc.
- * inside the Docker container.
+ * through the active command executor (Docker container by default).
  */
 
-import { dockerManager, DockerExecResult } from "./docker-manager.js";
+import { getExecutor, bashScript, type ExecResult } from "../executor/index.js";
 
 /**
  * Run Yosys synthesis
@@ -13,23 +13,20 @@ import { dockerManager, DockerExecResult } from "./docker-manager.js";
 export async function runYosys(
   scriptContent: string,
   workdir: string
-): Promise<DockerExecResult> {
+): Promise<ExecResult> {
   // Write script to a temporary file and run it
   const scriptPath = `${workdir}/synth.ys`;
 
   // Create script file
-  const writeResult = await dockerManager.exec(
-    `cat > ${scriptPath} << 'YOSYS_SCRIPT'\n${scriptContent}\nYOSYS_SCRIPT`,
-    { workdir }
-  );
+  const writeResult = await getExecutor().writeFile(scriptPath, scriptContent);
 
   if (!writeResult.success) {
     return writeResult;
   }
 
   // Run Yosys
-  return dockerManager.exec(
-    `yosys -s ${scriptPath}`,
+  return getExecutor().run(
+    ["yosys", "-s", scriptPath],
     { workdir, timeout: 120000 }
   );
 }
@@ -40,9 +37,9 @@ export async function runYosys(
 export async function runYosysCommand(
   command: string,
   workdir: string
-): Promise<DockerExecResult> {
-  return dockerManager.exec(
-    `yosys -p "${command.replace(/"/g, '\\"')}"`,
+): Promise<ExecResult> {
+  return getExecutor().run(
+    ["yosys", "-p", command],
     { workdir, timeout: 120000 }
   );
 }
@@ -54,10 +51,9 @@ export async function compileVerilog(
   files: string[],
   outputName: string,
   workdir: string
-): Promise<DockerExecResult> {
-  const fileList = files.join(" ");
-  return dockerManager.exec(
-    `iverilog -o ${outputName} ${fileList}`,
+): Promise<ExecResult> {
+  return getExecutor().run(
+    ["iverilog", "-o", outputName, ...files],
     { workdir, timeout: 60000 }
   );
 }
@@ -68,10 +64,10 @@ export async function compileVerilog(
 export async function runSimulation(
   binaryPath: string,
   workdir: string
-): Promise<DockerExecResult> {
+): Promise<ExecResult> {
   // Set LD_LIBRARY_PATH for libvvp.so shared library
-  return dockerManager.exec(
-    `LD_LIBRARY_PATH=/foss/tools/iverilog/lib:$LD_LIBRARY_PATH vvp ${binaryPath}`,
+  return getExecutor().run(
+    bashScript('LD_LIBRARY_PATH=/foss/tools/iverilog/lib:$LD_LIBRARY_PATH exec vvp "$1"', binaryPath),
     { workdir, timeout: 120000 }
   );
 }
@@ -84,8 +80,8 @@ export async function compileAndSimulate(
   testbenchFile: string,
   workdir: string
 ): Promise<{
-  compile: DockerExecResult;
-  simulate?: DockerExecResult;
+  compile: ExecResult;
+  simulate?: ExecResult;
 }> {
   const allFiles = [...designFiles, testbenchFile];
   const binaryPath = "./simulation";
@@ -167,10 +163,8 @@ export async function runOpenLane(
   configPath: string,
   workdir: string,
   onProgress?: (message: string) => void
-): Promise<DockerExecResult> {
-  const command = `python3 -m openlane ${configPath}`;
-
-  return dockerManager.execLong(command, {
+): Promise<ExecResult> {
+  return getExecutor().run(["python3", "-m", "openlane", configPath], {
     workdir,
     timeout: 600000, // 10 minutes
     onOutput: onProgress
@@ -184,12 +178,10 @@ export async function runOpenLaneDockerized(
   configPath: string,
   workdir: string,
   onProgress?: (message: string) => void
-): Promise<DockerExecResult> {
+): Promise<ExecResult> {
   // Note: This is for when OpenLane itself needs to spawn Docker containers
   // In our setup, we're already inside Docker, so we use the direct mode
-  const command = `python3 -m openlane ${configPath}`;
-
-  return dockerManager.execLong(command, {
+  return getExecutor().run(["python3", "-m", "openlane", configPath], {
     workdir,
     timeout: 600000,
     onOutput: onProgress
@@ -200,13 +192,14 @@ export async function runOpenLaneDockerized(
  * Find GDS file in OpenLane run directory
  */
 export async function findGDSFile(runDir: string): Promise<string | null> {
-  const result = await dockerManager.exec(
-    `find ${runDir}/final/gds -name "*.gds" 2>/dev/null | head -1`,
+  const result = await getExecutor().run(
+    ["find", `${runDir}/final/gds`, "-name", "*.gds"],
     { workdir: runDir }
   );
 
-  if (result.success && result.stdout.trim()) {
-    return result.stdout.trim();
+  const gdsFile = result.stdout.split("\n")[0].trim();
+  if (result.success && gdsFile) {
+    return gdsFile;
   }
 
   return null;
@@ -218,7 +211,7 @@ export async function findGDSFile(runDir: string): Promise<string | null> {
 export async function readReport(
   reportPath: string
 ): Promise<string | null> {
-  const result = await dockerManager.exec(`cat ${reportPath}`);
+  const result = await getExecutor().run(["cat", "--", reportPath]);
 
   if (result.success) {
     return result.stdout;
@@ -234,11 +227,11 @@ export async function listFiles(
   dirPath: string,
   pattern?: string
 ): Promise<string[]> {
-  const findCmd = pattern
-    ? `find ${dirPath} -name "${pattern}" -type f`
-    : `find ${dirPath} -type f`;
+  const findArgs = pattern
+    ? ["find", dirPath, "-name", pattern, "-type", "f"]
+    : ["find", dirPath, "-type", "f"];
 
-  const result = await dockerManager.exec(findCmd);
+  const result = await getExecutor().run(findArgs);
 
   if (result.success) {
     return result.stdout.trim().split("\n").filter(Boolean);
@@ -251,15 +244,15 @@ export async function listFiles(
  * Check if file exists in container
  */
 export async function fileExists(filePath: string): Promise<boolean> {
-  const result = await dockerManager.exec(`test -f ${filePath} && echo "yes"`);
-  return result.success && result.stdout.includes("yes");
+  const result = await getExecutor().run(["test", "-f", filePath]);
+  return result.success;
 }
 
 /**
  * Create directory in container
  */
 export async function createDirectory(dirPath: string): Promise<boolean> {
-  const result = await dockerManager.exec(`mkdir -p ${dirPath}`);
+  const result = await getExecutor().run(["mkdir", "-p", "--", dirPath]);
   return result.success;
 }
 
@@ -270,15 +263,7 @@ export async function writeFile(
   filePath: string,
   content: string
 ): Promise<boolean> {
-  // Escape content for shell
-  const escapedContent = content
-    .replace(/\\/g, "\\\\")
-    .replace(/'/g, "'\"'\"'");
-
-  const result = await dockerManager.exec(
-    `cat > ${filePath} << 'EOF'\n${content}\nEOF`
-  );
-
+  const result = await getExecutor().writeFile(filePath, content);
   return result.success;
 }
 
@@ -286,6 +271,6 @@ export async function writeFile(
  * Read file content from container
  */
 export async function readFile(filePath: string): Promise<string | null> {
-  const result = await dockerManager.exec(`cat ${filePath}`);
+  const result = await getExecutor().run(["cat", "--", filePath]);
   return result.success ? result.stdout : null;
 }
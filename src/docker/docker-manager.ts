@@ -7,6 +7,7 @@
 
 import { exec, spawn, ChildProcess } from "child_process";
 import { promisify } from "util";
+import type { CommandExecutor } from "../executor/executor.js";
 
 const execAsync = promisify(exec);
 
@@ -17,7 +18,6 @@ const DOCKER_COMPOSE_PATH = "./docker/docker-compose.yml";
 
 // Timeout settings
 const COMMAND_TIMEOUT = 120_000; // 2 minutes for regular commands
-const LONG_COMMAND_TIMEOUT = 600_000; // 10 minutes for OpenLane
 const MAX_BUFFER = 10 * 1024 * 1024; // 10MB
 
 export interface DockerExecResult {
@@ -75,12 +75,13 @@ export class DockerManager {
    */
   async getContainerStatus(): Promise<ContainerStatus> {
     try {
-      // Use double quotes for Windows compatibility
-      const { stdout } = await execAsync(
-        `docker inspect --format "{{.State.Running}},{{.Id}},{{.Config.Image}},{{.State.Status}}" ${this.containerName}`,
-        { timeout: 10000 }
+      const result = await this.spawnDocker(
+        ["inspect", "--format", "{{.State.Running}},{{.Id}},{{.Config.Image}},{{.State.Status}}", this.containerName],
+        10000
       );
+      if (!result.success) return { running: false };
 
+      const { stdout } = result;
       const parts = stdout.trim().split(",");
       return {
         running: parts[0] === "true",
@@ -177,186 +178,162 @@ export class DockerManager {
   }
 
   /**
-   * Execute a command in the container
+   * Execute a program in the container
+   *
+   * argv is handed to `docker exec` as separate arguments, so neither the
+   * host nor the container shell parses it.
    */
   async exec(
-    command: string,
+    argv: string[],
     options: {
       workdir?: string;
       timeout?: number;
       env?: Record<string, string>;
+      stdin?: string;
+      onOutput?: (data: string) => void;
     } = {}
   ): Promise<DockerExecResult> {
-    const timeout = options.timeout || COMMAND_TIMEOUT;
-    const workdir = options.workdir || "/workspace";
-
-    // Build docker exec command
-    let dockerCmd = `docker exec`;
-
-    // Add working directory
-    dockerCmd += ` -w ${workdir}`;
-
-    // Add environment variables
-    if (options.env) {
-      for (const [key, value] of Object.entries(options.env)) {
-        dockerCmd += ` -e ${key}="${value}"`;
-      }
+    const args = ["exec"];
+    if (options.stdin !== undefined) args.push("-i");
+    args.push("-w", options.workdir || "/workspace");
+    for (const [key, value] of Object.entries(options.env || {})) {
+      args.push("-e", `${key}=${value}`);
     }
+    args.push(this.containerName, ...argv);
 
-    // Add container name and command
-    dockerCmd += ` ${this.containerName} /bin/bash -c "${command.replace(/"/g, '\\"')}"`;
-
-    return this.runCommand(dockerCmd, timeout);
+    return this.spawnDocker(args, options.timeout || COMMAND_TIMEOUT, options.stdin, options.onOutput);
   }
 
   /**
-   * Execute a long-running command (like OpenLane)
+   * Run the docker CLI on the host without a shell
    */
-  async execLong(
-    command: string,
-    options: {
-      workdir?: string;
-      timeout?: number;
-      onOutput?: (data: string) => void;
-    } = {}
+  private spawnDocker(
+    args: string[],
+    timeout: number,
+    stdin?: string,
+    onOutput?: (data: string) => void
   ): Promise<DockerExecResult> {
-    const timeout = options.timeout || LONG_COMMAND_TIMEOUT;
-    const workdir = options.workdir || "/workspace";
-
-    return new Promise((resolve, reject) => {
+    return new Promise((resolve) => {
       let stdout = "";
       let stderr = "";
+      let timedOut = false;
+
+      const child: ChildProcess = spawn("docker", args, {
+        stdio: [stdin !== undefined ? "pipe" : "ignore", "pipe", "pipe"],
+      });
 
       const timeoutHandle = setTimeout(() => {
+        timedOut = true;
         child.kill("SIGKILL");
-        reject(new Error(`Command timed out after ${timeout}ms`));
       }, timeout);
 
-      const child: ChildProcess = spawn("docker", [
-        "exec",
-        "-w", workdir,
-        this.containerName,
-        "/bin/bash", "-c", command
-      ], {
-        stdio: ["ignore", "pipe", "pipe"]
-      });
+      // Keep the tail of very large outputs
+      const append = (current: string, text: string): string => {
+        const next = current + text;
+        return next.length > MAX_BUFFER ? next.slice(next.length - MAX_BUFFER) : next;
+      };
 
       child.stdout?.on("data", (data: Buffer) => {
         const text = data.toString();
-        stdout += text;
-        options.onOutput?.(text);
+        stdout = append(stdout, text);
+        onOutput?.(text);
       });
 
       child.stderr?.on("data", (data: Buffer) => {
         const text = data.toString();
-        stderr += text;
-        options.onOutput?.(text);
+        stderr = append(stderr, text);
+        onOutput?.(text);
       });
 
+      if (stdin !== undefined) {
+        child.stdin?.on("error", () => {
+          // The process may exit without reading its input
+        });
+        child.stdin?.end(stdin);
+      }
+
       child.on("close", (code) => {
         clearTimeout(timeoutHandle);
+        if (timedOut) {
+          stderr += `\nCommand timed out after ${timeout}ms`;
+        }
         resolve({
-          success: code === 0,
+          success: code === 0 && !timedOut,
           stdout,
           stderr,
-          exitCode: code || 0
+          exitCode: code ?? 1,
         });
       });
 
       child.on("error", (error) => {
         clearTimeout(timeoutHandle);
-        reject(error);
+        resolve({ success: false, stdout, stderr: error.message, exitCode: 127 });
       });
     });
   }
 
-  /**
-   * Run a shell command on the host
-   */
-  private async runCommand(command: string, timeout: number): Promise<DockerExecResult> {
-    try {
-      const { stdout, stderr } = await execAsync(command, {
-        timeout,
-        maxBuffer: MAX_BUFFER,
-        encoding: "utf8"
-      });
-
-      return {
-        success: true,
-        stdout: stdout.toString(),
-        stderr: stderr.toString(),
-        exitCode: 0
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        stdout: error.stdout?.toString() || "",
-        stderr: error.stderr?.toString() || error.message || String(error),
-        exitCode: error.code || 1
-      };
-    }
-  }
-
   /**
    * Copy file from host to container
    */
   async copyToContainer(hostPath: string, containerPath: string): Promise<DockerExecResult> {
-    return this.runCommand(
-      `docker cp "${hostPath}" ${this.containerName}:${containerPath}`,
-      COMMAND_TIMEOUT
-    );
+    return this.spawnDocker(["cp", hostPath, `${this.containerName}:${containerPath}`], COMMAND_TIMEOUT);
   }
 
   /**
    * Copy file from container to host
    */
   async copyFromContainer(containerPath: string, hostPath: string): Promise<DockerExecResult> {
-    return this.runCommand(
-      `docker cp ${this.containerName}:${containerPath} "${hostPath}"`,
-      COMMAND_TIMEOUT
-    );
+    return this.spawnDocker(["cp", `${this.containerName}:${containerPath}`, hostPath], COMMAND_TIMEOUT);
   }
 
   /**
    * Check if a tool is available in the container
    */
   async isToolAvailable(toolName: string): Promise<boolean> {
-    const result = await this.exec(`which ${toolName}`);
+    const result = await this.exec(["which", toolName]);
     return result.success;
   }
 
   /**
    * Get versions of all EDA tools
+   * (pass an executor to query a native or recording backend instead of the container)
    */
-  async getToolVersions(): Promise<Record<string, string>> {
+  async getToolVersions(executor?: Pick<CommandExecutor, "run">): Promise<Record<string, string>> {
     const tools: Record<string, string> = {};
+    const exec = (argv: string[]) => (executor ? executor.run(argv, { timeout: COMMAND_TIMEOUT }) : this.exec(argv));
 
     // Yosys
-    const yosys = await this.exec("yosys -V");
+    const yosys = await exec(["yosys", "-V"]);
     if (yosys.success) {
       tools.yosys = yosys.stdout.trim().split("\n")[0];
     }
 
     // Icarus Verilog
-    const iverilog = await this.exec("iverilog -V 2>&1 | head -1");
+    const iverilog = await exec(["/bin/bash", "-c", "iverilog -V 2>&1 | head -1"]);
     if (iverilog.success) {
       tools.iverilog = iverilog.stdout.trim();
     }
 
     // OpenLane
-    const openlane = await this.exec("python3 -m openlane --version 2>&1");
+    const openlane = await exec(["/bin/bash", "-c", "python3 -m openlane --version 2>&1"]);
     if (openlane.success) {
       tools.openlane = openlane.stdout.trim();
     }
 
+    // LibreLane (OpenLane 2)
+    const librelane = await exec(["/bin/bash", "-c", "librelane --version 2>&1 | head -1"]);
+    if (librelane.success) {
+      tools.librelane = librelane.stdout.trim();
+    }
+
     // OpenROAD
-    const openroad = await this.exec("openroad -version 2>&1 | head -1");
+    const openroad = await exec(["/bin/bash", "-c", "openroad -version 2>&1 | head -1"]);
     if (openroad.success) {
       tools.openroad = openroad.stdout.trim();
     }
 
     // Magic
-    const magic = await this.exec("magic -dnull -noconsole --version 2>&1");
+    const magic = await exec(["/bin/bash", "-c", "magic -dnull -noconsole --version 2>&1"]);
     if (magic.success) {
       tools.magic = magic.stdout.trim();
     }
@@ -399,9 +376,9 @@ export class DockerManager {
     try {
       // Fix klayout not in PATH - create symlink if missing
       // This is needed because LibreLane's XOR check calls 'klayout' expecting it in PATH
-      await this.runCommand(
-        `docker exec ${this.containerName} /bin/bash -c "[ -L /foss/tools/bin/klayout ] || ln -sf /foss/tools/klayout/klayout /foss/tools/bin/klayout"`,
-        5000
+      await this.exec(
+        ["/bin/bash", "-c", "[ -L /foss/tools/bin/klayout ] || ln -sf /foss/tools/klayout/klayout /foss/tools/bin/klayout"],
+        { timeout: 5000 }
       );
     } catch {
       // Ignore errors - these are best-effort fixes
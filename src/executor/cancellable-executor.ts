@@ -0,0 +1,102 @@
+/**
+ * Cancellable Executor - Wraps an executor so in-flight commands can be killed
+ *
+ * Each command runs in its own session (setsid) and records its process
+ * group id in a pid file next to where it runs. cancel() signals every
+ * recorded group, which stops the EDA tool itself rather than just the
+ * local `docker exec` client.
+ */
+
+import type { CommandExecutor, ExecResult, ExecutorKind, RunOptions } from "./executor.js";
+
+const PID_DIR = "/tmp/mcp4eda-jobs";
+const KILL_GRACE_SECONDS = 5;
+
+const CANCELLED_RESULT: ExecResult = {
+  success: false,
+  stdout: "",
+  stderr: "Job cancelled",
+  exitCode: 130,
+};
+
+export class CancellableExecutor implements CommandExecutor {
+  readonly kind: ExecutorKind;
+  private inner: CommandExecutor;
+  private tag: string;
+  private active = new Set<string>();
+  private counter = 0;
+  private cancelled = false;
+
+  constructor(inner: CommandExecutor, tag: string) {
+    this.inner = inner;
+    this.tag = tag.replace(/[^A-Za-z0-9_-]/g, "_");
+    this.kind = inner.kind;
+  }
+
+  get isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  async ensureReady(): Promise<boolean> {
+    return this.inner.ensureReady();
+  }
+
+  async run(argv: string[], options: RunOptions = {}): Promise<ExecResult> {
+    if (this.cancelled) return { ...CANCELLED_RESULT };
+
+    // Recorded cassettes key on the literal argv, so replay is not wrapped
+    if (this.inner.kind === "replay") {
+      return this.inner.run(argv, options);
+    }
+
+    // The command is passed through as "$@", never re-parsed by the wrapper shell
+    const pidFile = `${PID_DIR}/${this.tag}_${++this.counter}.pid`;
+    const script = `mkdir -p ${PID_DIR} && echo $$ > ${pidFile}; "$@"; rc=$?; rm -f ${pidFile}; exit $rc`;
+    const wrapped = ["setsid", "-w", "/bin/bash", "-c", script, "mcp4eda-job", ...argv];
+
+    this.active.add(pidFile);
+    try {
+      const result = await this.inner.run(wrapped, options);
+      if (!result.success && /Command timed out after/.test(result.stderr)) {
+        // Timed out: make sure nothing is left running
+        await this.kill(pidFile);
+      }
+      return this.cancelled ? { ...result, success: false, stderr: `${result.stderr}\nJob cancelled` } : result;
+    } finally {
+      this.active.delete(pidFile);
+    }
+  }
+
+  async writeFile(path: string, content: string): Promise<ExecResult> {
+    if (this.cancelled) return { ...CANCELLED_RESULT };
+    return this.inner.writeFile(path, content);
+  }
+
+  /**
+   * Stop all running commands and refuse new ones
+   */
+  async cancel(): Promise<void> {
+    this.cancelled = true;
+    await Promise.all([...this.active].map((pidFile) => this.kill(pidFile)));
+  }
+
+  /**
+   * Signal the process group recorded in a pid file (TERM, then KILL)
+   */
+  private async kill(pidFile: string): Promise<void> {
+    // The pid file may not exist yet if the command was only just started
+    const command = [
+      `for i in 1 2 3 4; do [ -f ${pidFile} ] && break; sleep 0.5; done`,
+      `[ -f ${pidFile} ] || exit 0`,
+      `pg=$(cat ${pidFile})`,
+      `kill -TERM -- -$pg 2>/dev/null`,
+      `for i in $(seq ${KILL_GRACE_SECONDS}); do kill -0 -- -$pg 2>/dev/null || break; sleep 1; done`,
+      `kill -KILL -- -$pg 2>/dev/null`,
+      `rm -f ${pidFile}`,
+      `true`,
+    ].join("; ");
+
+    // Best effort - the process may already be gone
+    await this.inner.run(["/bin/bash", "-c", command], { timeout: (KILL_GRACE_SECONDS + 10) * 1000 });
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Docker Executor - Runs commands inside the IIC-OSIC-TOOLS container
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { dockerManager, DockerManager } from "../docker/docker-manager.js";
+import type { CommandExecutor, ExecResult, RunOptions } from "./executor.js";
+
+export class DockerExecutor implements CommandExecutor {
+  readonly kind = "docker" as const;
+  private manager: DockerManager;
+
+  constructor(manager: DockerManager = dockerManager) {
+    this.manager = manager;
+  }
+
+  async ensureReady(): Promise<boolean> {
+    return this.manager.ensureRunning();
+  }
+
+  async run(argv: string[], options: RunOptions = {}): Promise<ExecResult> {
+    return this.manager.exec(argv, options);
+  }
+
+  /**
+   * Write via a host temp file and docker cp
+   * This avoids Windows command line length limits
+   */
+  async writeFile(containerPath: string, content: string): Promise<ExecResult> {
+    const tempFile = path.join(
+      os.tmpdir(),
+      `mcp4eda_${Date.now()}_${Math.random().toString(36).substring(7)}`
+    );
+
+    try {
+      fs.writeFileSync(tempFile, content, "utf8");
+      return await this.manager.copyToContainer(tempFile, containerPath);
+    } catch (error) {
+      return {
+        success: false,
+        stdout: "",
+        stderr: error instanceof Error ? error.message : String(error),
+        exitCode: 1,
+      };
+    } finally {
+      try {
+        fs.unlinkSync(tempFile);
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+  }
+}
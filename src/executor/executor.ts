@@ -0,0 +1,136 @@
+/**
+ * Command Executor - Abstraction over where EDA commands run
+ *
+ * Tool modules describe *what* to run (an argument vector plus a working
+ * directory); the executor decides *where*: inside the IIC-OSIC-TOOLS
+ * container, natively on the host, or from a recorded cassette.
+ *
+ * Commands are passed as argv arrays and never re-parsed by a shell, so
+ * user-supplied file names and design names cannot inject commands. When a
+ * pipeline is genuinely needed, use bashScript() and pass untrusted values
+ * as positional parameters.
+ */
+
+/**
+ * Result of running a command
+ */
+export interface ExecResult {
+  success: boolean;
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+/**
+ * Options for running a command
+ */
+export interface RunOptions {
+  workdir?: string;
+  timeout?: number;
+  env?: Record<string, string>;
+  stdin?: string;                       // Written to the process and then closed
+  onOutput?: (data: string) => void;    // Streamed stdout/stderr as it arrives
+}
+
+export type ExecutorKind = "docker" | "native" | "record" | "replay";
+
+/**
+ * A backend capable of running EDA commands
+ */
+export interface CommandExecutor {
+  readonly kind: ExecutorKind;
+
+  /**
+   * Make sure the backend is usable (e.g. start the container)
+   */
+  ensureReady(): Promise<boolean>;
+
+  /**
+   * Run a program with an argument vector and capture its output
+   *
+   * Never throws; timeouts and spawn failures are reported as a failed
+   * result (timeouts with "Command timed out after ..." in stderr).
+   */
+  run(argv: string[], options?: RunOptions): Promise<ExecResult>;
+
+  /**
+   * Write a file at a path visible to the commands run by this executor
+   */
+  writeFile(path: string, content: string): Promise<ExecResult>;
+}
+
+/**
+ * Error thrown by runChecked when a command fails
+ */
+export class ExecError extends Error {
+  readonly result: ExecResult;
+
+  constructor(command: string | string[], result: ExecResult) {
+    const display = Array.isArray(command) ? formatArgv(command) : command;
+    const detail = result.stderr.trim() || result.stdout.trim();
+    super(`Command failed (exit ${result.exitCode}): ${display.split("\n")[0]}${detail ? `\n${detail}` : ""}`);
+    this.name = "ExecError";
+    this.result = result;
+  }
+
+  get stdout(): string {
+    return this.result.stdout;
+  }
+
+  get stderr(): string {
+    return this.result.stderr;
+  }
+}
+
+/**
+ * Run a command and throw ExecError on a non-zero exit
+ */
+export async function runChecked(
+  executor: CommandExecutor,
+  argv: string[],
+  options: RunOptions = {}
+): Promise<ExecResult> {
+  const result = await executor.run(argv, options);
+  if (!result.success) {
+    throw new ExecError(argv, result);
+  }
+  return result;
+}
+
+/**
+ * Build an argv that runs a fixed bash script
+ *
+ * The script itself must be a constant; untrusted values go in args and
+ * are referenced as "$1", "$2", ... so the shell never parses them.
+ */
+export function bashScript(script: string, ...args: string[]): string[] {
+  return ["/bin/bash", "-c", script, "bash", ...args];
+}
+
+/**
+ * Render an argv as a copy-pasteable command line (for logs and errors)
+ */
+export function formatArgv(argv: string[]): string {
+  return argv.map((arg) => (/^[A-Za-z0-9_@%+=:,./-]+$/.test(arg) ? arg : shellQuote(arg))).join(" ");
+}
+
+/**
+ * Quote a string as a single bash word
+ */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Quote a file name for a Yosys script command line
+ *
+ * Yosys splits commands on whitespace and honours double quotes but has
+ * no escape for them, so names containing quotes or control characters
+ * (which could start a new `!shell` line) are rejected.
+ */
+export function yosysQuote(value: string): string {
+  if (/["\x00-\x1f\x7f]/.test(value)) {
+    throw new Error(`Unsupported character in file name for Yosys: ${JSON.stringify(value)}`);
+  }
+  return `"${value}"`;
+}
@@ -0,0 +1,78 @@
+/**
+ * Executor Module
+ *
+ * Selects the backend used to run EDA commands:
+ * - docker (default): IIC-OSIC-TOOLS container via docker exec
+ * - native: tools installed on the host
+ * - record: run via docker (or native) and save results to a cassette
+ * - replay: serve results from a cassette, no tools required
+ *
+ * CancellableExecutor wraps any of these for background jobs.
+ *
+ * Configure with MCP4EDA_EXECUTOR and MCP4EDA_EXEC_CASSETTE.
+ */
+
+import type { CommandExecutor, ExecutorKind } from "./executor.js";
+import { DockerExecutor } from "./docker-executor.js";
+import { NativeExecutor } from "./native-executor.js";
+import { RecordingExecutor, ReplayExecutor } from "./replay-executor.js";
+
+export * from "./executor.js";
+export { DockerExecutor } from "./docker-executor.js";
+export { NativeExecutor } from "./native-executor.js";
+export { CancellableExecutor } from "./cancellable-executor.js";
+export {
+  RecordingExecutor,
+  ReplayExecutor,
+  loadCassette,
+  type Cassette,
+  type CassetteEntry,
+} from "./replay-executor.js";
+
+const DEFAULT_CASSETTE = "./mcp4eda-cassette.json";
+
+/**
+ * Create an executor of the given kind
+ */
+export function createExecutor(
+  kind: ExecutorKind,
+  options: { cassettePath?: string; recordFrom?: "docker" | "native" } = {}
+): CommandExecutor {
+  const cassettePath = options.cassettePath || process.env.MCP4EDA_EXEC_CASSETTE || DEFAULT_CASSETTE;
+
+  switch (kind) {
+    case "docker":
+      return new DockerExecutor();
+    case "native":
+      return new NativeExecutor();
+    case "record": {
+      const inner = options.recordFrom === "native" ? new NativeExecutor() : new DockerExecutor();
+      return new RecordingExecutor(inner, cassettePath);
+    }
+    case "replay":
+      return new ReplayExecutor(cassettePath);
+    default:
+      throw new Error(`Unknown executor: ${kind}`);
+  }
+}
+
+let activeExecutor: CommandExecutor | null = null;
+
+/**
+ * Get the active executor, creating it from the environment on first use
+ */
+export function getExecutor(): CommandExecutor {
+  if (!activeExecutor) {
+    const kind = (process.env.MCP4EDA_EXECUTOR || "docker") as ExecutorKind;
+    const recordFrom = process.env.MCP4EDA_EXEC_RECORD_FROM === "native" ? "native" : "docker";
+    activeExecutor = createExecutor(kind, { recordFrom });
+  }
+  return activeExecutor;
+}
+
+/**
+ * Replace the active executor (e.g. with a ReplayExecutor in tests)
+ */
+export function setExecutor(executor: CommandExecutor): void {
+  activeExecutor = executor;
+}
@@ -0,0 +1,126 @@
+/**
+ * Native Executor - Runs commands directly on the host
+ *
+ * For machines with the EDA tools installed natively (or CI images built
+ * from IIC-OSIC-TOOLS). Container project paths in arguments are
+ * rewritten to the host projects directory so tool modules need no
+ * changes; tool paths such as /foss/pdks must exist on the host as well.
+ */
+
+import { spawn, ChildProcess } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import { pathResolver } from "../files/path-resolver.js";
+import type { CommandExecutor, ExecResult, RunOptions } from "./executor.js";
+
+const COMMAND_TIMEOUT = 120_000;
+const MAX_BUFFER = 10 * 1024 * 1024;
+
+export class NativeExecutor implements CommandExecutor {
+  readonly kind = "native" as const;
+
+  async ensureReady(): Promise<boolean> {
+    fs.mkdirSync(pathResolver.getHostProjectsDir(), { recursive: true });
+    return true;
+  }
+
+  async run(argv: string[], options: RunOptions = {}): Promise<ExecResult> {
+    if (argv.length === 0) {
+      return { success: false, stdout: "", stderr: "Empty command", exitCode: 127 };
+    }
+    return this.spawnProcess(argv.map((arg) => this.translate(arg)), {
+      ...options,
+      stdin: options.stdin !== undefined ? this.translate(options.stdin) : undefined,
+      timeout: options.timeout || COMMAND_TIMEOUT,
+    });
+  }
+
+  async writeFile(filePath: string, content: string): Promise<ExecResult> {
+    try {
+      const hostPath = this.translate(filePath);
+      fs.mkdirSync(path.dirname(hostPath), { recursive: true });
+      fs.writeFileSync(hostPath, content, "utf8");
+      return { success: true, stdout: "", stderr: "", exitCode: 0 };
+    } catch (error) {
+      return {
+        success: false,
+        stdout: "",
+        stderr: error instanceof Error ? error.message : String(error),
+        exitCode: 1,
+      };
+    }
+  }
+
+  /**
+   * Rewrite container project paths to their host equivalents
+   */
+  private translate(text: string): string {
+    const containerDir = pathResolver.getContainerProjectsDir();
+    const hostDir = pathResolver.getHostProjectsDir().replace(/\\/g, "/");
+    return text.split(containerDir).join(hostDir);
+  }
+
+  private spawnProcess(argv: string[], options: RunOptions & { timeout: number }): Promise<ExecResult> {
+    const cwd = options.workdir ? this.translate(options.workdir) : undefined;
+
+    return new Promise((resolve) => {
+      let stdout = "";
+      let stderr = "";
+      let timedOut = false;
+
+      const child: ChildProcess = spawn(argv[0], argv.slice(1), {
+        cwd,
+        env: { ...process.env, ...options.env },
+        stdio: [options.stdin !== undefined ? "pipe" : "ignore", "pipe", "pipe"],
+      });
+
+      const timeoutHandle = setTimeout(() => {
+        timedOut = true;
+        child.kill("SIGKILL");
+      }, options.timeout);
+
+      // Keep the tail of very large outputs
+      const append = (current: string, text: string): string => {
+        const next = current + text;
+        return next.length > MAX_BUFFER ? next.slice(next.length - MAX_BUFFER) : next;
+      };
+
+      child.stdout?.on("data", (data: Buffer) => {
+        const text = data.toString();
+        stdout = append(stdout, text);
+        options.onOutput?.(text);
+      });
+
+      child.stderr?.on("data", (data: Buffer) => {
+        const text = data.toString();
+        stderr = append(stderr, text);
+        options.onOutput?.(text);
+      });
+
+      if (options.stdin !== undefined) {
+        child.stdin?.on("error", () => {
+          // The process may exit without reading its input
+        });
+        child.stdin?.end(options.stdin);
+      }
+
+      child.on("close", (code) => {
+        clearTimeout(timeoutHandle);
+        if (timedOut) {
+          stderr += `\nCommand timed out after ${options.timeout}ms`;
+        }
+        resolve({
+          success: code === 0 && !timedOut,
+          stdout,
+          stderr,
+          exitCode: code ?? 1,
+        });
+      });
+
+      child.on("error", (error) => {
+        clearTimeout(timeoutHandle);
+        resolve({ success: false, stdout, stderr: error.message, exitCode: 127 });
+      });
+    });
+  }
+}
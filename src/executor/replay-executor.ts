@@ -0,0 +1,142 @@
+/**
+ * Record/Replay Executors - Cassette-based command execution for tests
+ *
+ * RecordingExecutor wraps a real executor and saves every command and its
+ * result to a JSON cassette. ReplayExecutor serves those results back
+ * without any EDA tools installed, so tool modules can be exercised
+ * deterministically in CI.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { formatArgv, type CommandExecutor, type ExecResult, type RunOptions } from "./executor.js";
+
+type CallKind = "run" | "writeFile";
+
+/**
+ * A single recorded call
+ */
+export interface CassetteEntry {
+  call: CallKind;
+  command: string;     // argv rendered with formatArgv, or the file path for writeFile
+  workdir?: string;
+  stdin?: string;
+  result: ExecResult;
+}
+
+/**
+ * Cassette file layout
+ */
+export interface Cassette {
+  version: 1;
+  recordedWith: string;
+  entries: CassetteEntry[];
+}
+
+/**
+ * Load a cassette from disk
+ */
+export function loadCassette(cassettePath: string): Cassette {
+  const data = JSON.parse(fs.readFileSync(cassettePath, "utf8")) as Cassette;
+  if (data.version !== 1 || !Array.isArray(data.entries)) {
+    throw new Error(`Unsupported cassette format: ${cassettePath}`);
+  }
+  return data;
+}
+
+/**
+ * Records calls made through an inner executor
+ */
+export class RecordingExecutor implements CommandExecutor {
+  readonly kind = "record" as const;
+  private inner: CommandExecutor;
+  private cassettePath: string;
+  private cassette: Cassette;
+
+  constructor(inner: CommandExecutor, cassettePath: string) {
+    this.inner = inner;
+    this.cassettePath = cassettePath;
+    this.cassette = { version: 1, recordedWith: inner.kind, entries: [] };
+  }
+
+  async ensureReady(): Promise<boolean> {
+    return this.inner.ensureReady();
+  }
+
+  async run(argv: string[], options: RunOptions = {}): Promise<ExecResult> {
+    const result = await this.inner.run(argv, options);
+    this.record({ call: "run", command: formatArgv(argv), workdir: options.workdir, stdin: options.stdin, result });
+    return result;
+  }
+
+  async writeFile(filePath: string, content: string): Promise<ExecResult> {
+    const result = await this.inner.writeFile(filePath, content);
+    this.record({ call: "writeFile", command: filePath, result });
+    return result;
+  }
+
+  private record(entry: CassetteEntry): void {
+    this.cassette.entries.push(entry);
+    fs.mkdirSync(path.dirname(this.cassettePath), { recursive: true });
+    fs.writeFileSync(this.cassettePath, JSON.stringify(this.cassette, null, 2), "utf8");
+  }
+}
+
+/**
+ * Replays calls from a recorded cassette
+ *
+ * Entries are matched on call type, command, workdir and stdin and consumed
+ * in order, so repeated commands (e.g. polling) replay their recorded sequence.
+ */
+export class ReplayExecutor implements CommandExecutor {
+  readonly kind = "replay" as const;
+  private entries: CassetteEntry[];
+  private used: boolean[];
+
+  constructor(cassette: Cassette | string) {
+    const data = typeof cassette === "string" ? loadCassette(cassette) : cassette;
+    this.entries = data.entries;
+    this.used = new Array(data.entries.length).fill(false);
+  }
+
+  async ensureReady(): Promise<boolean> {
+    return true;
+  }
+
+  async run(argv: string[], options: RunOptions = {}): Promise<ExecResult> {
+    const result = this.take("run", formatArgv(argv), options.workdir, options.stdin);
+    if (result.stdout) options.onOutput?.(result.stdout);
+    if (result.stderr) options.onOutput?.(result.stderr);
+    return result;
+  }
+
+  async writeFile(filePath: string): Promise<ExecResult> {
+    return this.take("writeFile", filePath);
+  }
+
+  /**
+   * Number of recorded entries not yet replayed
+   */
+  remaining(): number {
+    return this.used.filter((u) => !u).length;
+  }
+
+  private take(call: CallKind, command: string, workdir?: string, stdin?: string): ExecResult {
+    const index = this.entries.findIndex(
+      (e, i) =>
+        !this.used[i] && e.call === call && e.command === command && e.workdir === workdir && e.stdin === stdin
+    );
+
+    if (index === -1) {
+      return {
+        success: false,
+        stdout: "",
+        stderr: `No recorded result for ${call}: ${command.split("\n")[0]}`,
+        exitCode: 127,
+      };
+    }
+
+    this.used[index] = true;
+    return { ...this.entries[index].result };
+  }
+}
@@ -4,6 +4,7 @@
 
 import { database } from "../db/database.js";
 import { fileManager } from "./file-manager.js";
+import { snapshotStore } from "./snapshot-store.js";
 import { Project } from "../types/project.js";
 
 /**
@@ -71,6 +72,11 @@ export async function cleanupOldProjects(options: CleanupOptions): Promise<Clean
         result.errors.push(`Failed to delete ${project.id}: ${error.message}`);
       }
     }
+
+    // Drop snapshot contents only the deleted runs referred to
+    if (!dryRun && result.projectsDeleted > 0) {
+      result.bytesFreed += snapshotStore.prune(database.getSnapshotHashes()).bytesFreed;
+    }
   } catch (error: any) {
     result.errors.push(`Cleanup failed: ${error.message}`);
   }
@@ -98,6 +98,18 @@ class FileManager {
     }
   }
 
+  /**
+   * Track a file a tool wrote into a project directly (e.g. a binary artifact)
+   */
+  trackFile(projectId: string, filename: string, fileType: FileType, runId?: string): boolean {
+    const subdir = this.getSubdirForType(fileType);
+    if (!existsSync(join(pathResolver.getProjectHostPath(projectId), subdir, filename))) {
+      return false;
+    }
+    database.trackFile(projectId, fileType, join(projectId, subdir, filename), runId);
+    return true;
+  }
+
   /**
    * Read a file from a project
    */
@@ -2,14 +2,23 @@
  * ProjectManager - High-level project operations combining database and files
  */
 
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join, resolve, sep } from "path";
 import { database } from "../db/database.js";
+import { dockerManager } from "../docker/docker-manager.js";
+import type { CommandExecutor } from "../executor/executor.js";
 import { fileManager } from "./file-manager.js";
 import { pathResolver } from "./path-resolver.js";
+import { snapshotStore } from "./snapshot-store.js";
 import {
   Project,
   Run,
+  RunSnapshot,
+  SnapshotFile,
   TrackedFile,
   PPAMetrics,
+  PPAStage,
+  CoverageMetrics,
   ProjectWithDetails,
   CreateProjectInput,
   CreateRunInput,
@@ -30,6 +39,9 @@ export interface CreateProjectResult {
  * ProjectManager handles high-level project operations
  */
 class ProjectManager {
+  // Tool versions are queried once per executor kind for the life of the server
+  private toolVersions = new Map<string, Promise<Record<string, string>>>();
+
   /**
    * Create a new project with directory structure
    */
@@ -56,7 +68,7 @@ class ProjectManager {
   }
 
   /**
-   * Get project with all details (runs, files, PPA)
+   * Get project with all details (runs, files, PPA, coverage)
    */
   getProjectWithDetails(id: string): ProjectWithDetails | null {
     const project = database.getProject(id);
@@ -65,12 +77,14 @@ class ProjectManager {
     const runs = database.getRunsByProject(id);
     const files = database.getFilesByProject(id);
     const ppaHistory = database.getPPAHistory(id);
+    const coverageHistory = database.getCoverageHistory(id);
 
     return {
       ...project,
       runs,
       files,
       latestPPA: ppaHistory.length > 0 ? ppaHistory[0] : undefined,
+      latestCoverage: coverageHistory.length > 0 ? coverageHistory[0] : undefined,
     };
   }
 
@@ -90,12 +104,14 @@ class ProjectManager {
       const runs = database.getRunsByProject(project.id);
       const files = database.getFilesByProject(project.id);
       const ppaHistory = database.getPPAHistory(project.id);
+      const coverageHistory = database.getCoverageHistory(project.id);
 
       return {
         ...project,
         runs,
         files,
         latestPPA: ppaHistory.length > 0 ? ppaHistory[0] : undefined,
+        latestCoverage: coverageHistory.length > 0 ? coverageHistory[0] : undefined,
       };
     });
   }
@@ -193,6 +209,13 @@ class ProjectManager {
     return database.updateRunStatus(runId, "failed", { error });
   }
 
+  /**
+   * Cancel a run
+   */
+  cancelRun(runId: string, reason = "Cancelled by user"): Run | null {
+    return database.updateRunStatus(runId, "cancelled", { error: reason });
+  }
+
   /**
    * Get run by ID
    */
@@ -217,10 +240,10 @@ class ProjectManager {
   }
 
   /**
-   * Get PPA metrics for a run
+   * Get PPA metrics for a run (the latest of a stage, e.g. activity-based power of an OpenLane run)
    */
-  getPPAMetrics(runId: string): PPAMetrics | null {
-    return database.getPPAMetrics(runId);
+  getPPAMetrics(runId: string, stage?: PPAStage): PPAMetrics | null {
+    return database.getPPAMetrics(runId, stage);
   }
 
   /**
@@ -230,6 +253,118 @@ class ProjectManager {
     return database.getPPAHistory(projectId);
   }
 
+  // ==================== Coverage Operations ====================
+
+  /**
+   * Save the coverage of a simulation or regression run
+   */
+  saveCoverageMetrics(runId: string, metrics: Omit<CoverageMetrics, "id" | "runId">): CoverageMetrics {
+    return database.saveCoverageMetrics(runId, metrics);
+  }
+
+  /**
+   * Get coverage history for a project (newest first)
+   */
+  getCoverageHistory(projectId: string): CoverageMetrics[] {
+    return database.getCoverageHistory(projectId);
+  }
+
+  // ==================== Snapshot Operations ====================
+
+  /**
+   * Snapshot the inputs of a run into the content-addressed store
+   * Paths are relative to the project directory; files that do not exist are skipped.
+   * Never throws: a run should not fail because its snapshot could not be taken.
+   */
+  async snapshotRun(
+    runId: string,
+    projectId: string,
+    paths: string[],
+    executor: CommandExecutor
+  ): Promise<RunSnapshot | null> {
+    try {
+      return database.saveRunSnapshot({
+        runId,
+        files: this.storeFiles(projectId, paths),
+        toolVersions: await this.getToolVersions(executor),
+        executor: executor.kind,
+        createdAt: new Date(),
+      });
+    } catch (error) {
+      console.error(`Failed to snapshot inputs of run ${runId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the input snapshot of a run
+   */
+  getRunSnapshot(runId: string): RunSnapshot | null {
+    return database.getRunSnapshot(runId);
+  }
+
+  /**
+   * Write a snapshot's files back into a project, byte for byte
+   */
+  restoreSnapshot(projectId: string, snapshot: RunSnapshot): void {
+    this.restoreFiles(projectId, snapshot.files);
+  }
+
+  /**
+   * Copy project files (relative paths) into the snapshot store
+   * Files that do not exist are skipped.
+   */
+  storeFiles(projectId: string, paths: string[]): SnapshotFile[] {
+    const projectDir = pathResolver.getProjectHostPath(projectId);
+    const files: SnapshotFile[] = [];
+
+    for (const path of [...new Set(paths)]) {
+      const hostPath = join(projectDir, path);
+      if (!existsSync(hostPath)) continue;
+      files.push({ path, ...snapshotStore.put(readFileSync(hostPath)) });
+    }
+
+    return files;
+  }
+
+  /**
+   * Write stored files back into a project at their recorded paths
+   */
+  restoreFiles(projectId: string, files: SnapshotFile[]): void {
+    const projectDir = pathResolver.getProjectHostPath(projectId);
+
+    // Check everything first so a missing blob never leaves a half-restored project
+    const restored = files.map((file) => {
+      const hostPath = resolve(projectDir, file.path);
+      if (!hostPath.startsWith(projectDir + sep)) {
+        throw new Error(`Snapshot path escapes the project directory: ${file.path}`);
+      }
+      const content = snapshotStore.get(file.sha256);
+      if (!content) {
+        throw new Error(`Snapshot content for ${file.path} (${file.sha256}) is missing from the snapshot store`);
+      }
+      return { hostPath, content };
+    });
+
+    for (const { hostPath, content } of restored) {
+      mkdirSync(dirname(hostPath), { recursive: true });
+      writeFileSync(hostPath, content);
+    }
+  }
+
+  private getToolVersions(executor: CommandExecutor): Promise<Record<string, string>> {
+    let versions = this.toolVersions.get(executor.kind);
+    if (!versions) {
+      versions = dockerManager.getToolVersions(executor);
+      this.toolVersions.set(executor.kind, versions);
+      // Do not keep an empty answer (e.g. the container was still starting)
+      void versions.then((found) => {
+        if (Object.keys(found).length === 0) this.toolVersions.delete(executor.kind);
+      }, () => this.toolVersions.delete(executor.kind));
+    }
+    return versions;
+  }
+
   // ==================== Utility Operations ====================
 
   /**
@@ -273,7 +408,9 @@ class ProjectManager {
       lines.push("");
       lines.push("Latest PPA Metrics:");
       if (project.latestPPA.areaUm2) lines.push(`  Area: ${project.latestPPA.areaUm2} µm²`);
-      if (project.latestPPA.powerMw) lines.push(`  Power: ${project.latestPPA.powerMw} mW`);
+      if (project.latestPPA.powerMw) {
+        lines.push(`  Power: ${project.latestPPA.powerMw} mW${project.latestPPA.stage === "activity" ? " (simulation activity)" : ""}`);
+      }
       if (project.latestPPA.frequencyMhz) lines.push(`  Frequency: ${project.latestPPA.frequencyMhz} MHz`);
       if (project.latestPPA.wnsNs) lines.push(`  WNS: ${project.latestPPA.wnsNs} ns`);
       if (project.latestPPA.cellCount) lines.push(`  Cells: ${project.latestPPA.cellCount}`);
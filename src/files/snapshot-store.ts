@@ -0,0 +1,102 @@
+/**
+ * SnapshotStore - Content-addressed storage for run inputs
+ *
+ * Every file a run reads (RTL, SDC, config.json, synth.ys) is stored once
+ * under its SHA-256, so later edits to the project cannot change what an
+ * old run was executed with.
+ */
+
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, readdirSync, renameSync, rmSync, statSync, writeFileSync } from "fs";
+import { join, resolve, dirname } from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Calculate the MCP4EDA root directory (two levels up from src/files/)
+const MCP4EDA_ROOT = resolve(__dirname, "..", "..");
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * SnapshotStore handles blob storage keyed by content hash
+ */
+class SnapshotStore {
+  private rootDir: string;
+
+  constructor() {
+    this.rootDir = resolve(process.env.MCP4EDA_SNAPSHOT_DIR || join(MCP4EDA_ROOT, "snapshots"));
+  }
+
+  /**
+   * Get the store directory
+   */
+  getRootDir(): string {
+    return this.rootDir;
+  }
+
+  /**
+   * Store content and return its hash (no-op if already stored)
+   */
+  put(content: Buffer): { sha256: string; size: number } {
+    const sha256 = createHash("sha256").update(content).digest("hex");
+    const blobPath = this.blobPath(sha256);
+
+    if (!existsSync(blobPath)) {
+      mkdirSync(dirname(blobPath), { recursive: true });
+      // Write then rename so a crash never leaves a truncated blob under a valid hash
+      const tmpPath = `${blobPath}.${process.pid}.tmp`;
+      writeFileSync(tmpPath, content);
+      renameSync(tmpPath, blobPath);
+    }
+
+    return { sha256, size: content.length };
+  }
+
+  /**
+   * Read stored content by hash
+   */
+  get(sha256: string): Buffer | null {
+    if (!HASH_PATTERN.test(sha256)) return null;
+    const blobPath = this.blobPath(sha256);
+    return existsSync(blobPath) ? readFileSync(blobPath) : null;
+  }
+
+  /**
+   * Check whether content is stored
+   */
+  has(sha256: string): boolean {
+    return HASH_PATTERN.test(sha256) && existsSync(this.blobPath(sha256));
+  }
+
+  /**
+   * Delete blobs that are no longer referenced by any snapshot
+   */
+  prune(referenced: Set<string>): { blobsDeleted: number; bytesFreed: number } {
+    const result = { blobsDeleted: 0, bytesFreed: 0 };
+    if (!existsSync(this.rootDir)) return result;
+
+    for (const prefix of readdirSync(this.rootDir)) {
+      const prefixDir = join(this.rootDir, prefix);
+      if (!statSync(prefixDir).isDirectory()) continue;
+
+      for (const name of readdirSync(prefixDir)) {
+        if (referenced.has(prefix + name) || name.endsWith(".tmp")) continue;
+        const blobPath = join(prefixDir, name);
+        result.bytesFreed += statSync(blobPath).size;
+        rmSync(blobPath, { force: true });
+        result.blobsDeleted++;
+      }
+    }
+
+    return result;
+  }
+
+  private blobPath(sha256: string): string {
+    return join(this.rootDir, sha256.slice(0, 2), sha256.slice(2));
+  }
+}
+
+// Export singleton instance
+export const snapshotStore = new SnapshotStore();
@@ -0,0 +1,202 @@
+/**
+ * HDL Build Options - Include directories, defines and parameter overrides
+ *
+ * One set of options translated to the flags of each tool: read_verilog
+ * -I/-D plus chparam for Yosys, -I/-D/-P for Icarus Verilog, -I/-D/-G for
+ * Verilator and VERILOG_INCLUDE_DIRS / VERILOG_DEFINES / SYNTH_PARAMETERS
+ * for LibreLane.
+ */
+
+import { existsSync, readdirSync, statSync } from "fs";
+import { isAbsolute, posix } from "path";
+import { pathResolver } from "../files/path-resolver.js";
+
+/**
+ * Preprocessor and elaboration options for a build
+ */
+export interface HdlBuildOptions {
+  includeDirs?: string[];                       // Relative to the project, or absolute (container or host) paths
+  defines?: Record<string, string | number>;    // `define NAME VALUE ("" defines NAME without a value)
+  parameters?: Record<string, string | number>; // Top-level parameter overrides (numeric, e.g. 32 or 8'hFF)
+}
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_$]*$/;
+const DEFINE_VALUE = /^[^\s"\\]*$/;
+const PARAMETER_VALUE = /^-?\d+(?:\.\d+)?$|^\d*'[sS]?[bBoOdDhH][0-9a-fA-FxXzZ_?]+$/;
+
+// Files collected from project include directories into the run snapshot
+const HEADER_EXTENSIONS = [".vh", ".svh", ".h", ".inc"];
+
+/**
+ * Check the options are safe to pass to every tool; returns an error message or null
+ */
+export function validateBuildOptions(options: HdlBuildOptions): string | null {
+  for (const dir of options.includeDirs || []) {
+    if (!dir || /["\x00-\x1f]/.test(dir)) {
+      return `Invalid include directory: ${JSON.stringify(dir)}`;
+    }
+    if (!isAbsolute(dir) && posix.normalize(dir.replace(/\\/g, "/")).startsWith("..")) {
+      return `Include directory ${JSON.stringify(dir)} points outside the project (use an absolute path instead)`;
+    }
+  }
+  for (const [name, value] of Object.entries(options.defines || {})) {
+    if (!IDENTIFIER.test(name)) return `Invalid define name: ${JSON.stringify(name)}`;
+    if (!DEFINE_VALUE.test(String(value))) {
+      return `Invalid value for define ${name}: ${JSON.stringify(value)} (no whitespace, quotes or backslashes)`;
+    }
+  }
+  for (const [name, value] of Object.entries(options.parameters || {})) {
+    if (!IDENTIFIER.test(name)) return `Invalid parameter name: ${JSON.stringify(name)}`;
+    if (!PARAMETER_VALUE.test(String(value))) {
+      return `Invalid value for parameter ${name}: ${JSON.stringify(value)} (expected a number such as 32 or 8'hFF)`;
+    }
+  }
+  return null;
+}
+
+/**
+ * True if any include directory lies outside the project, so its headers
+ * cannot be snapshotted (and results cannot be cached)
+ */
+export function hasExternalIncludeDirs(options: HdlBuildOptions): boolean {
+  return (options.includeDirs || []).some((dir) => isAbsolute(dir));
+}
+
+/**
+ * Include directories as seen from a working directory inside the project
+ * (e.g. "../include" from src/); absolute paths are mapped to the container
+ */
+export function includeDirPaths(options: HdlBuildOptions, relativeTo = "src"): string[] {
+  return (options.includeDirs || []).map((dir) => {
+    if (isAbsolute(dir)) return toContainerPath(dir);
+    return posix.relative(relativeTo, posix.normalize(dir.replace(/\\/g, "/"))) || ".";
+  });
+}
+
+/**
+ * Project-relative paths of the header files in the project's include directories
+ */
+export function includeDirFiles(projectId: string, options: HdlBuildOptions): string[] {
+  const files: string[] = [];
+
+  for (const dir of options.includeDirs || []) {
+    if (isAbsolute(dir)) continue;
+    const relativeDir = posix.normalize(dir.replace(/\\/g, "/")).replace(/\/$/, "");
+    const hostDir = pathResolver.getFileHostPath(projectId, relativeDir);
+    if (!existsSync(hostDir) || !statSync(hostDir).isDirectory()) continue;
+
+    for (const name of readdirSync(hostDir).sort()) {
+      if (HEADER_EXTENSIONS.some((ext) => name.toLowerCase().endsWith(ext))) {
+        files.push(relativeDir === "." ? name : `${relativeDir}/${name}`);
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * NAME=VALUE (or NAME) strings for each define
+ */
+export function defineStrings(options: HdlBuildOptions): string[] {
+  return Object.entries(options.defines || {}).map(([name, value]) =>
+    value === "" ? name : `${name}=${value}`
+  );
+}
+
+/**
+ * NAME=VALUE strings for each parameter override
+ */
+export function parameterStrings(options: HdlBuildOptions): string[] {
+  return Object.entries(options.parameters || {}).map(([name, value]) => `${name}=${value}`);
+}
+
+/**
+ * Yosys read_verilog flags (-I<dir> -D<name>=<value>)
+ */
+export function yosysReadFlags(options: HdlBuildOptions): string[] {
+  return [
+    ...includeDirPaths(options).map((dir) => `-I${dir}`),
+    ...defineStrings(options).map((define) => `-D${define}`),
+  ];
+}
+
+/**
+ * Yosys chparam commands overriding the top module's parameters
+ */
+export function yosysChparamCommands(options: HdlBuildOptions, topModule: string): string[] {
+  return Object.entries(options.parameters || {}).map(
+    ([name, value]) => `chparam -set ${name} ${value} ${topModule}`
+  );
+}
+
+/**
+ * Icarus Verilog flags; parameters apply to the given root module (-P<root>.<name>=<value>)
+ */
+export function iverilogBuildFlags(options: HdlBuildOptions, rootModule?: string): string[] {
+  const flags: string[] = [];
+  for (const dir of includeDirPaths(options)) flags.push("-I", dir);
+  flags.push(...defineStrings(options).map((define) => `-D${define}`));
+  if (rootModule) {
+    flags.push(...parameterStrings(options).map((parameter) => `-P${rootModule}.${parameter}`));
+  }
+  return flags;
+}
+
+/**
+ * Verilator flags (-I<dir> -D<name>=<value> -G<name>=<value>)
+ */
+export function verilatorBuildFlags(options: HdlBuildOptions): string[] {
+  return [
+    ...includeDirPaths(options).map((dir) => `-I${dir}`),
+    ...defineStrings(options).map((define) => `-D${define}`),
+    ...parameterStrings(options).map((parameter) => `-G${parameter}`),
+  ];
+}
+
+/**
+ * sv2v flags (-I <dir> -D <name>=<value>)
+ */
+export function sv2vBuildFlags(options: HdlBuildOptions): string[] {
+  const flags: string[] = [];
+  for (const dir of includeDirPaths(options)) flags.push("-I", dir);
+  for (const define of defineStrings(options)) flags.push("-D", define);
+  return flags;
+}
+
+/**
+ * LibreLane config variables (only those with values)
+ */
+export function librelaneBuildConfig(options: HdlBuildOptions): Record<string, string[]> {
+  const config: Record<string, string[]> = {};
+  if (options.includeDirs?.length) {
+    config.VERILOG_INCLUDE_DIRS = options.includeDirs.map((dir) =>
+      isAbsolute(dir) ? toContainerPath(dir) : `dir::${posix.normalize(dir.replace(/\\/g, "/"))}`
+    );
+  }
+  if (options.defines && Object.keys(options.defines).length > 0) {
+    config.VERILOG_DEFINES = defineStrings(options);
+  }
+  if (options.parameters && Object.keys(options.parameters).length > 0) {
+    config.SYNTH_PARAMETERS = parameterStrings(options);
+  }
+  return config;
+}
+
+/**
+ * Name of the first module declared in the code (the testbench root for -P)
+ */
+export function firstModuleName(code: string): string | undefined {
+  const withoutComments = code.replace(/\/\*[\s\S]*?\*\//g, "").replace(/\/\/.*$/gm, "");
+  return withoutComments.match(/\bmodule\s+(?:automatic\s+|static\s+)?([A-Za-z_][A-Za-z0-9_$]*)/)?.[1];
+}
+
+function toContainerPath(dir: string): string {
+  if (pathResolver.isContainerPath(dir)) return dir;
+  try {
+    return pathResolver.hostToContainer(dir);
+  } catch {
+    // Outside the projects directory: only usable with the native executor
+    return dir;
+  }
+}
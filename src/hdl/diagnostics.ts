@@ -0,0 +1,99 @@
+/**
+ * HDL Diagnostics - Per-file errors and warnings from front-end tool output
+ *
+ * Understands the "file:line[:col]: message" formats of Yosys, Icarus
+ * Verilog, yosys-slang, sv2v and Verilator.
+ */
+
+export type DiagnosticSeverity = "error" | "warning" | "note";
+
+// Group for messages about the elaborated design rather than a source line
+const UNLOCATED = "(design)";
+
+/**
+ * A message attributed to a source location (if the tool reported one)
+ */
+export interface HdlDiagnostic {
+  file?: string;
+  line?: number;
+  column?: number;
+  severity: DiagnosticSeverity;
+  message: string;
+  code?: string;     // Verilator warning code (e.g. WIDTH)
+  tool: string;
+}
+
+// %Error: / %Warning-WIDTH: prefix (Verilator), then file:line[:col]: [severity:] message
+const LOCATED_MESSAGE =
+  /^(?:%(Error|Warning)(?:-([A-Z0-9_]+))?:\s*)?(?:.*?\bin line\s+)?([^\s:"]+\.(?:sv|svh|v|vh|vg)):(\d+)(?::(\d+))?:\s*(?:(error|warning|note|sorry|fatal|ERROR|Warning|Error)\s*:?\s*)?(.*)$/;
+
+/**
+ * Extract located diagnostics from tool output
+ */
+export function parseDiagnostics(output: string, tool: string): HdlDiagnostic[] {
+  const diagnostics: HdlDiagnostic[] = [];
+  const seen = new Set<string>();
+
+  for (const rawLine of output.split("\n")) {
+    const match = rawLine.trim().match(LOCATED_MESSAGE);
+    if (!match) continue;
+
+    const [, verilatorLevel, code, file, line, column, level, text] = match;
+    const message = text.trim();
+    // Icarus prints "file:line:      : ..." continuation lines pointing at declarations
+    const continuation = !level && !verilatorLevel && message.startsWith(":");
+
+    const diagnostic: HdlDiagnostic = {
+      file,
+      line: parseInt(line, 10),
+      column: column ? parseInt(column, 10) : undefined,
+      severity: continuation ? "note" : severityOf(verilatorLevel || level),
+      message: continuation ? message.slice(1).trim() : message,
+      code,
+      tool,
+    };
+
+    const key = `${diagnostic.file}:${diagnostic.line}:${diagnostic.column}:${diagnostic.severity}:${diagnostic.message}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      diagnostics.push(diagnostic);
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Group diagnostics by file for MCP responses
+ */
+export function diagnosticsByFile(
+  diagnostics: HdlDiagnostic[]
+): Record<string, { errors: number; warnings: number; messages: string[] }> {
+  const byFile: Record<string, { errors: number; warnings: number; messages: string[] }> = {};
+
+  for (const diagnostic of diagnostics) {
+    const entry = (byFile[diagnostic.file || UNLOCATED] ||= { errors: 0, warnings: 0, messages: [] });
+    if (diagnostic.severity === "error") entry.errors++;
+    if (diagnostic.severity === "warning") entry.warnings++;
+
+    const location = diagnostic.line === undefined
+      ? ""
+      : diagnostic.column ? `${diagnostic.line}:${diagnostic.column} ` : `${diagnostic.line} `;
+    const code = diagnostic.code ? `[${diagnostic.code}] ` : "";
+    entry.messages.push(`${location}${diagnostic.severity}: ${code}${diagnostic.message}`);
+  }
+
+  return byFile;
+}
+
+function severityOf(level: string | undefined): DiagnosticSeverity {
+  switch (level?.toLowerCase()) {
+    case "warning":
+      return "warning";
+    case "note":
+      return "note";
+    default:
+      // Icarus reports syntax errors as "file:line: syntax error" without a level
+      return "error";
+  }
+}
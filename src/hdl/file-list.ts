@@ -0,0 +1,74 @@
+/**
+ * HDL File Lists - Source files given by path and `.f` file lists
+ *
+ * Sources may be host paths, container paths, or files already in a
+ * project. A file list names one source per line, plus +incdir+ and
+ * +define+ entries; relative entries are relative to the list itself.
+ */
+
+import { readFileSync } from "fs";
+import { dirname, isAbsolute, posix, resolve } from "path";
+import type { CommandExecutor } from "../executor/executor.js";
+import { pathResolver } from "../files/path-resolver.js";
+
+/**
+ * Sources, include directories and defines named by a file list
+ */
+export interface FileList {
+  files: string[];                      // Absolute (host or container) paths
+  includeDirs: string[];
+  defines: Record<string, string>;
+  ignored: string[];                    // Options without a simulation equivalent (-y, -v, nested -f)
+}
+
+/**
+ * Read a source file from a host or container path; null if it cannot be read
+ */
+export async function readSourceFile(filePath: string, executor: CommandExecutor): Promise<string | null> {
+  if (pathResolver.isContainerPath(filePath)) {
+    const result = await executor.run(["cat", "--", filePath], { timeout: 10000 });
+    return result.success ? result.stdout : null;
+  }
+  try {
+    return readFileSync(filePath, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a `.f` file list located at listPath
+ */
+export function parseFileList(content: string, listPath: string): FileList {
+  const container = pathResolver.isContainerPath(listPath);
+  const baseDir = container ? posix.dirname(listPath) : dirname(listPath);
+  const absolute = (entry: string) => {
+    if (container) return posix.isAbsolute(entry) ? entry : posix.join(baseDir, entry);
+    return isAbsolute(entry) ? entry : resolve(baseDir, entry);
+  };
+
+  const list: FileList = { files: [], includeDirs: [], defines: {}, ignored: [] };
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.replace(/\/\/.*$/, "").replace(/^\s*#.*$/, "").trim();
+    if (!line) continue;
+
+    for (const token of line.split(/\s+/)) {
+      if (token.startsWith("+incdir+")) {
+        list.includeDirs.push(...token.slice("+incdir+".length).split("+").filter(Boolean).map(absolute));
+      } else if (token.startsWith("+define+")) {
+        for (const define of token.slice("+define+".length).split("+").filter(Boolean)) {
+          const [name, ...value] = define.split("=");
+          list.defines[name] = value.join("=");
+        }
+      } else if (token.startsWith("-") || token.startsWith("+")) {
+        list.ignored.push(token);
+      } else if (list.ignored.length > 0 && /^-[yvfF]$/.test(list.ignored[list.ignored.length - 1])) {
+        // Argument of an ignored option
+        list.ignored[list.ignored.length - 1] += ` ${token}`;
+      } else {
+        list.files.push(absolute(token));
+      }
+    }
+  }
+  return list;
+}
@@ -0,0 +1,58 @@
+/**
+ * HDL Module
+ *
+ * Source language handling (Verilog-2005 / SystemVerilog) shared by the
+ * synthesis and simulation tools, include/define/parameter options for
+ * each tool, source files and `.f` file lists, and per-file diagnostics
+ * parsing.
+ */
+
+export {
+  languageOfFile,
+  languageOfCode,
+  isHeaderFile,
+  isTestbenchFile,
+  projectDesignSources,
+  projectHeaderFiles,
+  projectTestbenchSources,
+  sourceFileName,
+  combinedLanguage,
+  iverilogFlags,
+  verilatorFlags,
+  sv2vCommand,
+  yosysReadCommands,
+  LANGUAGE_OPTIONS,
+  SV_FRONTENDS,
+  SV2V_OUTPUT,
+  TESTBENCH_DIR,
+  type HdlLanguage,
+  type LanguageOption,
+  type SvFrontend,
+  type HdlSource,
+} from "./language.js";
+
+export {
+  validateBuildOptions,
+  hasExternalIncludeDirs,
+  includeDirPaths,
+  includeDirFiles,
+  yosysChparamCommands,
+  iverilogBuildFlags,
+  verilatorBuildFlags,
+  librelaneBuildConfig,
+  firstModuleName,
+  type HdlBuildOptions,
+} from "./build-options.js";
+
+export {
+  parseDiagnostics,
+  diagnosticsByFile,
+  type HdlDiagnostic,
+  type DiagnosticSeverity,
+} from "./diagnostics.js";
+
+export {
+  readSourceFile,
+  parseFileList,
+  type FileList,
+} from "./file-list.js";
@@ -0,0 +1,201 @@
+/**
+ * HDL Language - Verilog-2005 / SystemVerilog-2012 selection and tool flags
+ *
+ * Decides which language each source file is in and how Yosys, Icarus
+ * Verilog and Verilator are told about it.
+ */
+
+import { yosysQuote } from "../executor/index.js";
+import { fileManager } from "../files/file-manager.js";
+import {
+  defineStrings,
+  includeDirPaths,
+  parameterStrings,
+  sv2vBuildFlags,
+  yosysReadFlags,
+  type HdlBuildOptions,
+} from "./build-options.js";
+
+export type HdlLanguage = "verilog2005" | "sv2012";
+
+// "auto" detects per file: by extension, or by content for inline code
+export type LanguageOption = HdlLanguage | "auto";
+
+// How Yosys reads SystemVerilog
+export type SvFrontend = "read_verilog" | "slang" | "sv2v";
+
+export const LANGUAGE_OPTIONS: LanguageOption[] = ["auto", "verilog2005", "sv2012"];
+export const SV_FRONTENDS: SvFrontend[] = ["read_verilog", "slang", "sv2v"];
+
+/**
+ * A source file and the language it is read as
+ */
+export interface HdlSource {
+  name: string;
+  language: HdlLanguage;
+}
+
+// Output of the sv2v preprocessing pass, read by Yosys instead of the SV sources
+export const SV2V_OUTPUT = "sv2v_out.v";
+
+// Testbench files copied into a project (src/ itself holds only design files)
+export const TESTBENCH_DIR = "tb";
+
+const SV_EXTENSIONS = [".sv", ".svh"];
+
+// Constructs that only exist in SystemVerilog
+const SV_CONSTRUCTS =
+  /\b(?:always_ff|always_comb|always_latch|logic|typedef|enum|struct|package|endpackage|interface|endinterface|modport|(?:unique|priority)\s+(?:case|if)|import\s+\w+::)\b/;
+
+/**
+ * Language of a source file given the requested option
+ */
+export function languageOfFile(fileName: string, option: LanguageOption = "auto"): HdlLanguage {
+  if (option !== "auto") return option;
+  const lower = fileName.toLowerCase();
+  return SV_EXTENSIONS.some((ext) => lower.endsWith(ext)) ? "sv2012" : "verilog2005";
+}
+
+/**
+ * Header files are only pulled in by `include, never compiled on their own
+ */
+export function isHeaderFile(fileName: string): boolean {
+  const lower = fileName.toLowerCase();
+  return lower.endsWith(".vh") || lower.endsWith(".svh");
+}
+
+/**
+ * Testbenches are excluded from synthesis, lint and the OpenLane flow
+ */
+export function isTestbenchFile(fileName: string): boolean {
+  const lower = fileName.toLowerCase();
+  return lower.includes("testbench") ||
+         lower.includes("_tb.") ||
+         lower.includes("_tb_") ||
+         lower.startsWith("tb_") ||
+         lower === "tb.v" ||
+         lower === "tb.sv";
+}
+
+/**
+ * Design sources already in a project's src/ (no headers or testbenches)
+ */
+export function projectDesignSources(projectId: string, option: LanguageOption = "auto"): HdlSource[] {
+  const sources: HdlSource[] = [];
+  for (const file of fileManager.listFiles(projectId, "src").sort()) {
+    const name = file.slice("src/".length);
+    if (name.includes("/") || !/\.s?v$/i.test(name) || isHeaderFile(name) || isTestbenchFile(name)) continue;
+    sources.push({ name, language: languageOfFile(name, option) });
+  }
+  return sources;
+}
+
+/**
+ * Project-relative paths of the headers in a project's src/ (found by `include from src/)
+ */
+export function projectHeaderFiles(projectId: string): string[] {
+  return fileManager.listFiles(projectId, "src").sort()
+    .filter((file) => !file.slice("src/".length).includes("/") && isHeaderFile(file));
+}
+
+/**
+ * Testbenches already in a project: src/tb/ and top-level files named like testbenches
+ */
+export function projectTestbenchSources(projectId: string, option: LanguageOption = "auto"): HdlSource[] {
+  const sources: HdlSource[] = [];
+  for (const file of fileManager.listFiles(projectId, "src").sort()) {
+    const name = file.slice("src/".length);
+    if (!/\.s?v$/i.test(name) || isHeaderFile(name)) continue;
+    const testbench = name.includes("/")
+      ? name.startsWith(`${TESTBENCH_DIR}/`) && !name.slice(TESTBENCH_DIR.length + 1).includes("/")
+      : isTestbenchFile(name);
+    if (testbench) sources.push({ name, language: languageOfFile(name, option) });
+  }
+  return sources;
+}
+
+/**
+ * Language of inline source code given the requested option
+ */
+export function languageOfCode(code: string, option: LanguageOption = "auto"): HdlLanguage {
+  if (option !== "auto") return option;
+  const withoutComments = code.replace(/\/\*[\s\S]*?\*\//g, "").replace(/\/\/.*$/gm, "");
+  return SV_CONSTRUCTS.test(withoutComments) ? "sv2012" : "verilog2005";
+}
+
+/**
+ * File name for inline code (design.v / design.sv)
+ */
+export function sourceFileName(baseName: string, language: HdlLanguage): string {
+  return `${baseName}${language === "sv2012" ? ".sv" : ".v"}`;
+}
+
+/**
+ * Language a set of files is compiled as (SV if any file is SV)
+ */
+export function combinedLanguage(sources: HdlSource[]): HdlLanguage {
+  return sources.some((source) => source.language === "sv2012") ? "sv2012" : "verilog2005";
+}
+
+/**
+ * Icarus Verilog language generation flag
+ */
+export function iverilogFlags(language: HdlLanguage): string[] {
+  return [language === "sv2012" ? "-g2012" : "-g2005"];
+}
+
+/**
+ * Verilator language flags (the extension mapping keeps .v files Verilog)
+ */
+export function verilatorFlags(language: HdlLanguage): string[] {
+  return language === "sv2012"
+    ? ["--default-language", "1800-2012", "+1364-2005ext+v", "+1800-2012ext+sv"]
+    : ["--default-language", "1364-2005", "+1800-2012ext+sv"];
+}
+
+/**
+ * sv2v command converting the SV sources into SV2V_OUTPUT, or null if there are none
+ */
+export function sv2vCommand(sources: HdlSource[], build: HdlBuildOptions = {}): string[] | null {
+  const svFiles = sources
+    .filter((source) => source.language === "sv2012")
+    .map((source) => (source.name.startsWith("-") ? `./${source.name}` : source.name));
+  return svFiles.length > 0 ? ["sv2v", ...sv2vBuildFlags(build), "-w", SV2V_OUTPUT, ...svFiles] : null;
+}
+
+/**
+ * Yosys commands that read the sources with the given SV front-end
+ * yosys-slang elaborates at read time, so it also applies the parameter overrides.
+ */
+export function yosysReadCommands(
+  sources: HdlSource[],
+  frontend: SvFrontend = "read_verilog",
+  build: HdlBuildOptions = {}
+): string {
+  const commands: string[] = [];
+  const svFiles = sources.filter((source) => source.language === "sv2012").map((source) => source.name);
+  const flags = yosysReadFlags(build).map((flag) => `${yosysQuote(flag)} `).join("");
+
+  // slang and sv2v take all SV files together (packages, interfaces); Verilog files follow
+  if (svFiles.length > 0 && frontend === "slang") {
+    const slangFlags = [
+      ...includeDirPaths(build).flatMap((dir) => ["-I", dir]),
+      ...defineStrings(build).flatMap((define) => ["-D", define]),
+      ...parameterStrings(build).flatMap((parameter) => ["-G", parameter]),
+    ];
+    commands.push("plugin -i slang");
+    commands.push(`read_slang ${[...slangFlags, ...svFiles].map(yosysQuote).join(" ")}`);
+  } else if (svFiles.length > 0 && frontend === "sv2v") {
+    commands.push(`read_verilog ${yosysQuote(SV2V_OUTPUT)}`);
+  }
+
+  for (const source of sources) {
+    if (source.language === "verilog2005") {
+      commands.push(`read_verilog ${flags}${yosysQuote(source.name)}`);
+    } else if (frontend === "read_verilog") {
+      commands.push(`read_verilog -sv ${flags}${yosysQuote(source.name)}`);
+    }
+  }
+
+  return commands.join("\n");
+}
@@ -26,16 +26,39 @@ import {
   formatSynthesisResult,
   simulateVerilog,
   formatSimulationResult,
+  type Simulator,
+  runRegression,
+  formatRegressionResult,
+  type RegressionTest,
+  simulateGateLevel,
+  formatGateLevelSimResult,
+  type GateLevelNetlist,
+  runCocotb,
+  formatCocotbResult,
+  analyzeActivityPower,
+  resolveSwitchingActivity,
+  formatActivityPowerResult,
+  type TraceFormat,
   runOpenlane,
   readOpenlaneReports,
   formatOpenlaneResult,
   formatReportsResult,
+  reproduceRun,
+  reproductionRunInput,
+  formatReproduceResult,
   viewWaveform,
   viewGds,
   formatViewerResult,
+  queryWaveform,
+  formatWaveformQueryResult,
+  type WaveformOperation,
+  renderWaveform,
+  formatWaveformRenderResult,
+  type WaveformFormat,
   getVncInfo,
   projectManager,
   dockerManager,
+  getExecutor,
   // RAG tools
   checkRAGStatus,
   formatRAGResult,
@@ -60,12 +83,57 @@ import {
   // Optimized run tool
   runOptimizedOpenlaneTool,
   formatOptimizedRunResult,
+  // Job tools
+  jobQueue,
+  startJob,
+  toJobOutcome,
+  getJobStatus,
+  listJobs,
+  cancelJob,
+  formatJobStatus,
+  formatJobList,
+  createProgressReporter,
+  // Cache tools
+  getCacheStats,
+  evictCache,
+  // Environment diagnostics
+  checkEnvironment,
+  formatEnvironmentReport,
+  // RTL lint
+  lintVerilog,
+  formatLintResult,
+  // Formal equivalence
+  checkEquivalence,
+  formatEquivalenceResult,
+  type EquivalenceArtifact,
+  // Formal property verification
+  runFormal,
+  formatFormalResult,
+  type FormalMode,
+  // Schematic rendering
+  renderSchematic,
+  formatSchematicResult,
+  type SchematicStage,
+  type SchematicRenderer,
+  type SchematicFormat,
+  // Design hierarchy
+  getDesignHierarchy,
+  formatHierarchyResult,
+  // FPGA flow
+  runFpgaFlow,
+  formatFpgaResult,
+  type FpgaFamily,
+  type CachedTool,
+  type OpenlaneOptions,
 } from "./tools/index.js";
 
 // Import signoff tools
 import {
   signoffToolHandlers,
 } from "./tools/signoff-tools.js";
+import type { HdlBuildOptions, LanguageOption, SvFrontend } from "./hdl/index.js";
+import type { RunStatus } from "./types/project.js";
+import type { ProgressReporter } from "./types/progress.js";
 
 // Helper functions for parameter extraction
 function getStringProperty(obj: any, key: string, defaultValue = ""): string {
@@ -102,6 +170,63 @@ function getArrayProperty(obj: any, key: string): string[] | undefined {
   return undefined;
 }
 
+function getRecordProperty(obj: any, key: string): Record<string, string | number> | undefined {
+  if (obj && typeof obj === "object" && key in obj) {
+    const value = obj[key];
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      return Object.fromEntries(
+        Object.entries(value).filter((entry): entry is [string, string | number] =>
+          typeof entry[1] === "string" || typeof entry[1] === "number"
+        )
+      );
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Include dirs, defines and parameter overrides shared by synthesis, simulation and OpenLane
+ */
+function getBuildOptions(obj: any): HdlBuildOptions {
+  return {
+    includeDirs: getArrayProperty(obj, "include_dirs"),
+    defines: getRecordProperty(obj, "defines"),
+    parameters: getRecordProperty(obj, "parameters"),
+  };
+}
+
+/**
+ * Tests of run_regression: testbench paths, or objects with per-test settings
+ */
+function getRegressionTests(obj: any): RegressionTest[] {
+  const tests: unknown[] = obj && Array.isArray(obj.tests) ? obj.tests : [];
+  return tests.flatMap((test: any): RegressionTest[] => {
+    if (typeof test === "string") return [{ testbench: test }];
+    if (!test || typeof test !== "object" || typeof test.testbench !== "string") return [];
+    return [{
+      testbench: test.testbench,
+      name: getStringProperty(test, "name") || undefined,
+      topTestbench: getStringProperty(test, "top_testbench") || undefined,
+      defines: getRecordProperty(test, "defines"),
+      plusargs: getArrayProperty(test, "plusargs"),
+      seeds: Array.isArray(test.seeds)
+        ? test.seeds.filter((seed: unknown): seed is number => Number.isInteger(seed) && (seed as number) >= 0)
+        : undefined,
+    }];
+  });
+}
+
+/**
+ * Waveform time: ticks as a number, or a string with a unit ("120ns")
+ */
+function getTimeProperty(obj: any, key: string): number | string | undefined {
+  if (obj && typeof obj === "object" && key in obj) {
+    const value = obj[key];
+    if (typeof value === "number" || typeof value === "string") return value;
+  }
+  return undefined;
+}
+
 function validateRequiredString(obj: any, key: string, toolName: string): string {
   const value = getStringProperty(obj, key);
   if (!value) {
@@ -118,9 +243,24 @@ function validateRequiredString(obj: any, key: string, toolName: string): string
  */
 async function findLatestRunForProject(projectId: string): Promise<{ latestRun?: string }> {
   const paths = projectManager.getProjectPaths(projectId);
-  const listRunsCmd = `ls -t ${paths.containerPath}/runs 2>/dev/null | head -1`;
-  const result = await dockerManager.exec(listRunsCmd, { workdir: paths.containerPath });
-  return { latestRun: result.success && result.stdout.trim() ? result.stdout.trim() : undefined };
+  const result = await getExecutor().run(["ls", "-t", "--", `${paths.containerPath}/runs`], { workdir: paths.containerPath });
+  const latestRun = result.stdout.split("\n")[0].trim();
+  return { latestRun: result.success && latestRun ? latestRun : undefined };
+}
+
+/**
+ * Adapt a progress reporter to the AutoTuner trial callback
+ */
+function trialProgress(report?: ProgressReporter) {
+  if (!report) return undefined;
+  return (trial: { currentTrial: number; totalTrials: number; bestScore: number; currentStatus: string }) =>
+    report({
+      progress: trial.currentTrial,
+      total: trial.totalTrials,
+      message: trial.currentTrial > 0
+        ? `AutoTuner trial ${trial.currentTrial}/${trial.totalTrials} (best score ${trial.bestScore.toFixed(3)})`
+        : trial.currentStatus,
+    });
 }
 
 // Initialize the MCP server
@@ -129,76 +269,670 @@ const server = new Server(
   { capabilities: { tools: {} } }
 );
 
+// Schema properties for include dirs, defines and parameter overrides
+const buildOptionProperties = {
+  include_dirs: {
+    type: "array",
+    items: { type: "string" },
+    description: "Include directories for `include files, relative to the project directory (e.g. 'src/include') or absolute container paths",
+  },
+  defines: {
+    type: "object",
+    additionalProperties: { type: ["string", "number"] },
+    description: "Preprocessor defines, e.g. {\"SIMULATION\": \"\", \"DEPTH\": 16} (empty string defines without a value)",
+  },
+  parameters: {
+    type: "object",
+    additionalProperties: { type: ["string", "number"] },
+    description: "Top-level parameter overrides, e.g. {\"WIDTH\": 32}. Numeric values only (32, 8'hFF)",
+  },
+};
+
 // Tool definitions
 const tools = [
   {
-    name: "synthesize_verilog",
+    name: "synthesize_verilog",
+    description:
+      "Synthesize Verilog or SystemVerilog code using Yosys in Docker. Supports generic, ice40, ecp5, xilinx, and sky130 targets; for sky130 the netlist also gets a pre-layout OpenSTA estimate (critical path, Fmax, area, power) stored as synthesis-stage PPA metrics. Can accept either inline verilog_code OR an array of verilog_files paths. Front-end errors and warnings are reported per file.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        verilog_code: {
+          type: "string",
+          description: "The Verilog source code to synthesize (use this OR verilog_files)",
+        },
+        verilog_files: {
+          type: "array",
+          items: { type: "string" },
+          description: "Array of Verilog file paths to synthesize (use this OR verilog_code)",
+        },
+        top_module: {
+          type: "string",
+          description: "Name of the top-level module",
+        },
+        target: {
+          type: "string",
+          description: "Target technology (generic, ice40, ecp5, xilinx, sky130)",
+          default: "generic",
+        },
+        clock_port: {
+          type: "string",
+          description: "sky130 only: clock port for the pre-layout OpenSTA estimate (designs without it are timed unconstrained)",
+          default: "clk",
+        },
+        clock_period: {
+          type: "number",
+          description: "sky130 only: clock period in ns for the pre-layout estimate (timed against output/pre_layout.sdc)",
+          default: 10.0,
+        },
+        language: {
+          type: "string",
+          enum: ["auto", "verilog2005", "sv2012"],
+          description: "Source language. auto: .sv/.svh files (or inline code using SystemVerilog constructs) are SystemVerilog-2012, everything else Verilog-2005",
+          default: "auto",
+        },
+        sv_frontend: {
+          type: "string",
+          enum: ["read_verilog", "slang", "sv2v"],
+          description: "How SystemVerilog is read: Yosys read_verilog -sv, the yosys-slang plugin (full SV incl. interfaces), or sv2v conversion to Verilog first",
+          default: "read_verilog",
+        },
+        ...buildOptionProperties,
+        project_id: {
+          type: "string",
+          description: "Optional: existing project ID to use",
+        },
+        project_name: {
+          type: "string",
+          description: "Optional: name for new project",
+        },
+        use_cache: {
+          type: "boolean",
+          description: "Reuse the result of an earlier run with identical inputs, target and tool versions",
+          default: true,
+        },
+      },
+      required: ["top_module"],
+    },
+  },
+  {
+    name: "simulate_verilog",
+    description:
+      "Simulate Verilog or SystemVerilog code using Icarus Verilog or Verilator in Docker. Sources can be inline code, file paths, a .f file list, or the files already in a project. Verilator builds the HDL testbench with --binary, or compiles a C++ harness instead. Generates VCD (or FST) waveforms.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        verilog_code: {
+          type: "string",
+          description: "The Verilog design code (use this, verilog_files, file_list, or project_id with existing sources)",
+        },
+        testbench_code: {
+          type: "string",
+          description: "The testbench code (not needed with cpp_harness or testbench_files)",
+        },
+        verilog_files: {
+          type: "array",
+          items: { type: "string" },
+          description: "Design file paths: host or container paths, or files in the project's src/ (used in place)",
+        },
+        testbench_files: {
+          type: "array",
+          items: { type: "string" },
+          description: "Testbench file paths; copied into src/tb/ so they stay out of synthesis and OpenLane",
+        },
+        file_list: {
+          type: "string",
+          description: "A .f file list (one source per line, +incdir+ and +define+ entries, paths relative to the list). Files named like testbenches (tb_*, *_tb) are treated as testbenches",
+        },
+        top_testbench: {
+          type: "string",
+          description: "Root module of the simulation (iverilog -s / verilator --top-module); default: elaborated automatically",
+        },
+        seed: {
+          type: "number",
+          description: "Random seed, passed as +seed=<n> (read it with $value$plusargs; Verilator also gets +verilator+seed+<n>)",
+        },
+        plusargs: {
+          type: "array",
+          items: { type: "string" },
+          description: "Runtime plusargs, e.g. [\"+TEST=smoke\"]",
+        },
+        coverage: {
+          type: "boolean",
+          description: "Collect coverage of the design: Verilator --coverage (line/branch, toggle and user cover points), or with Icarus toggle coverage counted from the VCD. Reported per module and per line, with an annotated report in output/coverage_report.txt",
+          default: false,
+        },
+        language: {
+          type: "string",
+          enum: ["auto", "verilog2005", "sv2012"],
+          description: "Source language (iverilog -g2005 / -g2012). auto: SystemVerilog if either file uses SystemVerilog constructs",
+          default: "auto",
+        },
+        simulator: {
+          type: "string",
+          enum: ["icarus", "verilator"],
+          description: "icarus: iverilog/vvp; verilator: compiled simulation, much faster for long regressions",
+          default: "icarus",
+        },
+        trace_format: {
+          type: "string",
+          enum: ["vcd", "fst"],
+          description: "Verilator trace format (--trace / --trace-fst)",
+          default: "vcd",
+        },
+        cpp_harness: {
+          type: "string",
+          description: "Verilator only: C++ main() driving the design (V<top>.h) instead of an HDL testbench. Call Verilated::traceEverOn(true) and open the trace relative to the working directory (output/)",
+        },
+        top_module: {
+          type: "string",
+          description: "Verilator with cpp_harness: module the harness instantiates (default: the first module in verilog_code)",
+        },
+        ...buildOptionProperties,
+        parameters: {
+          ...buildOptionProperties.parameters,
+          description: "Parameter overrides for the testbench (the simulation root, iverilog -P), e.g. {\"WIDTH\": 32}. Numeric values only",
+        },
+        project_id: {
+          type: "string",
+          description: "Optional: existing project ID; without code or files its src/ design files and testbenches (src/tb/, tb_*, *_tb) are simulated",
+        },
+        project_name: {
+          type: "string",
+          description: "Optional: name for new project",
+        },
+      },
+    },
+  },
+  {
+    name: "run_regression",
+    description:
+      "Run a project's self-checking testbenches (optionally with random seeds) in parallel against its design. Pass/fail comes from the exit code, $error/$fatal and optional PASS/FAIL regexes. Each test is recorded as a simulation run; returns a pass/fail table, a JUnit XML report, and regressions compared with the previous regression run.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_id: {
+          type: "string",
+          description: "Project ID (design files in src/, testbenches excluded)",
+        },
+        tests: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              testbench: { type: "string", description: "Testbench file in the project's src/ (e.g. tb/tb_fifo.v), or a host/container path" },
+              name: { type: "string", description: "Test name (default: the file name without extension)" },
+              top_testbench: { type: "string", description: "Simulation root module" },
+              defines: { type: "object", additionalProperties: { type: ["string", "number"] }, description: "Extra defines for this test" },
+              plusargs: { type: "array", items: { type: "string" }, description: "Runtime plusargs, e.g. [\"+TEST=burst\"]" },
+              seeds: { type: "array", items: { type: "number" }, description: "Run once per seed (passed as +seed=<n>)" },
+            },
+            required: ["testbench"],
+          },
+          description: "Testbenches to run: objects, or plain testbench paths",
+        },
+        random_seeds: {
+          type: "number",
+          description: "Runs per test with random seeds (+seed=<n>, read with $value$plusargs) for tests without explicit seeds",
+          default: 0,
+        },
+        parallel: {
+          type: "number",
+          description: "Simulations at a time (max 16)",
+          default: 4,
+        },
+        pass_pattern: {
+          type: "string",
+          description: "Regex the simulation output must match to pass, e.g. \"TEST PASSED\"",
+        },
+        fail_pattern: {
+          type: "string",
+          description: "Regex that fails a test when it appears in the output, e.g. \"MISMATCH|TEST FAILED\"",
+        },
+        simulator: {
+          type: "string",
+          enum: ["icarus", "verilator"],
+          default: "icarus",
+        },
+        language: {
+          type: "string",
+          enum: ["auto", "verilog2005", "sv2012"],
+          default: "auto",
+        },
+        coverage: {
+          type: "boolean",
+          description: "Collect coverage in every test and merge it (see simulate_verilog); the merged result is added to the project's coverage history",
+          default: false,
+        },
+        ...buildOptionProperties,
+        async: {
+          type: "boolean",
+          description: "Run as a background job and return a job_id immediately (poll with get_job_status). Set false to wait for completion.",
+          default: true,
+        },
+      },
+      required: ["project_id", "tests"],
+    },
+  },
+  {
+    name: "simulate_gate_level",
+    description:
+      "Simulate a project's testbench with Icarus Verilog against the synthesized netlist (synth_output.v) or LibreLane's final netlist and the PDK standard-cell Verilog models (sky130/gf180/ihp). The final netlist can be back-annotated with the SDF of one corner. Reports timing-check violations from the simulator output and netlist signals that go X after being known or are still X at the end (from the VCD). Stored as a gate_level run.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_id: {
+          type: "string",
+          description: "Project ID",
+        },
+        netlist: {
+          type: "string",
+          enum: ["synth", "final"],
+          description: "synth: output/synth_output.v; final: the post-layout netlist of the latest OpenLane run (default: final if there is one, else synth)",
+        },
+        testbench_files: {
+          type: "array",
+          items: { type: "string" },
+          description: "Testbench file paths, copied into src/tb/ (default: the project's testbenches in src/tb/, tb_*, *_tb)",
+        },
+        top_testbench: {
+          type: "string",
+          description: "Root module of the simulation (default: the first module of the first testbench)",
+        },
+        top_module: {
+          type: "string",
+          description: "Top module of the netlist (default: the project's top module)",
+        },
+        dut_instance: {
+          type: "string",
+          description: "Hierarchical path of the netlist instance, e.g. tb.dut (default: found in the testbench); SDF is annotated and X values are checked here",
+        },
+        sdf: {
+          type: "boolean",
+          description: "Back-annotate the final netlist with LibreLane's SDF (cell specify blocks, iverilog -gspecify) instead of zero-delay functional models",
+          default: false,
+        },
+        sdf_corner: {
+          type: "string",
+          description: "SDF corner, e.g. nom_tt_025C_1v80 or max_ss_100C_1v60 (default: the nominal typical corner)",
+        },
+        pdk: {
+          type: "string",
+          description: "PDK providing the cell models (default: the PDK of the latest OpenLane run, else sky130A)",
+        },
+        std_cell_library: {
+          type: "string",
+          description: "Standard-cell library under libs.ref (default: the PDK's library, e.g. sky130_fd_sc_hd)",
+        },
+        plusargs: {
+          type: "array",
+          items: { type: "string" },
+          description: "Runtime plusargs, e.g. [\"+TEST=smoke\"]",
+        },
+        language: {
+          type: "string",
+          enum: ["auto", "verilog2005", "sv2012"],
+          description: "Testbench language (iverilog -g2005 / -g2012)",
+          default: "auto",
+        },
+        timeout: {
+          type: "number",
+          description: "Simulation timeout in seconds",
+          default: 600,
+        },
+        ...buildOptionProperties,
+        async: {
+          type: "boolean",
+          description: "Run as a background job and return a job_id immediately (poll with get_job_status). Set false to wait for completion.",
+          default: true,
+        },
+      },
+      required: ["project_id"],
+    },
+  },
+  {
+    name: "run_cocotb",
+    description:
+      "Run cocotb Python testbenches against a project's design with Icarus Verilog or Verilator. Generates the cocotb Makefile in output/cocotb/, runs the test modules and parses results.xml into per-test pass/fail with each failure's message and traceback. The waveform is tracked as VCD/FST and the run is recorded as a simulation run.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_id: {
+          type: "string",
+          description: "Project ID",
+        },
+        test_files: {
+          type: "array",
+          items: { type: "string" },
+          description: "Python test modules (host or container paths, or files in the project's src/); copied into src/tb/",
+        },
+        test_code: {
+          type: "string",
+          description: "Inline Python test module, saved as src/tb/test_<top_module>.py (in addition to test_files)",
+        },
+        verilog_files: {
+          type: "array",
+          items: { type: "string" },
+          description: "Design files (default: the project's design sources in src/)",
+        },
+        top_module: {
+          type: "string",
+          description: "HDL toplevel the tests drive (default: the project's top module)",
+        },
+        testcases: {
+          type: "array",
+          items: { type: "string" },
+          description: "Run only these test functions (default: all tests in the modules)",
+        },
+        simulator: {
+          type: "string",
+          enum: ["icarus", "verilator"],
+          description: "cocotb SIM",
+          default: "icarus",
+        },
+        trace_format: {
+          type: "string",
+          enum: ["vcd", "fst"],
+          description: "Waveform format",
+          default: "vcd",
+        },
+        seed: {
+          type: "number",
+          description: "cocotb random seed (RANDOM_SEED)",
+        },
+        plusargs: {
+          type: "array",
+          items: { type: "string" },
+          description: "Simulator plusargs, e.g. [\"+TEST=smoke\"]",
+        },
+        language: {
+          type: "string",
+          enum: ["auto", "verilog2005", "sv2012"],
+          description: "Source language of the design files",
+          default: "auto",
+        },
+        timeout: {
+          type: "number",
+          description: "Timeout for build and tests in seconds",
+          default: 900,
+        },
+        ...buildOptionProperties,
+        async: {
+          type: "boolean",
+          description: "Run as a background job and return a job_id immediately (poll with get_job_status). Set false to wait for completion.",
+          default: true,
+        },
+      },
+      required: ["project_id"],
+    },
+  },
+  {
+    name: "lint_verilog",
+    description:
+      "Lint Verilog/SystemVerilog RTL with Verilator (--lint-only -Wall) and Yosys (check -assert). Reports latches, width mismatches, undriven nets and multiple drivers as file/line diagnostics before synthesis or OpenLane.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_id: {
+          type: "string",
+          description: "Existing project ID; without verilog_code/verilog_files the design files in its src/ are linted (testbenches excluded)",
+        },
+        verilog_code: {
+          type: "string",
+          description: "Verilog source code to lint (use this OR verilog_files OR project_id)",
+        },
+        verilog_files: {
+          type: "array",
+          items: { type: "string" },
+          description: "Array of Verilog file paths to lint",
+        },
+        top_module: {
+          type: "string",
+          description: "Name of the top-level module (default: the project's top module, else auto-detected)",
+        },
+        language: {
+          type: "string",
+          enum: ["auto", "verilog2005", "sv2012"],
+          description: "Source language. auto: .sv/.svh files (or inline code using SystemVerilog constructs) are SystemVerilog-2012",
+          default: "auto",
+        },
+        ...buildOptionProperties,
+        project_name: {
+          type: "string",
+          description: "Optional: name for new project",
+        },
+      },
+    },
+  },
+  {
+    name: "check_equivalence",
+    description:
+      "Formally check two design artifacts for equivalence with Yosys (equiv_make/equiv_simple/equiv_induct, plus a bounded SAT check for differing outputs). Artifacts: rtl (src/), synth (synthesized netlist), final (LibreLane final netlist), eco (netlist of the ECO'd DEF). Standard cells are modelled from the PDK liberty. The result is stored as an equivalence run used by the tapeout checklist.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_id: {
+          type: "string",
+          description: "Project ID",
+        },
+        gold: {
+          type: "string",
+          enum: ["rtl", "synth", "final", "eco"],
+          description: "Reference design",
+          default: "rtl",
+        },
+        gate: {
+          type: "string",
+          enum: ["rtl", "synth", "final", "eco"],
+          description: "Implementation compared against the reference",
+          default: "final",
+        },
+        top_module: {
+          type: "string",
+          description: "Top module (default: the project's top module)",
+        },
+        pdk: {
+          type: "string",
+          description: "PDK whose standard-cell liberty provides the cell models (default: the PDK of the latest OpenLane run, else sky130A)",
+        },
+        std_cell_library: {
+          type: "string",
+          description: "Standard-cell library under libs.ref (default: the PDK's library, e.g. sky130_fd_sc_hd)",
+        },
+        depth: {
+          type: "number",
+          description: "Sequential depth for induction and the bounded check",
+          default: 10,
+        },
+        ...buildOptionProperties,
+        async: {
+          type: "boolean",
+          description: "Run as a background job and return a job_id immediately (poll with get_job_status). Set false to wait for completion.",
+          default: true,
+        },
+      },
+      required: ["project_id"],
+    },
+  },
+  {
+    name: "run_formal",
+    description:
+      "Formally verify the SVA assert/assume/cover properties in a project's design sources with SymbiYosys (modes bmc, prove, cover). Reports per-property status; counterexample and cover traces are saved as VCD files for view_waveform.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_id: {
+          type: "string",
+          description: "Project ID (design files in src/, testbenches excluded)",
+        },
+        mode: {
+          type: "string",
+          enum: ["bmc", "prove", "cover"],
+          description: "bmc: bounded model check of the assertions; prove: unbounded proof (k-induction or PDR); cover: find traces reaching each cover statement",
+          default: "bmc",
+        },
+        depth: {
+          type: "number",
+          description: "Number of steps for bmc/cover, induction length for prove",
+          default: 20,
+        },
+        engine: {
+          type: "string",
+          enum: ["smtbmc", "smtbmc-boolector", "smtbmc-z3", "abc-pdr", "abc-bmc3"],
+          description: "Solver engine (abc-pdr: prove only, abc-bmc3: bmc only)",
+          default: "smtbmc",
+        },
+        top_module: {
+          type: "string",
+          description: "Top module (default: the project's top module)",
+        },
+        ...buildOptionProperties,
+        async: {
+          type: "boolean",
+          description: "Run as a background job and return a job_id immediately (poll with get_job_status). Set false to wait for completion.",
+          default: true,
+        },
+      },
+      required: ["project_id"],
+    },
+  },
+  {
+    name: "run_fpga_flow",
     description:
-      "Synthesize Verilog code using Yosys in Docker. Supports generic, ice40, xilinx, and sky130 targets. Can accept either inline verilog_code OR an array of verilog_files paths.",
+      "Run a complete FPGA flow on a project's design sources: Yosys synth_ice40/synth_ecp5, nextpnr place-and-route with a PCF/LPF pin constraint file, and icepack/ecppack. Reports utilization and Fmax per clock from the nextpnr report; the .bin/.bit bitstream is saved to output/ and tracked with the run.",
     inputSchema: {
       type: "object",
       properties: {
-        verilog_code: {
+        project_id: {
           type: "string",
-          description: "The Verilog source code to synthesize (use this OR verilog_files)",
+          description: "Project ID (design files in src/, testbenches excluded)",
         },
-        verilog_files: {
-          type: "array",
-          items: { type: "string" },
-          description: "Array of Verilog file paths to synthesize (use this OR verilog_code)",
+        family: {
+          type: "string",
+          enum: ["ice40", "ecp5"],
+          description: "FPGA family",
         },
-        top_module: {
+        device: {
           type: "string",
-          description: "Name of the top-level module",
+          description: "Device as the nextpnr flag without dashes (ice40: hx1k, hx8k, up5k, ...; ecp5: 25k, 45k, 85k, um5g-85k, ...). Default: hx8k / 25k",
         },
-        target: {
+        package: {
           type: "string",
-          description: "Target technology (generic, ice40, xilinx, sky130)",
-          default: "generic",
+          description: "Device package (default: ct256 for ice40, CABGA381 for ecp5)",
         },
-        project_id: {
+        constraints: {
           type: "string",
-          description: "Optional: existing project ID to use",
+          description: "PCF (ice40) or LPF (ecp5) pin constraints, saved to the project (use this OR constraints_file)",
         },
-        project_name: {
+        constraints_file: {
           type: "string",
-          description: "Optional: name for new project",
+          description: "Project-relative path of a PCF/LPF file already in the project (use this OR constraints)",
+        },
+        frequency: {
+          type: "number",
+          description: "Target clock frequency in MHz (nextpnr --freq)",
+        },
+        seed: {
+          type: "number",
+          description: "Placer seed",
+        },
+        top_module: {
+          type: "string",
+          description: "Top module (default: the project's top module)",
+        },
+        ...buildOptionProperties,
+        async: {
+          type: "boolean",
+          description: "Run as a background job and return a job_id immediately (poll with get_job_status). Set false to wait for completion.",
+          default: true,
         },
       },
-      required: ["top_module"],
+      required: ["project_id", "family"],
     },
   },
   {
-    name: "simulate_verilog",
+    name: "view_waveform",
     description:
-      "Simulate Verilog code using Icarus Verilog in Docker. Generates VCD waveforms.",
+      "Open VCD waveform file in GTKWave viewer. Accessible via VNC at http://localhost:8888. To see or read a waveform inside the conversation, use render_waveform or query_waveform instead.",
     inputSchema: {
       type: "object",
       properties: {
-        verilog_code: {
+        project_id: {
           type: "string",
-          description: "The Verilog design code",
+          description: "Project ID from simulation",
         },
-        testbench_code: {
+        vcd_file: {
           type: "string",
-          description: "The testbench code",
+          description: "VCD filename (default: output.vcd)",
+          default: "output.vcd",
         },
+      },
+      required: ["project_id"],
+    },
+  },
+  {
+    name: "query_waveform",
+    description:
+      "Read a simulation trace (VCD, or FST via fst2vcd) without a GUI. Operations: list_signals, value_at (values at a time), transitions (value changes in a window), find (when a condition becomes true), toggles (toggle counts). Returns compact text tables, e.g. to debug a failing testbench from output.vcd.",
+    inputSchema: {
+      type: "object",
+      properties: {
         project_id: {
           type: "string",
-          description: "Optional: existing project ID to use",
+          description: "Project ID from simulation",
         },
-        project_name: {
+        operation: {
           type: "string",
-          description: "Optional: name for new project",
+          enum: ["list_signals", "value_at", "transitions", "find", "toggles"],
+          description: "list_signals: names and widths; value_at: values at 'time'; transitions: changes of 'signals' in [start, end]; find: times 'expression' becomes true; toggles: change counts per signal",
+        },
+        vcd_file: {
+          type: "string",
+          description: "Trace file under output/ (default: the latest simulation's trace, else output.vcd)",
+        },
+        signals: {
+          type: "array",
+          items: { type: "string" },
+          description: "Signals by full hierarchical name or unique suffix (e.g. 'dut.count'). value_at/toggles default to all signals matching 'filter'",
+        },
+        filter: {
+          type: "string",
+          description: "list_signals/value_at/toggles: substring or glob (tb.dut.*) on signal names",
+        },
+        time: {
+          type: ["number", "string"],
+          description: "value_at: time in timescale ticks, or with a unit ('120ns')",
+        },
+        start: {
+          type: ["number", "string"],
+          description: "Window start (ticks or with a unit, default: 0)",
+        },
+        end: {
+          type: ["number", "string"],
+          description: "Window end (ticks or with a unit, default: end of the dump)",
+        },
+        expression: {
+          type: "string",
+          description: "find: Verilog-style condition, e.g. \"dut.state == 'h3 && !fifo.full\" (== != < <= > >= && || ! ~ & | ^, bit selects)",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum rows (find: occurrences, default 1)",
+        },
+        radix: {
+          type: "string",
+          enum: ["hex", "bin", "dec"],
+          description: "Display of vector values",
+          default: "hex",
         },
       },
-      required: ["verilog_code", "testbench_code"],
+      required: ["project_id", "operation"],
     },
   },
   {
-    name: "view_waveform",
+    name: "render_waveform",
     description:
-      "Open VCD waveform file in GTKWave viewer. Accessible via VNC at http://localhost:8888",
+      "Draw signals of a simulation trace (VCD/FST in the project's output/) over a time window as a WaveDrom timing diagram and return it as an image (PNG or SVG). Buses show hex values; an optional marker highlights a timestamp. No GTKWave/VNC needed.",
     inputSchema: {
       type: "object",
       properties: {
@@ -206,19 +940,45 @@ const tools = [
           type: "string",
           description: "Project ID from simulation",
         },
+        signals: {
+          type: "array",
+          items: { type: "string" },
+          description: "Signals to draw, top to bottom (full hierarchical name or unique suffix, e.g. 'clk', 'dut.count'); at most 32",
+        },
         vcd_file: {
           type: "string",
-          description: "VCD filename (default: output.vcd)",
-          default: "output.vcd",
+          description: "Trace file under output/ (default: the latest simulation's trace, else output.vcd)",
+        },
+        start: {
+          type: ["number", "string"],
+          description: "Window start in timescale ticks or with a unit ('100ns'), default: 0",
+        },
+        end: {
+          type: ["number", "string"],
+          description: "Window end, default: end of the dump",
+        },
+        marker: {
+          type: ["number", "string"],
+          description: "Timestamp to mark, e.g. where query_waveform found a failure",
+        },
+        max_columns: {
+          type: "number",
+          description: "Maximum diagram columns; faster changes are merged (max 256)",
+          default: 64,
+        },
+        format: {
+          type: "string",
+          enum: ["png", "svg"],
+          default: "png",
         },
       },
-      required: ["project_id"],
+      required: ["project_id", "signals"],
     },
   },
   {
     name: "run_openlane",
     description:
-      "Run complete ASIC design flow using OpenLane (RTL to GDSII) in Docker. This process can take up to 10 minutes.",
+      "Run complete ASIC design flow using OpenLane (RTL to GDSII) in Docker. This process can take up to 10 minutes, so it runs as a background job by default.",
     inputSchema: {
       type: "object",
       properties: {
@@ -250,10 +1010,21 @@ const tools = [
           description: "Process Design Kit (sky130A, gf180mcuD, ihp-sg13g2)",
           default: "sky130A",
         },
+        ...buildOptionProperties,
         project_id: {
           type: "string",
           description: "Optional: existing project ID to use",
         },
+        use_cache: {
+          type: "boolean",
+          description: "Reuse the run directory of an earlier run with identical RTL, config, SDC, PDK and tool versions",
+          default: true,
+        },
+        async: {
+          type: "boolean",
+          description: "Run as a background job and return a job_id immediately (poll with get_job_status). Set false to wait for completion.",
+          default: true,
+        },
       },
       required: ["design_name"],
     },
@@ -277,6 +1048,71 @@ const tools = [
       required: ["project_id"],
     },
   },
+  {
+    name: "render_schematic",
+    description:
+      "Render a module's schematic (RTL or synthesized netlist) with Yosys show or netlistsvg and return it as an image, without opening the VNC GUI.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_id: {
+          type: "string",
+          description: "Project ID",
+        },
+        module: {
+          type: "string",
+          description: "Module to draw (default: the project's top module)",
+        },
+        stage: {
+          type: "string",
+          enum: ["rtl", "synth"],
+          description: "rtl: the design sources after proc; synth: the synthesized netlist (output/synth_output.v)",
+          default: "rtl",
+        },
+        renderer: {
+          type: "string",
+          enum: ["yosys", "netlistsvg"],
+          description: "yosys: Graphviz via Yosys show; netlistsvg: schematic-style drawing of write_json output",
+          default: "yosys",
+        },
+        format: {
+          type: "string",
+          enum: ["png", "svg"],
+          description: "Image format",
+          default: "png",
+        },
+        depth: {
+          type: "number",
+          description: "Limit the drawing to this many selection steps around highlight_net (or back from the module outputs)",
+        },
+        highlight_net: {
+          type: "string",
+          description: "Net to highlight; only its surrounding logic (depth steps, default 2) is drawn",
+        },
+        ...buildOptionProperties,
+      },
+      required: ["project_id"],
+    },
+  },
+  {
+    name: "get_design_hierarchy",
+    description:
+      "Get the module tree of a synthesized design with per-module cell, area and memory counts (own and cumulative per instance), from Yosys stat -json. Shows which submodule takes the area.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_id: {
+          type: "string",
+          description: "Project ID",
+        },
+        run_id: {
+          type: "string",
+          description: "Synthesis run (default: the latest successful one)",
+        },
+      },
+      required: ["project_id"],
+    },
+  },
   {
     name: "read_openlane_reports",
     description:
@@ -334,6 +1170,25 @@ const tools = [
       required: ["project_id"],
     },
   },
+  {
+    name: "reproduce_run",
+    description: "Re-execute a past synthesis, simulation or OpenLane run from its input snapshot (exact RTL, SDC, config.json, synth.ys) into a new run, then report whether the metrics and tool versions match the original. Restores the snapshot files into the project directory.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        run_id: {
+          type: "string",
+          description: "ID of the run to reproduce",
+        },
+        async: {
+          type: "boolean",
+          description: "Run OpenLane reproductions as a background job and return a job ID (poll get_job_status). Synthesis and simulation always run synchronously.",
+          default: true,
+        },
+      },
+      required: ["run_id"],
+    },
+  },
   {
     name: "get_vnc_info",
     description: "Get VNC connection information for accessing GUI tools",
@@ -350,6 +1205,15 @@ const tools = [
       properties: {},
     },
   },
+  {
+    name: "check_environment",
+    description:
+      "Diagnose the EDA environment: container state and mounts, EDA binaries and versions, PDKs and standard-cell libraries, the AutoTuner module, ChromaDB, the embedding provider, database writability and host/container path mapping. Every failing check comes with a concrete fix.",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
   // RAG Tools
   {
     name: "search_eda_docs",
@@ -550,6 +1414,11 @@ const tools = [
           description: "Timeout in minutes",
           default: 60,
         },
+        async: {
+          type: "boolean",
+          description: "Run as a background job and return a job_id immediately (poll with get_job_status). Set false to wait for completion.",
+          default: true,
+        },
       },
       required: ["project_id", "design_name"],
     },
@@ -645,6 +1514,11 @@ const tools = [
           },
           description: "Which checks to run",
         },
+        async: {
+          type: "boolean",
+          description: "Run as a background job and return a job_id immediately (poll with get_job_status). Set false to wait for completion.",
+          default: true,
+        },
       },
       required: ["project_id"],
     },
@@ -693,7 +1567,7 @@ const tools = [
   },
   {
     name: "run_ir_drop_analysis",
-    description: "Run IR drop analysis. Reports worst-case voltage drop and hotspots.",
+    description: "Run IR drop analysis. Reports worst-case voltage drop and hotspots. Uses vectorless switching activity unless a simulation activity_file is given.",
     inputSchema: {
       type: "object",
       properties: {
@@ -706,6 +1580,63 @@ const tools = [
           description: "Maximum allowed IR drop in mV",
           default: 50,
         },
+        activity_file: {
+          type: "string",
+          description: "Optional: VCD, FST or SAIF under output/ (e.g. gate_level/waves.vcd) whose switching activity drives the power grid analysis",
+        },
+        activity_scope: {
+          type: "string",
+          description: "Design instance in the activity file, e.g. tb.dut (default: found in the testbench)",
+        },
+      },
+      required: ["project_id"],
+    },
+  },
+  {
+    name: "analyze_activity_power",
+    description:
+      "Post-route power of an OpenLane run's final netlist (with its SDC and SPEF) in OpenSTA, vectorless and with the switching activity of a simulation VCD (read_vcd) or SAIF (read_saif). Reports total, per-scope and per-instance internal/switching/leakage/dynamic power and stores the result as activity-stage PPA metrics on the OpenLane run, next to its vectorless metrics.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_id: {
+          type: "string",
+          description: "Project ID with a successful OpenLane run",
+        },
+        activity_file: {
+          type: "string",
+          description: "VCD, FST or SAIF under output/ (default: the trace of the latest simulate_gate_level run on the final netlist, else of the latest simulation)",
+        },
+        scope: {
+          type: "string",
+          description: "Design instance in the activity file, e.g. tb.dut (default: found in the testbench)",
+        },
+        openlane_run_id: {
+          type: "string",
+          description: "OpenLane run to analyze (default: the latest successful one)",
+        },
+        spef_corner: {
+          type: "string",
+          description: "Parasitics corner under final/spef/",
+          default: "nom",
+        },
+        pdk: {
+          type: "string",
+          description: "PDK of the standard cells (default: the PDK of the OpenLane run)",
+        },
+        std_cell_library: {
+          type: "string",
+          description: "Standard-cell library under libs.ref (default: the PDK's library, e.g. sky130_fd_sc_hd)",
+        },
+        liberty: {
+          type: "string",
+          description: "Liberty file (container path; default: the library's typical corner)",
+        },
+        top_instances: {
+          type: "number",
+          description: "Highest-power instances listed in the response (all are in the report file)",
+          default: 20,
+        },
       },
       required: ["project_id"],
     },
@@ -730,6 +1661,11 @@ const tools = [
           description: "Target WNS to achieve (ns)",
           default: 0,
         },
+        async: {
+          type: "boolean",
+          description: "Run as a background job and return a job_id immediately (poll with get_job_status). Set false to wait for completion.",
+          default: true,
+        },
       },
       required: ["project_id"],
     },
@@ -793,6 +1729,14 @@ const tools = [
           },
           description: "Design requirements for validation",
         },
+        min_line_coverage: {
+          type: "number",
+          description: "Required line coverage in percent (latest simulate_verilog/run_regression run with coverage); makes the coverage check a blocker",
+        },
+        min_toggle_coverage: {
+          type: "number",
+          description: "Required toggle coverage in percent",
+        },
       },
       required: ["project_id"],
     },
@@ -860,7 +1804,92 @@ const tools = [
           description: "Number of cells in design",
         },
       },
-      required: ["wns", "tns", "cell_count"],
+      required: ["wns", "tns", "cell_count"],
+    },
+  },
+
+  // ==================== CACHE TOOLS ====================
+  {
+    name: "get_cache_stats",
+    description: "Show result cache statistics for synthesize_verilog and run_openlane: entries, hits, stored size, and hits/misses since the server started",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "evict_cache",
+    description: "Evict result cache entries. With no filters every entry is evicted. Project files and run directories are not deleted.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tool: {
+          type: "string",
+          enum: ["synthesis", "openlane"],
+          description: "Only evict entries for this tool",
+        },
+        older_than_days: {
+          type: "number",
+          description: "Only evict entries created more than N days ago",
+        },
+        unused_for_days: {
+          type: "number",
+          description: "Only evict entries not hit in the last N days",
+        },
+      },
+    },
+  },
+
+  // ==================== JOB TOOLS ====================
+  {
+    name: "get_job_status",
+    description: "Get the status of a background job (run_openlane, run_autotuner, run_eco_optimization, run_signoff_checks). Returns results once finished.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        job_id: {
+          type: "string",
+          description: "Job ID returned when the job was started",
+        },
+      },
+      required: ["job_id"],
+    },
+  },
+  {
+    name: "list_jobs",
+    description: "List background jobs, newest first",
+    inputSchema: {
+      type: "object",
+      properties: {
+        project_id: {
+          type: "string",
+          description: "Only list jobs for this project",
+        },
+        status: {
+          type: "string",
+          enum: ["pending", "running", "success", "failed", "cancelled"],
+          description: "Only list jobs with this status",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of jobs to return",
+          default: 20,
+        },
+      },
+    },
+  },
+  {
+    name: "cancel_job",
+    description: "Cancel a queued or running background job. Kills the tool processes inside the container.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        job_id: {
+          type: "string",
+          description: "Job ID to cancel",
+        },
+      },
+      required: ["job_id"],
     },
   },
 ];
@@ -871,9 +1900,12 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
 });
 
 // Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
   const { name, arguments: args } = request.params;
 
+  // Only set when the client passed a progressToken; background jobs report via get_job_status
+  const reportProgress = createProgressReporter(request.params._meta?.progressToken, extra.sendNotification);
+
   try {
     switch (name) {
       // Synthesis
@@ -886,10 +1918,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const target = getStringProperty(args, "target", "generic") as
           | "generic"
           | "ice40"
+          | "ecp5"
           | "xilinx"
           | "sky130";
         const projectId = getStringProperty(args, "project_id");
         const projectName = getStringProperty(args, "project_name");
+        const language = getStringProperty(args, "language", "auto") as LanguageOption;
+        const svFrontend = getStringProperty(args, "sv_frontend", "read_verilog") as SvFrontend;
+        const useCache = getBooleanProperty(args, "use_cache", true);
 
         // Validate that either verilog_code or verilog_files is provided
         if (!verilogCode && (!verilogFiles || verilogFiles.length === 0)) {
@@ -904,8 +1940,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           verilogFiles: verilogFiles || undefined,
           topModule,
           target,
+          language,
+          svFrontend,
+          ...getBuildOptions(args),
           projectId: projectId || undefined,
           projectName: projectName || undefined,
+          useCache,
+          clockPort: getStringProperty(args, "clock_port", "clk"),
+          clockPeriod: getNumberProperty(args, "clock_period", 10.0),
         });
 
         return {
@@ -915,14 +1957,37 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       // Simulation
       case "simulate_verilog": {
-        const verilogCode = validateRequiredString(args, "verilog_code", name);
-        const testbenchCode = validateRequiredString(args, "testbench_code", name);
+        const verilogCode = getStringProperty(args, "verilog_code");
+        const verilogFiles = getArrayProperty(args, "verilog_files");
+        const fileList = getStringProperty(args, "file_list");
+        const cppHarness = getStringProperty(args, "cpp_harness");
+        const language = getStringProperty(args, "language", "auto") as LanguageOption;
         const projectId = getStringProperty(args, "project_id");
         const projectName = getStringProperty(args, "project_name");
 
+        if (!verilogCode && (!verilogFiles || verilogFiles.length === 0) && !fileList && !projectId) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            "Either 'verilog_code', 'verilog_files', 'file_list' or 'project_id' must be provided for tool 'simulate_verilog'"
+          );
+        }
+
         const result = await simulateVerilog({
-          verilogCode,
-          testbenchCode,
+          verilogCode: verilogCode || undefined,
+          testbenchCode: cppHarness ? undefined : getStringProperty(args, "testbench_code") || undefined,
+          verilogFiles,
+          testbenchFiles: getArrayProperty(args, "testbench_files"),
+          fileList: fileList || undefined,
+          topTestbench: getStringProperty(args, "top_testbench") || undefined,
+          seed: typeof args?.seed === "number" ? args.seed : undefined,
+          plusargs: getArrayProperty(args, "plusargs"),
+          coverage: getBooleanProperty(args, "coverage", false),
+          language,
+          simulator: getStringProperty(args, "simulator", "icarus") as Simulator,
+          traceFormat: getStringProperty(args, "trace_format", "vcd") as TraceFormat,
+          cppHarness: cppHarness || undefined,
+          topModule: getStringProperty(args, "top_module") || undefined,
+          ...getBuildOptions(args),
           projectId: projectId || undefined,
           projectName: projectName || undefined,
         });
@@ -932,6 +1997,316 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      // Regression
+      case "run_regression": {
+        const projectId = validateRequiredString(args, "project_id", name);
+        const tests = getRegressionTests(args);
+        if (tests.length === 0) {
+          throw new McpError(ErrorCode.InvalidParams, "Parameter 'tests' must list at least one testbench for tool 'run_regression'");
+        }
+        const options = {
+          projectId,
+          tests,
+          randomSeeds: getNumberProperty(args, "random_seeds", 0),
+          parallel: getNumberProperty(args, "parallel", 4),
+          passPattern: getStringProperty(args, "pass_pattern") || undefined,
+          failPattern: getStringProperty(args, "fail_pattern") || undefined,
+          simulator: getStringProperty(args, "simulator", "icarus") as Simulator,
+          language: getStringProperty(args, "language", "auto") as LanguageOption,
+          coverage: getBooleanProperty(args, "coverage", false),
+          ...getBuildOptions(args),
+        };
+
+        if (getBooleanProperty(args, "async", true)) {
+          const text = startJob({
+            tool: name,
+            projectId,
+            runType: "regression",
+            config: {
+              tests,
+              randomSeeds: options.randomSeeds,
+              simulator: options.simulator,
+              coverage: options.coverage,
+              passPattern: options.passPattern,
+              failPattern: options.failPattern,
+            },
+            execute: async ({ jobId, executor, reportProgress: onProgress }) => {
+              const result = await runRegression({ ...options, runId: jobId, executor, onProgress });
+              return toJobOutcome(result.success, formatRegressionResult(result), result.error);
+            },
+          });
+
+          return {
+            content: [{ type: "text", text }],
+          };
+        }
+
+        const result = await runRegression({ ...options, onProgress: reportProgress });
+
+        return {
+          content: [{ type: "text", text: formatRegressionResult(result) }],
+        };
+      }
+
+      // Gate-level simulation
+      case "simulate_gate_level": {
+        const projectId = validateRequiredString(args, "project_id", name);
+        const options = {
+          projectId,
+          netlist: (getStringProperty(args, "netlist") || undefined) as GateLevelNetlist | undefined,
+          testbenchFiles: getArrayProperty(args, "testbench_files"),
+          topTestbench: getStringProperty(args, "top_testbench") || undefined,
+          topModule: getStringProperty(args, "top_module") || undefined,
+          dutInstance: getStringProperty(args, "dut_instance") || undefined,
+          sdf: getBooleanProperty(args, "sdf", false),
+          sdfCorner: getStringProperty(args, "sdf_corner") || undefined,
+          pdk: getStringProperty(args, "pdk") || undefined,
+          stdCellLibrary: getStringProperty(args, "std_cell_library") || undefined,
+          plusargs: getArrayProperty(args, "plusargs"),
+          language: getStringProperty(args, "language", "auto") as LanguageOption,
+          timeout: getNumberProperty(args, "timeout", 600),
+          ...getBuildOptions(args),
+        };
+
+        if (getBooleanProperty(args, "async", true)) {
+          const text = startJob({
+            tool: name,
+            projectId,
+            runType: "gate_level",
+            config: { netlist: options.netlist, topModule: options.topModule, sdf: options.sdf, sdfCorner: options.sdfCorner },
+            execute: async ({ jobId, executor }) => {
+              const result = await simulateGateLevel({ ...options, runId: jobId, executor });
+              return toJobOutcome(result.success, formatGateLevelSimResult(result), result.error);
+            },
+          });
+
+          return {
+            content: [{ type: "text", text }],
+          };
+        }
+
+        const result = await simulateGateLevel(options);
+
+        return {
+          content: [{ type: "text", text: formatGateLevelSimResult(result) }],
+        };
+      }
+
+      // cocotb
+      case "run_cocotb": {
+        const projectId = validateRequiredString(args, "project_id", name);
+        const testFiles = getArrayProperty(args, "test_files");
+        const testCode = getStringProperty(args, "test_code");
+        if (!testCode && (!testFiles || testFiles.length === 0)) {
+          throw new McpError(ErrorCode.InvalidParams, "Either 'test_files' or 'test_code' must be provided for tool 'run_cocotb'");
+        }
+        const options = {
+          projectId,
+          testFiles,
+          testCode: testCode || undefined,
+          verilogFiles: getArrayProperty(args, "verilog_files"),
+          topModule: getStringProperty(args, "top_module") || undefined,
+          testcases: getArrayProperty(args, "testcases"),
+          simulator: getStringProperty(args, "simulator", "icarus") as Simulator,
+          traceFormat: getStringProperty(args, "trace_format", "vcd") as TraceFormat,
+          seed: typeof args?.seed === "number" ? args.seed : undefined,
+          plusargs: getArrayProperty(args, "plusargs"),
+          language: getStringProperty(args, "language", "auto") as LanguageOption,
+          timeout: getNumberProperty(args, "timeout", 900),
+          ...getBuildOptions(args),
+        };
+
+        if (getBooleanProperty(args, "async", true)) {
+          const text = startJob({
+            tool: name,
+            projectId,
+            runType: "simulation",
+            config: {
+              cocotb: true,
+              simulator: options.simulator,
+              traceFormat: options.traceFormat,
+              language: options.language,
+              topModule: options.topModule,
+              testFiles: options.testFiles,
+              verilogFiles: options.verilogFiles,
+              testcases: options.testcases,
+              seed: options.seed,
+              plusargs: options.plusargs,
+              includeDirs: options.includeDirs,
+              defines: options.defines,
+              parameters: options.parameters,
+            },
+            execute: async ({ jobId, executor }) => {
+              const result = await runCocotb({ ...options, runId: jobId, executor });
+              return toJobOutcome(result.success, formatCocotbResult(result), result.error);
+            },
+          });
+
+          return {
+            content: [{ type: "text", text }],
+          };
+        }
+
+        const result = await runCocotb(options);
+
+        return {
+          content: [{ type: "text", text: formatCocotbResult(result) }],
+        };
+      }
+
+      // Lint
+      case "lint_verilog": {
+        const verilogCode = getStringProperty(args, "verilog_code");
+        const verilogFiles = getArrayProperty(args, "verilog_files");
+        const projectId = getStringProperty(args, "project_id");
+        const topModule = getStringProperty(args, "top_module");
+        const language = getStringProperty(args, "language", "auto") as LanguageOption;
+        const projectName = getStringProperty(args, "project_name");
+
+        if (!verilogCode && (!verilogFiles || verilogFiles.length === 0) && !projectId) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            "Either 'verilog_code', 'verilog_files' or 'project_id' must be provided for tool 'lint_verilog'"
+          );
+        }
+
+        const result = await lintVerilog({
+          verilogCode: verilogCode || undefined,
+          verilogFiles: verilogFiles || undefined,
+          topModule: topModule || undefined,
+          language,
+          ...getBuildOptions(args),
+          projectId: projectId || undefined,
+          projectName: projectName || undefined,
+        });
+
+        return {
+          content: [{ type: "text", text: formatLintResult(result) }],
+        };
+      }
+
+      // Formal equivalence
+      case "check_equivalence": {
+        const projectId = validateRequiredString(args, "project_id", name);
+        const options = {
+          projectId,
+          gold: getStringProperty(args, "gold", "rtl") as EquivalenceArtifact,
+          gate: getStringProperty(args, "gate", "final") as EquivalenceArtifact,
+          topModule: getStringProperty(args, "top_module") || undefined,
+          pdk: getStringProperty(args, "pdk") || undefined,
+          stdCellLibrary: getStringProperty(args, "std_cell_library") || undefined,
+          depth: getNumberProperty(args, "depth", 10),
+          ...getBuildOptions(args),
+        };
+
+        if (getBooleanProperty(args, "async", true)) {
+          const text = startJob({
+            tool: name,
+            projectId,
+            runType: "equivalence",
+            config: { gold: options.gold, gate: options.gate, topModule: options.topModule, depth: options.depth },
+            execute: async ({ jobId, executor }) => {
+              const result = await checkEquivalence({ ...options, runId: jobId, executor });
+              return toJobOutcome(result.success, formatEquivalenceResult(result), result.error);
+            },
+          });
+
+          return {
+            content: [{ type: "text", text }],
+          };
+        }
+
+        const result = await checkEquivalence(options);
+
+        return {
+          content: [{ type: "text", text: formatEquivalenceResult(result) }],
+        };
+      }
+
+      // Formal property verification
+      case "run_formal": {
+        const projectId = validateRequiredString(args, "project_id", name);
+        const options = {
+          projectId,
+          mode: getStringProperty(args, "mode", "bmc") as FormalMode,
+          depth: getNumberProperty(args, "depth", 20),
+          engine: getStringProperty(args, "engine", "smtbmc"),
+          topModule: getStringProperty(args, "top_module") || undefined,
+          ...getBuildOptions(args),
+        };
+
+        if (getBooleanProperty(args, "async", true)) {
+          const text = startJob({
+            tool: name,
+            projectId,
+            runType: "formal",
+            config: { mode: options.mode, depth: options.depth, engine: options.engine, topModule: options.topModule },
+            execute: async ({ jobId, executor }) => {
+              const result = await runFormal({ ...options, runId: jobId, executor });
+              return toJobOutcome(result.success, formatFormalResult(result), result.error);
+            },
+          });
+
+          return {
+            content: [{ type: "text", text }],
+          };
+        }
+
+        const result = await runFormal(options);
+
+        return {
+          content: [{ type: "text", text: formatFormalResult(result) }],
+        };
+      }
+
+      // FPGA flow
+      case "run_fpga_flow": {
+        const projectId = validateRequiredString(args, "project_id", name);
+        const frequency = getNumberProperty(args, "frequency", 0);
+        const seed = getNumberProperty(args, "seed", -1);
+        const options = {
+          projectId,
+          family: validateRequiredString(args, "family", name) as FpgaFamily,
+          device: getStringProperty(args, "device") || undefined,
+          package: getStringProperty(args, "package") || undefined,
+          constraints: getStringProperty(args, "constraints") || undefined,
+          constraintsFile: getStringProperty(args, "constraints_file") || undefined,
+          frequency: frequency || undefined,
+          seed: seed >= 0 ? seed : undefined,
+          topModule: getStringProperty(args, "top_module") || undefined,
+          ...getBuildOptions(args),
+        };
+
+        if (getBooleanProperty(args, "async", true)) {
+          const text = startJob({
+            tool: name,
+            projectId,
+            runType: "fpga",
+            config: {
+              family: options.family,
+              device: options.device,
+              package: options.package,
+              frequency: options.frequency,
+              topModule: options.topModule,
+            },
+            execute: async ({ jobId, executor }) => {
+              const result = await runFpgaFlow({ ...options, runId: jobId, executor });
+              return toJobOutcome(result.success, formatFpgaResult(result), result.error);
+            },
+          });
+
+          return {
+            content: [{ type: "text", text }],
+          };
+        }
+
+        const result = await runFpgaFlow(options);
+
+        return {
+          content: [{ type: "text", text: formatFpgaResult(result) }],
+        };
+      }
+
       // View waveform
       case "view_waveform": {
         const projectId = validateRequiredString(args, "project_id", name);
@@ -944,6 +2319,51 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case "query_waveform": {
+        const projectId = validateRequiredString(args, "project_id", name);
+
+        const result = await queryWaveform({
+          projectId,
+          operation: validateRequiredString(args, "operation", name) as WaveformOperation,
+          vcdFile: getStringProperty(args, "vcd_file") || undefined,
+          signals: getArrayProperty(args, "signals"),
+          filter: getStringProperty(args, "filter") || undefined,
+          time: getTimeProperty(args, "time"),
+          start: getTimeProperty(args, "start"),
+          end: getTimeProperty(args, "end"),
+          expression: getStringProperty(args, "expression") || undefined,
+          limit: typeof args?.limit === "number" ? args.limit : undefined,
+          radix: getStringProperty(args, "radix", "hex") as "hex" | "bin" | "dec",
+        });
+
+        return {
+          content: [{ type: "text", text: formatWaveformQueryResult(result) }],
+        };
+      }
+
+      case "render_waveform": {
+        const projectId = validateRequiredString(args, "project_id", name);
+
+        const result = await renderWaveform({
+          projectId,
+          signals: getArrayProperty(args, "signals") || [],
+          vcdFile: getStringProperty(args, "vcd_file") || undefined,
+          start: getTimeProperty(args, "start"),
+          end: getTimeProperty(args, "end"),
+          marker: getTimeProperty(args, "marker"),
+          maxColumns: getNumberProperty(args, "max_columns", 64),
+          format: getStringProperty(args, "format", "png") as WaveformFormat,
+        });
+
+        const content: ({ type: "text"; text: string } | { type: "image"; data: string; mimeType: string })[] = [];
+        if (result.data && result.mimeType) {
+          content.push({ type: "image", data: result.data, mimeType: result.mimeType });
+        }
+        content.push({ type: "text", text: formatWaveformRenderResult(result) });
+
+        return { content };
+      }
+
       // OpenLane
       case "run_openlane": {
         const verilogCode = getStringProperty(args, "verilog_code");
@@ -956,16 +2376,55 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           | "gf180mcuD"
           | "ihp-sg13g2";
         const projectId = getStringProperty(args, "project_id");
+        const useCache = getBooleanProperty(args, "use_cache", true);
+        const runAsync = getBooleanProperty(args, "async", true);
 
-        const result = await runOpenlane({
+        const options: OpenlaneOptions = {
           verilogCode: verilogCode || undefined,
           verilogFiles: verilogFiles || undefined,
           designName,
           clockPort,
           clockPeriod,
           pdk,
+          ...getBuildOptions(args),
           projectId: projectId || undefined,
-        });
+          useCache,
+        };
+
+        if (runAsync) {
+          if (!options.projectId) {
+            if (!verilogCode && (!verilogFiles || verilogFiles.length === 0)) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                "Either 'verilog_code', 'verilog_files', or 'project_id' must be provided for tool 'run_openlane'"
+              );
+            }
+            // The job is recorded against a project, so create it up front
+            const created = projectManager.createProject({
+              name: `openlane_${designName}_${Date.now()}`,
+              designName,
+              topModule: designName,
+            });
+            options.projectId = created.project.id;
+          }
+
+          const text = startJob({
+            tool: name,
+            projectId: options.projectId,
+            runType: "openlane",
+            config: { designName, clockPort, clockPeriod, pdk },
+            execute: async ({ jobId, executor, reportProgress: onProgress }) => {
+              const result = await runOpenlane({ ...options, runId: jobId, executor, onProgress });
+              return toJobOutcome(result.success, formatOpenlaneResult(result), result.error);
+            },
+          });
+
+          return {
+            content: [{ type: "text", text }],
+          };
+        }
+
+        const result = await runOpenlane({ ...options, onProgress: reportProgress });
 
         return {
           content: [{ type: "text", text: formatOpenlaneResult(result) }],
@@ -984,6 +2443,43 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      // Schematic
+      case "render_schematic": {
+        const projectId = validateRequiredString(args, "project_id", name);
+        const depth = getNumberProperty(args, "depth", 0);
+
+        const result = await renderSchematic({
+          projectId,
+          module: getStringProperty(args, "module") || undefined,
+          stage: getStringProperty(args, "stage", "rtl") as SchematicStage,
+          renderer: getStringProperty(args, "renderer", "yosys") as SchematicRenderer,
+          format: getStringProperty(args, "format", "png") as SchematicFormat,
+          depth: depth || undefined,
+          highlightNet: getStringProperty(args, "highlight_net") || undefined,
+          ...getBuildOptions(args),
+        });
+
+        const content: ({ type: "text"; text: string } | { type: "image"; data: string; mimeType: string })[] = [];
+        if (result.data && result.mimeType) {
+          content.push({ type: "image", data: result.data, mimeType: result.mimeType });
+        }
+        content.push({ type: "text", text: formatSchematicResult(result) });
+
+        return { content };
+      }
+
+      // Design hierarchy
+      case "get_design_hierarchy": {
+        const projectId = validateRequiredString(args, "project_id", name);
+        const runId = getStringProperty(args, "run_id");
+
+        const result = getDesignHierarchy(projectId, runId || undefined);
+
+        return {
+          content: [{ type: "text", text: formatHierarchyResult(result) }],
+        };
+      }
+
       // Read reports
       case "read_openlane_reports": {
         const projectId = validateRequiredString(args, "project_id", name);
@@ -1096,6 +2592,34 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      // Reproduce a run from its snapshot
+      case "reproduce_run": {
+        const runId = validateRequiredString(args, "run_id", name);
+        const runAsync = getBooleanProperty(args, "async", true);
+        const original = projectManager.getRun(runId);
+
+        if (runAsync && original?.runType === "openlane" && projectManager.getRunSnapshot(runId)) {
+          const text = startJob({
+            tool: name,
+            ...reproductionRunInput(original),
+            execute: async ({ jobId, executor, reportProgress: onProgress }) => {
+              const result = await reproduceRun({ runId, jobRunId: jobId, executor, onProgress });
+              return toJobOutcome(result.success, formatReproduceResult(result), result.error);
+            },
+          });
+
+          return {
+            content: [{ type: "text", text }],
+          };
+        }
+
+        const result = await reproduceRun({ runId, onProgress: reportProgress });
+
+        return {
+          content: [{ type: "text", text: formatReproduceResult(result) }],
+        };
+      }
+
       // Get VNC info
       case "get_vnc_info": {
         const vncInfo = getVncInfo();
@@ -1130,6 +2654,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               text: JSON.stringify(
                 {
                   success: true,
+                  executor: getExecutor().kind,
                   docker_available: isAvailable,
                   container_running: status.running,
                   container_status: status.status,
@@ -1145,6 +2670,13 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case "check_environment": {
+        const report = await checkEnvironment();
+        return {
+          content: [{ type: "text", text: formatEnvironmentReport(report) }],
+        };
+      }
+
       // RAG Tools
       case "search_eda_docs": {
         const query = validateRequiredString(args, "query", name);
@@ -1303,9 +2835,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const algorithm = getStringProperty(args, "algorithm", "hyperopt") as "hyperopt" | "ax" | "optuna" | "nevergrad" | "random";
         const iterations = getNumberProperty(args, "iterations", 15);
         const timeout = getNumberProperty(args, "timeout", 60);
+        const runAsync = getBooleanProperty(args, "async", true);
         const paths = projectManager.getProjectPaths(projectId);
 
-        const result = await runAutoTunerTool({
+        const tunerOptions = {
           projectDir: paths.containerPath,
           designName,
           platform,
@@ -1316,7 +2849,27 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           verilogCode: verilogCode || undefined,
           clockPort,
           clockPeriod,
-        });
+        };
+
+        if (runAsync) {
+          const text = startJob({
+            tool: name,
+            projectId,
+            runType: "tuning",
+            config: { designName, platform, goal, algorithm, iterations, timeout },
+            execute: async ({ executor, reportProgress: report }) => {
+              const result = await runAutoTunerTool({ ...tunerOptions, executor, onProgress: trialProgress(report) });
+              const formatted = result.result ? formatTunerResults(result.result) : JSON.stringify(result, null, 2);
+              return toJobOutcome(result.success, formatted, result.error);
+            },
+          });
+
+          return {
+            content: [{ type: "text", text }],
+          };
+        }
+
+        const result = await runAutoTunerTool({ ...tunerOptions, onProgress: trialProgress(reportProgress) });
 
         return {
           content: [{ type: "text", text: result.result ? formatTunerResults(result.result) : JSON.stringify(result, null, 2) }],
@@ -1404,13 +2957,32 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const gdsFile = `${project?.designName || "design"}.gds`;
         const netlistFile = `${project?.designName || "design"}.nl.v`;
 
-        const result = await signoffToolHandlers.run_signoff_checks({
+        const signoffArgs = {
           runDir,
           gdsFile,
           netlistFile,
           platform: "sky130hd",
           checks: args && typeof args === "object" && "checks" in args ? args.checks : undefined,
-        });
+        };
+
+        if (getBooleanProperty(args, "async", true)) {
+          const text = startJob({
+            tool: name,
+            projectId,
+            runType: "signoff",
+            config: signoffArgs,
+            execute: async ({ executor }) => {
+              const result = (await signoffToolHandlers.run_signoff_checks({ ...signoffArgs, executor })) as { success: boolean };
+              return toJobOutcome(result.success, JSON.stringify(result));
+            },
+          });
+
+          return {
+            content: [{ type: "text", text }],
+          };
+        }
+
+        const result = await signoffToolHandlers.run_signoff_checks(signoffArgs);
 
         return {
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
@@ -1508,10 +3080,24 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
         const runDir = `${paths.containerPath}/runs/${latestRun}`;
 
+        // Simulation activity instead of the vectorless default
+        const activityFile = getStringProperty(args, "activity_file");
+        let activity: { activityFile?: string; activityScope?: string } = {};
+        if (activityFile) {
+          const resolved = await resolveSwitchingActivity(projectId, activityFile, getStringProperty(args, "activity_scope") || undefined, getExecutor());
+          if ("error" in resolved) {
+            return {
+              content: [{ type: "text", text: JSON.stringify({ success: false, error: resolved.error }, null, 2) }],
+            };
+          }
+          activity = { activityFile: resolved.activity.file, activityScope: resolved.activity.scope };
+        }
+
         const result = await signoffToolHandlers.run_ir_drop_analysis({
           runDir,
           platform: "sky130hd",
           maxIRDropMv: maxIrDropMv,
+          ...activity,
         });
 
         return {
@@ -1519,6 +3105,25 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case "analyze_activity_power": {
+        const projectId = validateRequiredString(args, "project_id", name);
+        const result = await analyzeActivityPower({
+          projectId,
+          activityFile: getStringProperty(args, "activity_file") || undefined,
+          scope: getStringProperty(args, "scope") || undefined,
+          openlaneRunId: getStringProperty(args, "openlane_run_id") || undefined,
+          spefCorner: getStringProperty(args, "spef_corner", "nom"),
+          pdk: getStringProperty(args, "pdk") || undefined,
+          stdCellLibrary: getStringProperty(args, "std_cell_library") || undefined,
+          liberty: getStringProperty(args, "liberty") || undefined,
+          topInstances: getNumberProperty(args, "top_instances", 20),
+        });
+
+        return {
+          content: [{ type: "text", text: formatActivityPowerResult(result) }],
+        };
+      }
+
       case "run_eco_optimization": {
         const projectId = validateRequiredString(args, "project_id", name);
         const paths = projectManager.getProjectPaths(projectId);
@@ -1534,7 +3139,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
         const runDir = `${paths.containerPath}/runs/${latestRun}`;
 
-        const result = await signoffToolHandlers.run_eco_optimization({
+        const ecoArgs = {
           runDir,
           platform: "sky130hd",
           maxIterations,
@@ -1547,7 +3152,26 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           enableVTSwap: true,
           enablePinSwap: true,
           stopOnConvergence: true,
-        });
+        };
+
+        if (getBooleanProperty(args, "async", true)) {
+          const text = startJob({
+            tool: name,
+            projectId,
+            runType: "eco",
+            config: ecoArgs,
+            execute: async ({ executor, reportProgress: onProgress }) => {
+              const result = (await signoffToolHandlers.run_eco_optimization({ ...ecoArgs, executor, onProgress })) as { success: boolean };
+              return toJobOutcome(result.success, JSON.stringify(result));
+            },
+          });
+
+          return {
+            content: [{ type: "text", text }],
+          };
+        }
+
+        const result = await signoffToolHandlers.run_eco_optimization({ ...ecoArgs, onProgress: reportProgress });
 
         return {
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
@@ -1618,12 +3242,46 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
 
         const runDir = `${paths.containerPath}/runs/${latestRun}`;
+        const runs = projectManager.getProjectRuns(projectId);
+        const openlaneRun = runs.find((run) => run.runType === "openlane" && run.results?.latestRun === latestRun);
+        // Prefer the latest equivalence check of this layout's netlist
+        const lecRuns = runs.filter((run) => run.runType === "equivalence" && run.status === "success");
+        const lecRun = lecRuns.find((run) =>
+          openlaneRun && [run.results?.sourceRunIds?.gold, run.results?.sourceRunIds?.gate].includes(openlaneRun.id)
+        ) || lecRuns[0];
+        const latestCoverage = projectManager.getCoverageHistory(projectId)[0];
+        const requirements = args && typeof args === "object" && "requirements" in args ? args.requirements : undefined;
 
         const result = await signoffToolHandlers.run_tapeout_checklist({
           runDir,
           platform: "sky130hd",
           design: project?.designName || "design",
-          requirements: args && typeof args === "object" && "requirements" in args ? args.requirements : undefined,
+          openlaneRunId: openlaneRun?.id,
+          requirements: {
+            ...(requirements && typeof requirements === "object" ? requirements : {}),
+            minLineCoverage: typeof args?.min_line_coverage === "number" ? args.min_line_coverage : undefined,
+            minToggleCoverage: typeof args?.min_toggle_coverage === "number" ? args.min_toggle_coverage : undefined,
+          },
+          coverage: latestCoverage
+            ? {
+                source: latestCoverage.source,
+                linePct: latestCoverage.linePct,
+                togglePct: latestCoverage.togglePct,
+                runId: latestCoverage.runId,
+              }
+            : undefined,
+          equivalence: lecRun?.results
+            ? {
+                status: lecRun.results.status,
+                gold: lecRun.results.gold,
+                gate: lecRun.results.gate,
+                proven: lecRun.results.proven ?? 0,
+                unproven: lecRun.results.unprovenCount ?? 0,
+                failed: lecRun.results.failedCount ?? 0,
+                runId: lecRun.id,
+                sourceRunIds: lecRun.results.sourceRunIds,
+              }
+            : undefined,
         });
 
         return {
@@ -1695,6 +3353,64 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      // ==================== CACHE TOOL HANDLERS ====================
+      case "get_cache_stats": {
+        return {
+          content: [{ type: "text", text: getCacheStats() }],
+        };
+      }
+
+      case "evict_cache": {
+        const tool = getStringProperty(args, "tool") as CachedTool | "";
+        const olderThanDays = getNumberProperty(args, "older_than_days", -1);
+        const unusedForDays = getNumberProperty(args, "unused_for_days", -1);
+
+        const text = evictCache({
+          tool: tool || undefined,
+          olderThanDays: olderThanDays >= 0 ? olderThanDays : undefined,
+          unusedForDays: unusedForDays >= 0 ? unusedForDays : undefined,
+        });
+
+        return {
+          content: [{ type: "text", text }],
+        };
+      }
+
+      // ==================== JOB TOOL HANDLERS ====================
+      case "get_job_status": {
+        const jobId = validateRequiredString(args, "job_id", name);
+        const job = getJobStatus(jobId);
+
+        return {
+          content: [{ type: "text", text: formatJobStatus(job, jobId) }],
+        };
+      }
+
+      case "list_jobs": {
+        const projectId = getStringProperty(args, "project_id");
+        const status = getStringProperty(args, "status") as RunStatus | "";
+        const limit = getNumberProperty(args, "limit", 20);
+
+        const jobs = listJobs({
+          projectId: projectId || undefined,
+          status: status || undefined,
+          limit,
+        });
+
+        return {
+          content: [{ type: "text", text: formatJobList(jobs) }],
+        };
+      }
+
+      case "cancel_job": {
+        const jobId = validateRequiredString(args, "job_id", name);
+        const text = await cancelJob(jobId);
+
+        return {
+          content: [{ type: "text", text }],
+        };
+      }
+
       default:
         throw new McpError(ErrorCode.MethodNotFound, `Tool not found: ${name}`);
     }
@@ -1710,12 +3426,23 @@ async function main() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
 
+  // Jobs left running by a previous server process can no longer complete
+  try {
+    const interrupted = jobQueue.recoverInterruptedJobs();
+    if (interrupted > 0) {
+      console.error(`Marked ${interrupted} interrupted background job(s) as failed`);
+    }
+  } catch (error) {
+    console.error("Could not check for interrupted jobs:", error);
+  }
+
   // Log startup info to stderr (not visible to MCP client but helpful for debugging)
   console.error("=== MCP4EDA Server v2.0.0 ===");
   console.error("Features:");
   console.error("  - Verilog Synthesis (Yosys)");
   console.error("  - Verilog Simulation (Icarus Verilog)");
   console.error("  - ASIC Flow (OpenLane)");
+  console.error(`  - Background Jobs (max ${jobQueue.getConcurrency()} concurrent)`);
   console.error("  - Waveform Viewer (GTKWave via VNC)");
   console.error("  - Layout Viewer (KLayout via VNC)");
   console.error("  - Documentation RAG (OpenLane + AutoTuner)");
@@ -0,0 +1,14 @@
+/**
+ * Jobs Module
+ *
+ * Background execution of long-running flows (OpenLane, AutoTuner,
+ * ECO, signoff) with persistent status and cancellation.
+ */
+
+export {
+  jobQueue,
+  type JobContext,
+  type JobOutcome,
+  type JobSpec,
+  type JobInfo,
+} from "./job-queue.js";
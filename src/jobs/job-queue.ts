@@ -0,0 +1,241 @@
+/**
+ * Job Queue - Runs long EDA flows in the background
+ *
+ * Each job is a row in the runs table (job_tool set) so status survives
+ * across MCP calls and server restarts. Jobs wait in FIFO order until a
+ * slot is free; each gets its own CancellableExecutor so cancel_job can
+ * kill the tool processes inside the container.
+ */
+
+import { projectManager } from "../files/project-manager.js";
+import { database } from "../db/database.js";
+import { getExecutor, CancellableExecutor, type CommandExecutor } from "../executor/index.js";
+import type { Run, RunStatus, RunType } from "../types/project.js";
+import type { ProgressReporter, ProgressUpdate } from "../types/progress.js";
+
+const DEFAULT_CONCURRENCY = 1;
+
+/**
+ * Context passed to a running job
+ */
+export interface JobContext {
+  jobId: string;
+  executor: CommandExecutor;
+  reportProgress: ProgressReporter;
+}
+
+/**
+ * What a job reports when it finishes
+ */
+export interface JobOutcome {
+  success: boolean;
+  results?: Record<string, any>;
+  error?: string;
+}
+
+/**
+ * Job submission
+ */
+export interface JobSpec {
+  tool: string;
+  projectId: string;
+  runType: RunType;
+  config?: Record<string, any>;
+  parentRunId?: string;
+  execute: (context: JobContext) => Promise<JobOutcome>;
+}
+
+/**
+ * Job status as reported to clients
+ */
+export interface JobInfo {
+  jobId: string;
+  tool: string;
+  projectId: string;
+  runType: RunType;
+  status: RunStatus;
+  queuePosition?: number;
+  startedAt?: Date;
+  completedAt?: Date;
+  progress?: ProgressUpdate & { updatedAt: Date };
+  results?: Record<string, any>;
+  error?: string;
+}
+
+interface ActiveJob {
+  spec: JobSpec;
+  executor: CancellableExecutor;
+  progress?: ProgressUpdate & { updatedAt: Date };
+}
+
+/**
+ * JobQueue - Singleton background job scheduler
+ */
+class JobQueue {
+  private concurrency: number;
+  private pending: string[] = [];
+  private specs = new Map<string, JobSpec>();
+  private running = new Map<string, ActiveJob>();
+
+  constructor() {
+    const configured = parseInt(process.env.MCP4EDA_MAX_CONCURRENT_JOBS || "", 10);
+    this.concurrency = configured > 0 ? configured : DEFAULT_CONCURRENCY;
+  }
+
+  /**
+   * Maximum number of jobs run at the same time
+   */
+  getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  setConcurrency(limit: number): void {
+    this.concurrency = Math.max(1, Math.floor(limit));
+    this.drain();
+  }
+
+  /**
+   * Queue a job and return its id (the run id) immediately
+   */
+  submit(spec: JobSpec): JobInfo {
+    const run = projectManager.createRun({
+      projectId: spec.projectId,
+      runType: spec.runType,
+      config: spec.config,
+      parentRunId: spec.parentRunId,
+      jobTool: spec.tool,
+    });
+
+    this.specs.set(run.id, spec);
+    this.pending.push(run.id);
+    this.drain();
+
+    return this.getJob(run.id)!;
+  }
+
+  /**
+   * Get a job by id
+   */
+  getJob(jobId: string): JobInfo | null {
+    const run = projectManager.getRun(jobId);
+    if (!run || !run.jobTool) return null;
+    return this.toJobInfo(run);
+  }
+
+  /**
+   * List jobs, newest first
+   */
+  listJobs(filter: { projectId?: string; statuses?: RunStatus[]; limit?: number } = {}): JobInfo[] {
+    return database.getJobRuns(filter).map((run) => this.toJobInfo(run));
+  }
+
+  /**
+   * Cancel a queued or running job
+   */
+  async cancel(jobId: string): Promise<{ cancelled: boolean; previousStatus?: RunStatus; error?: string }> {
+    const run = projectManager.getRun(jobId);
+    if (!run || !run.jobTool) {
+      return { cancelled: false, error: `Job ${jobId} not found` };
+    }
+
+    const queuedIndex = this.pending.indexOf(jobId);
+    if (queuedIndex !== -1) {
+      this.pending.splice(queuedIndex, 1);
+      this.specs.delete(jobId);
+      projectManager.cancelRun(jobId);
+      return { cancelled: true, previousStatus: run.status };
+    }
+
+    const active = this.running.get(jobId);
+    if (active) {
+      // The job's own completion handler records the cancelled status
+      await active.executor.cancel();
+      return { cancelled: true, previousStatus: run.status };
+    }
+
+    return {
+      cancelled: false,
+      previousStatus: run.status,
+      error: `Job ${jobId} is not queued or running (status: ${run.status})`,
+    };
+  }
+
+  /**
+   * Mark jobs left pending/running by a previous server process as failed
+   */
+  recoverInterruptedJobs(): number {
+    const stale = database.getJobRuns({ statuses: ["pending", "running"], limit: 1000 });
+    for (const run of stale) {
+      if (!this.specs.has(run.id) && !this.running.has(run.id)) {
+        projectManager.failRun(run.id, "Interrupted: MCP server restarted before the job finished");
+      }
+    }
+    return stale.length;
+  }
+
+  private drain(): void {
+    while (this.running.size < this.concurrency && this.pending.length > 0) {
+      const jobId = this.pending.shift()!;
+      const spec = this.specs.get(jobId);
+      this.specs.delete(jobId);
+      if (spec) {
+        void this.start(jobId, spec);
+      }
+    }
+  }
+
+  private async start(jobId: string, spec: JobSpec): Promise<void> {
+    const executor = new CancellableExecutor(getExecutor(), jobId);
+    const active: ActiveJob = { spec, executor };
+    this.running.set(jobId, active);
+    projectManager.startRun(jobId);
+
+    // Latest progress is kept in memory only; it is meaningless once the job ends
+    const reportProgress: ProgressReporter = (update) => {
+      active.progress = { ...update, updatedAt: new Date() };
+    };
+
+    let outcome: JobOutcome;
+    try {
+      outcome = await spec.execute({ jobId, executor, reportProgress });
+    } catch (error) {
+      outcome = { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    // Tools that record into the run themselves may already have stored results
+    const previous = projectManager.getRun(jobId)?.results || {};
+    const results = { ...previous, ...outcome.results };
+
+    if (executor.isCancelled) {
+      database.updateRunStatus(jobId, "cancelled", { ...results, error: "Cancelled by user" });
+    } else if (outcome.success) {
+      delete results.error;
+      database.updateRunStatus(jobId, "success", results);
+    } else {
+      database.updateRunStatus(jobId, "failed", { ...results, error: outcome.error || results.error });
+    }
+
+    this.running.delete(jobId);
+    this.drain();
+  }
+
+  private toJobInfo(run: Run): JobInfo {
+    const queueIndex = this.pending.indexOf(run.id);
+    return {
+      jobId: run.id,
+      tool: run.jobTool || run.runType,
+      projectId: run.projectId,
+      runType: run.runType,
+      status: run.status,
+      queuePosition: queueIndex === -1 ? undefined : queueIndex + 1,
+      startedAt: run.startedAt,
+      completedAt: run.completedAt,
+      progress: this.running.get(run.id)?.progress,
+      results: run.results,
+      error: run.results?.error,
+    };
+  }
+}
+
+// Export singleton instance
+export const jobQueue = new JobQueue();
@@ -27,6 +27,13 @@ function getOpenAIClient(): OpenAI {
   return openaiClient;
 }
 
+/**
+ * Get the embedding model name
+ */
+export function getEmbeddingModel(): string {
+  return EMBEDDING_MODEL;
+}
+
 /**
  * Check if OpenAI API is configured
  */
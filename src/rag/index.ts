@@ -9,6 +9,7 @@
 // Embeddings
 export {
   isOpenAIConfigured,
+  getEmbeddingModel,
   generateEmbedding,
   generateEmbeddings,
   getEmbeddingDimensions,
@@ -27,6 +28,7 @@ export {
   getCollectionStats,
   clearCollection,
   isVectorstoreAvailable,
+  getChromaUrl,
   COLLECTIONS,
   type CollectionName,
   type DocumentMetadata,
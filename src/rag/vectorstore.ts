@@ -48,7 +48,7 @@ let chromaClient: ChromaClient | null = null;
 function getChromaClient(): ChromaClient {
   if (!chromaClient) {
     chromaClient = new ChromaClient({
-      path: `http://${CHROMA_HOST}:${CHROMA_PORT}`,
+      path: getChromaUrl(),
     });
   }
   return chromaClient;
@@ -288,6 +288,13 @@ export async function clearCollection(
   }
 }
 
+/**
+ * Get the ChromaDB server URL
+ */
+export function getChromaUrl(): string {
+  return `http://${CHROMA_HOST}:${CHROMA_PORT}`;
+}
+
 /**
  * Check if ChromaDB is available
  */
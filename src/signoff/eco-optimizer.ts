@@ -8,13 +8,11 @@
  * - Iterative optimization loop
  */
 
-import { exec } from "child_process";
-import { promisify } from "util";
 import { readFile, writeFile, access } from "fs/promises";
 import { join } from "path";
 import type { ExtendedPPAMetrics } from "../tuner/metrics-extractor.js";
-
-const execAsync = promisify(exec);
+import { getExecutor, type CommandExecutor } from "../executor/index.js";
+import { runOpenROADScript } from "./openroad-script.js";
 
 /**
  * Timing violation info
@@ -81,7 +79,7 @@ export interface ECOResult {
 export interface ECOConfig {
   runDir: string;
   platform: string;
-  containerName?: string;
+  executor?: CommandExecutor;
   maxIterations: number;
   setupMargin: number; // ns
   holdMargin: number; // ns
@@ -100,22 +98,23 @@ export interface ECOConfig {
 export async function analyzeTimingViolations(
   config: ECOConfig
 ): Promise<TimingViolation[]> {
-  const containerName = config.containerName || "mcp4eda";
-  const containerRunDir = config.runDir.replace(/\\/g, "/").replace(/^[A-Z]:/, "/workspace");
+  const executor = config.executor || getExecutor();
   const violations: TimingViolation[] = [];
 
   try {
     // Get setup violations
-    const { stdout: setupOut } = await execAsync(
-      `docker exec ${containerName} bash -c "cd ${containerRunDir} && openroad -no_init -exit <<EOF
-        read_lef ${config.platform}.lef
+    const { stdout: setupOut } = await runOpenROADScript(
+      executor,
+      config.runDir,
+      `
+        read_lef $::env(MCP4EDA_PLATFORM).lef
         read_def results/final.def
-        read_liberty ${config.platform}.lib
+        read_liberty $::env(MCP4EDA_PLATFORM).lib
         read_spef results/final.spef
         read_sdc results/final.sdc
         report_checks -path_delay max -slack_max 0 -format full_clock_expanded
-        EOF"`,
-      { timeout: 300000 }
+      `,
+      { platform: config.platform, timeout: 300000 }
     );
 
     // Parse setup violations
@@ -136,16 +135,18 @@ export async function analyzeTimingViolations(
     }
 
     // Get hold violations
-    const { stdout: holdOut } = await execAsync(
-      `docker exec ${containerName} bash -c "cd ${containerRunDir} && openroad -no_init -exit <<EOF
-        read_lef ${config.platform}.lef
+    const { stdout: holdOut } = await runOpenROADScript(
+      executor,
+      config.runDir,
+      `
+        read_lef $::env(MCP4EDA_PLATFORM).lef
         read_def results/final.def
-        read_liberty ${config.platform}.lib
+        read_liberty $::env(MCP4EDA_PLATFORM).lib
         read_spef results/final.spef
         read_sdc results/final.sdc
         report_checks -path_delay min -slack_max 0 -format full_clock_expanded
-        EOF"`,
-      { timeout: 300000 }
+      `,
+      { platform: config.platform, timeout: 300000 }
     );
 
     // Parse hold violations
@@ -249,15 +250,16 @@ export function generateECORecommendations(
 export async function runRepairDesign(
   config: ECOConfig
 ): Promise<{ success: boolean; changes: number; output: string }> {
-  const containerName = config.containerName || "mcp4eda";
-  const containerRunDir = config.runDir.replace(/\\/g, "/").replace(/^[A-Z]:/, "/workspace");
+  const executor = config.executor || getExecutor();
 
   try {
-    const { stdout, stderr } = await execAsync(
-      `docker exec ${containerName} bash -c "cd ${containerRunDir} && openroad -no_init -exit <<EOF
-        read_lef ${config.platform}.lef
+    const { stdout, stderr } = await runOpenROADScript(
+      executor,
+      config.runDir,
+      `
+        read_lef $::env(MCP4EDA_PLATFORM).lef
         read_def results/final.def
-        read_liberty ${config.platform}.lib
+        read_liberty $::env(MCP4EDA_PLATFORM).lib
         read_sdc results/final.sdc
 
         set_wire_rc -layer met1
@@ -266,8 +268,8 @@ export async function runRepairDesign(
         repair_design -max_wire_length 100 -slew_margin 20 -cap_margin 20
 
         write_def results/eco_repaired.def
-        EOF"`,
-      { timeout: 600000 }
+      `,
+      { platform: config.platform, timeout: 600000 }
     );
 
     const changesMatch = stdout.match(/(\d+)\s*buffers?\s*inserted/i);
@@ -295,25 +297,26 @@ export async function runRepairTiming(
   fixSetup: boolean = true,
   fixHold: boolean = true
 ): Promise<{ wns: number; tns: number; changes: number; success: boolean }> {
-  const containerName = config.containerName || "mcp4eda";
-  const containerRunDir = config.runDir.replace(/\\/g, "/").replace(/^[A-Z]:/, "/workspace");
+  const executor = config.executor || getExecutor();
 
   try {
     const repairOptions = [
       fixSetup ? "-setup" : "",
       fixHold ? "-hold" : "",
-      `-setup_margin ${config.setupMargin}`,
-      `-hold_margin ${config.holdMargin}`,
-      `-max_utilization ${config.maxUtilization}`,
+      `-setup_margin ${Number(config.setupMargin)}`,
+      `-hold_margin ${Number(config.holdMargin)}`,
+      `-max_utilization ${Number(config.maxUtilization)}`,
       config.enableVTSwap ? "" : "-skip_vt_swap",
       config.enablePinSwap ? "" : "-skip_pin_swap",
     ].filter(Boolean).join(" ");
 
-    const { stdout, stderr } = await execAsync(
-      `docker exec ${containerName} bash -c "cd ${containerRunDir} && openroad -no_init -exit <<EOF
-        read_lef ${config.platform}.lef
+    const { stdout, stderr } = await runOpenROADScript(
+      executor,
+      config.runDir,
+      `
+        read_lef $::env(MCP4EDA_PLATFORM).lef
         read_def results/final.def
-        read_liberty ${config.platform}.lib
+        read_liberty $::env(MCP4EDA_PLATFORM).lib
         read_spef results/final.spef
         read_sdc results/final.sdc
 
@@ -323,8 +326,8 @@ export async function runRepairTiming(
         report_tns
 
         write_def results/eco_timing_repaired.def
-        EOF"`,
-      { timeout: 900000 } // 15 minutes
+      `,
+      { platform: config.platform, timeout: 900000 } // 15 minutes
     );
 
     // Parse results
@@ -372,7 +375,7 @@ export async function runIterativeECO(
   const initialWNS = initialTiming.wns;
   const initialTNS = initialTiming.tns;
 
-  console.log(`\nInitial timing: WNS = ${initialWNS.toFixed(3)} ns, TNS = ${initialTNS.toFixed(3)} ns`);
+  console.error(`\nInitial timing: WNS = ${initialWNS.toFixed(3)} ns, TNS = ${initialTNS.toFixed(3)} ns`);
 
   let currentWNS = initialWNS;
   let currentTNS = initialTNS;
@@ -380,7 +383,7 @@ export async function runIterativeECO(
 
   for (let i = 0; i < config.maxIterations; i++) {
     const iterStart = Date.now();
-    console.log(`\n--- ECO Iteration ${i + 1}/${config.maxIterations} ---`);
+    console.error(`\n--- ECO Iteration ${i + 1}/${config.maxIterations} ---`);
 
     // Run repair_timing
     const result = await runRepairTiming(config, true, true);
@@ -406,14 +409,14 @@ export async function runIterativeECO(
       onProgress(i + 1, result.wns);
     }
 
-    console.log(`  WNS: ${currentWNS.toFixed(3)} -> ${result.wns.toFixed(3)} ns`);
-    console.log(`  TNS: ${currentTNS.toFixed(3)} -> ${result.tns.toFixed(3)} ns`);
-    console.log(`  Fixes applied: ${result.changes}`);
+    console.error(`  WNS: ${currentWNS.toFixed(3)} -> ${result.wns.toFixed(3)} ns`);
+    console.error(`  TNS: ${currentTNS.toFixed(3)} -> ${result.tns.toFixed(3)} ns`);
+    console.error(`  Fixes applied: ${result.changes}`);
 
     // Check for convergence
     const improvement = currentWNS - result.wns;
     if (Math.abs(improvement) < 0.001 || result.changes === 0) {
-      console.log("  Converged - no further improvement possible");
+      console.error("  Converged - no further improvement possible");
       iterResult.converged = true;
       converged = true;
       if (config.stopOnConvergence) break;
@@ -421,7 +424,7 @@ export async function runIterativeECO(
 
     // Check if timing met
     if (result.wns >= config.targetWNS) {
-      console.log("  Target WNS achieved!");
+      console.error("  Target WNS achieved!");
       converged = true;
       if (config.stopOnConvergence) break;
     }
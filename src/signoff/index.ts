@@ -22,9 +22,11 @@ export {
   generateSignoffReport,
   quickDRCCheck,
   quickTimingCheck,
+  readActivityCommand,
   type SignoffCheckResult,
   type SignoffReport,
   type SignoffConfig,
+  type SwitchingActivity,
   type DRCViolation,
   type LVSResult,
   type IRDropResult,
@@ -59,4 +61,5 @@ export {
   type FoundryReadiness,
   type ChecklistConfig,
   type CheckCategory,
+  type EquivalenceSummary,
 } from "./tapeout-checklist.js";
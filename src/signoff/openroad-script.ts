@@ -0,0 +1,34 @@
+/**
+ * OpenROAD Script Runner - Shared by signoff checks and ECO
+ *
+ * Scripts are fed to `openroad -no_init -exit` on stdin and run from the
+ * OpenLane run directory. Caller-supplied values (the platform name) are
+ * passed in the environment and referenced as $::env(MCP4EDA_PLATFORM),
+ * so they are never parsed as Tcl or shell.
+ */
+
+import { runChecked, type CommandExecutor, type ExecResult } from "../executor/index.js";
+
+/**
+ * Convert a run directory to its container path
+ */
+export function toContainerRunDir(runDir: string): string {
+  return runDir.replace(/\\/g, "/").replace(/^[A-Z]:/, "/workspace");
+}
+
+/**
+ * Run an OpenROAD Tcl script and throw ExecError on failure
+ */
+export async function runOpenROADScript(
+  executor: CommandExecutor,
+  runDir: string,
+  script: string,
+  options: { platform: string; timeout: number }
+): Promise<ExecResult> {
+  return runChecked(executor, ["openroad", "-no_init", "-exit"], {
+    workdir: toContainerRunDir(runDir),
+    stdin: script,
+    env: { MCP4EDA_PLATFORM: options.platform },
+    timeout: options.timeout,
+  });
+}
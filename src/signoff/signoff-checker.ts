@@ -9,12 +9,10 @@
  * - Timing Signoff via OpenSTA
  */
 
-import { exec } from "child_process";
-import { promisify } from "util";
 import { readFile, writeFile, access, mkdir } from "fs/promises";
 import { join } from "path";
-
-const execAsync = promisify(exec);
+import { getExecutor, runChecked, type CommandExecutor } from "../executor/index.js";
+import { runOpenROADScript, toContainerRunDir } from "./openroad-script.js";
 
 /**
  * Signoff check result
@@ -105,7 +103,7 @@ export interface SignoffConfig {
   gdsFile: string;
   netlistFile: string;
   platform: string;
-  containerName?: string;
+  executor?: CommandExecutor;
   checks: {
     drc: boolean;
     lvs: boolean;
@@ -118,6 +116,28 @@ export interface SignoffConfig {
     minSlackNs?: number;
     maxDRCViolations?: number;
   };
+  activity?: SwitchingActivity;  // Simulation activity for IR drop (default: vectorless)
+}
+
+/**
+ * Switching activity from simulation: a VCD or SAIF file (container path) and
+ * the hierarchical scope of the design in it, e.g. tb/dut
+ */
+export interface SwitchingActivity {
+  file: string;
+  scope: string;
+}
+
+/**
+ * OpenSTA command annotating switching activity (read_saif for .saif, else read_vcd)
+ */
+export function readActivityCommand(activity: SwitchingActivity): string {
+  // Both go into the Tcl script between braces
+  if (!/^[\w./+-]+$/.test(activity.file) || !/^[\w/$]+$/.test(activity.scope)) {
+    throw new Error(`Invalid activity file ${JSON.stringify(activity.file)} or scope ${JSON.stringify(activity.scope)}`);
+  }
+  const command = /\.saif$/i.test(activity.file) ? "read_saif" : "read_vcd";
+  return `${command} -scope {${activity.scope}} {${activity.file}}`;
 }
 
 /**
@@ -127,20 +147,20 @@ export async function runDRCCheck(
   config: SignoffConfig
 ): Promise<SignoffCheckResult> {
   const startTime = Date.now();
-  const containerName = config.containerName || "mcp4eda";
+  const executor = config.executor || getExecutor();
   const violations: DRCViolation[] = [];
 
   try {
     // Convert paths for container
-    const containerRunDir = config.runDir.replace(/\\/g, "/").replace(/^[A-Z]:/, "/workspace");
+    const containerRunDir = toContainerRunDir(config.runDir);
     const reportPath = join(config.runDir, "reports", "signoff", "drc.rpt");
 
-    // Run Magic DRC
+    // Run Magic DRC (Magic's console is Tcl, so paths come from the environment)
     const drcScript = `
       drc euclidean on
       drc style drc(full)
-      gds read ${containerRunDir}/${config.gdsFile}
-      load ${config.platform}
+      gds read $::env(MCP4EDA_GDS)
+      load $::env(MCP4EDA_PLATFORM)
       select top cell
       drc check
       drc catchup
@@ -148,10 +168,11 @@ export async function runDRCCheck(
       quit
     `;
 
-    const { stdout, stderr } = await execAsync(
-      `docker exec ${containerName} bash -c "echo '${drcScript}' | magic -dnull -noconsole"`,
-      { timeout: 600000 } // 10 minutes
-    );
+    const { stdout, stderr } = await runChecked(executor, ["magic", "-dnull", "-noconsole"], {
+      stdin: drcScript,
+      env: { MCP4EDA_GDS: `${containerRunDir}/${config.gdsFile}`, MCP4EDA_PLATFORM: config.platform },
+      timeout: 600000, // 10 minutes
+    });
 
     // Parse DRC output
     const totalMatch = stdout.match(/Total DRC errors:\s*(\d+)/i) ||
@@ -199,20 +220,23 @@ export async function runLVSCheck(
   config: SignoffConfig
 ): Promise<SignoffCheckResult> {
   const startTime = Date.now();
-  const containerName = config.containerName || "mcp4eda";
+  const executor = config.executor || getExecutor();
 
   try {
-    const containerRunDir = config.runDir.replace(/\\/g, "/").replace(/^[A-Z]:/, "/workspace");
+    const containerRunDir = toContainerRunDir(config.runDir);
     const reportPath = join(config.runDir, "reports", "signoff", "lvs.rpt");
 
     // Run Netgen LVS
-    const { stdout, stderr } = await execAsync(
-      `docker exec ${containerName} bash -c "cd ${containerRunDir} && netgen -batch lvs \
-        '${config.gdsFile} ${config.platform}' \
-        '${config.netlistFile} ${config.platform}' \
-        ${config.platform}_setup.tcl \
-        ${containerRunDir}/reports/signoff/lvs.rpt"`,
-      { timeout: 600000 }
+    const { stdout, stderr } = await runChecked(
+      executor,
+      [
+        "netgen", "-batch", "lvs",
+        `${config.gdsFile} ${config.platform}`,
+        `${config.netlistFile} ${config.platform}`,
+        `${config.platform}_setup.tcl`,
+        `${containerRunDir}/reports/signoff/lvs.rpt`,
+      ],
+      { workdir: containerRunDir, timeout: 600000 }
     );
 
     // Parse LVS result
@@ -255,31 +279,32 @@ export async function runAntennaCheck(
   config: SignoffConfig
 ): Promise<SignoffCheckResult> {
   const startTime = Date.now();
-  const containerName = config.containerName || "mcp4eda";
+  const executor = config.executor || getExecutor();
 
   try {
-    const containerRunDir = config.runDir.replace(/\\/g, "/").replace(/^[A-Z]:/, "/workspace");
     const reportPath = join(config.runDir, "reports", "signoff", "antenna.rpt");
 
     // Run OpenROAD antenna check
     // Uses platform vars file if available, otherwise tries direct LEF load
-    const { stdout, stderr } = await execAsync(
-      `docker exec ${containerName} bash -c "cd ${containerRunDir} && openroad -no_init -exit <<'OREOF'
+    const { stdout, stderr } = await runOpenROADScript(
+      executor,
+      config.runDir,
+      `
         # Try to source platform variables
-        if {[file exists ${config.platform}.vars]} {
-          source ${config.platform}.vars
-          read_lef \$TECH_LEF
-          read_lef \$SC_LEF
+        if {[file exists $::env(MCP4EDA_PLATFORM).vars]} {
+          source $::env(MCP4EDA_PLATFORM).vars
+          read_lef $TECH_LEF
+          read_lef $SC_LEF
         } else {
           # Fallback: try common LEF locations
           foreach lef [glob -nocomplain *.lef platforms/*.lef] {
-            read_lef \$lef
+            read_lef $lef
           }
         }
         read_def results/final.def
         check_antennas -verbose
-OREOF"`,
-      { timeout: 300000 }
+      `,
+      { platform: config.platform, timeout: 300000 }
     );
 
     // Parse antenna violations
@@ -317,26 +342,27 @@ export async function runIRDropAnalysis(
   config: SignoffConfig
 ): Promise<SignoffCheckResult> {
   const startTime = Date.now();
-  const containerName = config.containerName || "mcp4eda";
+  const executor = config.executor || getExecutor();
   const maxAllowed = config.limits.maxIRDropMv || 50; // Default 50mV
 
   try {
-    const containerRunDir = config.runDir.replace(/\\/g, "/").replace(/^[A-Z]:/, "/workspace");
-
     // Run PDNSim analysis
     // Note: analyze_power_grid requires -net parameter
-    const { stdout, stderr } = await execAsync(
-      `docker exec ${containerName} bash -c "cd ${containerRunDir} && openroad -no_init -exit <<EOF
-        source ${config.platform}.vars
-        read_lef \\$TECH_LEF
-        read_lef \\$SC_LEF
+    const { stdout, stderr } = await runOpenROADScript(
+      executor,
+      config.runDir,
+      `
+        source $::env(MCP4EDA_PLATFORM).vars
+        read_lef $TECH_LEF
+        read_lef $SC_LEF
         read_def results/final.def
-        read_liberty \\$LIB_FILES
+        read_liberty $LIB_FILES
         read_spef results/final.spef
+        ${config.activity ? readActivityCommand(config.activity) : ""}
         analyze_power_grid -net VDD
         analyze_power_grid -net VSS
-        EOF"`,
-      { timeout: 300000 }
+      `,
+      { platform: config.platform, timeout: 300000 }
     );
 
     // Parse IR drop result
@@ -356,6 +382,7 @@ export async function runIRDropAnalysis(
       details: [
         `Worst IR drop: ${worstDrop.toFixed(2)} mV`,
         `Maximum allowed: ${maxAllowed} mV`,
+        config.activity ? `Switching activity: ${config.activity.file} (scope ${config.activity.scope})` : "Switching activity: vectorless defaults",
         withinSpec ? "Within specification" : "EXCEEDS specification",
       ],
       duration: (Date.now() - startTime) / 1000,
@@ -378,26 +405,26 @@ export async function runTimingSignoff(
   config: SignoffConfig
 ): Promise<SignoffCheckResult> {
   const startTime = Date.now();
-  const containerName = config.containerName || "mcp4eda";
+  const executor = config.executor || getExecutor();
   const minSlack = config.limits.minSlackNs || 0;
 
   try {
-    const containerRunDir = config.runDir.replace(/\\/g, "/").replace(/^[A-Z]:/, "/workspace");
-
     // Run OpenSTA timing analysis
-    const { stdout, stderr } = await execAsync(
-      `docker exec ${containerName} bash -c "cd ${containerRunDir} && openroad -no_init -exit <<EOF
-        read_lef ${config.platform}.lef
+    const { stdout, stderr } = await runOpenROADScript(
+      executor,
+      config.runDir,
+      `
+        read_lef $::env(MCP4EDA_PLATFORM).lef
         read_def results/final.def
-        read_liberty ${config.platform}.lib
+        read_liberty $::env(MCP4EDA_PLATFORM).lib
         read_spef results/final.spef
         read_sdc results/final.sdc
         report_checks -path_delay max -format full_clock_expanded
         report_checks -path_delay min -format full_clock_expanded
         report_wns
         report_tns
-        EOF"`,
-      { timeout: 300000 }
+      `,
+      { platform: config.platform, timeout: 300000 }
     );
 
     // Parse timing results
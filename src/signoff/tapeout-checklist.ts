@@ -8,13 +8,10 @@
  * - Foundry submission checklist
  */
 
-import { exec } from "child_process";
-import { promisify } from "util";
 import { readFile, access, stat } from "fs/promises";
 import { join, basename } from "path";
 import type { SignoffReport, SignoffCheckResult } from "./signoff-checker.js";
-
-const execAsync = promisify(exec);
+import type { CommandExecutor } from "../executor/index.js";
 
 /**
  * Tapeout check categories
@@ -101,6 +98,30 @@ export interface FoundryReadiness {
   }[];
 }
 
+/**
+ * Latest formal equivalence check of the design (from check_equivalence)
+ */
+export interface EquivalenceSummary {
+  status: "equivalent" | "not_equivalent" | "unknown";
+  gold: string;        // rtl | synth | final | eco
+  gate: string;
+  proven: number;
+  unproven: number;
+  failed: number;
+  runId?: string;
+  sourceRunIds?: { gold?: string; gate?: string };  // OpenLane runs of the netlist sides
+}
+
+/**
+ * Latest coverage of the design (simulate_verilog or run_regression with coverage)
+ */
+export interface CoverageStatus {
+  source: "verilator" | "vcd";
+  linePct?: number;    // Not measured from a VCD
+  togglePct?: number;
+  runId?: string;
+}
+
 /**
  * Checklist configuration
  */
@@ -108,14 +129,19 @@ export interface ChecklistConfig {
   runDir: string;
   platform: string;
   design: string;
-  containerName?: string;
+  executor?: CommandExecutor;
   signoffReport?: SignoffReport;
+  openlaneRunId?: string;  // OpenLane run of runDir
+  equivalence?: EquivalenceSummary;
+  coverage?: CoverageStatus;
   requirements?: {
     minDensity?: number;
     maxDensity?: number;
     targetFrequency?: number;
     maxPower?: number;
     maxArea?: number;
+    minLineCoverage?: number;    // Percent; makes the coverage item required
+    minToggleCoverage?: number;
   };
 }
 
@@ -198,6 +224,24 @@ const CHECKLIST_ITEMS: Omit<ChecklistItem, "status" | "details">[] = [
     weight: 10,
     fixSuggestion: "Debug LVS mismatches in extracted netlist",
   },
+  {
+    id: "logic_equivalence",
+    category: "drc_lvs",
+    name: "Logic Equivalence",
+    description: "Post-layout netlist formally equivalent to the RTL",
+    required: true,
+    weight: 8,
+    fixSuggestion: "Run check_equivalence (gold=rtl, gate=final or eco) and fix the failing outputs",
+  },
+  {
+    id: "rtl_coverage",
+    category: "drc_lvs",
+    name: "RTL Coverage",
+    description: "Simulation coverage of the RTL meets the coverage thresholds",
+    required: false,
+    weight: 6,
+    fixSuggestion: "Run run_regression with coverage and add tests for the uncovered lines and untoggled bits in its report",
+  },
   {
     id: "antenna_clean",
     category: "drc_lvs",
@@ -566,6 +610,9 @@ async function checkDRCLVS(config: ChecklistConfig): Promise<ChecklistItem[]> {
     }
   }
 
+  items.push(checkEquivalenceItem(config));
+  items.push(checkCoverageItem(config));
+
   // Density check - try to read from reports
   const densityTemplate = CHECKLIST_ITEMS.find((i) => i.id === "density_check")!;
   try {
@@ -595,6 +642,76 @@ async function checkDRCLVS(config: ChecklistConfig): Promise<ChecklistItem[]> {
   return items;
 }
 
+/**
+ * Logic equivalence from the latest check_equivalence run
+ */
+function checkEquivalenceItem(config: ChecklistConfig): ChecklistItem {
+  const template = CHECKLIST_ITEMS.find((i) => i.id === "logic_equivalence")!;
+  const lec = config.equivalence;
+
+  if (!lec) {
+    return { ...template, status: "not_run", details: "Equivalence check not run" };
+  }
+
+  const compared = `${lec.gold} vs ${lec.gate}`;
+  const layoutRunIds = (["gold", "gate"] as const)
+    .filter((side) => lec[side] === "final" || lec[side] === "eco")
+    .map((side) => lec.sourceRunIds?.[side]);
+  // A netlist of another OpenLane run says nothing about this layout
+  if (layoutRunIds.length > 0 && (!config.openlaneRunId || !layoutRunIds.includes(config.openlaneRunId))) {
+    return { ...template, status: "warning", details: `${compared} was checked on another OpenLane run, not this layout` };
+  }
+  if (lec.status === "not_equivalent") {
+    return { ...template, status: "fail", details: `${compared}: ${lec.failed} output(s) differ` };
+  }
+  if (lec.status === "unknown") {
+    return { ...template, status: "warning", details: `${compared}: ${lec.unproven} signal pair(s) unproven` };
+  }
+  // Only the synthesized netlist was checked, not the layout
+  if (layoutRunIds.length === 0) {
+    return { ...template, status: "warning", details: `${compared} equivalent; post-layout netlist not checked` };
+  }
+  return { ...template, status: "pass", details: `${compared}: ${lec.proven} signal pairs proven` };
+}
+
+// Coverage below this is a warning when no threshold is set
+const COVERAGE_WARNING_PCT = 90;
+
+/**
+ * RTL coverage from the project's coverage history, against the thresholds if given
+ */
+function checkCoverageItem(config: ChecklistConfig): ChecklistItem {
+  const template = CHECKLIST_ITEMS.find((i) => i.id === "rtl_coverage")!;
+  const coverage = config.coverage;
+  const thresholds: [string, number | undefined, number | undefined][] = [
+    ["line", config.requirements?.minLineCoverage, coverage?.linePct],
+    ["toggle", config.requirements?.minToggleCoverage, coverage?.togglePct],
+  ];
+  const required = thresholds.some(([, min]) => min !== undefined);
+
+  if (!coverage) {
+    return { ...template, required, status: required ? "fail" : "not_run", details: "No coverage collected" };
+  }
+
+  const measured = thresholds
+    .filter(([, , pct]) => pct !== undefined)
+    .map(([kind, , pct]) => `${kind} ${pct}%`)
+    .join(", ") || "no line or toggle points";
+  const shortfalls = thresholds.flatMap(([kind, min, pct]) => {
+    if (min === undefined) return [];
+    if (pct === undefined) return [`${kind} coverage not measured (${coverage.source})`];
+    return pct < min ? [`${kind} ${pct}% < ${min}%`] : [];
+  });
+
+  if (shortfalls.length > 0) {
+    return { ...template, required, status: "fail", details: shortfalls.join("; ") };
+  }
+  if (!required && thresholds.some(([, , pct]) => pct !== undefined && pct < COVERAGE_WARNING_PCT)) {
+    return { ...template, status: "warning", details: `${measured}; no threshold set` };
+  }
+  return { ...template, required, status: "pass", details: measured };
+}
+
 /**
  * Check timing status
  */
@@ -0,0 +1,476 @@
+/**
+ * Activity-Annotated Power - Post-route power with simulation switching activity
+ *
+ * Runs OpenSTA (through OpenROAD) on the final netlist, SDC and SPEF of
+ * an OpenLane run and reports power twice: with the default vectorless
+ * activity, and after annotating the toggle rates of a simulation VCD
+ * (read_vcd) or SAIF (read_saif). A gate-level simulation of the final
+ * netlist annotates every net; an RTL trace only the nets whose names
+ * survive synthesis, with the rest propagated. Power is reported in total,
+ * per hierarchy scope and per instance, and stored on the OpenLane run as
+ * PPA metrics of stage "activity" next to its vectorless metrics.
+ */
+
+import { existsSync } from "fs";
+import { getExecutor, bashScript, type CommandExecutor } from "../executor/index.js";
+import { projectManager } from "../files/project-manager.js";
+import { fileManager } from "../files/file-manager.js";
+import { pathResolver } from "../files/path-resolver.js";
+import { projectTestbenchSources } from "../hdl/index.js";
+import { defaultTraceFile, readTraceFile, formatTable } from "../waveform/index.js";
+import { readActivityCommand, type SwitchingActivity } from "../signoff/index.js";
+import type { PPAMetrics, Run } from "../types/project.js";
+import { PDK_LIBRARIES } from "./equivalence.js";
+import { findDutInstance } from "./gate-level-sim.js";
+
+// Report directory under output/
+const OUTPUT_DIR = "activity_power";
+const REPORT_FILE = "power_report.txt";
+
+// Markers between the sections of the OpenSTA log
+const SECTION = "@@section";
+
+/**
+ * Internal, switching and leakage power in mW (dynamic = internal + switching)
+ */
+export interface PowerBreakdown {
+  internalMw: number;
+  switchingMw: number;
+  leakageMw: number;
+  dynamicMw: number;
+  totalMw: number;
+}
+
+/**
+ * Power of one cell instance, or of all instances under a hierarchy scope
+ */
+export interface InstancePower extends PowerBreakdown {
+  name: string;                 // Instance name, or scope path (the top module for top-level cells)
+  instances?: number;           // Scopes: number of cells
+}
+
+/**
+ * Activity-annotated power analysis options
+ */
+export interface ActivityPowerOptions {
+  projectId: string;
+  activityFile?: string;        // VCD/FST/SAIF under output/ (default: the latest final-netlist gate-level trace, else the latest simulation trace)
+  scope?: string;               // Design instance in the trace, e.g. tb.dut (default: found in the testbench)
+  openlaneRunId?: string;       // Default: the latest successful OpenLane run
+  spefCorner?: string;          // Parasitics corner under final/spef/ (default: nom)
+  pdk?: string;
+  stdCellLibrary?: string;
+  liberty?: string;             // Liberty file (default: the library's typical corner)
+  topInstances?: number;        // Instances listed in the response (default: 20; all are in the report)
+  executor?: CommandExecutor;
+}
+
+/**
+ * Activity-annotated power analysis result
+ */
+export interface ActivityPowerResult {
+  success: boolean;
+  projectId: string;
+  openlaneRunId?: string;
+  runDir?: string;              // Project-relative LibreLane run directory
+  activityFile?: string;
+  scope?: string;
+  netlistFile?: string;
+  spefFile?: string;
+  libertyFile?: string;
+  vectorless?: PowerBreakdown;
+  activity?: PowerBreakdown;
+  activityRatio?: number;       // Activity total / vectorless total
+  annotation?: Record<string, number>;  // report_activity_annotation: pins per activity source
+  scopes?: InstancePower[];     // Highest power first
+  topInstances?: InstancePower[];
+  instanceCount?: number;
+  ppa?: PPAMetrics;
+  reportFile?: string;
+  logFile?: string;
+  warning?: string;
+  error?: string;
+}
+
+/**
+ * Trace or SAIF file and design scope for switching activity, as a container path
+ * (FST traces are converted to VCD first)
+ */
+export async function resolveSwitchingActivity(
+  projectId: string,
+  activityFile: string | undefined,
+  scope: string | undefined,
+  executor: CommandExecutor
+): Promise<{ activity: SwitchingActivity; activityFile: string; scope: string } | { error: string }> {
+  const runs = projectManager.getProjectRuns(projectId);
+  const gateLevelRun = runs.find((r) => r.runType === "gate_level" && r.results?.netlist === "final" && r.results?.vcdFile);
+  const file = activityFile || gateLevelRun?.results?.vcdFile || defaultTraceFile(projectId);
+  if (file.split(/[\\/]/).includes("..") || !/^[\w./+-]+\.(vcd|fst|saif)$/i.test(file)) {
+    return { error: `Invalid activity file '${file}' (expected a .vcd, .fst or .saif file under output/)` };
+  }
+  let hostFile = pathResolver.getFileHostPath(projectId, `output/${file}`);
+  if (!existsSync(hostFile)) {
+    return { error: `Activity file '${file}' not found in the project's output/ directory. Simulate the design first.` };
+  }
+  if (/\.fst$/i.test(file)) {
+    const converted = await readTraceFile(projectId, file, executor);
+    if (typeof converted !== "string") return converted;
+    hostFile = `${hostFile}.vcd`;
+  }
+
+  let dutScope = scope;
+  if (!dutScope) {
+    const fromRun = file === gateLevelRun?.results?.vcdFile ? gateLevelRun?.results?.dutInstance : undefined;
+    const project = projectManager.getProject(projectId);
+    const topModule = project?.topModule || project?.designName;
+    dutScope = fromRun || (topModule
+      ? findDutInstance(projectManager.getProjectPaths(projectId).hostPath, projectTestbenchSources(projectId), topModule)
+      : undefined);
+  }
+  if (!dutScope) {
+    return { error: "Could not find the design instance in the testbench; pass scope (e.g. tb.dut)" };
+  }
+  if (!/^[A-Za-z_][A-Za-z0-9_$]*([./][A-Za-z_][A-Za-z0-9_$]*)*$/.test(dutScope)) {
+    return { error: `Invalid scope ${JSON.stringify(dutScope)} (expected a hierarchical path such as tb.dut)` };
+  }
+
+  // OpenSTA separates VCD/SAIF scopes with "/"
+  const activity = { file: pathResolver.hostToContainer(hostFile), scope: dutScope.replace(/\./g, "/") };
+  return { activity, activityFile: file, scope: dutScope };
+}
+
+/**
+ * Power of an OpenLane run's final netlist, vectorless and with simulation activity
+ */
+export async function analyzeActivityPower(options: ActivityPowerOptions): Promise<ActivityPowerResult> {
+  const { projectId, spefCorner = "nom", topInstances = 20 } = options;
+  const executor = options.executor || getExecutor();
+  const fail = (error: string, extra: Partial<ActivityPowerResult> = {}): ActivityPowerResult =>
+    ({ success: false, projectId, ...extra, error });
+
+  if (!/^[A-Za-z0-9_.-]+$/.test(spefCorner)) {
+    return fail(`Invalid spef_corner ${JSON.stringify(spefCorner)}`);
+  }
+  if (options.liberty && !/^[\w./+-]+\.lib$/.test(options.liberty)) {
+    return fail(`Invalid liberty path ${JSON.stringify(options.liberty)}`);
+  }
+  const project = projectManager.getProject(projectId);
+  if (!project) {
+    return fail(`Project ${projectId} not found`);
+  }
+
+  try {
+    if (!(await executor.ensureReady())) {
+      return fail("Docker container is not running. Please start the container first.");
+    }
+
+    // OpenLane run and its signoff views
+    let openlaneRun: Run | null | undefined;
+    if (options.openlaneRunId) {
+      openlaneRun = projectManager.getRun(options.openlaneRunId);
+      if (!openlaneRun || openlaneRun.projectId !== projectId || openlaneRun.runType !== "openlane") {
+        return fail(`Run ${options.openlaneRunId} is not an OpenLane run of project ${projectId}`);
+      }
+    } else {
+      openlaneRun = projectManager.getProjectRuns(projectId).find((r) => r.runType === "openlane" && r.status === "success");
+    }
+    if (!openlaneRun?.results?.latestRun) {
+      return fail("No successful OpenLane run found. Run run_openlane for this project first.");
+    }
+    const openlaneRunId = openlaneRun.id;
+    const { containerPath } = projectManager.getProjectPaths(projectId);
+    const runDir = `runs/${openlaneRun.results.latestRun}`;
+    const base: Partial<ActivityPowerResult> = { openlaneRunId, runDir };
+
+    const views = await executor.run(
+      bashScript(
+        'cd -- "$1" || exit 1; ' +
+          'echo "netlist=$(ls -1 final/nl/*.nl.v 2>/dev/null | head -1)"; ' +
+          'echo "sdc=$(ls -1 final/sdc/*.sdc 2>/dev/null | head -1)"; ' +
+          'echo "spef=$(ls -1 final/spef/"$2"*/*.spef final/spef/*."$2"*.spef 2>/dev/null | head -1)"',
+        `${containerPath}/${runDir}`,
+        spefCorner
+      ),
+      { timeout: 10000 }
+    );
+    const view = (name: string) => views.stdout.match(new RegExp(`^${name}=(.+)$`, "m"))?.[1]?.trim() || undefined;
+    const netlist = view("netlist");
+    const sdc = view("sdc");
+    const spef = view("spef");
+    if (!netlist) return fail(`No final netlist in ${runDir}/final/nl`, base);
+    Object.assign(base, {
+      netlistFile: `${runDir}/${netlist}`,
+      spefFile: spef ? `${runDir}/${spef}` : undefined,
+    });
+
+    // Liberty of the run's PDK (typical corner unless given)
+    const pdk = options.pdk || openlaneRun.config?.pdk || "sky130A";
+    const stdcellLib = options.stdCellLibrary || PDK_LIBRARIES[pdk]?.stdcellLib;
+    let liberty = options.liberty;
+    if (!liberty) {
+      if (!stdcellLib) return fail(`Unknown PDK '${pdk}'; pass std_cell_library or liberty explicitly`, base);
+      const lookup = await executor.run(
+        bashScript(
+          'dir="${PDK_ROOT:-/foss/pdks}/$1/libs.ref/$2"; ' +
+            'find "$dir" -maxdepth 2 -name "*.lib" \\( -name "*tt_025C*" -o -name "*typ*" \\) 2>/dev/null | sort | head -1',
+          pdk,
+          stdcellLib
+        ),
+        { timeout: 10000 }
+      );
+      liberty = lookup.stdout.trim() || undefined;
+      if (!liberty) return fail(`No typical-corner liberty found for ${stdcellLib} in PDK ${pdk}; pass liberty explicitly`, base);
+    }
+    base.libertyFile = liberty;
+
+    const resolved = await resolveSwitchingActivity(projectId, options.activityFile, options.scope, executor);
+    if ("error" in resolved) return fail(resolved.error, base);
+    Object.assign(base, { activityFile: resolved.activityFile, scope: resolved.scope });
+
+    const topModule = netlist.split("/").pop()!.replace(/\.nl\.v$/, "");
+    const script = [
+      `read_liberty {${liberty}}`,
+      `read_verilog {${netlist}}`,
+      `link_design ${topModule}`,
+      ...(sdc ? [`read_sdc {${sdc}}`] : []),
+      ...(spef ? [`read_spef {${spef}}`] : []),
+      `puts "${SECTION} vectorless"`,
+      "report_power -digits 6",
+      readActivityCommand(resolved.activity),
+      `puts "${SECTION} annotation"`,
+      "catch {report_activity_annotation}",
+      `puts "${SECTION} activity"`,
+      "report_power -digits 6",
+      `puts "${SECTION} instances"`,
+      "report_power -instances [get_cells *] -digits 6",
+    ].join("\n");
+
+    const result = await executor.run(["openroad", "-no_init", "-exit"], {
+      workdir: `${containerPath}/${runDir}`,
+      stdin: script,
+      timeout: 900000,
+    });
+    const log = `${result.stdout}\n${result.stderr}`;
+    fileManager.writeFile(projectId, `${OUTPUT_DIR}/openroad.log`, log, "report", openlaneRunId);
+    base.logFile = `output/${OUTPUT_DIR}/openroad.log`;
+
+    const sections = splitSections(result.stdout);
+    const vectorless = parsePowerTotals(sections.vectorless || "");
+    const activity = parsePowerTotals(sections.activity || "");
+    if (!result.success || !activity) {
+      const staError = log.match(/^(?:Error|ERROR):?\s*(.*)$/m)?.[1];
+      return fail(
+        result.exitCode === 127
+          ? "OpenROAD (OpenSTA) is not installed. Run check_environment for details."
+          : `OpenSTA failed: ${staError || `see ${base.logFile}`}`,
+        base
+      );
+    }
+
+    const instances = parseInstancePower(sections.instances || "").sort((a, b) => b.totalMw - a.totalMw);
+    const scopes = powerByScope(instances, topModule);
+    const annotation = parseAnnotation(sections.annotation || "");
+
+    // Activity-based PPA next to the run's vectorless metrics (area and timing are the same)
+    const layout = projectManager.getPPAMetrics(openlaneRunId, "layout");
+    const ppa = projectManager.savePPAMetrics(openlaneRunId, {
+      stage: "activity",
+      areaUm2: layout?.areaUm2,
+      powerMw: activity.totalMw,
+      frequencyMhz: layout?.frequencyMhz,
+      wnsNs: layout?.wnsNs,
+      tnsNs: layout?.tnsNs,
+      cellCount: layout?.cellCount,
+    });
+
+    const activityRatio = vectorless && vectorless.totalMw > 0
+      ? Math.round((activity.totalMw / vectorless.totalMw) * 1000) / 1000
+      : undefined;
+    const reportFile = `output/${OUTPUT_DIR}/${REPORT_FILE}`;
+    fileManager.writeFile(
+      projectId,
+      `${OUTPUT_DIR}/${REPORT_FILE}`,
+      formatPowerReport({ ...base, vectorless, activity, activityRatio, annotation, scopes }, instances),
+      "report",
+      openlaneRunId
+    );
+
+    return {
+      success: true,
+      projectId,
+      ...base,
+      vectorless,
+      activity,
+      activityRatio,
+      annotation,
+      scopes,
+      topInstances: instances.slice(0, Math.max(0, topInstances)),
+      instanceCount: instances.length,
+      ppa,
+      reportFile,
+      warning: spef ? undefined : `No ${spefCorner} SPEF in ${runDir}/final/spef; wire capacitance is not included`,
+    };
+  } catch (error: any) {
+    return fail(error.message || String(error));
+  }
+}
+
+/**
+ * Log text between the section markers, by section name
+ */
+function splitSections(log: string): Record<string, string> {
+  const sections: Record<string, string> = {};
+  const parts = log.split(new RegExp(`^${SECTION} `, "m"));
+  for (const part of parts.slice(1)) {
+    const newline = part.indexOf("\n");
+    sections[part.slice(0, newline).trim()] = part.slice(newline + 1);
+  }
+  return sections;
+}
+
+const milliwatts = (watts: string): number => Math.round(parseFloat(watts) * 1e3 * 1e6) / 1e6;
+
+function breakdown(internal: string, switching: string, leakage: string, total: string): PowerBreakdown {
+  const internalMw = milliwatts(internal);
+  const switchingMw = milliwatts(switching);
+  return {
+    internalMw,
+    switchingMw,
+    leakageMw: milliwatts(leakage),
+    dynamicMw: Math.round((internalMw + switchingMw) * 1e6) / 1e6,
+    totalMw: milliwatts(total),
+  };
+}
+
+/**
+ * Total row of report_power, in watts: Total  <internal> <switching> <leakage> <total>  100.0%
+ */
+function parsePowerTotals(text: string): PowerBreakdown | undefined {
+  const row = text.match(/^Total\s+(\S+)\s+(\S+)\s+(\S+)\s+(\S+)/m);
+  return row && [1, 2, 3, 4].every((i) => Number.isFinite(parseFloat(row[i])))
+    ? breakdown(row[1], row[2], row[3], row[4])
+    : undefined;
+}
+
+/**
+ * Rows of report_power -instances: <internal> <switching> <leakage> <total> <instance>
+ */
+function parseInstancePower(text: string): InstancePower[] {
+  const number = "(-?\\d[\\d.]*(?:e[-+]?\\d+)?)";
+  const row = new RegExp(`^\\s*${number}\\s+${number}\\s+${number}\\s+${number}\\s+(\\S+)\\s*$`, "i");
+  const instances: InstancePower[] = [];
+  for (const line of text.split("\n")) {
+    const match = line.match(row);
+    if (match) instances.push({ name: match[5], ...breakdown(match[1], match[2], match[3], match[4]) });
+  }
+  return instances;
+}
+
+/**
+ * Instance power summed per hierarchy scope ("/" of a hierarchical netlist, or the
+ * "." kept in flattened names); cells without a scope belong to the top module
+ */
+function powerByScope(instances: InstancePower[], topModule: string): InstancePower[] {
+  const scopes = new Map<string, InstancePower>();
+  for (const instance of instances) {
+    const name = instance.name.replace(/^\\/, "");
+    const separator = name.includes("/") ? name.lastIndexOf("/") : name.replace(/\[[^\]]*\]/g, (m) => "_".repeat(m.length)).lastIndexOf(".");
+    const scope = separator > 0 ? name.slice(0, separator) : topModule;
+    const entry = scopes.get(scope) || { name: scope, instances: 0, internalMw: 0, switchingMw: 0, leakageMw: 0, dynamicMw: 0, totalMw: 0 };
+    entry.instances!++;
+    entry.internalMw += instance.internalMw;
+    entry.switchingMw += instance.switchingMw;
+    entry.leakageMw += instance.leakageMw;
+    entry.dynamicMw += instance.dynamicMw;
+    entry.totalMw += instance.totalMw;
+    scopes.set(scope, entry);
+  }
+  const round = (value: number) => Math.round(value * 1e6) / 1e6;
+  return [...scopes.values()]
+    .map((s) => ({ ...s, internalMw: round(s.internalMw), switchingMw: round(s.switchingMw), leakageMw: round(s.leakageMw), dynamicMw: round(s.dynamicMw), totalMw: round(s.totalMw) }))
+    .sort((a, b) => b.totalMw - a.totalMw);
+}
+
+/**
+ * report_activity_annotation rows: <source> <pin count>
+ */
+function parseAnnotation(text: string): Record<string, number> | undefined {
+  const annotation: Record<string, number> = {};
+  for (const [, source, count] of text.matchAll(/^\s*([A-Za-z][\w ]*?)\s+(\d+)\s*$/gm)) {
+    annotation[source.trim().toLowerCase().replace(/\s+/g, "_")] = parseInt(count, 10);
+  }
+  return Object.keys(annotation).length > 0 ? annotation : undefined;
+}
+
+/**
+ * Text report: totals, scopes and every instance
+ */
+function formatPowerReport(result: Partial<ActivityPowerResult>, instances: InstancePower[]): string {
+  const mw = (value?: number) => (value === undefined ? "-" : value.toFixed(6));
+  const rows = (list: InstancePower[]) =>
+    list.map((p) => [p.name, ...(p.instances !== undefined ? [String(p.instances)] : []), mw(p.internalMw), mw(p.switchingMw), mw(p.leakageMw), mw(p.dynamicMw), mw(p.totalMw)]);
+  const columns = ["internal_mw", "switching_mw", "leakage_mw", "dynamic_mw", "total_mw"];
+  return [
+    `Activity-annotated power: ${result.runDir}`,
+    `Netlist: ${result.netlistFile}`,
+    `Parasitics: ${result.spefFile || "none"}`,
+    `Liberty: ${result.libertyFile}`,
+    `Activity: output/${result.activityFile} (scope ${result.scope})`,
+    ...(result.annotation ? [`Annotated pins: ${Object.entries(result.annotation).map(([k, v]) => `${k} ${v}`).join(", ")}`] : []),
+    "",
+    formatTable(["activity", ...columns], [
+      ...(result.vectorless ? [["vectorless", mw(result.vectorless.internalMw), mw(result.vectorless.switchingMw), mw(result.vectorless.leakageMw), mw(result.vectorless.dynamicMw), mw(result.vectorless.totalMw)]] : []),
+      ["simulation", mw(result.activity?.internalMw), mw(result.activity?.switchingMw), mw(result.activity?.leakageMw), mw(result.activity?.dynamicMw), mw(result.activity?.totalMw)],
+    ]),
+    "",
+    "== Scopes ==",
+    formatTable(["scope", "cells", ...columns], rows(result.scopes || [])),
+    "",
+    "== Instances ==",
+    formatTable(["instance", ...columns], rows(instances)),
+    "",
+  ].join("\n");
+}
+
+/**
+ * Format activity-annotated power result for MCP response
+ */
+export function formatActivityPowerResult(result: ActivityPowerResult): string {
+  const power = (p?: PowerBreakdown) => p && {
+    internal_mw: p.internalMw,
+    switching_mw: p.switchingMw,
+    leakage_mw: p.leakageMw,
+    dynamic_mw: p.dynamicMw,
+    total_mw: p.totalMw,
+  };
+  const note = result.success
+    ? `Total power with simulation activity is ${result.activity!.totalMw} mW` +
+      (result.activityRatio !== undefined ? ` (${result.activityRatio}x the vectorless ${result.vectorless!.totalMw} mW)` : "") +
+      `, stored as activity-stage PPA metrics of OpenLane run ${result.openlaneRunId}. Every instance is listed in ${result.reportFile}.` +
+      (result.annotation?.unannotated ? " Unannotated pins use propagated or default activity; a gate-level trace of the final netlist (simulate_gate_level) annotates all of them." : "")
+    : "Activity-annotated power analysis failed. Check the error message for details.";
+
+  return JSON.stringify({
+    success: result.success,
+    project_id: result.projectId,
+    openlane_run_id: result.openlaneRunId,
+    run_dir: result.runDir,
+    activity_file: result.activityFile,
+    scope: result.scope,
+    netlist_file: result.netlistFile,
+    spef_file: result.spefFile,
+    liberty_file: result.libertyFile,
+    vectorless: power(result.vectorless),
+    activity: power(result.activity),
+    activity_ratio: result.activityRatio,
+    annotation: result.annotation,
+    scopes: result.scopes?.map((s) => ({ scope: s.name, cells: s.instances, ...power(s) })),
+    instance_count: result.instanceCount,
+    top_instances: result.topInstances?.map((i) => ({ instance: i.name, ...power(i) })),
+    report_file: result.reportFile,
+    log_file: result.logFile,
+    warning: result.warning,
+    error: result.error,
+    note,
+  }, null, 2);
+}
@@ -0,0 +1,43 @@
+/**
+ * Cache Tools - Inspect and evict the synthesis/OpenLane result cache
+ */
+
+import { resultCache, type EvictOptions } from "../cache/index.js";
+
+/**
+ * Format cache statistics for display
+ */
+export function getCacheStats(): string {
+  const stats = resultCache.getStats();
+  const lookups = stats.sessionHits + stats.sessionMisses;
+
+  return JSON.stringify({
+    success: true,
+    entries: stats.entries,
+    total_hits: stats.totalHits,
+    total_bytes: stats.totalBytes,
+    by_tool: stats.byTool,
+    session: {
+      hits: stats.sessionHits,
+      misses: stats.sessionMisses,
+      hit_rate: lookups > 0 ? Number((stats.sessionHits / lookups).toFixed(3)) : undefined,
+    },
+    oldest_entry: stats.oldestEntry?.toISOString(),
+    newest_entry: stats.newestEntry?.toISOString(),
+    note: "Cached OpenLane results point at their original run directory; deleting that project drops the entry.",
+  }, null, 2);
+}
+
+/**
+ * Evict cache entries and format the outcome
+ */
+export function evictCache(options: EvictOptions): string {
+  const result = resultCache.evict(options);
+
+  return JSON.stringify({
+    success: true,
+    entries_evicted: result.entriesEvicted,
+    bytes_freed: result.bytesFreed,
+    remaining_entries: resultCache.getStats().entries,
+  }, null, 2);
+}
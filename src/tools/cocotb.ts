@@ -0,0 +1,532 @@
+/**
+ * cocotb Tool - Python testbenches with Icarus Verilog or Verilator
+ *
+ * Generates a cocotb Makefile for the project's design sources and the
+ * given Python test modules, runs it in the container and reads cocotb's
+ * JUnit results.xml into per-test pass/fail, with the assertion message
+ * and traceback of each failure taken from the simulator log. The run is
+ * recorded as a simulation run whose waveform is tracked like any other.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { isAbsolute, join, posix } from "path";
+import { getExecutor, bashScript, type CommandExecutor, type ExecResult } from "../executor/index.js";
+import { projectManager } from "../files/project-manager.js";
+import { fileManager } from "../files/file-manager.js";
+import {
+  languageOfFile,
+  isHeaderFile,
+  projectDesignSources,
+  iverilogBuildFlags,
+  verilatorBuildFlags,
+  validateBuildOptions,
+  includeDirFiles,
+  includeDirPaths,
+  parseDiagnostics,
+  diagnosticsByFile,
+  TESTBENCH_DIR,
+  type HdlBuildOptions,
+  type HdlDiagnostic,
+  type HdlSource,
+  type LanguageOption,
+} from "../hdl/index.js";
+import { importSourceFile, listVcdFiles, SIMULATORS, type Simulator, type TraceFormat } from "./simulation.js";
+import type { RunSnapshot } from "../types/project.js";
+
+// Build directory under output/ (Makefile, sim_build/, results.xml, traces)
+const OUTPUT_DIR = "cocotb";
+const RESULTS_FILE = "results.xml";
+
+// Icarus has no trace option in cocotb's Makefile; this extra root module dumps the design
+const WAVES_MODULE = "cocotb_waves";
+
+// Traceback lines kept per failure
+const MAX_TRACEBACK_LINES = 30;
+
+// A cocotb log line: "  1000.00ns INFO     cocotb.regression ..."
+const LOG_LINE = /^\s*-?[\d.]+\s*[a-z]*s\s+(?:DEBUG|INFO|WARNING|ERROR|CRITICAL)\s/;
+
+export type CocotbTestStatus = "pass" | "fail" | "skip";
+
+/**
+ * cocotb run options (include dirs, defines and top-level parameters from HdlBuildOptions)
+ */
+export interface CocotbOptions extends HdlBuildOptions {
+  projectId: string;
+  testFiles?: string[];         // Python test modules (copied into src/tb/ unless already in the project)
+  testCode?: string;            // OR: one inline test module, written to src/tb/test_<top>.py
+  verilogFiles?: string[];      // Design files (default: the project's design sources)
+  topModule?: string;           // HDL toplevel (default: the project's top module)
+  testcases?: string[];         // Run only these test functions (default: all)
+  simulator?: Simulator;        // Default: icarus
+  traceFormat?: TraceFormat;    // Default: vcd
+  seed?: number;                // RANDOM_SEED
+  plusargs?: string[];
+  language?: LanguageOption;
+  timeout?: number;             // Seconds (default: 900)
+
+  // Background job integration (optional)
+  runId?: string;
+  executor?: CommandExecutor;
+
+  // Reproduction (optional)
+  restoreFrom?: RunSnapshot;
+}
+
+/**
+ * One test function from results.xml
+ */
+export interface CocotbTestResult {
+  name: string;
+  module: string;
+  status: CocotbTestStatus;
+  durationS?: number;
+  simTimeNs?: number;
+  message?: string;             // Assertion or exception message of a failure
+  traceback?: string;
+}
+
+/**
+ * cocotb run result
+ */
+export interface CocotbResult {
+  success: boolean;             // The tests ran and none failed
+  projectId: string;
+  runId?: string;
+  simulator?: Simulator;
+  cocotbVersion?: string;
+  topModule?: string;
+  modules?: string[];           // Python test modules
+  files?: string[];             // Project-relative HDL sources
+  total?: number;
+  passed?: number;
+  failed?: number;
+  skipped?: number;
+  tests?: CocotbTestResult[];
+  resultsFile?: string;
+  vcdFile?: string;
+  exitCode?: number;
+  stdout?: string;
+  stderr?: string;
+  diagnostics?: HdlDiagnostic[];
+  error?: string;
+}
+
+/**
+ * Run cocotb test modules against a project's design
+ */
+export async function runCocotb(options: CocotbOptions): Promise<CocotbResult> {
+  const { projectId, simulator = "icarus", traceFormat = "vcd", language = "auto", timeout = 900 } = options;
+  const executor = options.executor || getExecutor();
+
+  let runId = options.runId;
+  const fail = (error: string, extra: Partial<CocotbResult> = {}): CocotbResult => {
+    if (runId) projectManager.failRun(runId, error);
+    return { success: false, projectId, runId, simulator, ...extra, error };
+  };
+
+  if (!SIMULATORS.includes(simulator) || !["vcd", "fst"].includes(traceFormat)) {
+    return fail(`Invalid simulator '${simulator}' or trace_format '${traceFormat}' (simulator: ${SIMULATORS.join(", ")}; trace_format: vcd, fst)`);
+  }
+  if (!options.testFiles?.length && !options.testCode && !options.restoreFrom) {
+    return fail("Either 'test_files' or 'test_code' must be provided");
+  }
+  if (options.topModule && !/^[A-Za-z_][A-Za-z0-9_$]*$/.test(options.topModule)) {
+    return fail(`Invalid module name: ${JSON.stringify(options.topModule)}`);
+  }
+  const badTestcase = options.testcases?.find((name) => !/^[A-Za-z_][A-Za-z0-9_]*$/.test(name));
+  if (badTestcase !== undefined) {
+    return fail(`Invalid testcase name ${JSON.stringify(badTestcase)}`);
+  }
+  if (options.seed !== undefined && !(Number.isInteger(options.seed) && options.seed >= 0)) {
+    return fail("'seed' must be a non-negative integer");
+  }
+  const badPlusarg = options.plusargs?.find((arg) => !/^\+\S+$/.test(arg));
+  if (badPlusarg !== undefined) {
+    return fail(`Invalid plusarg ${JSON.stringify(badPlusarg)} (expected +name or +name=value)`);
+  }
+  const buildError = validateBuildOptions(options);
+  if (buildError) {
+    return fail(buildError);
+  }
+
+  const project = projectManager.getProject(projectId);
+  if (!project) {
+    return fail(`Project ${projectId} not found`);
+  }
+
+  try {
+    if (!(await executor.ensureReady())) {
+      return fail("Docker container is not running. Please start the container first.");
+    }
+
+    const version = await executor.run(["cocotb-config", "--version"], { timeout: 30000 });
+    if (!version.success) {
+      return fail(
+        version.exitCode === 127
+          ? "cocotb is not installed (cocotb-config not found). Run check_environment for details."
+          : `cocotb-config failed: ${version.stderr}`
+      );
+    }
+    const cocotbVersion = version.stdout.trim();
+    // cocotb 2.0 renamed MODULE/TOPLEVEL/TESTCASE to COCOTB_TEST_MODULES/COCOTB_TOPLEVEL/COCOTB_TEST_FILTER
+    const cocotb2 = parseInt(cocotbVersion, 10) >= 2;
+
+    if (!runId) {
+      runId = projectManager.createRun({
+        projectId,
+        runType: "simulation",
+        config: {
+          cocotb: true,
+          simulator,
+          traceFormat,
+          language: options.language,
+          topModule: options.topModule,
+          testFiles: options.testFiles,
+          verilogFiles: options.verilogFiles,
+          testcases: options.testcases,
+          seed: options.seed,
+          plusargs: options.plusargs,
+          includeDirs: options.includeDirs,
+          defines: options.defines,
+          parameters: options.parameters,
+        },
+      }).id;
+      projectManager.startRun(runId);
+    }
+
+    const { hostPath, containerPath } = projectManager.getProjectPaths(projectId);
+    const topModule = options.topModule || project.topModule || project.designName;
+    if (!topModule || !/^[A-Za-z_][A-Za-z0-9_$]*$/.test(topModule)) {
+      return fail(topModule ? `Invalid top module name: ${JSON.stringify(topModule)}` : "'top_module' is required (the project has no top module)");
+    }
+
+    // Design sources and Python test modules (names relative to src/)
+    const designSources: HdlSource[] = [];
+    const testFiles: string[] = [];
+    if (options.restoreFrom) {
+      projectManager.restoreSnapshot(projectId, options.restoreFrom);
+      for (const file of options.restoreFrom.files) {
+        if (!file.path.startsWith("src/")) continue;
+        const name = file.path.slice("src/".length);
+        if (name.endsWith(".py")) testFiles.push(name);
+        else if (/\.s?v$/i.test(name) && !isHeaderFile(name)) designSources.push({ name, language: languageOfFile(name, language) });
+      }
+    } else {
+      for (const filePath of options.verilogFiles || []) {
+        const name = await importSourceFile(projectId, filePath, false, executor, runId);
+        if (name === null) return fail(`Failed to read file ${filePath}`);
+        if (!isHeaderFile(name)) designSources.push({ name, language: languageOfFile(name, language) });
+      }
+      if (!options.verilogFiles?.length) {
+        designSources.push(...projectDesignSources(projectId, language));
+      }
+      if (options.testCode) {
+        const name = `${TESTBENCH_DIR}/test_${topModule.toLowerCase()}.py`;
+        fileManager.writeFile(projectId, name, options.testCode, "input", runId);
+        testFiles.push(name);
+      }
+      for (const filePath of options.testFiles || []) {
+        if (!filePath.endsWith(".py")) return fail(`Test module ${filePath} is not a Python file`);
+        const name = await importSourceFile(projectId, filePath, true, executor, runId);
+        if (name === null) return fail(`Failed to read file ${filePath}`);
+        testFiles.push(name);
+      }
+    }
+
+    if (designSources.length === 0) {
+      return fail("No Verilog/SystemVerilog design files to simulate");
+    }
+    const modules = [...new Set(testFiles.map((name) => posix.basename(name, ".py")))];
+    const badModule = modules.find((module) => !/^[A-Za-z_][A-Za-z0-9_]*$/.test(module));
+    if (badModule !== undefined) {
+      return fail(`'${badModule}.py' is not importable as a Python module; rename it`);
+    }
+    if (modules.length === 0) {
+      return fail("No Python test modules found");
+    }
+    const base: Partial<CocotbResult> = {
+      cocotbVersion,
+      topModule,
+      modules,
+      files: designSources.map((source) => `src/${source.name}`),
+    };
+
+    await projectManager.snapshotRun(
+      runId,
+      projectId,
+      [...base.files!, ...testFiles.map((name) => `src/${name}`), ...includeDirFiles(projectId, options)],
+      executor
+    );
+
+    const outputDir = `${containerPath}/output/${OUTPUT_DIR}`;
+    await executor.run(bashScript('rm -rf "$1" && mkdir -p "$1"', outputDir), { timeout: 30000 });
+
+    // Icarus: an extra root module dumps the toplevel (vvp -fst for FST)
+    const traceFile = `waves.${traceFormat}`;
+    if (simulator === "icarus") {
+      fileManager.writeFile(
+        projectId,
+        `${OUTPUT_DIR}/${WAVES_MODULE}.v`,
+        `// Dumps the cocotb toplevel (written by run_cocotb)\n` +
+          `module ${WAVES_MODULE};\n  initial begin\n    $dumpfile("${outputDir}/${traceFile}");\n    $dumpvars(0, ${topModule});\n  end\nendmodule\n`,
+        "output",
+        runId
+      );
+    }
+
+    // make runs in output/cocotb, so include directories are absolute
+    const build: HdlBuildOptions = {
+      ...options,
+      includeDirs: includeDirPaths(options).map((dir) => isAbsolute(dir) ? dir : posix.join(containerPath, "src", dir)),
+    };
+
+    const makefile = cocotbMakefile({
+      cocotb2,
+      simulator,
+      traceFormat,
+      topModule,
+      modules,
+      testcases: options.testcases,
+      sources: [
+        ...designSources.map((source) => `${containerPath}/src/${source.name}`),
+        ...(simulator === "icarus" ? [`${outputDir}/${WAVES_MODULE}.v`] : []),
+      ],
+      pythonPath: [...new Set(testFiles.map((name) => `${containerPath}/src/${posix.dirname(name)}`.replace(/\/\.$/, "")))],
+      compileArgs: simulator === "icarus"
+        ? [...iverilogBuildFlags(build, topModule), "-s", WAVES_MODULE]
+        : ["-Wno-fatal", ...verilatorBuildFlags(build)],
+      plusargs: options.plusargs || [],
+      resultsFile: `${outputDir}/${RESULTS_FILE}`,
+      seed: options.seed,
+    });
+    fileManager.writeFile(projectId, `${OUTPUT_DIR}/Makefile`, makefile, "output", runId);
+
+    const make: ExecResult = await executor.run(["make", "-C", outputDir], {
+      workdir: outputDir,
+      timeout: timeout * 1000,
+    });
+    const output = `${make.stdout}\n${make.stderr}`;
+    const diagnostics = parseDiagnostics(output, simulator === "verilator" ? "verilator" : "iverilog");
+
+    const traceFiles = await listVcdFiles(projectId, OUTPUT_DIR);
+    const vcdFile = traceFiles.find((file) => file.endsWith(`.${traceFormat}`)) || traceFiles[0];
+    if (vcdFile) fileManager.trackFile(projectId, vcdFile, "vcd", runId);
+
+    const resultsPath = join(hostPath, "output", OUTPUT_DIR, RESULTS_FILE);
+    if (!existsSync(resultsPath)) {
+      return fail(
+        /Command timed out after/.test(make.stderr)
+          ? `cocotb timed out after ${timeout}s`
+          : `cocotb produced no ${RESULTS_FILE} (build or startup failed): ${make.stderr.slice(-2000) || make.stdout.slice(-2000)}`,
+        { ...base, exitCode: make.exitCode, stdout: make.stdout, stderr: make.stderr, diagnostics, vcdFile }
+      );
+    }
+    fileManager.trackFile(projectId, `${OUTPUT_DIR}/${RESULTS_FILE}`, "report", runId);
+
+    const tests = parseResultsXml(readFileSync(resultsPath, "utf-8"));
+    for (const test of tests) {
+      if (test.status === "fail") Object.assign(test, failureDetails(output, test));
+    }
+    const count = (status: CocotbTestStatus) => tests.filter((test) => test.status === status).length;
+    const passed = count("pass");
+    const failed = count("fail");
+    const skipped = count("skip");
+    const success = tests.length > 0 && failed === 0;
+
+    const testStatus: Record<string, CocotbTestStatus> = {};
+    for (const test of tests) testStatus[`${test.module}.${test.name}`] = test.status;
+    const summary = { cocotb: true, simulator, vcdFile, hasVcd: !!vcdFile, total: tests.length, passed, failed, skipped, testStatus };
+    if (success) {
+      projectManager.completeRun(runId, summary);
+    } else {
+      projectManager.failRun(runId, tests.length === 0 ? "No cocotb tests ran" : `${failed} of ${tests.length} cocotb tests failed`);
+    }
+
+    return {
+      success,
+      projectId,
+      runId,
+      simulator,
+      ...base,
+      total: tests.length,
+      passed,
+      failed,
+      skipped,
+      tests,
+      resultsFile: `output/${OUTPUT_DIR}/${RESULTS_FILE}`,
+      vcdFile,
+      exitCode: make.exitCode,
+      stdout: make.stdout,
+      stderr: make.stderr,
+      diagnostics,
+      error: success ? undefined : tests.length === 0 ? "No cocotb tests ran (check the test module names and testcases)" : `${failed} test(s) failed`,
+    };
+  } catch (error: any) {
+    return fail(error.message || String(error));
+  }
+}
+
+/**
+ * Makefile including cocotb's Makefile.sim, with the variable names of the installed cocotb
+ */
+function cocotbMakefile(spec: {
+  cocotb2: boolean;
+  simulator: Simulator;
+  traceFormat: TraceFormat;
+  topModule: string;
+  modules: string[];
+  testcases?: string[];
+  sources: string[];
+  pythonPath: string[];
+  compileArgs: string[];
+  plusargs: string[];
+  resultsFile: string;
+  seed?: number;
+}): string {
+  // make expands $ and strips # comments before the shell sees a value
+  const escape = (value: string) => value.replace(/\$/g, "$$$$").replace(/#/g, "\\#");
+  const quote = (value: string) =>
+    escape(/^[A-Za-z0-9_+\-=.,\/:]+$/.test(value) ? value : `'${value.replace(/'/g, "'\\''")}'`);
+  const lines = [
+    "# Generated by run_cocotb",
+    `SIM = ${spec.simulator}`,
+    "TOPLEVEL_LANG = verilog",
+    `VERILOG_SOURCES = ${spec.sources.map(escape).join(" ")}`,
+    `${spec.cocotb2 ? "COCOTB_TOPLEVEL" : "TOPLEVEL"} = ${spec.topModule}`,
+    `${spec.cocotb2 ? "COCOTB_TEST_MODULES" : "MODULE"} = ${spec.modules.join(",")}`,
+  ];
+  if (spec.testcases?.length) {
+    lines.push(spec.cocotb2
+      ? `export COCOTB_TEST_FILTER = ^(${spec.testcases.join("|")})$$`
+      : `export TESTCASE = ${spec.testcases.join(",")}`);
+  }
+  lines.push(
+    `COMPILE_ARGS += ${spec.compileArgs.map(quote).join(" ")}`,
+    `export PYTHONPATH := ${spec.pythonPath.map(escape).join(":")}:$(PYTHONPATH)`,
+    `export COCOTB_RESULTS_FILE = ${escape(spec.resultsFile)}`,
+  );
+  if (spec.plusargs.length > 0) {
+    lines.push(`PLUSARGS += ${spec.plusargs.map(quote).join(" ")}`);
+  }
+  if (spec.seed !== undefined) {
+    lines.push(`export ${spec.cocotb2 ? "COCOTB_RANDOM_SEED" : "RANDOM_SEED"} = ${spec.seed}`);
+  }
+  if (spec.simulator === "icarus") {
+    if (spec.traceFormat === "fst") lines.push("SIM_ARGS += -fst");
+  } else {
+    // cocotb's Verilator main writes dump.vcd / dump.fst into the working directory
+    lines.push(`EXTRA_ARGS += ${spec.traceFormat === "fst" ? "--trace-fst" : "--trace"} --trace-structs`);
+  }
+  lines.push("", "include $(shell cocotb-config --makefiles)/Makefile.sim", "");
+  return lines.join("\n");
+}
+
+/**
+ * Test cases of cocotb's JUnit results.xml
+ */
+function parseResultsXml(xml: string): CocotbTestResult[] {
+  const tests: CocotbTestResult[] = [];
+  for (const match of xml.matchAll(/<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g)) {
+    const attrs = xmlAttributes(match[1]);
+    const body = match[2] || "";
+    const failure = body.match(/<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/);
+    const module = attrs.classname || "";
+    tests.push({
+      name: attrs.name || "?",
+      module,
+      status: failure ? "fail" : /<skipped\b/.test(body) ? "skip" : "pass",
+      durationS: attrs.time !== undefined ? Number(attrs.time) : undefined,
+      simTimeNs: attrs.sim_time_ns !== undefined ? Number(attrs.sim_time_ns) : undefined,
+      message: failure ? xmlAttributes(failure[2]).message || unescapeXml(failure[3] || "").trim() || undefined : undefined,
+    });
+  }
+  return tests;
+}
+
+function xmlAttributes(text: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const [, name, value] of text.matchAll(/([\w:.-]+)\s*=\s*"([^"]*)"/g)) {
+    attrs[name] = unescapeXml(value);
+  }
+  return attrs;
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Traceback logged after "<module>.<test> failed", and its last line as the message
+ */
+function failureDetails(output: string, test: CocotbTestResult): Partial<CocotbTestResult> {
+  const lines = output.split("\n");
+  const start = lines.findIndex((line) => line.includes(`${test.module}.${test.name} failed`) || line.includes(`${test.name} failed`));
+  if (start < 0) return {};
+  const traceback: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (LOG_LINE.test(line)) break;
+    traceback.push(line);
+  }
+  const nonEmpty = traceback.filter((line) => line.trim());
+  if (nonEmpty.length === 0) return {};
+  // Log continuation lines are indented to the message column
+  const indent = Math.min(...nonEmpty.map((line) => line.length - line.trimStart().length));
+  const dedented = traceback.map((line) => line.slice(indent));
+  const kept = dedented.length > MAX_TRACEBACK_LINES ? ["...", ...dedented.slice(-MAX_TRACEBACK_LINES)] : dedented;
+  return { message: nonEmpty[nonEmpty.length - 1].trim(), traceback: kept.join("\n").replace(/\s+$/, "") };
+}
+
+/**
+ * Format cocotb result for MCP response
+ */
+export function formatCocotbResult(result: CocotbResult): string {
+  let note: string;
+  if (result.tests === undefined) {
+    note = "cocotb failed to run. Check the error message and stdout/stderr for details.";
+  } else if (result.tests.length === 0) {
+    note = "No cocotb tests ran. Check that the modules define @cocotb.test() functions and that 'testcases' names exist.";
+  } else {
+    note = `${result.passed}/${result.total} cocotb tests passed${result.skipped ? ` (${result.skipped} skipped)` : ""}. ` +
+      (result.vcdFile ? `Waveform: ${result.vcdFile} (use query_waveform or view_waveform).` : "No waveform was written.");
+  }
+
+  const tail = (text?: string) => (text && text.length > 5000 ? "...(truncated)" + text.slice(-5000) : text || undefined);
+  return JSON.stringify({
+    success: result.success,
+    project_id: result.projectId,
+    run_id: result.runId,
+    simulator: result.simulator,
+    cocotb_version: result.cocotbVersion,
+    top_module: result.topModule,
+    modules: result.modules,
+    files: result.files,
+    total: result.total,
+    passed: result.passed,
+    failed: result.failed,
+    skipped: result.skipped,
+    tests: result.tests?.map((test) => ({
+      name: test.name,
+      module: test.module,
+      status: test.status,
+      duration_s: test.durationS,
+      sim_time_ns: test.simTimeNs,
+      message: test.message,
+      traceback: test.traceback,
+    })),
+    results_file: result.resultsFile,
+    vcd_file: result.vcdFile,
+    exit_code: result.exitCode,
+    stdout: result.success ? undefined : tail(result.stdout),
+    stderr: result.success ? undefined : tail(result.stderr),
+    diagnostics: result.diagnostics?.length ? diagnosticsByFile(result.diagnostics) : undefined,
+    error: result.error,
+    note,
+  }, null, 2);
+}
@@ -0,0 +1,585 @@
+/**
+ * Environment Check - Diagnose the EDA toolchain, PDKs and server storage
+ *
+ * Replaces scripts/health-check.sh with a structured report: every check
+ * has a status and, when it is not ok, a concrete fix.
+ */
+
+import { accessSync, constants, existsSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { bashScript, getExecutor, type CommandExecutor } from "../executor/index.js";
+import { dockerManager } from "../docker/docker-manager.js";
+import { pathResolver } from "../files/path-resolver.js";
+import { snapshotStore } from "../files/snapshot-store.js";
+import { database } from "../db/database.js";
+import { checkAutoTunerAvailable } from "../tuner/index.js";
+import {
+  isOpenAIConfigured,
+  getEmbeddingModel,
+  getEmbeddingDimensions,
+  isVectorstoreAvailable,
+  getCollectionStats,
+  getChromaUrl,
+} from "../rag/index.js";
+
+const CHECK_TIMEOUT = 20000;
+const CHROMA_TIMEOUT = 5000;
+
+const START_CONTAINER = "docker-compose -f docker/docker-compose.yml up -d";
+
+export type CheckStatus = "ok" | "warning" | "error" | "skipped";
+
+export type CheckCategory =
+  | "executor"
+  | "container"
+  | "eda_tool"
+  | "pdk"
+  | "autotuner"
+  | "rag"
+  | "storage"
+  | "paths";
+
+/**
+ * Result of a single check
+ */
+export interface EnvironmentCheck {
+  category: CheckCategory;
+  name: string;
+  status: CheckStatus;
+  detail: string;
+  fix?: string;
+}
+
+/**
+ * Full environment report
+ */
+export interface EnvironmentReport {
+  status: "ok" | "warning" | "error";  // Worst status of all checks
+  executor: string;
+  summary: Record<CheckStatus, number>;
+  checks: EnvironmentCheck[];
+}
+
+/**
+ * EDA binaries and the tools that need them
+ * Required binaries are errors when missing, the rest are warnings.
+ */
+const EDA_TOOLS: { name: string; versionArgs: string[]; usedBy: string; required: boolean }[] = [
+  { name: "yosys", versionArgs: ["-V"], usedBy: "synthesize_verilog", required: true },
+  { name: "iverilog", versionArgs: ["-V"], usedBy: "simulate_verilog", required: true },
+  { name: "vvp", versionArgs: ["-V"], usedBy: "simulate_verilog", required: true },
+  { name: "verilator", versionArgs: ["--version"], usedBy: "lint_verilog, simulate_verilog (verilator)", required: false },
+  { name: "librelane", versionArgs: ["--version"], usedBy: "run_openlane", required: true },
+  { name: "openroad", versionArgs: ["-version"], usedBy: "signoff, ECO, AutoTuner and pre-layout STA", required: true },
+  { name: "magic", versionArgs: ["-dnull", "-noconsole", "--version"], usedBy: "DRC and GDS views", required: false },
+  { name: "klayout", versionArgs: ["-v"], usedBy: "view_gds", required: false },
+  { name: "netgen", versionArgs: [], usedBy: "LVS", required: false },
+  { name: "gtkwave", versionArgs: ["--version"], usedBy: "view_waveform", required: false },
+  { name: "fst2vcd", versionArgs: ["--help"], usedBy: "query_waveform, render_waveform (FST traces)", required: false },
+  { name: "wavedrom-cli", versionArgs: ["--version"], usedBy: "render_waveform", required: false },
+  { name: "sby", versionArgs: ["--version"], usedBy: "run_formal", required: false },
+  { name: "cocotb-config", versionArgs: ["--version"], usedBy: "run_cocotb", required: false },
+  { name: "dot", versionArgs: ["-V"], usedBy: "render_schematic", required: false },
+  { name: "nextpnr-ice40", versionArgs: ["--version"], usedBy: "run_fpga_flow (ice40)", required: false },
+  { name: "icepack", versionArgs: [], usedBy: "run_fpga_flow (ice40)", required: false },
+  { name: "nextpnr-ecp5", versionArgs: ["--version"], usedBy: "run_fpga_flow (ecp5)", required: false },
+  { name: "ecppack", versionArgs: [], usedBy: "run_fpga_flow (ecp5)", required: false },
+];
+
+/**
+ * PDKs under PDK_ROOT and the standard-cell library each flow uses
+ */
+const PDKS: { name: string; stdcellLib: string; required: boolean }[] = [
+  { name: "sky130A", stdcellLib: "sky130_fd_sc_hd", required: true },
+  { name: "gf180mcuD", stdcellLib: "gf180mcu_fd_sc_mcu7t5v0", required: false },
+  { name: "ihp-sg13g2", stdcellLib: "sg13g2_stdcell", required: false },
+];
+
+// Liberty file synthesize_verilog reads for target=sky130
+const SKY130_SYNTH_LIBERTY =
+  "/foss/pdks/sky130A/libs.ref/sky130_fd_sc_hd/lib/sky130_fd_sc_hd__tt_025C_1v80.lib";
+
+// Directories the docker-compose setup mounts into the container
+const CONTAINER_MOUNTS: { path: string; required: boolean }[] = [
+  { path: "/workspace/projects", required: true },
+  { path: "/workspace/chroma-data", required: false },
+  { path: "/workspace/cache", required: false },
+];
+
+/**
+ * Run all environment checks
+ */
+export async function checkEnvironment(executor: CommandExecutor = getExecutor()): Promise<EnvironmentReport> {
+  const checks: EnvironmentCheck[] = [];
+  const replay = executor.kind === "replay";
+
+  checks.push({
+    category: "executor",
+    name: executor.kind,
+    status: "ok",
+    detail: replay
+      ? "Replaying recorded tool output; toolchain checks are skipped"
+      : `EDA commands run via the ${executor.kind} executor`,
+  });
+
+  if (replay) {
+    for (const category of ["container", "eda_tool", "pdk", "autotuner", "paths"] as const) {
+      checks.push({ category, name: category, status: "skipped", detail: "Not applicable to the replay executor" });
+    }
+  } else {
+    const containerChecks = await checkContainer(executor);
+    checks.push(...containerChecks);
+
+    // Without a running container every tool check would fail the same way
+    if (containerChecks.some((check) => check.name === "container" && check.status === "error")) {
+      for (const category of ["eda_tool", "pdk", "autotuner", "paths"] as const) {
+        checks.push({ category, name: category, status: "skipped", detail: "EDA container is not running" });
+      }
+    } else {
+      checks.push(...(await checkEdaTools(executor)));
+      checks.push(...(await checkPdks(executor)));
+      checks.push(await checkAutoTuner(executor));
+      checks.push(...(await checkPathMapping(executor)));
+    }
+  }
+
+  checks.push(...(await checkRag()));
+  checks.push(...checkStorage());
+
+  const summary: Record<CheckStatus, number> = { ok: 0, warning: 0, error: 0, skipped: 0 };
+  for (const check of checks) summary[check.status]++;
+
+  return {
+    status: summary.error > 0 ? "error" : summary.warning > 0 ? "warning" : "ok",
+    executor: executor.kind,
+    summary,
+    checks,
+  };
+}
+
+/**
+ * Docker daemon, container state and volume mounts
+ */
+async function checkContainer(executor: CommandExecutor): Promise<EnvironmentCheck[]> {
+  if (executor.kind === "native" || isNativeRecording(executor)) {
+    return [{ category: "container", name: "container", status: "skipped", detail: "Native executor uses host tools" }];
+  }
+
+  const checks: EnvironmentCheck[] = [];
+
+  if (!(await dockerManager.isDockerAvailable())) {
+    return [{
+      category: "container",
+      name: "container",
+      status: "error",
+      detail: "Docker is not installed or the daemon is not running",
+      fix: "Install Docker and start the daemon, or set MCP4EDA_EXECUTOR=native to use tools installed on the host",
+    }];
+  }
+
+  const status = await dockerManager.getContainerStatus();
+  if (!status.running) {
+    return [{
+      category: "container",
+      name: "container",
+      status: "error",
+      detail: status.status
+        ? `Container '${pathResolver.getContainerName()}' is ${status.status}`
+        : `Container '${pathResolver.getContainerName()}' does not exist`,
+      fix: `${START_CONTAINER} (or set DOCKER_CONTAINER_NAME to the running container)`,
+    }];
+  }
+
+  checks.push({
+    category: "container",
+    name: "container",
+    status: "ok",
+    detail: `${pathResolver.getContainerName()} running (${status.id}, ${status.image})`,
+  });
+
+  for (const mount of CONTAINER_MOUNTS) {
+    const result = await executor.run(["test", "-d", mount.path], { timeout: CHECK_TIMEOUT });
+    checks.push(
+      result.success
+        ? { category: "container", name: mount.path, status: "ok", detail: "Mounted" }
+        : {
+            category: "container",
+            name: mount.path,
+            status: mount.required ? "error" : "warning",
+            detail: "Not mounted in the container",
+            fix: `Recreate the container with the volumes from docker/docker-compose.yml: ${START_CONTAINER} --force-recreate`,
+          }
+    );
+  }
+
+  return checks;
+}
+
+/**
+ * Presence and version of each EDA binary
+ */
+async function checkEdaTools(executor: CommandExecutor): Promise<EnvironmentCheck[]> {
+  const native = executor.kind === "native" || isNativeRecording(executor);
+  const checks: EnvironmentCheck[] = [];
+
+  for (const tool of EDA_TOOLS) {
+    // Prints the binary path, then the first line of its version output
+    const result = await executor.run(
+      bashScript(
+        'export LD_LIBRARY_PATH="/foss/tools/iverilog/lib${LD_LIBRARY_PATH:+:$LD_LIBRARY_PATH}"; ' +
+          'command -v "$1" || exit 127; ' +
+          'if [ $# -gt 1 ]; then timeout 15 "$@" </dev/null 2>&1 | head -n 1; fi; exit 0',
+        tool.name,
+        ...tool.versionArgs
+      ),
+      { timeout: CHECK_TIMEOUT }
+    );
+
+    if (!result.success) {
+      checks.push({
+        category: "eda_tool",
+        name: tool.name,
+        status: tool.required ? "error" : "warning",
+        detail: `Not found on PATH (needed by ${tool.usedBy})`,
+        fix: native
+          ? `Install ${tool.name} on the host and add it to PATH`
+          : `Use an IIC-OSIC-TOOLS image that ships ${tool.name}: docker-compose -f docker/docker-compose.yml pull && ${START_CONTAINER}`,
+      });
+      continue;
+    }
+
+    const [path, version] = result.stdout.trim().split("\n");
+    checks.push({
+      category: "eda_tool",
+      name: tool.name,
+      status: "ok",
+      detail: version?.trim() ? `${version.trim()} (${path})` : path,
+    });
+  }
+
+  return checks;
+}
+
+/**
+ * PDKs and their standard-cell liberty files
+ */
+async function checkPdks(executor: CommandExecutor): Promise<EnvironmentCheck[]> {
+  const checks: EnvironmentCheck[] = [];
+
+  for (const pdk of PDKS) {
+    // Prints PDK_ROOT, then the number of liberty files (exit 3: PDK missing)
+    const result = await executor.run(
+      bashScript(
+        'root="${PDK_ROOT:-/foss/pdks}"; echo "$root"; [ -d "$root/$1" ] || exit 3; ' +
+          'find "$root/$1/libs.ref/$2/lib" -name "*.lib" 2>/dev/null | wc -l',
+        pdk.name,
+        pdk.stdcellLib
+      ),
+      { timeout: CHECK_TIMEOUT }
+    );
+
+    const [root, count] = result.stdout.trim().split("\n");
+    const libCount = parseInt(count || "0", 10) || 0;
+    const severity: CheckStatus = pdk.required ? "error" : "warning";
+
+    if (!result.success) {
+      checks.push({
+        category: "pdk",
+        name: pdk.name,
+        status: severity,
+        detail: `Not installed under ${root || "PDK_ROOT"}`,
+        fix: `Install ${pdk.name} under ${root || "PDK_ROOT"} (e.g. with ciel/volare), or set PDK_ROOT to where it is installed`,
+      });
+    } else if (libCount === 0) {
+      checks.push({
+        category: "pdk",
+        name: pdk.name,
+        status: severity,
+        detail: `Installed, but no liberty files in libs.ref/${pdk.stdcellLib}/lib`,
+        fix: `Reinstall ${pdk.name} including the ${pdk.stdcellLib} standard-cell library`,
+      });
+    } else {
+      checks.push({
+        category: "pdk",
+        name: pdk.name,
+        status: "ok",
+        detail: `${pdk.stdcellLib}: ${libCount} liberty file(s) under ${root}`,
+      });
+    }
+  }
+
+  const liberty = await executor.run(["test", "-f", SKY130_SYNTH_LIBERTY], { timeout: CHECK_TIMEOUT });
+  checks.push(
+    liberty.success
+      ? { category: "pdk", name: "sky130 synthesis liberty", status: "ok", detail: SKY130_SYNTH_LIBERTY }
+      : {
+          category: "pdk",
+          name: "sky130 synthesis liberty",
+          status: "error",
+          detail: `${SKY130_SYNTH_LIBERTY} is missing (synthesize_verilog target=sky130 reads it)`,
+          fix: "Install sky130A with the sky130_fd_sc_hd library under /foss/pdks",
+        }
+  );
+
+  return checks;
+}
+
+/**
+ * AutoTuner Python module
+ */
+async function checkAutoTuner(executor: CommandExecutor): Promise<EnvironmentCheck> {
+  const status = await checkAutoTunerAvailable(executor);
+  return status.available
+    ? { category: "autotuner", name: "autotuner", status: "ok", detail: status.version || "available" }
+    : {
+        category: "autotuner",
+        name: "autotuner",
+        status: "warning",
+        detail: "AutoTuner Python module is not importable (run_autotuner will not work)",
+        fix: status.error,
+      };
+}
+
+/**
+ * Host and container must see the same project files
+ */
+async function checkPathMapping(executor: CommandExecutor): Promise<EnvironmentCheck[]> {
+  const hostDir = pathResolver.getHostProjectsDir();
+  const containerDir = pathResolver.getContainerProjectsDir();
+  const native = executor.kind === "native" || isNativeRecording(executor);
+  const mountFix = `Mount ${hostDir} at ${containerDir} (docker/docker-compose.yml volumes), or set MCP4EDA_PROJECTS_DIR to the host directory that is mounted there`;
+
+  const writable = checkWritable(hostDir);
+  if (writable) {
+    return [{
+      category: "paths",
+      name: "host projects directory",
+      status: "error",
+      detail: `${hostDir}: ${writable}`,
+      fix: `Create ${hostDir} and make it writable, or set MCP4EDA_PROJECTS_DIR`,
+    }];
+  }
+
+  const checks: EnvironmentCheck[] = [
+    { category: "paths", name: "host projects directory", status: "ok", detail: `${hostDir} is writable` },
+  ];
+
+  // A file written on one side must be readable at the mapped path on the other
+  const token = `mcp4eda-path-check-${process.pid}-${Date.now()}`;
+  const hostProbe = join(hostDir, `.${token}`);
+  const containerProbe = pathResolver.hostToContainer(hostProbe);
+  const toolProbe = native ? hostProbe : containerProbe;
+  const roundTrip = pathResolver.containerToHost(containerProbe) === hostProbe;
+
+  if (!roundTrip) {
+    checks.push({
+      category: "paths",
+      name: "path translation",
+      status: "error",
+      detail: `${hostProbe} -> ${containerProbe} does not map back to the same host path`,
+      fix: "Set MCP4EDA_PROJECTS_DIR to an absolute path without symlinks or trailing separators",
+    });
+  }
+
+  try {
+    writeFileSync(hostProbe, token);
+    const read = await executor.run(["cat", "--", toolProbe], { timeout: CHECK_TIMEOUT });
+    checks.push(
+      read.stdout === token
+        ? { category: "paths", name: "host -> tools", status: "ok", detail: `${hostProbe} is visible at ${toolProbe}` }
+        : {
+            category: "paths",
+            name: "host -> tools",
+            status: "error",
+            detail: `File written to ${hostProbe} is not visible at ${toolProbe}`,
+            fix: mountFix,
+          }
+    );
+    rmSync(hostProbe, { force: true });
+
+    const write = await executor.writeFile(toolProbe, token);
+    const visible = write.success && existsSync(hostProbe) && readFileSync(hostProbe, "utf8") === token;
+    checks.push(
+      visible
+        ? { category: "paths", name: "tools -> host", status: "ok", detail: `${toolProbe} is visible at ${hostProbe}` }
+        : {
+            category: "paths",
+            name: "tools -> host",
+            status: "error",
+            detail: write.success
+              ? `File written to ${toolProbe} is not visible at ${hostProbe}`
+              : `Cannot write to ${toolProbe}: ${write.stderr.trim()}`,
+            fix: mountFix,
+          }
+    );
+    await executor.run(["rm", "-f", "--", toolProbe], { timeout: CHECK_TIMEOUT });
+  } finally {
+    rmSync(hostProbe, { force: true });
+  }
+
+  return checks;
+}
+
+/**
+ * ChromaDB and the embedding provider used by the RAG tools
+ */
+async function checkRag(): Promise<EnvironmentCheck[]> {
+  const checks: EnvironmentCheck[] = [];
+
+  // Only checks the key is set; calling the API would cost tokens
+  checks.push(
+    isOpenAIConfigured()
+      ? {
+          category: "rag",
+          name: "embedding provider",
+          status: "ok",
+          detail: `OpenAI ${getEmbeddingModel()} (${getEmbeddingDimensions()} dimensions)`,
+        }
+      : {
+          category: "rag",
+          name: "embedding provider",
+          status: "warning",
+          detail: "OPENAI_API_KEY is not set (search_eda_docs and other RAG tools are disabled)",
+          fix: "Set OPENAI_API_KEY in .env and restart the server",
+        }
+  );
+
+  const chromaUrl = getChromaUrl();
+  const available = await withTimeout(isVectorstoreAvailable(), CHROMA_TIMEOUT, false);
+  if (!available) {
+    checks.push({
+      category: "rag",
+      name: "chromadb",
+      status: "warning",
+      detail: `ChromaDB is not reachable at ${chromaUrl}`,
+      fix: "Start ChromaDB (e.g. chroma run --path ./chroma-data) or set CHROMA_HOST and CHROMA_PORT",
+    });
+    return checks;
+  }
+
+  try {
+    const stats = await withTimeout(getCollectionStats(), CHROMA_TIMEOUT, null);
+    checks.push(
+      stats && stats.count > 0
+        ? {
+            category: "rag",
+            name: "chromadb",
+            status: "ok",
+            detail: `${chromaUrl}: ${stats.count} chunks from ${stats.sources.length} source(s)`,
+          }
+        : {
+            category: "rag",
+            name: "chromadb",
+            status: "warning",
+            detail: `${chromaUrl} is reachable but has no documentation indexed`,
+            fix: "Index the docs with: npx tsx scripts/ingest-docs.ts",
+          }
+    );
+  } catch (error) {
+    checks.push({
+      category: "rag",
+      name: "chromadb",
+      status: "warning",
+      detail: `${chromaUrl} is reachable but the collection cannot be read: ${error instanceof Error ? error.message : String(error)}`,
+      fix: "Index the docs with: npx tsx scripts/ingest-docs.ts",
+    });
+  }
+
+  return checks;
+}
+
+/**
+ * Database and snapshot store on the host
+ */
+function checkStorage(): EnvironmentCheck[] {
+  const checks: EnvironmentCheck[] = [];
+  const dbPath = database.getDbPath();
+
+  const writable = checkWritable(existsSync(dbPath) ? dbPath : dirname(dbPath));
+  if (writable) {
+    checks.push({
+      category: "storage",
+      name: "database",
+      status: "error",
+      detail: `${dbPath}: ${writable}`,
+      fix: "Set MCP4EDA_DB_PATH to a file in a writable directory",
+    });
+  } else {
+    try {
+      database.getDb().prepare("SELECT 1").get();
+      checks.push({ category: "storage", name: "database", status: "ok", detail: `${dbPath} is writable` });
+    } catch (error) {
+      const message = (error instanceof Error ? error.message : String(error)).split("\n")[0];
+      checks.push({
+        category: "storage",
+        name: "database",
+        status: "error",
+        detail: `Cannot open ${dbPath}: ${message}`,
+        fix: /bindings|NODE_MODULE_VERSION|\.node\b/.test(message)
+          ? "Rebuild the native SQLite module for this Node version: npm rebuild better-sqlite3"
+          : "Delete or move the corrupt database file, or set MCP4EDA_DB_PATH to a new path",
+      });
+    }
+  }
+
+  const snapshotDir = snapshotStore.getRootDir();
+  const snapshotWritable = checkWritable(existsSync(snapshotDir) ? snapshotDir : dirname(snapshotDir));
+  checks.push(
+    snapshotWritable
+      ? {
+          category: "storage",
+          name: "snapshot store",
+          status: "error",
+          detail: `${snapshotDir}: ${snapshotWritable}`,
+          fix: "Set MCP4EDA_SNAPSHOT_DIR to a writable directory",
+        }
+      : { category: "storage", name: "snapshot store", status: "ok", detail: `${snapshotDir} is writable` }
+  );
+
+  return checks;
+}
+
+/**
+ * Returns why a path is not writable, or null if it is
+ */
+function checkWritable(path: string): string | null {
+  if (!existsSync(path)) return "does not exist";
+  try {
+    accessSync(path, constants.W_OK);
+    return null;
+  } catch {
+    return "not writable by the server process";
+  }
+}
+
+function isNativeRecording(executor: CommandExecutor): boolean {
+  return executor.kind === "record" && process.env.MCP4EDA_EXEC_RECORD_FROM === "native";
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, fallback: T): Promise<T> {
+  return Promise.race([promise, new Promise<T>((resolve) => setTimeout(() => resolve(fallback), ms).unref())]);
+}
+
+/**
+ * Format environment report for MCP response
+ */
+export function formatEnvironmentReport(report: EnvironmentReport): string {
+  const failing = report.checks.filter((check) => check.status === "error" || check.status === "warning");
+  failing.sort((a, b) => (a.status === b.status ? 0 : a.status === "error" ? -1 : 1));
+
+  return JSON.stringify({
+    success: true,
+    status: report.status,
+    executor: report.executor,
+    summary: report.summary,
+    checks: report.checks,
+    fixes: failing.length
+      ? failing.filter((check) => check.fix).map((check) => `[${check.status}] ${check.name}: ${check.fix}`)
+      : undefined,
+    note: report.status === "ok"
+      ? "Environment is ready."
+      : report.status === "warning"
+        ? "Core tools work, but some optional features are unavailable. See fixes."
+        : "Some tools will fail in this environment. Apply the fixes, then run check_environment again.",
+  }, null, 2);
+}
@@ -0,0 +1,505 @@
+/**
+ * Equivalence Tool - Formal equivalence between RTL and netlists
+ *
+ * Compares any two of: the project's RTL, the synthesized netlist
+ * (synth_output.v), LibreLane's final netlist and the netlist of the
+ * ECO'd DEF. Yosys equiv_make/equiv_simple/equiv_induct prove matched
+ * signal pairs; a bounded SAT check on the miter of both designs finds
+ * outputs that actually differ. Standard cells are modelled from the
+ * PDK library's liberty functions.
+ */
+
+import { getExecutor, bashScript, yosysQuote, type CommandExecutor } from "../executor/index.js";
+import { projectManager } from "../files/project-manager.js";
+import { fileManager } from "../files/file-manager.js";
+import { runOpenROADScript } from "../signoff/openroad-script.js";
+import {
+  projectDesignSources,
+  yosysReadCommands,
+  yosysChparamCommands,
+  validateBuildOptions,
+  type HdlBuildOptions,
+  type HdlSource,
+} from "../hdl/index.js";
+
+export type EquivalenceArtifact = "rtl" | "synth" | "final" | "eco";
+export type EquivalenceStatus = "equivalent" | "not_equivalent" | "unknown";
+
+export const EQUIVALENCE_ARTIFACTS: EquivalenceArtifact[] = ["rtl", "synth", "final", "eco"];
+
+/**
+ * Standard-cell library and OpenROAD platform per PDK
+ */
+export const PDK_LIBRARIES: Record<string, { stdcellLib: string; platform: string }> = {
+  sky130A: { stdcellLib: "sky130_fd_sc_hd", platform: "sky130hd" },
+  gf180mcuD: { stdcellLib: "gf180mcu_fd_sc_mcu7t5v0", platform: "gf180" },
+  "ihp-sg13g2": { stdcellLib: "sg13g2_stdcell", platform: "ihp-sg13g2" },
+};
+
+// Yosys simulation models for FPGA synthesis targets
+const FPGA_CELL_MODELS: Record<string, string> = {
+  ice40: "+/ice40/cells_sim.v",
+  ecp5: "+/ecp5/cells_sim.v",
+  xilinx: "+/xilinx/cells_sim.v",
+};
+
+// ECO'd DEF written by repair_timing, and the netlist extracted from it
+const ECO_DEF = "results/eco_timing_repaired.def";
+const ECO_NETLIST = "results/eco_timing_repaired.nl.v";
+
+// Signal pairs kept in results and responses
+const MAX_LISTED_PAIRS = 200;
+
+/**
+ * Equivalence check options (build options apply to the RTL side)
+ */
+export interface EquivalenceOptions extends HdlBuildOptions {
+  projectId: string;
+  gold?: EquivalenceArtifact;    // Reference design (default: rtl)
+  gate?: EquivalenceArtifact;    // Implementation (default: final)
+  topModule?: string;            // Default: the project's top module
+  pdk?: string;                  // Default: the PDK of the latest OpenLane run, else sky130A
+  stdCellLibrary?: string;       // Default: the PDK's standard-cell library
+  depth?: number;                // Sequential depth for induction and the bounded check (default: 10)
+  timeout?: number;              // SAT timeout in seconds (default: 300)
+
+  // Background job integration (optional)
+  runId?: string;                // Record into an existing run instead of creating one
+  executor?: CommandExecutor;
+}
+
+/**
+ * A gold/gate signal pair matched by equiv_make
+ */
+export interface SignalPair {
+  signal: string;
+  gold: string;
+  gate: string;
+}
+
+/**
+ * An output that differs in the counterexample of the bounded check
+ */
+export interface FailedSignal {
+  signal: string;
+  cycle: number;
+  gold: string;
+  gate: string;
+}
+
+/**
+ * Equivalence check result
+ */
+export interface EquivalenceResult {
+  success: boolean;
+  projectId: string;
+  runId?: string;
+  gold: EquivalenceArtifact;
+  gate: EquivalenceArtifact;
+  topModule?: string;
+  status?: EquivalenceStatus;
+  goldFile?: string;             // Project-relative netlist path (netlist sides only)
+  gateFile?: string;
+  liberty?: string;              // Liberty file the cell models came from
+  equivCells?: number;           // Signal pairs matched by equiv_make
+  proven?: number;
+  unproven?: SignalPair[];
+  failed?: FailedSignal[];
+  boundedCycles?: number;        // Cycles the bounded check found no difference in
+  sourceRunIds?: { gold?: string; gate?: string };
+  error?: string;
+}
+
+/**
+ * How one side of the comparison is read into Yosys
+ */
+type ArtifactSource =
+  | { kind: "rtl"; sources: HdlSource[] }
+  | { kind: "netlist"; path: string; cells: string; runId?: string };  // cells: "liberty", "none" or a model map
+
+/**
+ * Check two design artifacts of a project for functional equivalence
+ */
+export async function checkEquivalence(options: EquivalenceOptions): Promise<EquivalenceResult> {
+  const { projectId, gold = "rtl", gate = "final", depth = 10, timeout = 300 } = options;
+  const executor = options.executor || getExecutor();
+  const fail = (error: string, runId?: string): EquivalenceResult => {
+    if (runId) projectManager.failRun(runId, error);
+    return { success: false, projectId, runId, gold, gate, error };
+  };
+
+  for (const artifact of [gold, gate]) {
+    if (!EQUIVALENCE_ARTIFACTS.includes(artifact)) {
+      return fail(`Invalid artifact '${artifact}' (expected one of: ${EQUIVALENCE_ARTIFACTS.join(", ")})`);
+    }
+  }
+  if (gold === gate) {
+    return fail("'gold' and 'gate' must be different artifacts");
+  }
+  if (!Number.isInteger(depth) || depth < 1 || depth > 100) {
+    return fail("'depth' must be an integer between 1 and 100");
+  }
+  const buildError = validateBuildOptions(options);
+  if (buildError) {
+    return fail(buildError);
+  }
+
+  const project = projectManager.getProject(projectId);
+  if (!project) {
+    return fail(`Project ${projectId} not found`);
+  }
+  const topModule = options.topModule || project.topModule || project.designName;
+  if (!topModule || !/^[A-Za-z_][A-Za-z0-9_$]*$/.test(topModule)) {
+    return fail(topModule ? `Invalid top module name: ${JSON.stringify(topModule)}` : "'top_module' is required (the project has no top module)");
+  }
+
+  let runId = options.runId;
+  try {
+    if (!(await executor.ensureReady())) {
+      return fail("Docker container is not running. Please start the container first.");
+    }
+
+    const runs = projectManager.getProjectRuns(projectId);
+    const openlaneRun = runs.find((r) => r.runType === "openlane" && r.status === "success" && r.results?.latestRun);
+    const pdk = options.pdk || openlaneRun?.config?.pdk || "sky130A";
+    const library = PDK_LIBRARIES[pdk];
+    const stdcellLib = options.stdCellLibrary || library?.stdcellLib;
+    if (!stdcellLib) {
+      return fail(`Unknown PDK '${pdk}'; pass std_cell_library explicitly`);
+    }
+
+    const config = { gold, gate, topModule, pdk, stdCellLibrary: stdcellLib, depth, ...buildConfig(options) };
+    if (!runId) {
+      runId = projectManager.createRun({ projectId, runType: "equivalence", config }).id;
+      projectManager.startRun(runId);
+    }
+
+    const { containerPath } = projectManager.getProjectPaths(projectId);
+    const context = { projectId, containerPath, executor, runs, openlaneRun, topModule, platform: library?.platform || pdk };
+
+    const goldSource = await resolveArtifact(gold, context);
+    if (typeof goldSource === "string") return fail(goldSource, runId);
+    const gateSource = await resolveArtifact(gate, context);
+    if (typeof gateSource === "string") return fail(gateSource, runId);
+
+    // Liberty cell models are only needed when a standard-cell netlist is compared
+    let liberty: string | undefined;
+    if ([goldSource, gateSource].some((source) => source.kind === "netlist" && source.cells === "liberty")) {
+      const lookup = await executor.run(
+        bashScript(
+          'root="${PDK_ROOT:-/foss/pdks}"; dir="$root/$1/libs.ref/$2/lib"; ' +
+            'for f in "$dir"/*tt_025C*.lib "$dir"/*typ*.lib "$dir"/*.lib; do [ -f "$f" ] && { echo "$f"; exit 0; }; done; exit 3',
+          pdk,
+          stdcellLib
+        ),
+        { timeout: 10000 }
+      );
+      liberty = lookup.stdout.trim().split("\n")[0];
+      if (!lookup.success || !liberty) {
+        return fail(`No liberty file found for ${stdcellLib} in PDK ${pdk}. Run check_environment for details.`, runId);
+      }
+    }
+
+    const script = [
+      ...readArtifactCommands(goldSource, options, topModule, liberty),
+      "design -stash gold",
+      ...readArtifactCommands(gateSource, options, topModule, liberty),
+      "design -stash gate",
+      // Prove matched signal pairs
+      `design -copy-from gold -as gold ${topModule}`,
+      `design -copy-from gate -as gate ${topModule}`,
+      "equiv_make gold gate equiv",
+      "hierarchy -top equiv",
+      `equiv_simple -seq ${depth}`,
+      `equiv_induct -seq ${depth}`,
+      "equiv_status",
+      // Look for a counterexample on the outputs
+      "design -reset",
+      `design -copy-from gold -as gold ${topModule}`,
+      `design -copy-from gate -as gate ${topModule}`,
+      "miter -equiv -flatten -make_outputs -ignore_gold_x gold gate miter",
+      "hierarchy -top miter",
+      `sat -seq ${depth} -set-init-zero -prove trigger 0 -show-ports -timeout ${Math.max(1, Math.floor(timeout))} miter`,
+    ].join("\n");
+    fileManager.writeFile(projectId, "equivalence.ys", script, "config", runId);
+
+    const result = await executor.run(["yosys", "-s", "../equivalence.ys"], {
+      workdir: `${containerPath}/src`,
+      timeout: (timeout * 2 + 600) * 1000,
+    });
+    const output = `${result.stdout}\n${result.stderr}`;
+    fileManager.writeFile(projectId, "equivalence.log", output, "report", runId);
+
+    if (result.exitCode === 127) {
+      return fail("Yosys is not installed. Run check_environment for details.", runId);
+    }
+
+    const equivStatus = parseEquivStatus(output);
+    if (!equivStatus) {
+      const yosysError = output.match(/^ERROR:\s*(.*)$/m)?.[1];
+      return fail(`Equivalence check failed: ${yosysError || "no equiv_status output"} (see output/equivalence.log)`, runId);
+    }
+    const bounded = parseBoundedCheck(output);
+
+    const status: EquivalenceStatus = bounded.failed.length > 0
+      ? "not_equivalent"
+      : equivStatus.equivCells > 0 && equivStatus.unproven.length === 0 ? "equivalent" : "unknown";
+
+    const equivalence: EquivalenceResult = {
+      success: true,
+      projectId,
+      runId,
+      gold,
+      gate,
+      topModule,
+      status,
+      goldFile: goldSource.kind === "netlist" ? goldSource.path.replace(/^\.\.\//, "") : undefined,
+      gateFile: gateSource.kind === "netlist" ? gateSource.path.replace(/^\.\.\//, "") : undefined,
+      liberty,
+      equivCells: equivStatus.equivCells,
+      proven: equivStatus.proven,
+      unproven: equivStatus.unproven,
+      failed: bounded.failed,
+      boundedCycles: bounded.passed ? depth : undefined,
+      sourceRunIds: {
+        gold: goldSource.kind === "netlist" ? goldSource.runId : undefined,
+        gate: gateSource.kind === "netlist" ? gateSource.runId : undefined,
+      },
+    };
+
+    projectManager.completeRun(runId, {
+      status,
+      gold,
+      gate,
+      topModule,
+      goldFile: equivalence.goldFile,
+      gateFile: equivalence.gateFile,
+      equivCells: equivalence.equivCells,
+      proven: equivalence.proven,
+      unprovenCount: equivalence.unproven!.length,
+      failedCount: equivalence.failed!.length,
+      unproven: equivalence.unproven!.slice(0, MAX_LISTED_PAIRS),
+      failed: equivalence.failed!.slice(0, MAX_LISTED_PAIRS),
+      boundedCycles: equivalence.boundedCycles,
+      sourceRunIds: equivalence.sourceRunIds,
+    });
+
+    return equivalence;
+  } catch (error: any) {
+    return fail(error.message || String(error), runId);
+  }
+}
+
+function buildConfig(options: HdlBuildOptions): HdlBuildOptions {
+  return { includeDirs: options.includeDirs, defines: options.defines, parameters: options.parameters };
+}
+
+/**
+ * Locate an artifact; returns an error message if it does not exist
+ */
+async function resolveArtifact(
+  artifact: EquivalenceArtifact,
+  context: {
+    projectId: string;
+    containerPath: string;
+    executor: CommandExecutor;
+    runs: ReturnType<typeof projectManager.getProjectRuns>;
+    openlaneRun?: ReturnType<typeof projectManager.getProjectRuns>[number];
+    topModule: string;
+    platform: string;
+  }
+): Promise<ArtifactSource | string> {
+  const { projectId, containerPath, executor, runs, openlaneRun } = context;
+
+  switch (artifact) {
+    case "rtl": {
+      const sources = projectDesignSources(projectId);
+      return sources.length > 0 ? { kind: "rtl", sources } : "No Verilog/SystemVerilog design files found in src/";
+    }
+
+    case "synth": {
+      const synthRun = runs.find((r) => r.runType === "synthesis" && r.status === "success");
+      const exists = await executor.run(["test", "-f", `${containerPath}/output/synth_output.v`], { timeout: 10000 });
+      if (!synthRun || !exists.success) {
+        return "No synthesized netlist found. Run synthesize_verilog for this project first.";
+      }
+      const target: string = synthRun.config?.target || "generic";
+      return {
+        kind: "netlist",
+        path: "../output/synth_output.v",
+        cells: target === "sky130" ? "liberty" : FPGA_CELL_MODELS[target] || "none",
+        runId: synthRun.id,
+      };
+    }
+
+    case "final": {
+      if (!openlaneRun) return "No successful OpenLane run found. Run run_openlane for this project first.";
+      const runDir = `runs/${openlaneRun.results!.latestRun}`;
+      const netlist = await executor.run(
+        bashScript('ls -1 -- "$1"/final/nl/*.nl.v 2>/dev/null | head -1', `${containerPath}/${runDir}`),
+        { timeout: 10000 }
+      );
+      const path = netlist.stdout.trim();
+      if (!path) return `No final netlist in ${runDir}/final/nl`;
+      return { kind: "netlist", path: `../${runDir}/${path.slice(path.indexOf("/final/nl/") + 1)}`, cells: "liberty", runId: openlaneRun.id };
+    }
+
+    case "eco": {
+      if (!openlaneRun) return "No successful OpenLane run found. Run run_openlane and the ECO flow first.";
+      const runDir = `${containerPath}/runs/${openlaneRun.results!.latestRun}`;
+      const def = await executor.run(["test", "-f", `${runDir}/${ECO_DEF}`], { timeout: 10000 });
+      if (!def.success) return `No ECO'd DEF (${ECO_DEF}) in the latest OpenLane run. Run run_eco_optimization first.`;
+
+      // Extract the netlist from the DEF (same LEF as the ECO step)
+      try {
+        await runOpenROADScript(
+          executor,
+          runDir,
+          `
+            read_lef $::env(MCP4EDA_PLATFORM).lef
+            read_def ${ECO_DEF}
+            write_verilog ${ECO_NETLIST}
+          `,
+          { platform: context.platform, timeout: 600000 }
+        );
+      } catch (error: any) {
+        return `Failed to extract the netlist from ${ECO_DEF}: ${error.message || String(error)}`;
+      }
+      return {
+        kind: "netlist",
+        path: `../runs/${openlaneRun.results!.latestRun}/${ECO_NETLIST}`,
+        cells: "liberty",
+        runId: openlaneRun.id,
+      };
+    }
+  }
+}
+
+/**
+ * Yosys commands that read one side and flatten it to the top module
+ */
+function readArtifactCommands(
+  source: ArtifactSource,
+  build: HdlBuildOptions,
+  topModule: string,
+  liberty?: string
+): string[] {
+  const commands: string[] = [];
+
+  if (source.kind === "rtl") {
+    commands.push(yosysReadCommands(source.sources, "read_verilog", build));
+    commands.push(...yosysChparamCommands(build, topModule));
+  } else {
+    if (source.cells === "liberty" && liberty) {
+      commands.push(`read_liberty -ignore_miss_func -ignore_miss_dir ${yosysQuote(liberty)}`);
+    }
+    commands.push(`read_verilog ${yosysQuote(source.path)}`);
+    if (source.cells !== "liberty" && source.cells !== "none") {
+      commands.push(`techmap -wb -D EQUIV -autoproc -map ${source.cells}`);
+    }
+  }
+
+  commands.push(`prep -flatten -top ${topModule}`, "async2sync");
+  return commands;
+}
+
+/**
+ * Parse equiv_status: matched pairs, how many were proven and the unproven ones
+ */
+function parseEquivStatus(
+  output: string
+): { equivCells: number; proven: number; unproven: SignalPair[] } | null {
+  if (/Found no \$equiv cells/.test(output)) {
+    return { equivCells: 0, proven: 0, unproven: [] };
+  }
+
+  const found = output.match(/Found (\d+) \$equiv cells in/);
+  const counts = output.match(/Of those cells (\d+) are proven and (\d+) are unproven/);
+  if (!found || !counts) return null;
+
+  const unproven: SignalPair[] = [];
+  const listStart = output.indexOf("Unproven $equiv cells:");
+  if (listStart !== -1) {
+    for (const line of output.slice(listStart).split("\n").slice(1)) {
+      // <cell> <gold signal> <gate signal>, e.g. $equiv$3 \count_gold [3] \count_gate [3]
+      const pair = line.match(/^\s+\S+\s+(\\\S+(?: \[\d+\])?)\s+(\\\S+(?: \[\d+\])?)\s*$/);
+      if (!pair) break;
+      unproven.push({
+        signal: pair[1].replace(/^\\/, "").replace(/_gold(?= \[|$)/, "").replace(" ", ""),
+        gold: pair[1],
+        gate: pair[2],
+      });
+    }
+  }
+
+  return { equivCells: parseInt(found[1], 10), proven: parseInt(counts[1], 10), unproven };
+}
+
+/**
+ * Parse the bounded SAT check on the miter: outputs that differ in the counterexample
+ */
+function parseBoundedCheck(output: string): { passed: boolean; failed: FailedSignal[] } {
+  if (/SAT proof finished - no model found: SUCCESS/.test(output)) {
+    return { passed: true, failed: [] };
+  }
+  if (!/SAT proof finished - model found: FAIL/.test(output)) {
+    return { passed: false, failed: [] };
+  }
+
+  // Model table rows: <time> <signal> <dec> <hex> <bin>
+  const values = new Map<string, string>();
+  for (const line of output.split("\n")) {
+    const row = line.match(/^\s*(\d+)\s+\\(gold|gate)_(\S+)\s+\S+\s+\S+\s+([01xz-]+)\s*$/i);
+    if (row) values.set(`${row[1]}:${row[2]}:${row[3]}`, row[4]);
+  }
+
+  const failed: FailedSignal[] = [];
+  const reported = new Set<string>();
+  for (const [key, goldValue] of values) {
+    const [cycle, side, signal] = key.split(":");
+    if (side !== "gold" || reported.has(signal)) continue;
+    const gateValue = values.get(`${cycle}:gate:${signal}`);
+    if (gateValue !== undefined && gateValue !== goldValue && !/x/i.test(goldValue)) {
+      reported.add(signal);
+      failed.push({ signal, cycle: parseInt(cycle, 10), gold: goldValue, gate: gateValue });
+    }
+  }
+
+  return { passed: false, failed };
+}
+
+/**
+ * Format equivalence result for MCP response
+ */
+export function formatEquivalenceResult(result: EquivalenceResult): string {
+  let note: string;
+  if (!result.success) {
+    note = "Equivalence check failed to run. Check the error message for details.";
+  } else if (result.status === "equivalent") {
+    note = `${result.gate} is equivalent to ${result.gold}: all ${result.proven} matched signal pairs proven.`;
+  } else if (result.status === "not_equivalent") {
+    note = `${result.gate} differs from ${result.gold}: see 'failed' for the outputs and cycle of the counterexample.`;
+  } else {
+    note = `Not all signal pairs could be proven${result.boundedCycles ? `, but no difference was found within ${result.boundedCycles} cycles` : ""}. Try a larger depth, or check the unproven pairs.`;
+  }
+
+  return JSON.stringify({
+    success: result.success,
+    project_id: result.projectId,
+    run_id: result.runId,
+    gold: result.gold,
+    gate: result.gate,
+    top_module: result.topModule,
+    status: result.status,
+    gold_file: result.goldFile,
+    gate_file: result.gateFile,
+    liberty: result.liberty,
+    signal_pairs: result.equivCells,
+    proven: result.proven,
+    unproven: result.unproven?.length ? result.unproven.slice(0, MAX_LISTED_PAIRS) : undefined,
+    failed: result.failed?.length ? result.failed.slice(0, MAX_LISTED_PAIRS) : undefined,
+    bounded_cycles: result.boundedCycles,
+    error: result.error,
+    note,
+  }, null, 2);
+}
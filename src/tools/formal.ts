@@ -0,0 +1,453 @@
+/**
+ * Formal Tool - Property verification with SymbiYosys
+ *
+ * Generates an .sby file from the project's design sources and checks
+ * the SVA assert/assume/cover properties in them (modes bmc, prove and
+ * cover). Counterexample and cover traces are copied to output/ as
+ * tracked VCD files so view_waveform can open them.
+ */
+
+import { posix, isAbsolute } from "path";
+import { getExecutor, yosysQuote, type CommandExecutor } from "../executor/index.js";
+import { projectManager } from "../files/project-manager.js";
+import { fileManager } from "../files/file-manager.js";
+import {
+  projectDesignSources,
+  projectHeaderFiles,
+  yosysChparamCommands,
+  validateBuildOptions,
+  parseDiagnostics,
+  diagnosticsByFile,
+  includeDirPaths,
+  type HdlBuildOptions,
+  type HdlDiagnostic,
+} from "../hdl/index.js";
+
+export type FormalMode = "bmc" | "prove" | "cover";
+export type PropertyKind = "assert" | "assume" | "cover";
+export type PropertyStatus = "pass" | "proven" | "fail" | "reached" | "unreached" | "unknown";
+
+export const FORMAL_MODES: FormalMode[] = ["bmc", "prove", "cover"];
+
+/**
+ * [engines] line per engine option, and the modes it supports
+ */
+export const FORMAL_ENGINES: Record<string, { engine: string; modes: FormalMode[] }> = {
+  smtbmc: { engine: "smtbmc yices", modes: ["bmc", "prove", "cover"] },
+  "smtbmc-boolector": { engine: "smtbmc boolector", modes: ["bmc", "prove", "cover"] },
+  "smtbmc-z3": { engine: "smtbmc z3", modes: ["bmc", "prove", "cover"] },
+  "abc-pdr": { engine: "abc pdr", modes: ["prove"] },
+  "abc-bmc3": { engine: "abc bmc3", modes: ["bmc"] },
+};
+
+// Properties listed by Yosys into the SBY work directory, per kind
+const PROPERTY_LISTS: Record<PropertyKind, string> = {
+  assert: "properties_assert.txt",
+  assume: "properties_assume.txt",
+  cover: "properties_cover.txt",
+};
+
+// Properties kept in the run record
+const MAX_STORED_PROPERTIES = 500;
+
+/**
+ * Formal verification options (build options apply to the design sources)
+ */
+export interface FormalOptions extends HdlBuildOptions {
+  projectId: string;
+  mode?: FormalMode;           // Default: bmc
+  depth?: number;              // Default: 20
+  engine?: string;             // Key of FORMAL_ENGINES (default: smtbmc)
+  topModule?: string;          // Default: the project's top module
+  timeout?: number;            // Seconds (default: 1800)
+
+  // Background job integration (optional)
+  runId?: string;              // Record into an existing run instead of creating one
+  executor?: CommandExecutor;
+}
+
+/**
+ * Status of one property
+ */
+export interface FormalProperty {
+  name: string;                // Cell name (the SVA label if there is one)
+  kind: PropertyKind;
+  module?: string;
+  file?: string;
+  line?: number;
+  status: PropertyStatus;
+  step?: number;               // Step of the failure or cover hit
+  trace?: string;              // Tracked VCD (output/) showing it
+}
+
+/**
+ * Formal verification result
+ */
+export interface FormalResult {
+  success: boolean;
+  projectId: string;
+  runId?: string;
+  mode: FormalMode;
+  engine?: string;
+  depth?: number;
+  topModule?: string;
+  status?: string;             // SBY verdict: PASS, FAIL, UNKNOWN, ERROR, TIMEOUT
+  properties?: FormalProperty[];
+  traces?: string[];           // VCD files in output/ (view_waveform vcd_file)
+  diagnostics?: HdlDiagnostic[];
+  sbyFile?: string;
+  log?: string;
+  error?: string;
+}
+
+/**
+ * Run SymbiYosys on a project's design sources
+ */
+export async function runFormal(options: FormalOptions): Promise<FormalResult> {
+  const { projectId, mode = "bmc", depth = 20, engine = "smtbmc", timeout = 1800 } = options;
+  const executor = options.executor || getExecutor();
+  let runId = options.runId;
+  const fail = (error: string, extra: Partial<FormalResult> = {}): FormalResult => {
+    if (runId) projectManager.failRun(runId, error);
+    return { success: false, projectId, runId, mode, error, ...extra };
+  };
+
+  if (!FORMAL_MODES.includes(mode)) {
+    return fail(`Invalid mode '${mode}' (expected one of: ${FORMAL_MODES.join(", ")})`);
+  }
+  const engineConfig = FORMAL_ENGINES[engine];
+  if (!engineConfig) {
+    return fail(`Invalid engine '${engine}' (expected one of: ${Object.keys(FORMAL_ENGINES).join(", ")})`);
+  }
+  if (!engineConfig.modes.includes(mode)) {
+    return fail(`Engine '${engine}' does not support mode '${mode}' (supported: ${engineConfig.modes.join(", ")})`);
+  }
+  if (!Number.isInteger(depth) || depth < 1 || depth > 10000) {
+    return fail("'depth' must be an integer between 1 and 10000");
+  }
+  const buildError = validateBuildOptions(options);
+  if (buildError) {
+    return fail(buildError);
+  }
+
+  const project = projectManager.getProject(projectId);
+  if (!project) {
+    return fail(`Project ${projectId} not found`);
+  }
+  const topModule = options.topModule || project.topModule || project.designName;
+  if (!topModule || !/^[A-Za-z_][A-Za-z0-9_$]*$/.test(topModule)) {
+    return fail(topModule ? `Invalid top module name: ${JSON.stringify(topModule)}` : "'top_module' is required (the project has no top module)");
+  }
+
+  try {
+    if (!(await executor.ensureReady())) {
+      return fail("Docker container is not running. Please start the container first.");
+    }
+
+    if (!runId) {
+      runId = projectManager.createRun({
+        projectId,
+        runType: "formal",
+        config: {
+          mode,
+          depth,
+          engine,
+          topModule,
+          includeDirs: options.includeDirs,
+          defines: options.defines,
+          parameters: options.parameters,
+        },
+      }).id;
+      projectManager.startRun(runId);
+    }
+
+    const sources = projectDesignSources(projectId);
+    if (sources.length === 0) {
+      return fail("No Verilog/SystemVerilog design files found in src/");
+    }
+
+    const { containerPath } = projectManager.getProjectPaths(projectId);
+    const sbyName = `formal_${mode}`;
+    const sby = buildSbyFile(sources.map((source) => source.name), {
+      mode,
+      depth,
+      engine: engineConfig.engine,
+      topModule,
+      build: options,
+      containerPath,
+      headers: projectHeaderFiles(projectId),
+    });
+    fileManager.writeFile(projectId, `${sbyName}.sby`, sby, "config", runId);
+
+    const result = await executor.run(["sby", "-f", `${sbyName}.sby`], {
+      workdir: containerPath,
+      timeout: timeout * 1000,
+    });
+    const log = `${result.stdout}\n${result.stderr}`;
+    fileManager.writeFile(projectId, `${sbyName}.log`, log, "report", runId);
+
+    if (result.exitCode === 127) {
+      return fail("SymbiYosys (sby) is not installed. Run check_environment for details.");
+    }
+
+    const status = log.match(/DONE \((\w+), rc=\d+\)/)?.[1];
+    const workdir = `${containerPath}/${sbyName}`;
+    const modelLog = await executor.run(["cat", "--", `${workdir}/model/design.log`], { timeout: 10000 });
+    const diagnostics = parseDiagnostics(modelLog.stdout, "yosys");
+
+    if (!status || status === "ERROR") {
+      const sbyError = log.match(/ERROR:\s*(.*)$/m)?.[1];
+      return fail(`SymbiYosys failed: ${sbyError || "no verdict"} (see output/${sbyName}.log)`, {
+        diagnostics,
+        log: log.length > 5000 ? `...${log.slice(-5000)}` : log,
+      });
+    }
+
+    // Properties Yosys found in the design, then their status from the engine log
+    const properties: FormalProperty[] = [];
+    for (const kind of Object.keys(PROPERTY_LISTS) as PropertyKind[]) {
+      const list = await executor.run(["cat", "--", `${workdir}/${PROPERTY_LISTS[kind]}`], { timeout: 10000 });
+      properties.push(...parsePropertyList(list.stdout, kind));
+    }
+    const engineTraces = applyEngineLog(log, properties, mode, status);
+
+    // Copy traces to output/ as tracked VCD files
+    const traces: string[] = [];
+    for (const trace of engineTraces) {
+      const vcd = await executor.run(["cat", "--", `${workdir}/${trace}`], { timeout: 30000 });
+      if (!vcd.success) continue;
+      const vcdName = `${sbyName}_${trace.replace(/\//g, "_")}`;
+      fileManager.writeFile(projectId, vcdName, vcd.stdout, "vcd", runId);
+      traces.push(vcdName);
+      for (const property of properties) {
+        if (property.trace === trace) property.trace = vcdName;
+      }
+    }
+
+    projectManager.completeRun(runId, {
+      status,
+      mode,
+      engine,
+      depth,
+      topModule,
+      traces,
+      properties: properties.slice(0, MAX_STORED_PROPERTIES),
+    });
+
+    return {
+      success: true,
+      projectId,
+      runId,
+      mode,
+      engine,
+      depth,
+      topModule,
+      status,
+      properties,
+      traces,
+      diagnostics,
+      sbyFile: `${sbyName}.sby`,
+      log: log.length > 5000 ? `...${log.slice(-5000)}` : log,
+    };
+  } catch (error: any) {
+    return fail(error.message || String(error));
+  }
+}
+
+/**
+ * Generate the .sby file (sources and headers are copied into the work directory by SBY)
+ */
+function buildSbyFile(
+  files: string[],
+  options: {
+    mode: FormalMode;
+    depth: number;
+    engine: string;
+    topModule: string;
+    build: HdlBuildOptions;
+    containerPath: string;
+    headers: string[];          // Project-relative headers in src/, copied next to the sources
+  }
+): string {
+  const { mode, depth, engine, topModule, build, containerPath, headers } = options;
+
+  // SBY runs Yosys in <workdir>/model, so include directories are absolute
+  const includeDirs = includeDirPaths(build).map((dir) =>
+    isAbsolute(dir) ? dir : posix.join(containerPath, "src", dir)
+  );
+  const defines = Object.entries(build.defines || {}).map(([name, value]) =>
+    value === "" ? name : `${name}=${value}`
+  );
+
+  const script = [
+    ...includeDirs.map((dir) => `read -incdir ${yosysQuote(dir)}`),
+    ...(defines.length > 0 ? [`read -define ${defines.join(" ")}`] : []),
+    ...files.map((file) => `read -formal ${yosysQuote(file)}`),
+    ...yosysChparamCommands(build, topModule),
+    `prep -top ${topModule}`,
+    ...(Object.entries(PROPERTY_LISTS) as [PropertyKind, string][]).map(
+      ([kind, list]) => `tee -q -o ../${list} select -list t:$${kind}`
+    ),
+  ];
+
+  return [
+    "[options]",
+    `mode ${mode}`,
+    `depth ${depth}`,
+    "",
+    "[engines]",
+    engine,
+    "",
+    "[script]",
+    ...script,
+    "",
+    "[files]",
+    ...files.map((file) => `src/${file}`),
+    ...headers,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Parse `select -list` output (module/cell per line)
+ */
+function parsePropertyList(output: string, kind: PropertyKind): FormalProperty[] {
+  const properties: FormalProperty[] = [];
+  for (const line of output.split("\n")) {
+    const match = line.trim().match(/^([^/\s]+)\/(\S+)$/);
+    if (!match) continue;
+    const name = match[2].replace(/^\\/, "");
+    // Unlabelled properties are named $assert$<file>:<line>$<id>
+    const location = name.match(/^\$\w+\$(.+?):(\d+)\$\d+$/);
+    properties.push({
+      name,
+      kind,
+      module: match[1].replace(/^\\/, ""),
+      file: location ? `src/${location[1]}` : undefined,
+      line: location ? parseInt(location[2], 10) : undefined,
+      status: "unknown",
+    });
+  }
+  return properties;
+}
+
+/**
+ * Apply the engine's per-property messages and the verdict; returns the trace files
+ */
+function applyEngineLog(
+  log: string,
+  properties: FormalProperty[],
+  mode: FormalMode,
+  status: string
+): string[] {
+  const traces: string[] = [];
+  let pending: FormalProperty[] = [];     // Properties shown by the next trace
+  let step: number | undefined;           // Step the engine is checking
+
+  const find = (kind: PropertyKind, text: string): FormalProperty => {
+    const known = properties.find((p) => p.kind === kind && text.includes(p.name));
+    if (known) return known;
+    const location = text.match(/([^\s:()]+\.s?vh?):(\d+)/);
+    const added: FormalProperty = {
+      name: text.trim(),
+      kind,
+      file: location ? `src/${location[1]}` : undefined,
+      line: location ? parseInt(location[2], 10) : undefined,
+      status: "unknown",
+    };
+    properties.push(added);
+    return added;
+  };
+
+  for (const line of log.split("\n")) {
+    const checking = line.match(/Checking \w+(?: \w+)* in step (\d+)/);
+    if (checking) step = parseInt(checking[1], 10);
+
+    const failed = line.match(/Assert failed in \S+?:\s*(.*?)(?:\s+in step (\d+))?\.?\s*$/);
+    const reached = line.match(/Reached cover statement (?:in \S+ )?at (.*?) in step (\d+)/);
+    const unreached = line.match(/Unreached cover statement (?:in \S+ )?at (.*?)\.?\s*$/);
+    const trace = line.match(/Writing trace to VCD file: \S*?(engine_\d+\/\S+\.vcd)/);
+
+    if (failed) {
+      const property = find("assert", failed[1]);
+      property.status = "fail";
+      property.step = failed[2] ? parseInt(failed[2], 10) : step;
+      pending.push(property);
+    } else if (reached) {
+      const property = find("cover", reached[1]);
+      property.status = "reached";
+      property.step = parseInt(reached[2], 10);
+      pending.push(property);
+    } else if (unreached) {
+      find("cover", unreached[1]).status = "unreached";
+    } else if (trace && !traces.includes(trace[1])) {
+      traces.push(trace[1]);
+      // Induction traces do not start from reset; they are not counterexamples
+      if (!trace[1].includes("induct")) {
+        for (const property of pending) property.trace ||= trace[1];
+        pending = [];
+      }
+    }
+  }
+
+  // Properties without a message of their own follow the verdict
+  for (const property of properties) {
+    if (property.status !== "unknown") continue;
+    if (property.kind === "assert" && status === "PASS" && mode !== "cover") {
+      property.status = mode === "prove" ? "proven" : "pass";
+    } else if (property.kind === "cover" && mode === "cover" && status !== "PASS") {
+      property.status = "unreached";
+    }
+  }
+
+  return traces;
+}
+
+/**
+ * Format formal result for MCP response
+ */
+export function formatFormalResult(result: FormalResult): string {
+  const count = (status: PropertyStatus) => result.properties?.filter((p) => p.status === status).length || 0;
+
+  let note: string;
+  if (!result.success) {
+    note = "Formal verification failed to run. Check the error message and diagnostics for details.";
+  } else if (result.status === "PASS") {
+    note = result.mode === "prove"
+      ? "All assertions proven."
+      : result.mode === "bmc"
+        ? `No assertion fails within ${result.depth} steps.`
+        : "All cover statements reached.";
+  } else {
+    note = `Verdict ${result.status}.`;
+  }
+  if (result.traces?.length) {
+    note += ` Open a trace with view_waveform (project_id '${result.projectId}', vcd_file '${result.traces[0]}').`;
+  }
+
+  return JSON.stringify({
+    success: result.success,
+    project_id: result.projectId,
+    run_id: result.runId,
+    mode: result.mode,
+    engine: result.engine,
+    depth: result.depth,
+    top_module: result.topModule,
+    status: result.status,
+    summary: result.properties ? {
+      properties: result.properties.length,
+      passed: count("pass") + count("proven"),
+      failed: count("fail"),
+      reached: count("reached"),
+      unreached: count("unreached"),
+      unknown: count("unknown"),
+    } : undefined,
+    properties: result.properties?.slice(0, MAX_STORED_PROPERTIES),
+    traces: result.traces,
+    diagnostics: result.diagnostics?.length ? diagnosticsByFile(result.diagnostics) : undefined,
+    sby_file: result.sbyFile,
+    log: result.success ? undefined : result.log,
+    error: result.error,
+    note,
+  }, null, 2);
+}
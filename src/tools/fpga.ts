@@ -0,0 +1,471 @@
+/**
+ * FPGA Flow Tool - ice40 and ECP5 place-and-route to a bitstream
+ *
+ * Synthesizes the project's design sources with `synth_ice40 -json` or
+ * `synth_ecp5 -json`, places and routes them with nextpnr against a PCF
+ * or LPF pin constraint file, and packs the result with icepack or
+ * ecppack. Utilization and Fmax come from the nextpnr report, and the
+ * bitstream is tracked as an output of the run.
+ */
+
+import { existsSync } from "fs";
+import { posix } from "path";
+import { getExecutor, yosysQuote, type CommandExecutor } from "../executor/index.js";
+import { projectManager } from "../files/project-manager.js";
+import { pathResolver } from "../files/path-resolver.js";
+import { fileManager } from "../files/file-manager.js";
+import {
+  projectDesignSources,
+  yosysReadCommands,
+  yosysChparamCommands,
+  validateBuildOptions,
+  includeDirFiles,
+  parseDiagnostics,
+  type HdlBuildOptions,
+  type HdlDiagnostic,
+} from "../hdl/index.js";
+
+export type FpgaFamily = "ice40" | "ecp5";
+
+/**
+ * Per-family tools, devices and file names
+ */
+export const FPGA_FAMILIES: Record<FpgaFamily, {
+  synth: string;
+  nextpnr: string;
+  constraintFlag: string;     // Pin constraints
+  constraintExt: string;
+  layoutFlag: string;         // Routed design, input of the packer
+  layoutExt: string;
+  packer: string;
+  bitstreamExt: string;
+  devices: string[];
+  defaultDevice: string;
+  defaultPackage: string;
+}> = {
+  ice40: {
+    synth: "synth_ice40",
+    nextpnr: "nextpnr-ice40",
+    constraintFlag: "--pcf",
+    constraintExt: "pcf",
+    layoutFlag: "--asc",
+    layoutExt: "asc",
+    packer: "icepack",
+    bitstreamExt: "bin",
+    devices: ["lp384", "lp1k", "lp4k", "lp8k", "hx1k", "hx4k", "hx8k", "up3k", "up5k", "u1k", "u2k", "u4k"],
+    defaultDevice: "hx8k",
+    defaultPackage: "ct256",
+  },
+  ecp5: {
+    synth: "synth_ecp5",
+    nextpnr: "nextpnr-ecp5",
+    constraintFlag: "--lpf",
+    constraintExt: "lpf",
+    layoutFlag: "--textcfg",
+    layoutExt: "config",
+    packer: "ecppack",
+    bitstreamExt: "bit",
+    devices: ["12k", "25k", "45k", "85k", "um-25k", "um-45k", "um-85k", "um5g-25k", "um5g-45k", "um5g-85k"],
+    defaultDevice: "25k",
+    defaultPackage: "CABGA381",
+  },
+};
+
+/**
+ * FPGA flow options (build options apply to the design sources)
+ */
+export interface FpgaFlowOptions extends HdlBuildOptions {
+  projectId: string;
+  family: FpgaFamily;
+  device?: string;             // nextpnr device flag without dashes (default per family)
+  package?: string;            // Default per family
+  constraints?: string;        // PCF/LPF content, saved as <top>.pcf/.lpf
+  constraintsFile?: string;    // OR: project-relative PCF/LPF already in the project
+  frequency?: number;          // Target clock frequency in MHz (nextpnr --freq)
+  seed?: number;               // Placer seed
+  topModule?: string;          // Default: the project's top module
+  timeout?: number;            // Seconds (default: 1800)
+
+  // Background job integration (optional)
+  runId?: string;              // Record into an existing run instead of creating one
+  executor?: CommandExecutor;
+}
+
+/**
+ * Used and available cells of one FPGA resource type
+ */
+export interface FpgaUtilization {
+  used: number;
+  available: number;
+  percent: number;
+}
+
+/**
+ * Achieved frequency of one clock domain
+ */
+export interface FpgaClock {
+  clock: string;
+  achievedMhz: number;
+  constraintMhz?: number;
+  pass?: boolean;
+}
+
+/**
+ * FPGA flow result
+ */
+export interface FpgaFlowResult {
+  success: boolean;
+  projectId: string;
+  runId?: string;
+  family: FpgaFamily;
+  device?: string;
+  package?: string;
+  topModule?: string;
+  utilization?: Record<string, FpgaUtilization>;
+  clocks?: FpgaClock[];
+  fmaxMhz?: number;            // Lowest achieved clock frequency
+  timingMet?: boolean;         // Every constrained clock meets its target
+  bitstream?: string;          // Project-relative .bin/.bit (output/)
+  files?: string[];            // Netlist, routed design and reports in output/
+  diagnostics?: HdlDiagnostic[];
+  warning?: string;
+  log?: string;
+  error?: string;
+}
+
+/**
+ * Run synthesis, nextpnr and the bitstream packer on a project's design sources
+ */
+export async function runFpgaFlow(options: FpgaFlowOptions): Promise<FpgaFlowResult> {
+  const { projectId, family, seed, frequency, timeout = 1800 } = options;
+  const executor = options.executor || getExecutor();
+  let runId = options.runId;
+  const fail = (error: string, extra: Partial<FpgaFlowResult> = {}): FpgaFlowResult => {
+    if (runId) projectManager.failRun(runId, error);
+    return { success: false, projectId, runId, family, error, ...extra };
+  };
+
+  const familyConfig = FPGA_FAMILIES[family];
+  if (!familyConfig) {
+    return fail(`Invalid family '${family}' (expected one of: ${Object.keys(FPGA_FAMILIES).join(", ")})`);
+  }
+  const device = options.device || familyConfig.defaultDevice;
+  const pkg = options.package || familyConfig.defaultPackage;
+  if (!familyConfig.devices.includes(device)) {
+    return fail(`Invalid ${family} device '${device}' (expected one of: ${familyConfig.devices.join(", ")})`);
+  }
+  if (!/^[A-Za-z0-9]+$/.test(pkg)) {
+    return fail(`Invalid package name: ${JSON.stringify(pkg)}`);
+  }
+  if (frequency !== undefined && !(frequency > 0 && frequency <= 1000)) {
+    return fail("'frequency' must be between 0 and 1000 MHz");
+  }
+  if (seed !== undefined && (!Number.isInteger(seed) || seed < 0)) {
+    return fail("'seed' must be a non-negative integer");
+  }
+  if (options.constraints && options.constraintsFile) {
+    return fail("Provide either 'constraints' or 'constraints_file', not both");
+  }
+  const buildError = validateBuildOptions(options);
+  if (buildError) {
+    return fail(buildError);
+  }
+
+  const project = projectManager.getProject(projectId);
+  if (!project) {
+    return fail(`Project ${projectId} not found`);
+  }
+  const topModule = options.topModule || project.topModule || project.designName;
+  if (!topModule || !/^[A-Za-z_][A-Za-z0-9_$]*$/.test(topModule)) {
+    return fail(topModule ? `Invalid top module name: ${JSON.stringify(topModule)}` : "'top_module' is required (the project has no top module)");
+  }
+
+  // Constraint file, relative to the project root
+  let constraintsPath: string | undefined;
+  if (options.constraintsFile) {
+    constraintsPath = posix.normalize(options.constraintsFile.replace(/\\/g, "/"));
+    if (constraintsPath.startsWith("..") || posix.isAbsolute(constraintsPath)) {
+      return fail("'constraints_file' must be a path inside the project");
+    }
+    if (!existsSync(pathResolver.getFileHostPath(projectId, constraintsPath))) {
+      return fail(`Constraint file ${constraintsPath} not found in the project`);
+    }
+  }
+
+  try {
+    if (!(await executor.ensureReady())) {
+      return fail("Docker container is not running. Please start the container first.");
+    }
+
+    if (!runId) {
+      runId = projectManager.createRun({
+        projectId,
+        runType: "fpga",
+        config: {
+          family,
+          device,
+          package: pkg,
+          frequency,
+          seed,
+          topModule,
+          constraintsFile: options.constraintsFile,
+          includeDirs: options.includeDirs,
+          defines: options.defines,
+          parameters: options.parameters,
+        },
+      }).id;
+      projectManager.startRun(runId);
+    }
+
+    const sources = projectDesignSources(projectId);
+    if (sources.length === 0) {
+      return fail("No Verilog/SystemVerilog design files found in src/");
+    }
+
+    if (options.constraints) {
+      constraintsPath = `${topModule}.${familyConfig.constraintExt}`;
+      fileManager.writeFile(projectId, constraintsPath, options.constraints, "constraint", runId);
+    }
+
+    const { containerPath } = projectManager.getProjectPaths(projectId);
+    const netlist = `output/${topModule}_${family}.json`;
+    const layout = `output/${topModule}.${familyConfig.layoutExt}`;
+    const report = `output/${topModule}_nextpnr_report.json`;
+    const bitstream = `output/${topModule}.${familyConfig.bitstreamExt}`;
+
+    // Synthesis runs in src/ like synthesize_verilog
+    const script = [
+      yosysReadCommands(sources, "read_verilog", options),
+      ...yosysChparamCommands(options, topModule),
+      `hierarchy -check -top ${topModule}`,
+      `${familyConfig.synth} -top ${topModule} -json ${yosysQuote(`../${netlist}`)}`,
+      "stat",
+    ].join("\n");
+    fileManager.writeFile(projectId, "fpga_synth.ys", script, "config", runId);
+
+    await projectManager.snapshotRun(
+      runId,
+      projectId,
+      [
+        ...sources.map((source) => `src/${source.name}`),
+        "fpga_synth.ys",
+        ...(constraintsPath ? [constraintsPath] : []),
+        ...includeDirFiles(projectId, options),
+      ],
+      executor
+    );
+
+    const synth = await executor.run(["yosys", "-s", "../fpga_synth.ys"], {
+      workdir: `${containerPath}/src`,
+      timeout: timeout * 1000,
+    });
+    const synthLog = `${synth.stdout}\n${synth.stderr}`;
+    fileManager.writeFile(projectId, "fpga_synth.log", synthLog, "report", runId);
+    if (!synth.success) {
+      const yosysError = synthLog.match(/ERROR:\s*(.*)$/m)?.[1];
+      return fail(
+        synth.exitCode === 127
+          ? "Yosys is not installed. Run check_environment for details."
+          : `Synthesis failed: ${yosysError || "see output/fpga_synth.log"}`,
+        { diagnostics: parseDiagnostics(synthLog, "yosys") }
+      );
+    }
+    fileManager.trackFile(projectId, netlist.slice("output/".length), "output", runId);
+
+    // Place and route
+    let warning: string | undefined;
+    const pnrArgs = [
+      familyConfig.nextpnr,
+      `--${device}`,
+      "--package", pkg,
+      "--json", netlist,
+      familyConfig.layoutFlag, layout,
+      "--report", report,
+      ...(frequency !== undefined ? ["--freq", String(frequency)] : []),
+      ...(seed !== undefined ? ["--seed", String(seed)] : []),
+    ];
+    if (constraintsPath) {
+      pnrArgs.push(familyConfig.constraintFlag, constraintsPath);
+    } else {
+      if (family === "ice40") pnrArgs.push("--pcf-allow-unconstrained");
+      warning = "No pin constraints given; nextpnr placed the I/Os freely, so the bitstream is only useful for utilization and Fmax";
+    }
+
+    const pnr = await executor.run(pnrArgs, { workdir: containerPath, timeout: timeout * 1000 });
+    const pnrLog = `${pnr.stdout}\n${pnr.stderr}`;
+    fileManager.writeFile(projectId, "nextpnr.log", pnrLog, "report", runId);
+    if (pnr.exitCode === 127) {
+      return fail(`${familyConfig.nextpnr} is not installed. Run check_environment for details.`);
+    }
+
+    const reportFile = await executor.run(["cat", "--", `${containerPath}/${report}`], { timeout: 10000 });
+    const { utilization, clocks } = parseNextpnrReport(reportFile.success ? reportFile.stdout : "", pnrLog);
+    if (!pnr.success) {
+      const pnrError = pnrLog.match(/ERROR:\s*(.*)$/m)?.[1];
+      return fail(`Place and route failed: ${pnrError || "see output/nextpnr.log"}`, {
+        utilization,
+        log: pnrLog.length > 5000 ? `...${pnrLog.slice(-5000)}` : pnrLog,
+      });
+    }
+    fileManager.trackFile(projectId, layout.slice("output/".length), "output", runId);
+    if (reportFile.success) {
+      fileManager.trackFile(projectId, report.slice("output/".length), "report", runId);
+    }
+
+    // Bitstream
+    const pack = await executor.run([familyConfig.packer, layout, bitstream], {
+      workdir: containerPath,
+      timeout: 300000,
+    });
+    if (!pack.success) {
+      return fail(
+        pack.exitCode === 127
+          ? `${familyConfig.packer} is not installed. Run check_environment for details.`
+          : `${familyConfig.packer} failed: ${pack.stderr.trim()}`,
+        { utilization, clocks }
+      );
+    }
+    fileManager.trackFile(projectId, bitstream.slice("output/".length), "output", runId);
+
+    const achieved = clocks.map((clock) => clock.achievedMhz);
+    const fmaxMhz = achieved.length > 0 ? Math.min(...achieved) : undefined;
+    const timingMet = clocks.every((clock) => clock.pass !== false);
+    const files = [netlist, layout, ...(reportFile.success ? [report] : []), "output/nextpnr.log"];
+
+    projectManager.completeRun(runId, {
+      family,
+      device,
+      package: pkg,
+      topModule,
+      utilization,
+      clocks,
+      fmaxMhz,
+      timingMet,
+      bitstream,
+      files,
+    });
+
+    return {
+      success: true,
+      projectId,
+      runId,
+      family,
+      device,
+      package: pkg,
+      topModule,
+      utilization,
+      clocks,
+      fmaxMhz,
+      timingMet,
+      bitstream,
+      files,
+      warning,
+    };
+  } catch (error: any) {
+    return fail(error.message || String(error));
+  }
+}
+
+/**
+ * Utilization and per-clock Fmax from the nextpnr --report JSON,
+ * falling back to the log when the report was not written
+ */
+export function parseNextpnrReport(
+  reportJson: string,
+  log: string
+): { utilization: Record<string, FpgaUtilization>; clocks: FpgaClock[] } {
+  const utilization: Record<string, FpgaUtilization> = {};
+  const clocks = new Map<string, FpgaClock>();
+
+  let report: any;
+  try {
+    report = reportJson.trim() ? JSON.parse(reportJson) : undefined;
+  } catch {
+    report = undefined;
+  }
+
+  if (report) {
+    for (const [resource, value] of Object.entries<any>(report.utilization || {})) {
+      const used = Number(value?.used) || 0;
+      const available = Number(value?.available) || 0;
+      utilization[resource] = { used, available, percent: percentOf(used, available) };
+    }
+    for (const [clock, value] of Object.entries<any>(report.fmax || {})) {
+      const achievedMhz = Number(value?.achieved);
+      if (!Number.isFinite(achievedMhz)) continue;
+      const constraintMhz = Number.isFinite(Number(value?.constraint)) ? Number(value.constraint) : undefined;
+      clocks.set(clock, {
+        clock,
+        achievedMhz,
+        constraintMhz,
+        pass: constraintMhz !== undefined ? achievedMhz >= constraintMhz : undefined,
+      });
+    }
+  } else {
+    // e.g. Info: 	         ICESTORM_LC:   120/ 7680     1%
+    // The post-route summary comes last, so later lines win
+    for (const match of log.matchAll(/^Info:\s+(\w+):\s+(\d+)\/\s*(\d+)\s+\d+%/gm)) {
+      const used = parseInt(match[2], 10);
+      const available = parseInt(match[3], 10);
+      utilization[match[1]] = { used, available, percent: percentOf(used, available) };
+    }
+  }
+
+  // e.g. Info: Max frequency for clock 'clk$SB_IO_IN_$glb_clk': 187.93 MHz (PASS at 12.00 MHz)
+  if (clocks.size === 0) {
+    for (const match of log.matchAll(/Max frequency for clock '([^']+)': ([\d.]+) MHz(?: \((PASS|FAIL) at ([\d.]+) MHz\))?/g)) {
+      clocks.set(match[1], {
+        clock: match[1],
+        achievedMhz: parseFloat(match[2]),
+        constraintMhz: match[4] ? parseFloat(match[4]) : undefined,
+        pass: match[3] ? match[3] === "PASS" : undefined,
+      });
+    }
+  }
+
+  return { utilization, clocks: [...clocks.values()] };
+}
+
+function percentOf(used: number, available: number): number {
+  return available > 0 ? Math.round((used / available) * 1000) / 10 : 0;
+}
+
+/**
+ * Format FPGA flow result for MCP response
+ */
+export function formatFpgaResult(result: FpgaFlowResult): string {
+  let note: string;
+  if (!result.success) {
+    note = "FPGA flow failed. Check the error message and output/fpga_synth.log or output/nextpnr.log for details.";
+  } else if (result.timingMet === false) {
+    note = `Bitstream written to ${result.bitstream}, but timing is not met (Fmax ${result.fmaxMhz?.toFixed(2)} MHz).`;
+  } else {
+    note = `Bitstream written to ${result.bitstream}.`;
+  }
+
+  return JSON.stringify({
+    success: result.success,
+    project_id: result.projectId,
+    run_id: result.runId,
+    family: result.family,
+    device: result.device,
+    package: result.package,
+    top_module: result.topModule,
+    utilization: result.utilization,
+    clocks: result.clocks?.map((clock) => ({
+      clock: clock.clock,
+      achieved_mhz: clock.achievedMhz,
+      constraint_mhz: clock.constraintMhz,
+      pass: clock.pass,
+    })),
+    fmax_mhz: result.fmaxMhz,
+    timing_met: result.timingMet,
+    bitstream: result.bitstream,
+    files: result.files,
+    diagnostics: result.diagnostics,
+    warning: result.warning,
+    error: result.error,
+    log: result.log,
+    note,
+  }, null, 2);
+}
@@ -0,0 +1,593 @@
+/**
+ * Gate-Level Simulation Tool - Testbenches against synthesized and post-layout netlists
+ *
+ * Compiles the project's testbench with Icarus Verilog against the
+ * synthesized netlist (synth_output.v) or LibreLane's final netlist and
+ * the PDK's standard-cell Verilog models (Yosys simulation models for
+ * generic and FPGA synthesis). The final netlist can be back-annotated
+ * with the SDF of one corner. Reported: timing-check violations in the
+ * simulator output, and netlist signals that are still X at the end or
+ * go X after having had a known value - synthesis/simulation mismatches
+ * and reset problems that RTL simulation does not show.
+ */
+
+import { getExecutor, bashScript, type CommandExecutor, type ExecResult } from "../executor/index.js";
+import { projectManager } from "../files/project-manager.js";
+import { fileManager } from "../files/file-manager.js";
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import {
+  projectTestbenchSources,
+  combinedLanguage,
+  languageOfFile,
+  iverilogFlags,
+  iverilogBuildFlags,
+  validateBuildOptions,
+  firstModuleName,
+  parseDiagnostics,
+  diagnosticsByFile,
+  type HdlBuildOptions,
+  type HdlDiagnostic,
+  type HdlSource,
+  type LanguageOption,
+} from "../hdl/index.js";
+import { readTraceFile, parseVcdHeader, readVcdChanges } from "../waveform/index.js";
+import { PDK_LIBRARIES } from "./equivalence.js";
+import { importSourceFile, listVcdFiles } from "./simulation.js";
+
+export type GateLevelNetlist = "synth" | "final";
+
+export const GATE_LEVEL_NETLISTS: GateLevelNetlist[] = ["synth", "final"];
+
+// Build and trace directory under output/
+const OUTPUT_DIR = "gate_level";
+
+// Root module calling $sdf_annotate on the netlist instance, written to OUTPUT_DIR
+const SDF_MODULE = "gl_sdf_annotate";
+
+// Yosys simulation models for non-sky130 synthesis targets (relative to yosys-config --datdir)
+const YOSYS_CELL_MODELS: Record<string, string[]> = {
+  generic: ["simcells.v", "simlib.v"],
+  ice40: ["ice40/cells_sim.v"],
+  ecp5: ["ecp5/cells_sim.v"],
+  xilinx: ["xilinx/cells_sim.v"],
+};
+
+// Messages of timing checks in cell specify blocks
+const TIMING_CHECK_PATTERN =
+  /^.*(?:\$(setuphold|setup|hold|recrem|recovery|removal|width|period|skew|nochange)\b|timing violation).*$/gim;
+
+// Violations and X signals listed in results and responses
+const MAX_LISTED = 50;
+
+/**
+ * Gate-level simulation options (build options apply to the testbench)
+ */
+export interface GateLevelSimOptions extends HdlBuildOptions {
+  projectId: string;
+  netlist?: GateLevelNetlist;   // Default: final after a successful OpenLane run, else synth
+  testbenchFiles?: string[];    // Default: the project's testbenches (src/tb/, tb_*, *_tb)
+  topTestbench?: string;        // Simulation root (default: the first module of the first testbench)
+  topModule?: string;           // Netlist top (default: the project's top module)
+  dutInstance?: string;         // Hierarchical path of the netlist instance, e.g. tb.dut (default: found in the testbench)
+  sdf?: boolean;                // Back-annotate the final SDF (final netlist only)
+  sdfCorner?: string;           // e.g. nom_tt_025C_1v80 (default: a nominal typical corner)
+  pdk?: string;                 // Default: the PDK of the latest OpenLane run, else sky130A
+  stdCellLibrary?: string;      // Default: the PDK's standard-cell library
+  plusargs?: string[];
+  language?: LanguageOption;
+  timeout?: number;             // Simulation timeout in seconds (default: 600)
+
+  // Background job integration (optional)
+  runId?: string;
+  executor?: CommandExecutor;
+}
+
+/**
+ * A timing-check message from the simulator output
+ */
+export interface TimingViolation {
+  check: string;                // setup, hold, width, ... or "timing"
+  message: string;
+  time?: number;
+}
+
+/**
+ * A netlist signal with an unknown value
+ */
+export interface XSignal {
+  signal: string;
+  time?: number;                // When it went X after being known
+  value: string;
+}
+
+/**
+ * Unknown values on the signals of the netlist's top module
+ */
+export interface XPropagationReport {
+  scope: string;
+  checked: number;
+  xAtEndCount: number;
+  xAfterKnownCount: number;
+  xAtEnd: XSignal[];            // Still X/Z when the simulation ended (often: not reset)
+  xAfterKnown: XSignal[];       // Went X/Z after having a known value, earliest first
+}
+
+/**
+ * Gate-level simulation result
+ */
+export interface GateLevelSimResult {
+  success: boolean;             // The simulation ran and exited cleanly
+  clean?: boolean;              // ...and no timing violations or X values were found
+  projectId: string;
+  runId?: string;
+  netlist?: GateLevelNetlist;
+  netlistFile?: string;         // Project-relative
+  topModule?: string;
+  cellModels?: string[];
+  sdfCorner?: string;
+  sdfCorners?: string[];        // Corners with an SDF in the final run
+  sdfFile?: string;
+  dutInstance?: string;
+  files?: string[];             // Testbench sources
+  compileStdout?: string;
+  compileStderr?: string;
+  simStdout?: string;
+  simStderr?: string;
+  simExitCode?: number;
+  diagnostics?: HdlDiagnostic[];
+  vcdFile?: string;
+  timingViolationCount?: number;
+  timingViolations?: TimingViolation[];
+  xPropagation?: XPropagationReport;
+  warning?: string;
+  error?: string;
+}
+
+/**
+ * Simulate the project's testbench against a synthesized or post-layout netlist
+ */
+export async function simulateGateLevel(options: GateLevelSimOptions): Promise<GateLevelSimResult> {
+  const { projectId, sdf = false, timeout = 600, language = "auto" } = options;
+  const executor = options.executor || getExecutor();
+
+  let runId = options.runId;
+  const fail = (error: string, extra: Partial<GateLevelSimResult> = {}): GateLevelSimResult => {
+    if (runId) projectManager.failRun(runId, error);
+    return { success: false, projectId, runId, ...extra, error };
+  };
+
+  if (options.netlist && !GATE_LEVEL_NETLISTS.includes(options.netlist)) {
+    return fail(`Invalid netlist '${options.netlist}' (expected one of: ${GATE_LEVEL_NETLISTS.join(", ")})`);
+  }
+  for (const name of [options.topModule, options.topTestbench]) {
+    if (name && !/^[A-Za-z_][A-Za-z0-9_$]*$/.test(name)) {
+      return fail(`Invalid module name: ${JSON.stringify(name)}`);
+    }
+  }
+  if (options.dutInstance && !/^[A-Za-z_][A-Za-z0-9_$]*(\.[A-Za-z_][A-Za-z0-9_$]*)+$/.test(options.dutInstance)) {
+    return fail(`Invalid dut_instance ${JSON.stringify(options.dutInstance)} (expected a hierarchical path such as tb.dut)`);
+  }
+  if (options.sdfCorner && !/^[A-Za-z0-9_.-]+$/.test(options.sdfCorner)) {
+    return fail(`Invalid sdf_corner ${JSON.stringify(options.sdfCorner)}`);
+  }
+  const badPlusarg = options.plusargs?.find((arg) => !/^\+\S+$/.test(arg));
+  if (badPlusarg !== undefined) {
+    return fail(`Invalid plusarg ${JSON.stringify(badPlusarg)} (expected +name or +name=value)`);
+  }
+  const buildError = validateBuildOptions(options);
+  if (buildError) {
+    return fail(buildError);
+  }
+
+  const project = projectManager.getProject(projectId);
+  if (!project) {
+    return fail(`Project ${projectId} not found`);
+  }
+  const topModule = options.topModule || project.topModule || project.designName;
+  if (!topModule || !/^[A-Za-z_][A-Za-z0-9_$]*$/.test(topModule)) {
+    return fail(topModule ? `Invalid top module name: ${JSON.stringify(topModule)}` : "'top_module' is required (the project has no top module)");
+  }
+
+  try {
+    if (!(await executor.ensureReady())) {
+      return fail("Docker container is not running. Please start the container first.");
+    }
+
+    const runs = projectManager.getProjectRuns(projectId);
+    const openlaneRun = runs.find((r) => r.runType === "openlane" && r.status === "success" && r.results?.latestRun);
+    const netlist: GateLevelNetlist = options.netlist || (openlaneRun ? "final" : "synth");
+    if (sdf && netlist !== "final") {
+      return fail("SDF back-annotation needs the final (post-layout) netlist");
+    }
+
+    if (!runId) {
+      runId = projectManager.createRun({
+        projectId,
+        runType: "gate_level",
+        config: {
+          netlist,
+          topModule,
+          topTestbench: options.topTestbench,
+          testbenchFiles: options.testbenchFiles,
+          dutInstance: options.dutInstance,
+          sdf,
+          sdfCorner: options.sdfCorner,
+          pdk: options.pdk,
+          stdCellLibrary: options.stdCellLibrary,
+          plusargs: options.plusargs,
+          includeDirs: options.includeDirs,
+          defines: options.defines,
+          parameters: options.parameters,
+        },
+      }).id;
+      projectManager.startRun(runId);
+    }
+
+    const { hostPath, containerPath } = projectManager.getProjectPaths(projectId);
+    const base: Partial<GateLevelSimResult> = { netlist, topModule };
+
+    // Netlist and the cell models it needs
+    let netlistFile: string;
+    let cellModels: string[];
+    let runDir: string | undefined;
+    if (netlist === "synth") {
+      const synthRun = runs.find((r) => r.runType === "synthesis" && r.status === "success");
+      netlistFile = "output/synth_output.v";
+      if (!synthRun || !existsSync(join(hostPath, netlistFile))) {
+        return fail("No synthesized netlist found. Run synthesize_verilog for this project first.", base);
+      }
+      const target: string = (synthRun.config?.target || "generic").toLowerCase();
+      const models = target === "sky130"
+        ? await pdkCellModels("sky130A", options.stdCellLibrary || "sky130_fd_sc_hd", executor)
+        : await yosysCellModels(target, executor);
+      if (typeof models === "string") return fail(models, { ...base, netlistFile });
+      cellModels = models;
+    } else {
+      if (!openlaneRun) {
+        return fail("No successful OpenLane run found. Run run_openlane for this project first.", base);
+      }
+      runDir = `runs/${openlaneRun.results!.latestRun}`;
+      const found = await executor.run(
+        bashScript('ls -1 -- "$1"/final/nl/*.nl.v 2>/dev/null | head -1', `${containerPath}/${runDir}`),
+        { timeout: 10000 }
+      );
+      const path = found.stdout.trim();
+      if (!path) return fail(`No final netlist in ${runDir}/final/nl`, base);
+      netlistFile = `${runDir}/${path.slice(path.indexOf("/final/nl/") + 1)}`;
+
+      const pdk = options.pdk || openlaneRun.config?.pdk || "sky130A";
+      const stdcellLib = options.stdCellLibrary || PDK_LIBRARIES[pdk]?.stdcellLib;
+      if (!stdcellLib) return fail(`Unknown PDK '${pdk}'; pass std_cell_library explicitly`, { ...base, netlistFile });
+      const models = await pdkCellModels(pdk, stdcellLib, executor);
+      if (typeof models === "string") return fail(models, { ...base, netlistFile });
+      cellModels = models;
+    }
+    Object.assign(base, { netlistFile, cellModels });
+
+    // SDF of the requested (or a nominal typical) corner
+    let sdfFile: string | undefined;
+    if (sdf) {
+      const listing = await executor.run(
+        bashScript('cd -- "$1" 2>/dev/null && for d in */; do ls -- "$d"*.sdf >/dev/null 2>&1 && echo "${d%/}"; done', `${containerPath}/${runDir}/final/sdf`),
+        { timeout: 10000 }
+      );
+      const corners = listing.stdout.trim().split("\n").filter(Boolean).sort();
+      base.sdfCorners = corners;
+      if (corners.length === 0) return fail(`No SDF files in ${runDir}/final/sdf`, base);
+      const corner = options.sdfCorner || corners.find((c) => /^nom_tt/.test(c)) || corners.find((c) => /tt/.test(c)) || corners[0];
+      if (!corners.includes(corner)) {
+        return fail(`No SDF for corner '${corner}' (available: ${corners.join(", ")})`, base);
+      }
+      const file = await executor.run(
+        bashScript('ls -1 -- "$1"/*.sdf | head -1', `${containerPath}/${runDir}/final/sdf/${corner}`),
+        { timeout: 10000 }
+      );
+      sdfFile = `${runDir}/final/sdf/${corner}/${file.stdout.trim().split("/").pop()}`;
+      Object.assign(base, { sdfCorner: corner, sdfFile });
+    }
+
+    // Testbenches: given files (copied into src/tb/ unless already in the project) or the project's
+    const testbenchSources: HdlSource[] = [];
+    if (options.testbenchFiles?.length) {
+      for (const filePath of options.testbenchFiles) {
+        const name = await importSourceFile(projectId, filePath, true, executor, runId);
+        if (name === null) return fail(`Failed to read file ${filePath}`, base);
+        testbenchSources.push({ name, language: languageOfFile(name, language) });
+      }
+    } else {
+      testbenchSources.push(...projectTestbenchSources(projectId, language));
+    }
+    if (testbenchSources.length === 0) {
+      return fail("No testbench found: pass 'testbench_files' or keep testbenches in the project's src/tb/", base);
+    }
+    base.files = testbenchSources.map((s) => `src/${s.name}`);
+
+    // Where the netlist sits in the testbench hierarchy (for $sdf_annotate and the X report)
+    const dutInstance = options.dutInstance || findDutInstance(hostPath, testbenchSources, topModule);
+    base.dutInstance = dutInstance;
+    if (sdf && !dutInstance) {
+      return fail(`No instance of '${topModule}' found in the testbench; pass dut_instance (e.g. tb.dut) for SDF annotation`, base);
+    }
+
+    const outputDir = `${containerPath}/output/${OUTPUT_DIR}`;
+    await executor.run(bashScript('rm -rf "$1" && mkdir -p "$1"', outputDir), { timeout: 30000 });
+    if (sdf) {
+      fileManager.writeFile(
+        projectId,
+        `${OUTPUT_DIR}/${SDF_MODULE}.v`,
+        `// Back-annotates ${base.sdfCorner} onto ${dutInstance} (written by simulate_gate_level)\n` +
+          `module ${SDF_MODULE};\n  initial $sdf_annotate("${containerPath}/${sdfFile}", ${dutInstance});\nendmodule\n`,
+        "output",
+        runId
+      );
+    }
+
+    // Every unused cell model would be elaborated as a root, so the testbench root is always named
+    const rootModule = options.topTestbench ||
+      firstModuleName(readFileSync(join(hostPath, "src", testbenchSources[0].name), "utf-8"));
+    if (!rootModule) {
+      return fail(`No module found in src/${testbenchSources[0].name}; pass top_testbench`, base);
+    }
+
+    // Zero-delay functional cell models, or their specify blocks when an SDF is applied
+    const compile: ExecResult = await executor.run(
+      [
+        "iverilog",
+        ...iverilogFlags(combinedLanguage(testbenchSources)),
+        ...(sdf ? ["-gspecify", "-DUNIT_DELAY="] : ["-DFUNCTIONAL", "-DUNIT_DELAY=#1"]),
+        "-DGL",
+        "-I",
+        cellModels[0].slice(0, cellModels[0].lastIndexOf("/")),
+        ...iverilogBuildFlags(options, rootModule),
+        "-s",
+        rootModule,
+        ...(sdf ? ["-s", SDF_MODULE] : []),
+        "-o",
+        `${outputDir}/simulation`,
+        ...cellModels,
+        `${containerPath}/${netlistFile}`,
+        ...(sdf ? [`${outputDir}/${SDF_MODULE}.v`] : []),
+        ...testbenchSources.map((s) => s.name),
+      ],
+      { workdir: `${containerPath}/src`, timeout: 300000 }
+    );
+    const diagnostics = parseDiagnostics(`${compile.stdout}\n${compile.stderr}`, "iverilog");
+    if (!compile.success) {
+      return fail(
+        compile.exitCode === 127
+          ? "Icarus Verilog is not installed. Run check_environment for details."
+          : `Compilation failed: ${compile.stderr}`,
+        { ...base, compileStdout: compile.stdout, compileStderr: compile.stderr, diagnostics }
+      );
+    }
+
+    const sim = await executor.run(
+      bashScript("LD_LIBRARY_PATH=/foss/tools/iverilog/lib:$LD_LIBRARY_PATH exec vvp simulation \"$@\"", ...(options.plusargs || [])),
+      { workdir: outputDir, timeout: timeout * 1000 }
+    );
+    const output = `${sim.stdout}\n${sim.stderr}`;
+    const timingViolations = parseTimingViolations(output);
+
+    const traceFiles = await listVcdFiles(projectId, OUTPUT_DIR);
+    const vcdFile = traceFiles.find((file) => file.endsWith(".vcd")) || traceFiles[0];
+    if (vcdFile) fileManager.trackFile(projectId, vcdFile, "vcd", runId);
+
+    let xPropagation: XPropagationReport | undefined;
+    let warning: string | undefined;
+    if (!vcdFile) {
+      warning = "No trace written, so X values were not checked; call $dumpfile()/$dumpvars() in the testbench";
+    } else if (!dutInstance) {
+      warning = `No instance of '${topModule}' found in the testbench, so X values were not checked; pass dut_instance`;
+    } else {
+      const text = await readTraceFile(projectId, vcdFile, executor);
+      if (typeof text === "string") {
+        xPropagation = checkXPropagation(text, dutInstance);
+        if (xPropagation.checked === 0) warning = `The trace has no signals under ${dutInstance}; dump the netlist with $dumpvars`;
+      } else {
+        warning = `X check skipped: ${text.error}`;
+      }
+    }
+
+    const clean = sim.success && timingViolations.length === 0 &&
+      !!xPropagation && xPropagation.xAtEndCount === 0 && xPropagation.xAfterKnownCount === 0;
+    const summary = {
+      netlist,
+      netlistFile,
+      sdfCorner: base.sdfCorner,
+      dutInstance,
+      vcdFile,
+      clean,
+      timingViolationCount: timingViolations.length,
+      xAtEndCount: xPropagation?.xAtEndCount,
+      xAfterKnownCount: xPropagation?.xAfterKnownCount,
+    };
+    if (sim.success) {
+      projectManager.completeRun(runId, summary);
+    } else {
+      projectManager.failRun(runId, sim.stderr || `Simulation exited with code ${sim.exitCode}`);
+    }
+
+    return {
+      success: sim.success,
+      clean,
+      projectId,
+      runId,
+      ...base,
+      compileStdout: compile.stdout,
+      compileStderr: compile.stderr,
+      simStdout: sim.stdout,
+      simStderr: sim.stderr,
+      simExitCode: sim.exitCode,
+      diagnostics,
+      vcdFile,
+      timingViolationCount: timingViolations.length,
+      timingViolations: timingViolations.slice(0, MAX_LISTED),
+      xPropagation,
+      warning,
+      error: sim.success ? undefined : sim.stderr || `Simulation exited with code ${sim.exitCode}`,
+    };
+  } catch (error: any) {
+    return fail(error.message || String(error));
+  }
+}
+
+/**
+ * Standard-cell Verilog models of a PDK library (primitives first), or an error message
+ */
+async function pdkCellModels(pdk: string, stdcellLib: string, executor: CommandExecutor): Promise<string[] | string> {
+  const lookup = await executor.run(
+    bashScript(
+      'root="${PDK_ROOT:-/foss/pdks}"; dir="$root/$1/libs.ref/$2/verilog"; [ -d "$dir" ] || exit 3; ' +
+        'if [ -f "$dir/$2.v" ]; then [ -f "$dir/primitives.v" ] && echo "$dir/primitives.v"; echo "$dir/$2.v"; ' +
+        'else ls -1 "$dir"/*.v; fi',
+      pdk,
+      stdcellLib
+    ),
+    { timeout: 10000 }
+  );
+  const files = lookup.stdout.trim().split("\n").filter(Boolean);
+  return lookup.success && files.length > 0
+    ? files
+    : `No Verilog models found for ${stdcellLib} in PDK ${pdk}. Run check_environment for details.`;
+}
+
+/**
+ * Yosys simulation models for a synthesis target, or an error message
+ */
+async function yosysCellModels(target: string, executor: CommandExecutor): Promise<string[] | string> {
+  const models = YOSYS_CELL_MODELS[target];
+  if (!models) return `No simulation models known for synthesis target '${target}'`;
+  const datdir = await executor.run(["yosys-config", "--datdir"], { timeout: 10000 });
+  if (!datdir.success || !datdir.stdout.trim()) {
+    return "yosys-config not found; the Yosys cell models are needed for a generic/FPGA netlist. Run check_environment for details.";
+  }
+  return models.map((model) => `${datdir.stdout.trim()}/${model}`);
+}
+
+/**
+ * <testbench module>.<instance> of the first instantiation of the netlist top in the testbenches
+ */
+export function findDutInstance(hostPath: string, sources: HdlSource[], topModule: string): string | undefined {
+  const instance = new RegExp(`\\b${topModule.replace(/\$/g, "\\$")}(?![A-Za-z0-9_$])\\s*(?:#\\s*\\([\\s\\S]*?\\)\\s*)?([A-Za-z_][A-Za-z0-9_$]*)\\s*\\(`);
+  for (const source of sources) {
+    const file = join(hostPath, "src", source.name);
+    if (!existsSync(file)) continue;
+    const code = readFileSync(file, "utf-8").replace(/\/\*[\s\S]*?\*\//g, "").replace(/\/\/.*$/gm, "");
+    const match = code.match(instance);
+    // The enclosing module is the last one declared before the instantiation
+    const module = match && [...code.slice(0, match.index).matchAll(/\bmodule\s+([A-Za-z_][A-Za-z0-9_$]*)/g)].pop()?.[1];
+    if (match && module) return `${module}.${match[1]}`;
+  }
+  return undefined;
+}
+
+/**
+ * Timing-check messages in the simulator output
+ */
+function parseTimingViolations(output: string): TimingViolation[] {
+  const violations: TimingViolation[] = [];
+  for (const match of output.matchAll(TIMING_CHECK_PATTERN)) {
+    const message = match[0].trim();
+    const time = message.match(/\b(?:time|at)\s*[=:]?\s*(\d+)/i)?.[1];
+    violations.push({ check: match[1]?.toLowerCase() || "timing", message: message.slice(0, 300), time: time ? Number(time) : undefined });
+  }
+  return violations;
+}
+
+/**
+ * X/Z values on the signals of the netlist top (its ports and flattened nets)
+ */
+function checkXPropagation(text: string, scope: string): XPropagationReport {
+  const header = parseVcdHeader(text);
+  const prefix = `${scope}.`;
+  const signals = header.signals.filter((s) =>
+    s.name.startsWith(prefix) && !s.name.slice(prefix.length).includes(".") && s.type !== "parameter" && s.type !== "real");
+  const changes = readVcdChanges(text, header, new Set(signals.map((s) => s.id)));
+  const unknown = (value: string) => /[xz]/.test(value);
+
+  const xAtEnd: XSignal[] = [];
+  const xAfterKnown: XSignal[] = [];
+  for (const signal of signals) {
+    const { times, values } = changes.traces.get(signal.id)!;
+    if (values.length === 0) continue;
+    let known = false;
+    for (let i = 0; i < values.length; i++) {
+      if (!unknown(values[i])) {
+        known = true;
+      } else if (known) {
+        xAfterKnown.push({ signal: signal.name, time: times[i], value: values[i] });
+        break;
+      }
+    }
+    const last = values[values.length - 1];
+    if (unknown(last)) xAtEnd.push({ signal: signal.name, value: last });
+  }
+  xAfterKnown.sort((a, b) => a.time! - b.time!);
+  xAtEnd.sort((a, b) => a.signal.localeCompare(b.signal));
+
+  return {
+    scope,
+    checked: signals.length,
+    xAtEndCount: xAtEnd.length,
+    xAfterKnownCount: xAfterKnown.length,
+    xAtEnd: xAtEnd.slice(0, MAX_LISTED),
+    xAfterKnown: xAfterKnown.slice(0, MAX_LISTED),
+  };
+}
+
+/**
+ * Format gate-level simulation result for MCP response
+ */
+export function formatGateLevelSimResult(result: GateLevelSimResult): string {
+  let note: string;
+  if (!result.success) {
+    note = "Gate-level simulation failed. Check the error message for details.";
+  } else if (result.clean) {
+    note = `Gate-level simulation of the ${result.netlist} netlist passed with no timing violations or X values on ${result.dutInstance}.`;
+  } else {
+    const issues = [
+      result.timingViolationCount ? `${result.timingViolationCount} timing-check violation(s)` : "",
+      result.xPropagation?.xAfterKnownCount ? `${result.xPropagation.xAfterKnownCount} signal(s) went X after being known (X-propagation)` : "",
+      result.xPropagation?.xAtEndCount ? `${result.xPropagation.xAtEndCount} signal(s) still X at the end (missing reset?)` : "",
+    ].filter(Boolean);
+    note = `${issues.length > 0 ? issues.join("; ") : "X values were not checked"}. Compare with the RTL simulation of the same testbench; use query_waveform on ${result.vcdFile || "the trace"} to trace X sources.`;
+  }
+
+  return JSON.stringify({
+    success: result.success,
+    clean: result.clean,
+    project_id: result.projectId,
+    run_id: result.runId,
+    netlist: result.netlist,
+    netlist_file: result.netlistFile,
+    top_module: result.topModule,
+    cell_models: result.cellModels,
+    sdf_corner: result.sdfCorner,
+    sdf_corners: result.sdfCorners,
+    sdf_file: result.sdfFile,
+    dut_instance: result.dutInstance,
+    files: result.files,
+    vcd_file: result.vcdFile,
+    compile_stderr: result.compileStderr || undefined,
+    sim_stdout: result.simStdout ?
+      (result.simStdout.length > 5000 ? result.simStdout.substring(0, 5000) + "...(truncated)" : result.simStdout) :
+      undefined,
+    sim_stderr: result.simStderr || undefined,
+    sim_exit_code: result.simExitCode,
+    diagnostics: result.diagnostics?.length ? diagnosticsByFile(result.diagnostics) : undefined,
+    timing_violation_count: result.timingViolationCount,
+    timing_violations: result.timingViolations?.map((v) => ({ check: v.check, time: v.time, message: v.message })),
+    x_propagation: result.xPropagation && {
+      scope: result.xPropagation.scope,
+      signals_checked: result.xPropagation.checked,
+      x_after_known_count: result.xPropagation.xAfterKnownCount,
+      x_after_known: result.xPropagation.xAfterKnown.map((x) => ({ signal: x.signal, time: x.time, value: x.value })),
+      x_at_end_count: result.xPropagation.xAtEndCount,
+      x_at_end: result.xPropagation.xAtEnd.map((x) => ({ signal: x.signal, value: x.value })),
+    },
+    warning: result.warning,
+    error: result.error,
+    note,
+  }, null, 2);
+}
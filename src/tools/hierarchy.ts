@@ -0,0 +1,255 @@
+/**
+ * Design Hierarchy - Per-module statistics from Yosys `stat -json`
+ *
+ * Synthesis writes `stat -json -top <module>` to output/synth_stat.json.
+ * Each module's own cells, area and memories are rolled up through the
+ * instance tree, so a hierarchical design shows which submodule holds
+ * the area instead of a single misleading total.
+ */
+
+import { projectManager } from "../files/project-manager.js";
+import { fileManager } from "../files/file-manager.js";
+
+// Written by the synthesis script, copied to output/
+export const STAT_JSON_FILE = "synth_stat.json";
+
+/**
+ * One module in the instance tree. Own counts exclude submodule instances;
+ * total counts are per instance and include everything below it.
+ */
+export interface HierarchyNode {
+  module: string;
+  instances: number;           // Instances in the parent (1 for the top module)
+  cells: number;
+  area?: number;               // um^2, when synthesized against a liberty
+  memories: number;
+  memoryBits: number;
+  totalCells: number;
+  totalArea?: number;
+  totalMemories: number;
+  totalMemoryBits: number;
+  cellBreakdown?: Record<string, number>;  // Own leaf cells by type
+  children: HierarchyNode[];
+}
+
+/**
+ * Design-wide totals and the instance tree
+ */
+export interface DesignHierarchy {
+  top: HierarchyNode;
+  cells: number;
+  area?: number;
+  memories: number;
+  memoryBits: number;
+  cellBreakdown: Record<string, number>;   // Leaf cells of the whole design by type
+}
+
+/**
+ * Hierarchy lookup result
+ */
+export interface HierarchyResult {
+  success: boolean;
+  projectId: string;
+  runId?: string;
+  topModule?: string;
+  hierarchy?: DesignHierarchy;
+  error?: string;
+}
+
+interface ModuleStat {
+  cells: number;
+  area?: number;
+  memories: number;
+  memoryBits: number;
+  cellsByType: Record<string, number>;
+}
+
+/**
+ * Build the instance tree from `stat -json` output; null if it cannot be parsed
+ */
+export function parseStatJson(json: string, topModule: string): DesignHierarchy | null {
+  let stat: any;
+  try {
+    // Anything tee captured around the JSON object is ignored
+    stat = JSON.parse(json.slice(json.indexOf("{"), json.lastIndexOf("}") + 1));
+  } catch {
+    return null;
+  }
+  if (!stat || typeof stat.modules !== "object") return null;
+
+  const modules = new Map<string, ModuleStat>();
+  for (const [name, value] of Object.entries<any>(stat.modules)) {
+    modules.set(moduleName(name), {
+      cells: Number(value.num_cells) || 0,
+      area: typeof value.area === "number" ? value.area : undefined,
+      memories: Number(value.num_memories) || 0,
+      memoryBits: Number(value.num_memory_bits) || 0,
+      cellsByType: cellsByType(value),
+    });
+  }
+
+  const build = (name: string, instances: number, path: string[]): HierarchyNode | null => {
+    const module = modules.get(name);
+    if (!module || path.includes(name)) return null;
+
+    const node: HierarchyNode = {
+      module: name,
+      instances,
+      cells: 0,
+      area: module.area,
+      memories: module.memories,
+      memoryBits: module.memoryBits,
+      totalCells: 0,
+      totalArea: module.area,
+      totalMemories: module.memories,
+      totalMemoryBits: module.memoryBits,
+      children: [],
+    };
+
+    const breakdown: Record<string, number> = {};
+    for (const [type, count] of Object.entries(module.cellsByType)) {
+      const child = modules.has(type) ? build(type, count, [...path, name]) : null;
+      if (!child) {
+        breakdown[type] = count;
+        node.cells += count;
+        continue;
+      }
+      node.children.push(child);
+      node.totalCells += count * child.totalCells;
+      node.totalMemories += count * child.totalMemories;
+      node.totalMemoryBits += count * child.totalMemoryBits;
+      if (child.totalArea !== undefined) {
+        node.totalArea = (node.totalArea ?? 0) + count * child.totalArea;
+      }
+    }
+    // Without a per-type breakdown, num_cells is all there is
+    if (Object.keys(module.cellsByType).length === 0) node.cells = module.cells;
+    node.totalCells += node.cells;
+    if (Object.keys(breakdown).length > 0) node.cellBreakdown = breakdown;
+    node.children.sort((a, b) => (b.totalArea ?? b.totalCells) - (a.totalArea ?? a.totalCells));
+    return node;
+  };
+
+  const top = build(topModule, 1, []);
+  if (!top) return null;
+
+  // Design-wide leaf cell counts, weighted by instance count
+  const cellBreakdown: Record<string, number> = {};
+  const collect = (node: HierarchyNode, multiplier: number) => {
+    for (const [type, count] of Object.entries(node.cellBreakdown || {})) {
+      cellBreakdown[type] = (cellBreakdown[type] || 0) + count * multiplier;
+    }
+    for (const child of node.children) collect(child, multiplier * child.instances);
+  };
+  collect(top, 1);
+
+  return {
+    top,
+    cells: top.totalCells,
+    area: top.totalArea,
+    memories: top.totalMemories,
+    memoryBits: top.totalMemoryBits,
+    cellBreakdown,
+  };
+}
+
+/**
+ * Hierarchy of a project's synthesis run (default: the latest successful one)
+ */
+export function getDesignHierarchy(projectId: string, runId?: string): HierarchyResult {
+  const project = projectManager.getProject(projectId);
+  if (!project) {
+    return { success: false, projectId, error: `Project ${projectId} not found` };
+  }
+
+  const run = runId
+    ? projectManager.getRun(runId)
+    : projectManager.getProjectRuns(projectId).find((r) => r.runType === "synthesis" && r.status === "success");
+  if (!run || run.projectId !== projectId || run.runType !== "synthesis") {
+    return {
+      success: false,
+      projectId,
+      error: runId
+        ? `Run ${runId} is not a synthesis run of project ${projectId}`
+        : "No successful synthesis run found. Run synthesize_verilog for this project first.",
+    };
+  }
+
+  const topModule: string | undefined = run.config?.topModule || project.topModule;
+  let hierarchy: DesignHierarchy | null = run.results?.statistics?.hierarchy || null;
+
+  // Runs from before hierarchy was stored: parse the stat file if it is still there
+  if (!hierarchy && topModule && !runId) {
+    const statJson = fileManager.readFile(projectId, STAT_JSON_FILE);
+    hierarchy = statJson ? parseStatJson(statJson, topModule) : null;
+  }
+  if (!hierarchy) {
+    return {
+      success: false,
+      projectId,
+      runId: run.id,
+      topModule,
+      error: "No hierarchical statistics for this run. Re-run synthesize_verilog to generate them.",
+    };
+  }
+
+  return { success: true, projectId, runId: run.id, topModule, hierarchy };
+}
+
+/**
+ * Format hierarchy result for MCP response
+ */
+export function formatHierarchyResult(result: HierarchyResult): string {
+  const formatNode = (node: HierarchyNode): Record<string, unknown> => ({
+    module: node.module,
+    instances: node.instances,
+    cells: node.cells,
+    area_um2: node.area,
+    memories: node.memories,
+    memory_bits: node.memoryBits,
+    total_cells: node.totalCells,
+    total_area_um2: node.totalArea,
+    total_memories: node.totalMemories,
+    total_memory_bits: node.totalMemoryBits,
+    cell_breakdown: node.cellBreakdown,
+    children: node.children.length > 0 ? node.children.map(formatNode) : undefined,
+  });
+
+  let note: string;
+  if (!result.success) {
+    note = "Hierarchy lookup failed. Check the error message for details.";
+  } else {
+    const largest = result.hierarchy!.top.children[0];
+    note = largest
+      ? `Largest submodule: ${largest.module} (${largest.instances} x ${largest.totalArea !== undefined ? `${largest.totalArea} um^2` : `${largest.totalCells} cells`}). Totals are per instance and include submodules.`
+      : "The design has no submodules (it may have been flattened by the synthesis target).";
+  }
+
+  return JSON.stringify({
+    success: result.success,
+    project_id: result.projectId,
+    run_id: result.runId,
+    top_module: result.topModule,
+    cells: result.hierarchy?.cells,
+    area_um2: result.hierarchy?.area,
+    memories: result.hierarchy?.memories,
+    memory_bits: result.hierarchy?.memoryBits,
+    hierarchy: result.hierarchy ? formatNode(result.hierarchy.top) : undefined,
+    error: result.error,
+    note,
+  }, null, 2);
+}
+
+function moduleName(name: string): string {
+  return name.replace(/^\\/, "");
+}
+
+function cellsByType(value: any): Record<string, number> {
+  // Key was renamed in newer Yosys releases
+  const byType = value.num_cells_by_type || value.cells_by_type || {};
+  const counts: Record<string, number> = {};
+  for (const [type, count] of Object.entries(byType)) {
+    if (typeof count === "number") counts[moduleName(type)] = count;
+  }
+  return counts;
+}
@@ -17,10 +17,29 @@ export {
   simulateVerilog,
   listVcdFiles,
   formatSimulationResult,
+  SIMULATORS,
   type SimulationResult,
   type SimulationOptions,
+  type Simulator,
+  type TraceFormat,
 } from "./simulation.js";
 
+// Regression runner
+export { runRegression, formatRegressionResult, JUNIT_FILE } from "./regression.js";
+export type { RegressionOptions, RegressionResult, RegressionTest, RegressionTestResult, TestStatus } from "./regression.js";
+
+// Gate-level simulation
+export { simulateGateLevel, formatGateLevelSimResult, GATE_LEVEL_NETLISTS } from "./gate-level-sim.js";
+export type { GateLevelSimOptions, GateLevelSimResult, GateLevelNetlist, TimingViolation, XPropagationReport } from "./gate-level-sim.js";
+
+// cocotb Python testbenches
+export { runCocotb, formatCocotbResult } from "./cocotb.js";
+export type { CocotbOptions, CocotbResult, CocotbTestResult, CocotbTestStatus } from "./cocotb.js";
+
+// Activity-annotated power
+export { analyzeActivityPower, resolveSwitchingActivity, formatActivityPowerResult } from "./activity-power.js";
+export type { ActivityPowerOptions, ActivityPowerResult, PowerBreakdown, InstancePower } from "./activity-power.js";
+
 // OpenLane tool
 export {
   runOpenlane,
@@ -31,6 +50,15 @@ export {
   type OpenlaneOptions,
 } from "./openlane.js";
 
+// Reproduce tool
+export {
+  reproduceRun,
+  reproductionRunInput,
+  formatReproduceResult,
+  type ReproduceResult,
+  type ReproduceOptions,
+} from "./reproduce.js";
+
 // Viewer tools
 export {
   viewWaveform,
@@ -42,6 +70,12 @@ export {
   type ViewerResult,
 } from "./viewers.js";
 
+// Waveform queries without a GUI
+export { queryWaveform, formatWaveformQueryResult, WAVEFORM_OPERATIONS } from "./waveform-query.js";
+export type { WaveformQueryOptions, WaveformQueryResult, WaveformOperation } from "./waveform-query.js";
+export { renderWaveform, formatWaveformRenderResult } from "./waveform-render.js";
+export type { WaveformRenderOptions, WaveformRenderResult, WaveformFormat } from "./waveform-render.js";
+
 // RAG tools for documentation search
 export {
   checkRAGStatus,
@@ -76,8 +110,56 @@ export {
   formatOptimizedRunResult,
 } from "./tuner-tools.js";
 
+// Background job tools
+export {
+  startJob,
+  toJobOutcome,
+  getJobStatus,
+  listJobs,
+  cancelJob,
+  formatJobStatus,
+  formatJobList,
+} from "./job-tools.js";
+
+// Environment diagnostics
+export { checkEnvironment, formatEnvironmentReport } from "./environment.js";
+export type { EnvironmentCheck, EnvironmentReport, CheckStatus } from "./environment.js";
+
+// Result cache tools
+export { getCacheStats, evictCache } from "./cache-tools.js";
+export type { CachedTool } from "../cache/index.js";
+
+// MCP progress notifications
+export { createProgressReporter } from "./progress.js";
+
 // Re-export project manager for convenience
 export { projectManager } from "../files/project-manager.js";
 export { fileManager } from "../files/file-manager.js";
 export { pathResolver } from "../files/path-resolver.js";
 export { dockerManager } from "../docker/docker-manager.js";
+export { getExecutor } from "../executor/index.js";
+export { jobQueue } from "../jobs/index.js";
+
+// RTL lint
+export { lintVerilog, formatLintResult } from "./lint.js";
+export type { LintOptions, LintResult } from "./lint.js";
+
+// Formal equivalence
+export { checkEquivalence, formatEquivalenceResult, EQUIVALENCE_ARTIFACTS } from "./equivalence.js";
+export type { EquivalenceOptions, EquivalenceResult, EquivalenceArtifact, EquivalenceStatus } from "./equivalence.js";
+
+// Formal property verification
+export { runFormal, formatFormalResult, FORMAL_MODES, FORMAL_ENGINES } from "./formal.js";
+export type { FormalOptions, FormalResult, FormalMode, FormalProperty } from "./formal.js";
+
+// Schematic rendering
+export { renderSchematic, formatSchematicResult } from "./schematic.js";
+export type { SchematicOptions, SchematicResult, SchematicStage, SchematicRenderer, SchematicFormat } from "./schematic.js";
+
+// Per-module synthesis statistics
+export { getDesignHierarchy, formatHierarchyResult, parseStatJson } from "./hierarchy.js";
+export type { DesignHierarchy, HierarchyNode, HierarchyResult } from "./hierarchy.js";
+
+// FPGA place-and-route and bitstreams
+export { runFpgaFlow, formatFpgaResult, FPGA_FAMILIES } from "./fpga.js";
+export type { FpgaFlowOptions, FpgaFlowResult, FpgaFamily, FpgaUtilization, FpgaClock } from "./fpga.js";
@@ -0,0 +1,138 @@
+/**
+ * Job Tools - Start, inspect and cancel background jobs
+ *
+ * Long-running tools (run_openlane, run_autotuner, run_eco_optimization,
+ * run_signoff_checks) are submitted to the job queue and return a job id
+ * immediately; these helpers report on them.
+ */
+
+import { jobQueue, type JobInfo, type JobOutcome, type JobSpec } from "../jobs/index.js";
+import { projectManager } from "../files/project-manager.js";
+import type { RunStatus } from "../types/project.js";
+
+/**
+ * Submit a job and format the immediate response
+ */
+export function startJob(spec: JobSpec): string {
+  if (!projectManager.getProject(spec.projectId)) {
+    return JSON.stringify({ success: false, error: `Project ${spec.projectId} not found` }, null, 2);
+  }
+
+  const job = jobQueue.submit(spec);
+
+  return JSON.stringify({
+    success: true,
+    job_id: job.jobId,
+    tool: job.tool,
+    project_id: job.projectId,
+    status: job.status,
+    queue_position: job.queuePosition,
+    note: `Job started in the background. Poll get_job_status with job_id '${job.jobId}' for progress and results, or cancel_job to stop it.`,
+  }, null, 2);
+}
+
+/**
+ * Build a job outcome from a tool's formatted JSON result
+ */
+export function toJobOutcome(success: boolean, formatted: string, error?: string): JobOutcome {
+  let results: Record<string, any>;
+  try {
+    results = JSON.parse(formatted);
+  } catch {
+    results = { output: formatted };
+  }
+  return { success, results, error };
+}
+
+/**
+ * Get the status of a job
+ */
+export function getJobStatus(jobId: string): JobInfo | null {
+  return jobQueue.getJob(jobId);
+}
+
+/**
+ * List jobs, optionally filtered by project and status
+ */
+export function listJobs(options: { projectId?: string; status?: RunStatus; limit?: number } = {}): JobInfo[] {
+  return jobQueue.listJobs({
+    projectId: options.projectId,
+    statuses: options.status ? [options.status] : undefined,
+    limit: options.limit,
+  });
+}
+
+/**
+ * Cancel a queued or running job
+ */
+export async function cancelJob(jobId: string): Promise<string> {
+  const result = await jobQueue.cancel(jobId);
+  const job = jobQueue.getJob(jobId);
+
+  return JSON.stringify({
+    success: result.cancelled,
+    job_id: jobId,
+    previous_status: result.previousStatus,
+    status: job?.status,
+    error: result.error,
+    note: result.cancelled
+      ? "Job cancelled. Tool processes started by the job have been terminated."
+      : undefined,
+  }, null, 2);
+}
+
+/**
+ * Format a single job for display
+ */
+export function formatJobStatus(job: JobInfo | null, jobId: string): string {
+  if (!job) {
+    return JSON.stringify({ success: false, job_id: jobId, error: `Job ${jobId} not found` }, null, 2);
+  }
+
+  const finished = job.status === "success" || job.status === "failed" || job.status === "cancelled";
+
+  return JSON.stringify({
+    success: true,
+    ...jobSummary(job),
+    results: finished ? job.results : undefined,
+    note: finished
+      ? `Job ${job.status}.`
+      : job.status === "pending"
+        ? `Job is queued (position ${job.queuePosition ?? "?"} of ${jobQueue.getConcurrency()} concurrent slot(s)).`
+        : "Job is running. Poll again later.",
+  }, null, 2);
+}
+
+/**
+ * Format a job list for display
+ */
+export function formatJobList(jobs: JobInfo[]): string {
+  return JSON.stringify({
+    success: true,
+    concurrency_limit: jobQueue.getConcurrency(),
+    count: jobs.length,
+    jobs: jobs.map(jobSummary),
+  }, null, 2);
+}
+
+function jobSummary(job: JobInfo): Record<string, unknown> {
+  return {
+    job_id: job.jobId,
+    tool: job.tool,
+    project_id: job.projectId,
+    run_type: job.runType,
+    status: job.status,
+    queue_position: job.queuePosition,
+    started_at: job.startedAt?.toISOString(),
+    completed_at: job.completedAt?.toISOString(),
+    progress: job.progress
+      ? {
+          progress: job.progress.progress,
+          total: job.progress.total,
+          message: job.progress.message,
+          updated_at: job.progress.updatedAt.toISOString(),
+        }
+      : undefined,
+    error: job.error,
+  };
+}
@@ -0,0 +1,369 @@
+/**
+ * Lint Tool - Verilator and Yosys checks on a project's RTL
+ *
+ * Runs `verilator --lint-only -Wall` and Yosys `check -assert` over the
+ * design files in src/ and reports latches, width mismatches, undriven
+ * nets, multiple drivers etc. as file/line diagnostics, before any time
+ * is spent in synthesis or OpenLane.
+ */
+
+import { basename } from "path";
+import { getExecutor, type CommandExecutor } from "../executor/index.js";
+import { projectManager } from "../files/project-manager.js";
+import { fileManager } from "../files/file-manager.js";
+import {
+  languageOfCode,
+  languageOfFile,
+  isHeaderFile,
+  projectDesignSources,
+  sourceFileName,
+  combinedLanguage,
+  verilatorFlags,
+  verilatorBuildFlags,
+  yosysReadCommands,
+  yosysChparamCommands,
+  validateBuildOptions,
+  parseDiagnostics,
+  diagnosticsByFile,
+  readSourceFile,
+  LANGUAGE_OPTIONS,
+  type HdlBuildOptions,
+  type HdlDiagnostic,
+  type HdlLanguage,
+  type HdlSource,
+  type LanguageOption,
+} from "../hdl/index.js";
+
+// Diagnostics kept in the run record
+const MAX_STORED_DIAGNOSTICS = 500;
+
+/**
+ * Lint options (include dirs, defines and parameters from HdlBuildOptions)
+ */
+export interface LintOptions extends HdlBuildOptions {
+  verilogCode?: string;       // Verilog code as string
+  verilogFiles?: string[];    // OR: file paths to copy into the project
+  projectId?: string;         // OR: lint the design files already in the project's src/
+  projectName?: string;
+  topModule?: string;         // Default: the project's top module, else auto-detected
+  language?: LanguageOption;  // Default: auto
+  executor?: CommandExecutor;
+}
+
+/**
+ * Lint result interface
+ */
+export interface LintResult {
+  success: boolean;
+  projectId: string;
+  runId?: string;
+  topModule?: string;
+  language?: HdlLanguage;
+  files?: string[];             // Project-relative files that were linted
+  linters?: string[];           // Linters that ran (verilator, yosys)
+  skippedLinters?: string[];    // Not installed
+  errors?: number;
+  warnings?: number;
+  diagnostics?: HdlDiagnostic[];
+  error?: string;
+}
+
+/**
+ * Lint Verilog/SystemVerilog RTL with Verilator and Yosys
+ */
+export async function lintVerilog(options: LintOptions): Promise<LintResult> {
+  const { verilogCode, verilogFiles, language = "auto" } = options;
+  const executor = options.executor || getExecutor();
+
+  if (!verilogCode && (!verilogFiles || verilogFiles.length === 0) && !options.projectId) {
+    return {
+      success: false,
+      projectId: "",
+      error: "Either 'verilog_code', 'verilog_files', or 'project_id' must be provided",
+    };
+  }
+
+  if (!LANGUAGE_OPTIONS.includes(language)) {
+    return {
+      success: false,
+      projectId: "",
+      error: `Invalid language '${language}' (expected one of: ${LANGUAGE_OPTIONS.join(", ")})`,
+    };
+  }
+
+  const buildError = validateBuildOptions(options);
+  if (buildError) {
+    return { success: false, projectId: "", error: buildError };
+  }
+
+  if (options.topModule && !/^[A-Za-z_][A-Za-z0-9_$]*$/.test(options.topModule)) {
+    return { success: false, projectId: "", error: `Invalid top module name: ${JSON.stringify(options.topModule)}` };
+  }
+
+  // Outside the try so that an exception still fails the run
+  let projectId = options.projectId || "";
+  let runId: string | undefined;
+
+  try {
+    // Ensure Docker container is running
+    if (!(await executor.ensureReady())) {
+      return {
+        success: false,
+        projectId: "",
+        error: "Docker container is not running. Please start the container first.",
+      };
+    }
+
+    // Create or get project
+    if (projectId) {
+      if (!projectManager.getProject(projectId)) {
+        return { success: false, projectId, error: `Project ${projectId} not found` };
+      }
+    } else {
+      const result = projectManager.createProject({
+        name: options.projectName || `lint_${Date.now()}`,
+        designName: options.topModule,
+        topModule: options.topModule,
+      });
+      projectId = result.project.id;
+    }
+    const { containerPath } = projectManager.getProjectPaths(projectId);
+    const topModule = options.topModule || projectManager.getProject(projectId)?.topModule || undefined;
+
+    const run = projectManager.createRun({
+      projectId,
+      runType: "lint",
+      config: {
+        topModule,
+        language: options.language,
+        includeDirs: options.includeDirs,
+        defines: options.defines,
+        parameters: options.parameters,
+      },
+    });
+    runId = run.id;
+    projectManager.startRun(run.id);
+
+    // Write the given sources, or collect the design files already in src/
+    const sources: HdlSource[] = [];
+    if (verilogCode) {
+      const codeLanguage = languageOfCode(verilogCode, language);
+      const name = sourceFileName("design", codeLanguage);
+      projectManager.writeDesignFile(projectId, name, verilogCode, run.id);
+      sources.push({ name, language: codeLanguage });
+    } else if (verilogFiles && verilogFiles.length > 0) {
+      for (const filePath of verilogFiles) {
+        const fileName = basename(filePath);
+        const content = await readSourceFile(filePath, executor);
+        if (content === null) {
+          projectManager.failRun(run.id, `Failed to read file ${filePath}`);
+          return { success: false, projectId, runId: run.id, error: `Failed to read file ${filePath}` };
+        }
+        projectManager.writeDesignFile(projectId, fileName, content, run.id);
+        if (!isHeaderFile(fileName)) {
+          sources.push({ name: fileName, language: languageOfFile(fileName, language) });
+        }
+      }
+    } else {
+      sources.push(...projectDesignSources(projectId, language));
+    }
+
+    if (sources.length === 0) {
+      projectManager.failRun(run.id, "No design files to lint");
+      return { success: false, projectId, runId: run.id, error: "No Verilog/SystemVerilog design files found in src/" };
+    }
+
+    const lintLanguage = combinedLanguage(sources);
+    const diagnostics: HdlDiagnostic[] = [];
+    const linters: string[] = [];
+    const skippedLinters: string[] = [];
+    const workdir = `${containerPath}/src`;
+
+    // Verilator: -Wno-fatal so every warning is reported and only errors fail
+    const verilator = await executor.run(
+      [
+        "verilator",
+        "--lint-only",
+        "-Wall",
+        "-Wno-fatal",
+        ...verilatorFlags(lintLanguage),
+        ...verilatorBuildFlags(options),
+        ...(topModule ? ["--top-module", topModule] : []),
+        ...sources.map((source) => source.name),
+      ],
+      { workdir, timeout: 120000 }
+    );
+    if (verilator.exitCode === 127) {
+      skippedLinters.push("verilator");
+    } else {
+      linters.push("verilator");
+      diagnostics.push(...parseDiagnostics(verilator.stderr, "verilator"));
+    }
+
+    // Yosys: elaborate, then check -assert for drivers, loops and latches
+    const script = [
+      yosysReadCommands(sources, "read_verilog", options),
+      ...(topModule ? yosysChparamCommands(options, topModule) : []),
+      topModule ? `hierarchy -check -top ${topModule}` : "hierarchy -check -auto-top",
+      "proc",
+      "check -assert",
+    ].join("\n");
+    fileManager.writeFile(projectId, "lint.ys", script, "config", run.id);
+
+    const yosys = await executor.run(["yosys", "-s", "../lint.ys"], { workdir, timeout: 120000 });
+    if (yosys.exitCode === 127) {
+      skippedLinters.push("yosys");
+    } else {
+      linters.push("yosys");
+      diagnostics.push(...parseYosysLint(`${yosys.stdout}\n${yosys.stderr}`));
+    }
+
+    if (linters.length === 0) {
+      projectManager.failRun(run.id, "Neither Verilator nor Yosys is available");
+      return {
+        success: false,
+        projectId,
+        runId: run.id,
+        skippedLinters,
+        error: "Neither Verilator nor Yosys is available. Run check_environment for details.",
+      };
+    }
+
+    // Tie diagnostics to project files (src/design.v, include/defs.vh)
+    for (const diagnostic of diagnostics) {
+      if (diagnostic.file) diagnostic.file = projectRelative(diagnostic.file, containerPath);
+    }
+
+    const errors = diagnostics.filter((d) => d.severity === "error").length;
+    const warnings = diagnostics.filter((d) => d.severity === "warning").length;
+
+    projectManager.completeRun(run.id, {
+      errors,
+      warnings,
+      linters,
+      files: sources.map((source) => `src/${source.name}`),
+      diagnostics: diagnostics.slice(0, MAX_STORED_DIAGNOSTICS),
+    });
+
+    return {
+      success: true,
+      projectId,
+      runId: run.id,
+      topModule,
+      language: lintLanguage,
+      files: sources.map((source) => `src/${source.name}`),
+      linters,
+      skippedLinters,
+      errors,
+      warnings,
+      diagnostics,
+    };
+  } catch (error: any) {
+    const message = error.message || String(error);
+    if (runId) projectManager.failRun(runId, message);
+    return { success: false, projectId, runId, error: message };
+  }
+}
+
+/**
+ * Problems reported by Yosys: front-end errors, check warnings and inferred latches
+ */
+function parseYosysLint(output: string): HdlDiagnostic[] {
+  const diagnostics = parseDiagnostics(output, "yosys");
+  const lines = output.split("\n");
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // e.g. Latch inferred for signal `\top.\q' from process `\top.$proc$design.v:5$1': $dlatch$design.v:5$2
+    const latch = line.match(/Latch inferred for signal `\\?[^.']*\.\\?([^']+)' from process `[^$]*\$proc\$([^:$]+):(\d+)/);
+    if (latch) {
+      diagnostics.push({
+        file: latch[2],
+        line: parseInt(latch[3], 10),
+        severity: "warning",
+        code: "LATCH",
+        message: `Latch inferred for signal '${latch[1]}'`,
+        tool: "yosys",
+      });
+      continue;
+    }
+
+    const warning = line.match(/^Warning:\s*(.*)$/);
+    if (!warning) continue;
+
+    // The source location is in the message or the indented lines that follow it
+    const details = [warning[1]];
+    while (i + 1 < lines.length && /^\s{2,}\S/.test(lines[i + 1])) {
+      details.push(lines[++i].trim());
+    }
+    const src = details.join(" ").match(/([^\s:$()]+\.(?:sv|svh|v|vh)):(\d+)(?:\.(\d+))?/);
+
+    diagnostics.push({
+      file: src?.[1],
+      line: src ? parseInt(src[2], 10) : undefined,
+      column: src?.[3] ? parseInt(src[3], 10) : undefined,
+      severity: "warning",
+      code: yosysCheckCode(warning[1]),
+      message: warning[1].trim(),
+      tool: "yosys",
+    });
+  }
+
+  return diagnostics;
+}
+
+function yosysCheckCode(message: string): string | undefined {
+  if (/multiple conflicting drivers|conflicting with a constant/i.test(message)) return "MULTIDRIVEN";
+  if (/used but has no driver|undriven/i.test(message)) return "UNDRIVEN";
+  if (/logic loop/i.test(message)) return "LOOP";
+  return undefined;
+}
+
+/**
+ * Map a path as printed by a tool running in src/ to a project-relative path
+ */
+function projectRelative(file: string, containerPath: string): string {
+  if (file.startsWith(`${containerPath}/`)) return file.slice(containerPath.length + 1);
+  if (file.startsWith("../")) return file.slice(3);
+  if (file.startsWith("./")) return `src/${file.slice(2)}`;
+  return file.startsWith("/") ? file : `src/${file}`;
+}
+
+/**
+ * Format lint result for MCP response
+ */
+export function formatLintResult(result: LintResult): string {
+  let note: string;
+  if (!result.success) {
+    note = "Lint failed to run. Check the error message for details.";
+  } else if (result.errors) {
+    note = `${result.errors} error(s) must be fixed before synthesis or OpenLane will succeed.`;
+  } else if (result.warnings) {
+    note = `No errors. Review the ${result.warnings} warning(s) (latches, width mismatches, undriven nets) before running OpenLane.`;
+  } else {
+    note = `Clean. Use project_id '${result.projectId}' for synthesis or the OpenLane flow.`;
+  }
+  if (result.skippedLinters?.length) {
+    note += ` Not installed, skipped: ${result.skippedLinters.join(", ")}.`;
+  }
+
+  return JSON.stringify({
+    success: result.success,
+    project_id: result.projectId,
+    run_id: result.runId,
+    top_module: result.topModule,
+    language: result.language,
+    files: result.files,
+    linters: result.linters,
+    errors: result.errors,
+    warnings: result.warnings,
+    diagnostics: result.diagnostics?.length ? diagnosticsByFile(result.diagnostics) : undefined,
+    records: result.diagnostics?.length
+      ? result.diagnostics.map(({ file, line, column, severity, code, message, tool }) =>
+          ({ file, line, column, severity, code, message, tool }))
+      : undefined,
+    error: result.error,
+    note,
+  }, null, 2);
+}
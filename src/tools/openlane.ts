@@ -4,10 +4,23 @@
  * Runs complete ASIC design flow (RTL to GDSII) using OpenLane in Docker
  */
 
-import { dockerManager } from "../docker/docker-manager.js";
+import { getExecutor, bashScript, type CommandExecutor } from "../executor/index.js";
 import { projectManager } from "../files/project-manager.js";
 import { pathResolver } from "../files/path-resolver.js";
 import { fileManager } from "../files/file-manager.js";
+import type { ProgressReporter } from "../types/progress.js";
+import type { ResultCacheEntry, RunSnapshot } from "../types/project.js";
+import { resultCache } from "../cache/index.js";
+import {
+  validateBuildOptions,
+  hasExternalIncludeDirs,
+  includeDirFiles,
+  librelaneBuildConfig,
+  isHeaderFile,
+  isTestbenchFile,
+  projectHeaderFiles,
+  type HdlBuildOptions,
+} from "../hdl/index.js";
 
 /**
  * OpenLane result interface
@@ -77,13 +90,15 @@ export interface OpenlaneResult {
     antennaClean: boolean;      // No antenna violations
     tapeoutReady: boolean;      // All checks pass
   };
+  cacheHit?: boolean;           // Reused an identical earlier run instead of running the flow
+  cachedFromRunId?: string;     // Run whose result was reused
   error?: string;
 }
 
 /**
  * OpenLane options
  */
-export interface OpenlaneOptions {
+export interface OpenlaneOptions extends HdlBuildOptions {
   verilogCode?: string;        // Verilog code as string
   verilogFiles?: string[];     // OR: array of Verilog file paths (container paths supported)
   designName: string;
@@ -92,6 +107,7 @@ export interface OpenlaneOptions {
   pdk?: "sky130A" | "gf180mcuD" | "ihp-sg13g2";
   projectId?: string;
   projectName?: string;
+  useCache?: boolean;          // Reuse the result of an identical earlier run (default: true)
   dieArea?: string;
   coreArea?: string;
 
@@ -100,8 +116,17 @@ export interface OpenlaneOptions {
   userConfigJson?: string;           // OR: User-defined config as JSON string
   userSdcContent?: string;           // User-defined SDC content (replaces auto-generated)
   userSdcFile?: string;              // OR: Path to user SDC file (container or host path)
+
+  // Background job integration (optional)
+  runId?: string;                    // Record into an existing run instead of creating one
+  executor?: CommandExecutor;        // Defaults to the active executor
+  onProgress?: ProgressReporter;     // Receives the current LibreLane step
+  restoreFrom?: RunSnapshot;         // Re-run with a previous run's exact inputs (RTL, config.json, SDC)
 }
 
+// LibreLane log kept with a cached result (only the start is shown to clients)
+const CACHED_LOG_LENGTH = 10_000;
+
 /**
  * Run complete OpenLane ASIC flow
  */
@@ -114,6 +139,7 @@ export async function runOpenlane(options: OpenlaneOptions): Promise<OpenlaneRes
     clockPeriod = 10.0,
     pdk = "sky130A",
   } = options;
+  const executor = options.executor || getExecutor();
 
   // Validate input - must have verilogCode, verilogFiles, or projectId
   if (!verilogCode && (!verilogFiles || verilogFiles.length === 0) && !options.projectId) {
@@ -125,9 +151,14 @@ export async function runOpenlane(options: OpenlaneOptions): Promise<OpenlaneRes
     };
   }
 
+  const buildError = validateBuildOptions(options);
+  if (buildError) {
+    return { success: false, projectId: "", designName, error: buildError };
+  }
+
   try {
     // Ensure Docker container is running
-    if (!(await dockerManager.ensureRunning())) {
+    if (!(await executor.ensureReady())) {
       return {
         success: false,
         projectId: "",
@@ -165,121 +196,140 @@ export async function runOpenlane(options: OpenlaneOptions): Promise<OpenlaneRes
       containerPath = result.containerPath;
     }
 
-    // Create a run for this OpenLane flow
-    const run = projectManager.createRun({
+    // Create a run for this OpenLane flow (or adopt the job's run)
+    const existingRun = options.runId ? projectManager.getRun(options.runId) : null;
+    const run = existingRun || projectManager.createRun({
       projectId,
       runType: "openlane",
-      config: { designName, clockPort, clockPeriod, pdk },
+      config: {
+        designName,
+        clockPort,
+        clockPeriod,
+        pdk,
+        includeDirs: options.includeDirs,
+        defines: options.defines,
+        parameters: options.parameters,
+      },
     });
     projectManager.startRun(run.id);
 
-    // Helper to check if a filename is a testbench (should be excluded from synthesis)
-    const isTestbench = (filename: string): boolean => {
-      const lower = filename.toLowerCase();
-      return lower.includes('testbench') ||
-             lower.includes('_tb.') ||
-             lower.includes('_tb_') ||
-             lower.endsWith('_tb.v') ||
-             lower.endsWith('_tb.sv') ||
-             lower.startsWith('tb_') ||
-             lower === 'tb.v' ||
-             lower === 'tb.sv';
-    };
-
-    // Track design files written (excluding testbenches)
+    // Track design files written (excluding testbenches), and headers they include
     const designFiles: string[] = [];
+    const headerFiles: string[] = [];
 
-    // Write the Verilog file(s)
-    if (verilogCode && verilogCode !== "// Using files from synthesis project") {
-      // Single code string provided
-      const fileName = `${designName}.v`;
-      projectManager.writeDesignFile(projectId, fileName, verilogCode, run.id);
-      designFiles.push(fileName);
-    } else if (verilogFiles && verilogFiles.length > 0) {
-      // File paths provided - read and copy files (supports container paths)
-      const path = await import("path");
-
-      for (const filePath of verilogFiles) {
-        try {
-          let content: string;
-          const fileName = path.basename(filePath);
+    // Inputs (relative to the project) recorded in the run's snapshot
+    let inputPaths: string[];
+
+    if (options.restoreFrom) {
+      projectManager.restoreSnapshot(projectId, options.restoreFrom);
+      inputPaths = options.restoreFrom.files.map((file) => file.path);
+    } else {
+      // Write the Verilog file(s)
+      if (verilogCode && verilogCode !== "// Using files from synthesis project") {
+        // Single code string provided
+        const fileName = `${designName}.v`;
+        projectManager.writeDesignFile(projectId, fileName, verilogCode, run.id);
+        designFiles.push(fileName);
+      } else if (verilogFiles && verilogFiles.length > 0) {
+        // File paths provided - read and copy files (supports container paths)
+        const path = await import("path");
+
+        for (const filePath of verilogFiles) {
+          try {
+            let content: string;
+            const fileName = path.basename(filePath);
+
+            // Skip testbench files
+            if (isTestbenchFile(fileName)) {
+              console.error(`Skipping testbench file: ${fileName}`);
+              continue;
+            }
+
+            // Check if this is a container path - read from container
+            if (pathResolver.isContainerPath(filePath)) {
+              const catResult = await executor.run(["cat", "--", filePath], { timeout: 10000 });
+              if (!catResult.success) {
+                projectManager.failRun(run.id, `Failed to read container file ${filePath}`);
+                return {
+                  success: false,
+                  projectId,
+                  designName,
+                  error: `Failed to read container file ${filePath}: ${catResult.stderr}`,
+                };
+              }
+              content = catResult.stdout;
+            } else {
+              // Read from host filesystem
+              const fs = await import("fs");
+              content = fs.readFileSync(filePath, "utf-8");
+            }
 
-          // Skip testbench files
-          if (isTestbench(fileName)) {
-            console.error(`Skipping testbench file: ${fileName}`);
-            continue;
+            projectManager.writeDesignFile(projectId, fileName, content, run.id);
+            (isHeaderFile(fileName) ? headerFiles : designFiles).push(fileName);
+          } catch (err: any) {
+            projectManager.failRun(run.id, `Failed to read file ${filePath}`);
+            return {
+              success: false,
+              projectId,
+              designName,
+              error: `Failed to read file ${filePath}: ${err.message}`,
+            };
           }
+        }
+      }
 
-          // Check if this is a container path - read from container
-          if (pathResolver.isContainerPath(filePath)) {
-            const catResult = await dockerManager.exec(`cat "${filePath}"`, { timeout: 10000 });
-            if (!catResult.success) {
-              projectManager.failRun(run.id, `Failed to read container file ${filePath}`);
-              return {
-                success: false,
-                projectId,
-                designName,
-                error: `Failed to read container file ${filePath}: ${catResult.stderr}`,
-              };
+      // If using existing project, scan src/ for design files (excluding testbenches)
+      if (designFiles.length === 0 && options.projectId) {
+        const listResult = await executor.run(
+          ["find", `${containerPath}/src`, "-maxdepth", "1", "(", "-name", "*.v", "-o", "-name", "*.sv", ")", "-printf", "%f\n"],
+          { workdir: containerPath }
+        );
+        if (listResult.success && listResult.stdout.trim()) {
+          for (const file of listResult.stdout.trim().split('\n').sort()) {
+            if (file && !isTestbenchFile(file)) {
+              designFiles.push(file);
             }
-            content = catResult.stdout;
-          } else {
-            // Read from host filesystem
-            const fs = await import("fs");
-            content = fs.readFileSync(filePath, "utf-8");
           }
+        }
+        // Fallback to design name if no files found
+        if (designFiles.length === 0) {
+          designFiles.push(`${designName}.v`);
+        }
+      }
 
-          projectManager.writeDesignFile(projectId, fileName, content, run.id);
-          designFiles.push(fileName);
-        } catch (err: any) {
-          projectManager.failRun(run.id, `Failed to read file ${filePath}`);
+      // Generate or use user-defined OpenLane config
+      let config: Record<string, any>;
+      if (options.userConfigJson) {
+        // Parse user-provided JSON config
+        try {
+          config = JSON.parse(options.userConfigJson);
+          console.error("Using user-defined config from JSON string");
+        } catch (e) {
           return {
             success: false,
             projectId,
             designName,
-            error: `Failed to read file ${filePath}: ${err.message}`,
+            error: `Invalid userConfigJson: ${e instanceof Error ? e.message : "parse error"}`,
           };
         }
-      }
-    }
-
-    // If using existing project, scan src/ for design files (excluding testbenches)
-    if (designFiles.length === 0 && options.projectId) {
-      const listResult = await dockerManager.exec(`ls ${containerPath}/src/*.v ${containerPath}/src/*.sv 2>/dev/null | xargs -n1 basename`, {
-        workdir: containerPath,
-      });
-      if (listResult.success && listResult.stdout.trim()) {
-        for (const file of listResult.stdout.trim().split('\n')) {
-          if (file && !isTestbench(file)) {
-            designFiles.push(file);
-          }
-        }
-      }
-      // Fallback to design name if no files found
-      if (designFiles.length === 0) {
-        designFiles.push(`${designName}.v`);
-      }
-    }
-
-    // Generate or use user-defined OpenLane config
-    let config: Record<string, any>;
-    if (options.userConfigJson) {
-      // Parse user-provided JSON config
-      try {
-        config = JSON.parse(options.userConfigJson);
-        console.error("Using user-defined config from JSON string");
-      } catch (e) {
-        return {
-          success: false,
-          projectId,
-          designName,
-          error: `Invalid userConfigJson: ${e instanceof Error ? e.message : "parse error"}`,
+      } else if (options.userConfig) {
+        // Use user-provided config object, merged with required fields
+        config = {
+          ...generateOpenlaneConfig({
+            designName,
+            clockPort,
+            clockPeriod,
+            pdk,
+            dieArea: options.dieArea,
+            coreArea: options.coreArea,
+            verilogFiles: designFiles,
+          }),
+          ...options.userConfig, // User overrides take precedence
         };
-      }
-    } else if (options.userConfig) {
-      // Use user-provided config object, merged with required fields
-      config = {
-        ...generateOpenlaneConfig({
+        console.error("Using user-defined config (merged with defaults)");
+      } else {
+        // Auto-generate config with specific design files (excludes testbenches)
+        config = generateOpenlaneConfig({
           designName,
           clockPort,
           clockPeriod,
@@ -287,80 +337,125 @@ export async function runOpenlane(options: OpenlaneOptions): Promise<OpenlaneRes
           dieArea: options.dieArea,
           coreArea: options.coreArea,
           verilogFiles: designFiles,
-        }),
-        ...options.userConfig, // User overrides take precedence
-      };
-      console.error("Using user-defined config (merged with defaults)");
-    } else {
-      // Auto-generate config with specific design files (excludes testbenches)
-      config = generateOpenlaneConfig({
-        designName,
-        clockPort,
-        clockPeriod,
-        pdk,
-        dieArea: options.dieArea,
-        coreArea: options.coreArea,
-        verilogFiles: designFiles,
-      });
-    }
-    fileManager.writeFile(projectId, "config.json", JSON.stringify(config, null, 2), "config", run.id);
-
-    // Generate or use user-defined constraint.sdc
-    // This SDC can be reused by ORFS AutoTuner without regeneration
-    let sdcContent: string;
-    if (options.userSdcContent) {
-      // Use user-provided SDC content directly
-      sdcContent = options.userSdcContent;
-      console.error("Using user-defined SDC content");
-    } else if (options.userSdcFile) {
-      // Read SDC from user-specified file (container or host path)
-      try {
-        // Try reading from container first
-        const readResult = await dockerManager.exec(`cat "${options.userSdcFile}" 2>/dev/null`);
-        if (readResult.success && readResult.stdout.trim()) {
-          sdcContent = readResult.stdout;
-          console.error(`Using user SDC file from container: ${options.userSdcFile}`);
-        } else {
-          // Try reading from host path via file manager
-          const hostSdc = fileManager.readFileByPath(options.userSdcFile);
-          if (hostSdc) {
-            sdcContent = hostSdc;
-            console.error(`Using user SDC file from host: ${options.userSdcFile}`);
+        });
+      }
+      // Include dirs, defines and parameters, unless the user config sets them itself
+      for (const [key, value] of Object.entries(librelaneBuildConfig(options))) {
+        if (config[key] === undefined) config[key] = value;
+      }
+      fileManager.writeFile(projectId, "config.json", JSON.stringify(config, null, 2), "config", run.id);
+
+      // Generate or use user-defined constraint.sdc
+      // This SDC can be reused by ORFS AutoTuner without regeneration
+      let sdcContent: string;
+      if (options.userSdcContent) {
+        // Use user-provided SDC content directly
+        sdcContent = options.userSdcContent;
+        console.error("Using user-defined SDC content");
+      } else if (options.userSdcFile) {
+        // Read SDC from user-specified file (container or host path)
+        try {
+          // Try reading from container first
+          const readResult = await executor.run(["cat", "--", options.userSdcFile]);
+          if (readResult.success && readResult.stdout.trim()) {
+            sdcContent = readResult.stdout;
+            console.error(`Using user SDC file from container: ${options.userSdcFile}`);
           } else {
-            return {
-              success: false,
-              projectId,
-              designName,
-              error: `Could not read user SDC file: ${options.userSdcFile}`,
-            };
+            // Try reading from host path via file manager
+            const hostSdc = fileManager.readFileByPath(options.userSdcFile);
+            if (hostSdc) {
+              sdcContent = hostSdc;
+              console.error(`Using user SDC file from host: ${options.userSdcFile}`);
+            } else {
+              return {
+                success: false,
+                projectId,
+                designName,
+                error: `Could not read user SDC file: ${options.userSdcFile}`,
+              };
+            }
           }
+        } catch (e) {
+          return {
+            success: false,
+            projectId,
+            designName,
+            error: `Error reading user SDC file: ${e instanceof Error ? e.message : "unknown error"}`,
+          };
         }
-      } catch (e) {
-        return {
-          success: false,
-          projectId,
+      } else {
+        // Auto-generate SDC
+        sdcContent = generateProjectConstraintSdc({
           designName,
-          error: `Error reading user SDC file: ${e instanceof Error ? e.message : "unknown error"}`,
-        };
+          clockPort,
+          clockPeriod,
+        });
       }
-    } else {
-      // Auto-generate SDC
-      sdcContent = generateProjectConstraintSdc({
-        designName,
-        clockPort,
-        clockPeriod,
+      fileManager.writeFile(projectId, "constraint.sdc", sdcContent, "constraint", run.id);
+      inputPaths = [
+        ...designFiles.map((file) => `src/${file}`),
+        ...headerFiles.map((file) => `src/${file}`),
+        ...projectHeaderFiles(projectId),
+        "config.json",
+        "constraint.sdc",
+        ...includeDirFiles(projectId, options),
+      ];
+    }
+    const snapshot = await projectManager.snapshotRun(run.id, projectId, [...new Set(inputPaths)], executor);
+
+    // Identical inputs and tool versions: reuse the earlier run directory instead of re-running the flow
+    // (not when headers come from outside the project, they are not part of the snapshot)
+    const cacheKey = options.useCache !== false && snapshot && !hasExternalIncludeDirs(options)
+      ? resultCache.keyFor("openlane", snapshot, { designName, clockPort, clockPeriod, pdk })
+      : null;
+    const cached = cacheKey ? resultCache.get(cacheKey) : null;
+
+    if (cached && (await reuseCachedRun(cached, containerPath, executor))) {
+      resultCache.recordHit(cached.key);
+      const { latestRun, gdsFile, gdsRelativePath, ppaMetrics, signoffStatus } = cached.result;
+
+      if (ppaMetrics) {
+        savePPAMetrics(run.id, ppaMetrics);
+      }
+      projectManager.completeRun(run.id, {
+        latestRun,
+        gdsFile,
+        ppaMetrics,
+        signoffStatus,
+        cacheHit: true,
+        cachedFromRunId: cached.runId,
       });
+
+      return {
+        success: true,
+        projectId,
+        runId: run.id,
+        designName,
+        hostPath,
+        containerPath,
+        latestRun,
+        gdsFile,
+        gdsPath: gdsRelativePath ? `${containerPath}/runs/${latestRun}/${gdsRelativePath}` : undefined,
+        stdout: cached.result.stdout,
+        stderr: cached.result.stderr,
+        ppaMetrics,
+        signoffStatus,
+        cacheHit: true,
+        cachedFromRunId: cached.runId,
+      };
     }
-    fileManager.writeFile(projectId, "constraint.sdc", sdcContent, "constraint", run.id);
+    if (cacheKey) resultCache.recordMiss();
 
     // Run LibreLane (OpenLane 2) in Docker container (this can take a long time)
     // LibreLane is the successor to OpenLane and uses `librelane` command
-    const openlaneCmd = `cd ${containerPath} && librelane --flow Classic config.json 2>&1`;
-
     console.error(`Starting LibreLane (OpenLane 2) flow for ${designName} in container...`);
     console.error(`This may take up to 10 minutes...`);
 
-    const result = await dockerManager.execLong(openlaneCmd, {
+    // Output arrives in arbitrary chunks, so keep a short tail to catch split step names
+    let currentStep: string | undefined;
+    let outputTail = "";
+
+    const result = await executor.run(["librelane", "--flow", "Classic", "config.json"], {
       workdir: containerPath,
       timeout: 600000, // 10 minutes
       onOutput: (data) => {
@@ -368,30 +463,31 @@ export async function runOpenlane(options: OpenlaneOptions): Promise<OpenlaneRes
         if (data.includes("Step") || data.includes("Complete") || data.includes("Running")) {
           console.error(`LibreLane: ${data.trim()}`);
         }
+
+        const text = outputTail + data;
+        outputTail = text.slice(-STEP_TAIL_LENGTH);
+        const step = parseLibreLaneStep(text);
+        if (step && step.name !== currentStep) {
+          currentStep = step.name;
+          options.onProgress?.({ progress: step.index, message: `LibreLane step ${step.name}` });
+        }
       },
     });
 
     // Find the latest run directory and GDS file
-    const { latestRun, gdsFile, gdsPath } = await findOpenlaneOutputs(projectId, containerPath);
+    const { latestRun, gdsFile, gdsPath } = await findOpenlaneOutputs(projectId, containerPath, executor);
 
     // Parse comprehensive signoff metrics from reports
     let ppaMetrics: SignoffMetrics | undefined;
     let signoffStatus: OpenlaneResult["signoffStatus"];
     if (result.success && latestRun) {
-      const metricsResult = await parsePPAMetrics(containerPath, latestRun, clockPeriod);
+      const metricsResult = await parsePPAMetrics(containerPath, latestRun, clockPeriod, executor);
       ppaMetrics = metricsResult.metrics;
       signoffStatus = metricsResult.signoffStatus;
 
       // Save PPA metrics to database (store key metrics for comparison)
       if (ppaMetrics && Object.keys(ppaMetrics).length > 0) {
-        projectManager.savePPAMetrics(run.id, {
-          areaUm2: ppaMetrics.areaUm2,
-          powerMw: ppaMetrics.totalPowerMw,
-          frequencyMhz: ppaMetrics.frequencyMhz,
-          wnsNs: ppaMetrics.setupWns,
-          tnsNs: ppaMetrics.setupTns,
-          cellCount: ppaMetrics.cellCount,
-        });
+        savePPAMetrics(run.id, ppaMetrics);
       }
     }
 
@@ -403,6 +499,19 @@ export async function runOpenlane(options: OpenlaneOptions): Promise<OpenlaneRes
         ppaMetrics,
         signoffStatus,
       });
+      if (cacheKey && latestRun) {
+        resultCache.store("openlane", cacheKey, run.id, projectId, {
+          latestRun,
+          gdsFile,
+          gdsRelativePath: gdsPath?.startsWith(`${containerPath}/runs/${latestRun}/`)
+            ? gdsPath.slice(`${containerPath}/runs/${latestRun}/`.length)
+            : undefined,
+          ppaMetrics,
+          signoffStatus,
+          stdout: result.stdout.slice(0, CACHED_LOG_LENGTH),
+          stderr: result.stderr.slice(0, CACHED_LOG_LENGTH),
+        });
+      }
     } else {
       projectManager.failRun(run.id, result.stderr);
     }
@@ -434,6 +543,50 @@ export async function runOpenlane(options: OpenlaneOptions): Promise<OpenlaneRes
   }
 }
 
+/**
+ * Store the key signoff metrics of a run for PPA comparison
+ */
+function savePPAMetrics(runId: string, ppaMetrics: SignoffMetrics): void {
+  projectManager.savePPAMetrics(runId, {
+    stage: "layout",
+    areaUm2: ppaMetrics.areaUm2,
+    powerMw: ppaMetrics.totalPowerMw,
+    frequencyMhz: ppaMetrics.frequencyMhz,
+    wnsNs: ppaMetrics.setupWns,
+    tnsNs: ppaMetrics.setupTns,
+    cellCount: ppaMetrics.cellCount,
+  });
+}
+
+/**
+ * Make a cached LibreLane run directory the project's latest run
+ * Copies it over when the cached run belongs to another project. Returns
+ * false (and drops the entry) if the directory no longer exists.
+ */
+async function reuseCachedRun(
+  entry: ResultCacheEntry,
+  containerPath: string,
+  executor: CommandExecutor
+): Promise<boolean> {
+  const latestRun = entry.result.latestRun as string | undefined;
+  const sourceDir = `${projectManager.getProjectPaths(entry.projectId).containerPath}/runs/${latestRun}`;
+  const targetDir = `${containerPath}/runs/${latestRun}`;
+
+  const result = latestRun
+    ? await executor.run(
+        bashScript('if [ "$1" != "$2" ] && [ ! -e "$2" ]; then cp -r -- "$1" "$2" || exit 1; fi; [ -d "$2" ] && touch -- "$2"', sourceDir, targetDir),
+        { workdir: containerPath, timeout: 600000 }
+      )
+    : undefined;
+
+  if (!result?.success) {
+    console.error(`Dropping cache entry ${entry.key}: run directory ${sourceDir} is no longer available`);
+    resultCache.invalidate(entry.key);
+    return false;
+  }
+  return true;
+}
+
 /**
  * Generate SDC constraint file for the design
  * This creates a canonical constraint.sdc that can be used by both LibreLane and ORFS AutoTuner
@@ -536,40 +689,62 @@ function generateOpenlaneConfig(options: {
   return config;
 }
 
+const STEP_TAIL_LENGTH = 200;
+
+/**
+ * Extract the latest LibreLane step from flow output
+ *
+ * Each step runs in a numbered directory under the run dir
+ * (e.g. runs/RUN_.../23-openroad-globalrouting), which LibreLane logs as
+ * the step starts. A name at the very end of the text may be cut off, so
+ * it is only accepted once followed by another character.
+ */
+export function parseLibreLaneStep(output: string): { index: number; name: string } | null {
+  const matches = [...output.matchAll(/\/(\d{1,3})-([a-z][a-z0-9]*(?:-[a-z0-9]+)+)(?=[^a-z0-9-])/g)];
+  const last = matches[matches.length - 1];
+  if (!last) return null;
+  return { index: parseInt(last[1], 10), name: `${last[1]}-${last[2]}` };
+}
+
 /**
  * Find OpenLane outputs (latest run and GDS file)
  * LibreLane outputs GDS in numbered step directories like:
  * - 56-magic-streamout/<design>.gds (main GDS)
  * - 57-klayout-streamout/<design>.klayout.gds
  */
-async function findOpenlaneOutputs(projectId: string, containerPath: string): Promise<{
+async function findOpenlaneOutputs(
+  projectId: string,
+  containerPath: string,
+  executor: CommandExecutor = getExecutor()
+): Promise<{
   latestRun?: string;
   gdsFile?: string;
   gdsPath?: string;
 }> {
   try {
     // List runs directory
-    const listRunsCmd = `ls -t ${containerPath}/runs 2>/dev/null | head -1`;
-    const runsResult = await dockerManager.exec(listRunsCmd, { workdir: containerPath });
+    const runsResult = await executor.run(["ls", "-t", "--", `${containerPath}/runs`], { workdir: containerPath });
+    const latestRun = runsResult.stdout.split("\n")[0].trim();
 
-    if (!runsResult.success || !runsResult.stdout.trim()) {
+    if (!runsResult.success || !latestRun) {
       return {};
     }
 
-    const latestRun = runsResult.stdout.trim();
-
     // Find GDS file - check multiple possible locations
     // 1. LibreLane magic-streamout directory (preferred - main GDS output)
     // 2. LibreLane final directory
     // 3. OpenLane 1.x results directory
-    const findGdsCmd = `find ${containerPath}/runs/${latestRun} -name "*.gds" ! -name "*.magic.gds" ! -name "*.klayout.gds" 2>/dev/null | head -1`;
-    const gdsResult = await dockerManager.exec(findGdsCmd, { workdir: containerPath });
+    const gdsResult = await executor.run(
+      ["find", `${containerPath}/runs/${latestRun}`, "-name", "*.gds", "!", "-name", "*.magic.gds", "!", "-name", "*.klayout.gds"],
+      { workdir: containerPath }
+    );
 
     let gdsFile: string | undefined;
     let gdsPath: string | undefined;
 
-    if (gdsResult.success && gdsResult.stdout.trim()) {
-      gdsPath = gdsResult.stdout.trim();
+    const firstGds = gdsResult.stdout.split("\n")[0].trim();
+    if (firstGds) {
+      gdsPath = firstGds;
       gdsFile = gdsPath.split("/").pop();
     }
 
@@ -583,7 +758,12 @@ async function findOpenlaneOutputs(projectId: string, containerPath: string): Pr
  * Parse comprehensive signoff metrics from LibreLane's final/metrics.json
  * Extracts all critical metrics needed for tapeout readiness assessment
  */
-async function parsePPAMetrics(containerPath: string, latestRun: string, clockPeriod?: number): Promise<{
+async function parsePPAMetrics(
+  containerPath: string,
+  latestRun: string,
+  clockPeriod?: number,
+  executor: CommandExecutor = getExecutor()
+): Promise<{
   metrics: SignoffMetrics;
   signoffStatus: OpenlaneResult["signoffStatus"];
 }> {
@@ -598,8 +778,10 @@ async function parsePPAMetrics(containerPath: string, latestRun: string, clockPe
 
   try {
     // Read metrics.json from final directory (LibreLane format)
-    const metricsCmd = `cat ${containerPath}/runs/${latestRun}/final/metrics.json 2>/dev/null`;
-    const metricsResult = await dockerManager.exec(metricsCmd, { workdir: containerPath });
+    const metricsResult = await executor.run(
+      ["cat", "--", `${containerPath}/runs/${latestRun}/final/metrics.json`],
+      { workdir: containerPath }
+    );
 
     if (metricsResult.success && metricsResult.stdout.trim()) {
       try {
@@ -798,8 +980,10 @@ export async function readOpenlaneReports(projectId: string, reportType?: string
 
     // Read metrics.json first (LibreLane format - has all the key metrics)
     let metricsJson: Record<string, any> | undefined;
-    const metricsCmd = `cat ${paths.containerPath}/runs/${latestRun}/final/metrics.json 2>/dev/null`;
-    const metricsResult = await dockerManager.exec(metricsCmd, { workdir: paths.containerPath });
+    const metricsResult = await getExecutor().run(
+      ["cat", "--", `${paths.containerPath}/runs/${latestRun}/final/metrics.json`],
+      { workdir: paths.containerPath }
+    );
 
     if (metricsResult.success && metricsResult.stdout.trim()) {
       try {
@@ -834,8 +1018,14 @@ export async function readOpenlaneReports(projectId: string, reportType?: string
     for (const type of reportTypes) {
       const stepDir = stepMappings[type] || type;
       // Look for reports in the step directory
-      const readCmd = `find ${paths.containerPath}/runs/${latestRun}/*${stepDir}* -name "*.rpt" -o -name "*.log" 2>/dev/null | head -3 | xargs cat 2>/dev/null | head -500`;
-      const result = await dockerManager.exec(readCmd, { workdir: paths.containerPath });
+      const result = await getExecutor().run(
+        bashScript(
+          `find "$1"/*"$2"* -name "*.rpt" -o -name "*.log" 2>/dev/null | head -3 | xargs -r -d '\\n' cat 2>/dev/null | head -500`,
+          `${paths.containerPath}/runs/${latestRun}`,
+          stepDir
+        ),
+        { workdir: paths.containerPath }
+      );
 
       if (result.success && result.stdout.trim()) {
         reports[type] = result.stdout.trim();
@@ -843,8 +1033,10 @@ export async function readOpenlaneReports(projectId: string, reportType?: string
     }
 
     // Also read flow.log summary
-    const flowLogCmd = `tail -100 ${paths.containerPath}/runs/${latestRun}/flow.log 2>/dev/null`;
-    const flowLogResult = await dockerManager.exec(flowLogCmd, { workdir: paths.containerPath });
+    const flowLogResult = await getExecutor().run(
+      ["tail", "-100", "--", `${paths.containerPath}/runs/${latestRun}/flow.log`],
+      { workdir: paths.containerPath }
+    );
     if (flowLogResult.success && flowLogResult.stdout.trim()) {
       reports["flow_summary"] = flowLogResult.stdout.trim();
     }
@@ -909,9 +1101,11 @@ export function formatOpenlaneResult(result: OpenlaneResult): string {
     stderr: result.stderr ?
       (result.stderr.length > 2000 ? result.stderr.substring(0, 2000) + "...(truncated)" : result.stderr) :
       undefined,
+    cache_hit: result.cacheHit || undefined,
+    cached_from_run_id: result.cachedFromRunId,
     error: result.error,
     note: result.success ?
-      `OpenLane flow completed. GDS: ${result.gdsFile || "N/A"}. Use view_gds with project_id '${result.projectId}' to open in KLayout via VNC.` :
+      `${result.cacheHit ? `Result reused from identical run '${result.cachedFromRunId}' (cache hit). ` : ""}OpenLane flow completed. GDS: ${result.gdsFile || "N/A"}. Use view_gds with project_id '${result.projectId}' to open in KLayout via VNC.` :
       "OpenLane flow failed. Check the error message for details."
   }, null, 2);
 }
@@ -0,0 +1,161 @@
+/**
+ * Pre-layout STA - Timing and power estimate on a synthesized sky130 netlist
+ *
+ * Runs OpenSTA (through OpenROAD) on output/synth_output.v with an SDC
+ * for the given clock (output/pre_layout.sdc). No parasitics are read and no wire-load model
+ * is set, so nets are ideal: the numbers are an optimistic estimate to
+ * compare design variants before committing to a full OpenLane run.
+ */
+
+import { getExecutor, type CommandExecutor } from "../executor/index.js";
+import { projectManager } from "../files/project-manager.js";
+import { fileManager } from "../files/file-manager.js";
+import { generateProjectConstraintSdc } from "./openlane.js";
+
+// SDC of the estimate, written for each call's clock (under output/)
+const SDC_FILE = "pre_layout.sdc";
+
+// Typical corner of the sky130 high-density library (also used by the sky130 synthesis target)
+export const SKY130_HD_LIBERTY = "/foss/pdks/sky130A/libs.ref/sky130_fd_sc_hd/lib/sky130_fd_sc_hd__tt_025C_1v80.lib";
+
+/**
+ * Pre-layout estimate of a synthesized netlist
+ */
+export interface PreLayoutEstimate {
+  success: boolean;
+  constrained?: boolean;        // false: the clock port is not in the design, paths are unconstrained
+  clockPort?: string;
+  clockPeriod?: number;         // ns
+  criticalPathNs?: number;      // Data arrival time of the worst path
+  frequencyMhz?: number;        // Achievable frequency (clock period minus the worst slack)
+  wnsNs?: number;               // Worst setup slack
+  tnsNs?: number;
+  areaUm2?: number;             // Cell area from Yosys stat -liberty
+  internalPowerMw?: number;
+  switchingPowerMw?: number;
+  leakagePowerMw?: number;
+  totalPowerMw?: number;
+  sdcFile?: string;
+  error?: string;
+}
+
+/**
+ * Estimate timing and power of output/synth_output.v and store it as
+ * PPA metrics of the synthesis run (stage "synthesis")
+ */
+export async function estimatePreLayoutPPA(options: {
+  projectId: string;
+  runId: string;
+  topModule: string;
+  clockPort?: string;           // Default: clk
+  clockPeriod?: number;         // Default: 10 ns
+  areaUm2?: number;
+  cellCount?: number;
+  executor?: CommandExecutor;
+}): Promise<PreLayoutEstimate> {
+  const { projectId, runId, topModule, clockPort = "clk", clockPeriod = 10, areaUm2, cellCount } = options;
+  const executor = options.executor || getExecutor();
+
+  if (!/^[A-Za-z_][A-Za-z0-9_$]*$/.test(clockPort)) {
+    return { success: false, error: `Invalid clock port name: ${JSON.stringify(clockPort)}` };
+  }
+  if (!(clockPeriod > 0)) {
+    return { success: false, error: "'clock_period' must be greater than 0" };
+  }
+
+  const netlist = fileManager.readFile(projectId, "synth_output.v");
+  if (!netlist) {
+    return { success: false, error: "No synthesized netlist found" };
+  }
+
+  // Designs without the clock port are timed input to output, unconstrained
+  const constrained = new RegExp(`\\binput\\s+(?:wire\\s+)?(?:\\[[^\\]]*\\]\\s*)?${clockPort.replace(/\$/g, "\\$")}\\s*[;,)]`).test(netlist);
+  let sdcFile: string | undefined;
+  if (constrained) {
+    // The SDC run_openlane would generate, for this clock (the frequency is derived from its period)
+    sdcFile = `output/${SDC_FILE}`;
+    const sdc = generateProjectConstraintSdc({ designName: topModule, clockPort, clockPeriod });
+    fileManager.writeFile(projectId, SDC_FILE, sdc, "output", runId);
+  }
+
+  const script = [
+    `read_liberty ${SKY130_HD_LIBERTY}`,
+    "read_verilog output/synth_output.v",
+    `link_design ${topModule}`,
+    ...(sdcFile ? [`read_sdc ${sdcFile}`] : []),
+    `report_checks -path_delay max -digits 3${constrained ? "" : " -unconstrained"}`,
+    ...(constrained ? ["report_worst_slack -max -digits 3", "report_tns -digits 3"] : []),
+    "report_power -digits 6",
+  ].join("\n");
+
+  const { containerPath } = projectManager.getProjectPaths(projectId);
+  const result = await executor.run(["openroad", "-no_init", "-exit"], {
+    workdir: containerPath,
+    stdin: script,
+    timeout: 300000,
+  });
+  const log = `${result.stdout}\n${result.stderr}`;
+  fileManager.writeFile(projectId, "pre_layout_sta.log", log, "report", runId);
+
+  if (!result.success) {
+    const staError = log.match(/^(?:Error|ERROR):?\s*(.*)$/m)?.[1];
+    return {
+      success: false,
+      error: result.exitCode === 127
+        ? "OpenROAD (OpenSTA) is not installed. Run check_environment for details."
+        : `OpenSTA failed: ${staError || "see output/pre_layout_sta.log"}`,
+    };
+  }
+
+  const estimate = parseStaReport(log);
+  const period = constrained ? clockPeriod - (estimate.wnsNs ?? 0) : estimate.criticalPathNs;
+  const frequencyMhz = period && period > 0 ? Math.round((1000 / period) * 100) / 100 : undefined;
+
+  projectManager.savePPAMetrics(runId, {
+    stage: "synthesis",
+    areaUm2,
+    powerMw: estimate.totalPowerMw,
+    frequencyMhz,
+    wnsNs: estimate.wnsNs,
+    tnsNs: estimate.tnsNs,
+    cellCount,
+  });
+
+  return {
+    success: true,
+    constrained,
+    clockPort: constrained ? clockPort : undefined,
+    clockPeriod: constrained ? clockPeriod : undefined,
+    ...estimate,
+    frequencyMhz,
+    areaUm2,
+    sdcFile,
+  };
+}
+
+/**
+ * Parse report_checks, report_worst_slack, report_tns and report_power output
+ */
+function parseStaReport(log: string): Partial<PreLayoutEstimate> {
+  const number = (pattern: RegExp): number | undefined => {
+    const value = parseFloat(log.match(pattern)?.[1] ?? "");
+    return Number.isFinite(value) ? value : undefined;
+  };
+
+  // Power table row, in watts: Total  <internal> <switching> <leakage> <total>  100.0%
+  const power = log.match(/^Total\s+(\S+)\s+(\S+)\s+(\S+)\s+(\S+)/m);
+  const milliwatts = (value?: string): number | undefined => {
+    const watts = parseFloat(value ?? "");
+    return Number.isFinite(watts) ? watts * 1000 : undefined;
+  };
+
+  return {
+    criticalPathNs: number(/^\s*(-?[\d.]+)\s+data arrival time/m),
+    wnsNs: number(/^worst slack\s+(-?[\d.]+)/m),
+    tnsNs: number(/^tns\s+(-?[\d.]+)/m),
+    internalPowerMw: milliwatts(power?.[1]),
+    switchingPowerMw: milliwatts(power?.[2]),
+    leakagePowerMw: milliwatts(power?.[3]),
+    totalPowerMw: milliwatts(power?.[4]),
+  };
+}
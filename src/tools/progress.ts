@@ -0,0 +1,43 @@
+/**
+ * MCP Progress - Forwards tool progress as notifications/progress
+ */
+
+import type { ServerNotification } from "@modelcontextprotocol/sdk/types.js";
+import type { ProgressReporter } from "../types/progress.js";
+
+type ProgressToken = string | number;
+
+/**
+ * Create a reporter for a CallTool request
+ *
+ * Returns undefined when the client did not ask for progress. Progress
+ * values are forced to increase, as required by the MCP spec.
+ */
+export function createProgressReporter(
+  progressToken: ProgressToken | undefined,
+  sendNotification: (notification: ServerNotification) => Promise<void>
+): ProgressReporter | undefined {
+  if (progressToken === undefined) return undefined;
+
+  let last = 0;
+  let lastMessage = "";
+
+  return (update) => {
+    if (update.progress <= last && update.message === lastMessage) return;
+
+    last = update.progress > last ? update.progress : last + 0.01;
+    lastMessage = update.message;
+
+    sendNotification({
+      method: "notifications/progress",
+      params: {
+        progressToken,
+        progress: last,
+        total: update.total,
+        message: update.message,
+      },
+    }).catch((error) => {
+      console.error("Failed to send progress notification:", error);
+    });
+  };
+}
@@ -0,0 +1,505 @@
+/**
+ * Regression Tool - Self-checking testbenches run side by side
+ *
+ * Each test (optionally once per seed) is a simulate_verilog run of the
+ * project's design with one testbench, built in its own directory under
+ * output/regression/ so several run in parallel. A test passes when the
+ * simulator exits cleanly, no $error/$fatal was reported, and the output
+ * matches the pass/fail patterns. Results go into a JUnit XML report and
+ * are compared with the project's previous regression run. With coverage,
+ * the points of all tests are merged into one report.
+ */
+
+import { basename, extname } from "path";
+import { getExecutor, type CommandExecutor } from "../executor/index.js";
+import { projectManager } from "../files/project-manager.js";
+import { fileManager } from "../files/file-manager.js";
+import { validateBuildOptions, type HdlBuildOptions, type LanguageOption } from "../hdl/index.js";
+import {
+  mergeCoverage,
+  recordCoverage,
+  formatCoverageTotals,
+  type CoverageByKind,
+  type CoveragePoint,
+  type CoverageResult,
+} from "../coverage/index.js";
+import type { ProgressReporter } from "../types/progress.js";
+import { simulateVerilog, formatCoverage, SIMULATORS, type Simulator } from "./simulation.js";
+
+export type TestStatus = "pass" | "fail" | "error";
+
+// Written to output/ and tracked as a report
+export const JUNIT_FILE = "regression_junit.xml";
+
+const DEFAULT_PARALLEL = 4;
+const MAX_PARALLEL = 16;
+
+// Simulator messages of $error/$fatal (Icarus) and failed assertions or $stop (Verilator)
+const ASSERTION_PATTERN = /^(?:ERROR|FATAL|%Error|%Fatal)\b.*$/m;
+
+// Output kept per test for the JUnit report
+const MAX_JUNIT_OUTPUT = 20000;
+
+/**
+ * One testbench of a regression
+ */
+export interface RegressionTest {
+  testbench: string;            // Testbench file: in the project's src/ (e.g. tb/tb_fifo.v), or a host/container path
+  name?: string;                // Default: testbench file name without extension
+  topTestbench?: string;        // Simulation root (default: elaborated automatically)
+  defines?: HdlBuildOptions["defines"];
+  plusargs?: string[];
+  seeds?: number[];             // Run once per seed
+}
+
+/**
+ * Regression options
+ */
+export interface RegressionOptions extends HdlBuildOptions {
+  projectId: string;
+  tests: RegressionTest[];
+  randomSeeds?: number;         // Runs per test with random seeds, for tests without explicit seeds
+  parallel?: number;            // Simulations at a time (default: 4)
+  passPattern?: string;         // Regex the output must match to pass
+  failPattern?: string;         // Regex that fails the test when matched
+  simulator?: Simulator;
+  language?: LanguageOption;
+  coverage?: boolean;           // Collect coverage per test and merge it (see SimulationOptions.coverage)
+  runId?: string;               // Record into an existing run instead of creating one
+  executor?: CommandExecutor;
+  onProgress?: ProgressReporter;
+}
+
+/**
+ * Outcome of one test (one seed)
+ */
+export interface RegressionTestResult {
+  name: string;
+  seed?: number;
+  status: TestStatus;
+  reason?: string;              // Why the test failed
+  runId?: string;               // Simulation run
+  durationS: number;
+  exitCode?: number;
+  vcdFile?: string;
+  coverage?: CoverageByKind;
+}
+
+/**
+ * Regression result
+ */
+export interface RegressionResult {
+  success: boolean;             // The regression ran (see allPassed for the verdict)
+  allPassed?: boolean;
+  projectId: string;
+  runId?: string;
+  simulator?: Simulator;
+  total?: number;
+  passed?: number;
+  failed?: number;
+  errors?: number;
+  durationS?: number;
+  tests?: RegressionTestResult[];
+  previousRunId?: string;       // Regression run the results are compared with
+  regressions?: { name: string; lastPassedRunId?: string }[];  // Passed before, fail now
+  fixed?: string[];             // Failed before, pass now
+  newTests?: string[];
+  junitFile?: string;
+  coverage?: CoverageResult;    // Merged over all tests
+  coverageWarning?: string;
+  error?: string;
+}
+
+interface TestCase {
+  test: RegressionTest;
+  name: string;
+  seed?: number;
+}
+
+/**
+ * Run a list of testbenches against the project's design and report pass/fail per test
+ */
+export async function runRegression(options: RegressionOptions): Promise<RegressionResult> {
+  const { projectId, tests, simulator = "icarus", randomSeeds = 0 } = options;
+  const parallel = Math.min(MAX_PARALLEL, Math.max(1, Math.floor(options.parallel ?? DEFAULT_PARALLEL)));
+  const executor = options.executor || getExecutor();
+
+  let runId = options.runId;
+  const fail = (error: string): RegressionResult => {
+    if (runId) projectManager.failRun(runId, error);
+    return { success: false, projectId, runId, error };
+  };
+
+  if (!projectManager.getProject(projectId)) {
+    return fail(`Project ${projectId} not found`);
+  }
+  if (tests.length === 0) {
+    return fail("No tests given");
+  }
+  if (!SIMULATORS.includes(simulator)) {
+    return fail(`Invalid simulator '${simulator}' (expected one of: ${SIMULATORS.join(", ")})`);
+  }
+  if (!(Number.isInteger(randomSeeds) && randomSeeds >= 0 && randomSeeds <= 100)) {
+    return fail("'random_seeds' must be an integer between 0 and 100");
+  }
+  const buildError = validateBuildOptions(options);
+  if (buildError) {
+    return fail(buildError);
+  }
+
+  let passPattern: RegExp | undefined;
+  let failPattern: RegExp | undefined;
+  try {
+    passPattern = options.passPattern ? new RegExp(options.passPattern, "m") : undefined;
+    failPattern = options.failPattern ? new RegExp(options.failPattern, "m") : undefined;
+  } catch (error: any) {
+    return fail(`Invalid pass/fail pattern: ${error.message}`);
+  }
+
+  // One case per test and seed; random seeds are drawn here so they are recorded
+  const cases: TestCase[] = [];
+  const names = new Set<string>();
+  for (const test of tests) {
+    const name = test.name || basename(test.testbench, extname(test.testbench));
+    if (!/^[A-Za-z0-9_.-]+$/.test(name) || names.has(name)) {
+      return fail(`Invalid or duplicate test name ${JSON.stringify(name)}`);
+    }
+    names.add(name);
+    const seeds = test.seeds?.length
+      ? test.seeds
+      : Array.from({ length: randomSeeds }, () => Math.floor(Math.random() * 2 ** 31));
+    if (seeds.length === 0) {
+      cases.push({ test, name });
+    } else {
+      for (const seed of seeds) cases.push({ test, name, seed });
+    }
+  }
+
+  try {
+    if (!(await executor.ensureReady())) {
+      return fail("Docker container is not running. Please start the container first.");
+    }
+
+    if (!runId) {
+      runId = projectManager.createRun({
+        projectId,
+        runType: "regression",
+        config: {
+          tests,
+          randomSeeds,
+          parallel,
+          passPattern: options.passPattern,
+          failPattern: options.failPattern,
+          simulator,
+          language: options.language,
+          coverage: options.coverage,
+          includeDirs: options.includeDirs,
+          defines: options.defines,
+          parameters: options.parameters,
+        },
+      }).id;
+      projectManager.startRun(runId);
+    }
+
+    const startedAt = Date.now();
+    const results: RegressionTestResult[] = new Array(cases.length);
+    const outputs: string[] = new Array(cases.length);
+    const coverageSets: CoveragePoint[][] = [];
+    const coverageWarnings = new Set<string>();
+    let next = 0;
+    let done = 0;
+
+    // Workers take the next case until none are left
+    const worker = async () => {
+      while (next < cases.length) {
+        const index = next++;
+        const { test, name, seed } = cases[index];
+        const caseStart = Date.now();
+
+        const sim = await simulateVerilog({
+          projectId,
+          testbenchFiles: [test.testbench],
+          topTestbench: test.topTestbench,
+          simulator,
+          language: options.language,
+          includeDirs: options.includeDirs,
+          defines: { ...options.defines, ...test.defines },
+          parameters: options.parameters,
+          seed,
+          plusargs: test.plusargs,
+          outputDir: `regression/${seed === undefined ? name : `${name}_s${seed}`}`,
+          coverage: options.coverage,
+          testName: name,
+          parentRunId: runId,
+          executor,
+        });
+
+        const output = `${sim.simStdout || ""}\n${sim.simStderr || ""}`;
+        const verdict = judgeTest(sim, output, passPattern, failPattern);
+        if (verdict.status !== "pass" && sim.success && sim.runId) {
+          projectManager.failRun(sim.runId, verdict.reason);
+        }
+
+        results[index] = {
+          name,
+          seed,
+          ...verdict,
+          runId: sim.runId,
+          durationS: Math.round((Date.now() - caseStart) / 100) / 10,
+          exitCode: sim.simExitCode,
+          vcdFile: sim.vcdFile,
+          coverage: sim.coverage?.totals,
+        };
+        if (sim.coveragePoints) coverageSets.push(sim.coveragePoints);
+        if (sim.coverageWarning) coverageWarnings.add(sim.coverageWarning);
+        outputs[index] = sim.simStdout === undefined
+          ? `${sim.compileStdout || ""}\n${sim.compileStderr || ""}`
+          : output;
+
+        done++;
+        options.onProgress?.({
+          progress: done,
+          total: cases.length,
+          message: `${name}${seed === undefined ? "" : ` (seed ${seed})`}: ${verdict.status}`,
+        });
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(parallel, cases.length) }, worker));
+
+    const durationS = Math.round((Date.now() - startedAt) / 100) / 10;
+    const passed = results.filter((r) => r.status === "pass").length;
+    const failed = results.filter((r) => r.status === "fail").length;
+    const errors = results.filter((r) => r.status === "error").length;
+
+    // A test fails if any of its seeds fails
+    const testStatus: Record<string, TestStatus> = {};
+    for (const result of results) {
+      const current = testStatus[result.name];
+      if (!current || STATUS_RANK[result.status] > STATUS_RANK[current]) testStatus[result.name] = result.status;
+    }
+
+    const project = projectManager.getProject(projectId)!;
+    const junit = buildJunitXml(project.name, results, outputs, durationS);
+    fileManager.writeFile(projectId, JUNIT_FILE, junit, "report", runId);
+
+    const history = compareWithHistory(projectId, runId, testStatus);
+
+    // Coverage merged over all tests that produced it
+    let coverage: CoverageResult | undefined;
+    let coverageWarning = coverageWarnings.size > 0 ? [...coverageWarnings].join("; ") : undefined;
+    if (options.coverage && coverageSets.length > 0) {
+      coverage = recordCoverage({
+        projectId,
+        runId,
+        source: simulator === "verilator" ? "verilator" : "vcd",
+        points: mergeCoverage(coverageSets),
+        title: `regression run ${runId} (${coverageSets.length} of ${results.length} simulations merged)`,
+        dir: "regression",
+        writeDat: true,
+        saveHistory: true,
+      });
+    } else if (options.coverage) {
+      coverageWarning ||= "No test produced coverage";
+    }
+
+    projectManager.completeRun(runId, {
+      simulator,
+      allPassed: passed === results.length,
+      total: results.length,
+      passed,
+      failed,
+      errors,
+      durationS,
+      testStatus,
+      tests: results,
+      ...history,
+      junitFile: `output/${JUNIT_FILE}`,
+      coverage: coverage && { source: coverage.source, totals: coverage.totals, reportFile: coverage.reportFile },
+    });
+
+    return {
+      success: true,
+      allPassed: passed === results.length,
+      projectId,
+      runId,
+      simulator,
+      total: results.length,
+      passed,
+      failed,
+      errors,
+      durationS,
+      tests: results,
+      ...history,
+      junitFile: `output/${JUNIT_FILE}`,
+      coverage,
+      coverageWarning,
+    };
+  } catch (error: any) {
+    return fail(error.message || String(error));
+  }
+}
+
+const STATUS_RANK: Record<TestStatus, number> = { pass: 0, fail: 1, error: 2 };
+
+/**
+ * Pass/fail of one simulation: compile errors, exit code, $error/$fatal, then the patterns
+ */
+function judgeTest(
+  sim: Awaited<ReturnType<typeof simulateVerilog>>,
+  output: string,
+  passPattern?: RegExp,
+  failPattern?: RegExp
+): { status: TestStatus; reason?: string } {
+  if (sim.simExitCode === undefined) {
+    return { status: "error", reason: firstLine(sim.error) || "Simulation did not run" };
+  }
+  if (sim.simExitCode !== 0) {
+    return { status: "fail", reason: firstLine(output.match(ASSERTION_PATTERN)?.[0]) || `Exit code ${sim.simExitCode}` };
+  }
+  const assertion = output.match(ASSERTION_PATTERN);
+  if (assertion) {
+    return { status: "fail", reason: assertion[0].trim() };
+  }
+  const failMatch = failPattern && output.match(failPattern);
+  if (failMatch) {
+    return { status: "fail", reason: `Fail pattern matched: ${firstLine(failMatch[0])}` };
+  }
+  if (passPattern && !passPattern.test(output)) {
+    return { status: "fail", reason: "Pass pattern not found in the output" };
+  }
+  return { status: "pass" };
+}
+
+function firstLine(text?: string): string | undefined {
+  return text?.trim().split("\n")[0].slice(0, 300) || undefined;
+}
+
+/**
+ * Compare test statuses with the project's previous regression run
+ */
+function compareWithHistory(
+  projectId: string,
+  runId: string,
+  testStatus: Record<string, TestStatus>
+): Pick<RegressionResult, "previousRunId" | "regressions" | "fixed" | "newTests"> {
+  // Newest first
+  const history = projectManager.getProjectRuns(projectId).filter(
+    (run) => run.runType === "regression" && run.id !== runId && run.results?.testStatus
+  );
+  const previous = history[0];
+  if (!previous) {
+    return { newTests: Object.keys(testStatus) };
+  }
+
+  const before: Record<string, TestStatus> = previous.results!.testStatus;
+  const regressions: { name: string; lastPassedRunId?: string }[] = [];
+  const fixed: string[] = [];
+  const newTests: string[] = [];
+  for (const [name, status] of Object.entries(testStatus)) {
+    if (!before[name]) {
+      newTests.push(name);
+    } else if (before[name] === "pass" && status !== "pass") {
+      regressions.push({ name, lastPassedRunId: previous.id });
+    } else if (before[name] !== "pass" && status === "pass") {
+      fixed.push(name);
+    } else if (status !== "pass") {
+      // Still failing: point at the last run where it passed, if any
+      const lastPassed = history.find((run) => run.results!.testStatus[name] === "pass");
+      if (lastPassed) regressions.push({ name, lastPassedRunId: lastPassed.id });
+    }
+  }
+
+  return { previousRunId: previous.id, regressions, fixed, newTests };
+}
+
+/**
+ * JUnit XML with one testcase per test and seed
+ */
+function buildJunitXml(suite: string, results: RegressionTestResult[], outputs: string[], durationS: number): string {
+  const failures = results.filter((r) => r.status === "fail").length;
+  const errors = results.filter((r) => r.status === "error").length;
+  const attrs = `tests="${results.length}" failures="${failures}" errors="${errors}" skipped="0" time="${durationS}"`;
+
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="regression" ${attrs}>`,
+    `  <testsuite name="${xmlEscape(suite)}" ${attrs} timestamp="${new Date().toISOString()}">`,
+  ];
+  results.forEach((result, index) => {
+    const name = result.seed === undefined ? result.name : `${result.name}[seed=${result.seed}]`;
+    lines.push(`    <testcase classname="${xmlEscape(`${suite}.${result.name}`)}" name="${xmlEscape(name)}" time="${result.durationS}">`);
+    if (result.seed !== undefined) {
+      lines.push(`      <properties><property name="seed" value="${result.seed}"/></properties>`);
+    }
+    if (result.status !== "pass") {
+      const tag = result.status === "fail" ? "failure" : "error";
+      lines.push(`      <${tag} message="${xmlEscape(result.reason || "")}" type="${tag}"/>`);
+    }
+    const output = outputs[index] || "";
+    const tail = output.length > MAX_JUNIT_OUTPUT ? `...(truncated)\n${output.slice(-MAX_JUNIT_OUTPUT)}` : output;
+    lines.push(`      <system-out>${xmlEscape(tail.trim())}</system-out>`);
+    lines.push(`    </testcase>`);
+  });
+  lines.push(`  </testsuite>`, `</testsuites>`, "");
+  return lines.join("\n");
+}
+
+function xmlEscape(text: string): string {
+  return text
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Format regression result for MCP response
+ */
+export function formatRegressionResult(result: RegressionResult): string {
+  let note: string;
+  if (!result.tests) {
+    note = "Regression failed to run. Check the error message for details.";
+  } else {
+    const parts = [`${result.passed}/${result.total} passed`];
+    if (result.regressions?.length) {
+      parts.push(`REGRESSIONS since run ${result.previousRunId}: ${result.regressions.map((r) => r.name).join(", ")}`);
+    }
+    if (result.fixed?.length) parts.push(`fixed: ${result.fixed.join(", ")}`);
+    if (result.coverage) parts.push(`merged coverage: ${formatCoverageTotals(result.coverage.totals)} (annotated report: ${result.coverage.reportFile})`);
+    note = `${parts.join("; ")}. JUnit report with each test's output: ${result.junitFile}. Traces are under output/regression/<test>/.`;
+  }
+
+  return JSON.stringify({
+    success: result.success,
+    all_passed: result.allPassed,
+    project_id: result.projectId,
+    run_id: result.runId,
+    simulator: result.simulator,
+    total: result.total,
+    passed: result.passed,
+    failed: result.failed,
+    errors: result.errors,
+    duration_s: result.durationS,
+    tests: result.tests?.map((test) => ({
+      name: test.name,
+      seed: test.seed,
+      status: test.status,
+      reason: test.reason,
+      run_id: test.runId,
+      duration_s: test.durationS,
+      exit_code: test.exitCode,
+      vcd_file: test.vcdFile,
+      coverage: test.coverage ? formatCoverageTotals(test.coverage) : undefined,
+    })),
+    previous_run_id: result.previousRunId,
+    regressions: result.regressions?.map((r) => ({ name: r.name, last_passed_run_id: r.lastPassedRunId })),
+    fixed: result.fixed,
+    new_tests: result.newTests,
+    junit_file: result.junitFile,
+    coverage: result.coverage ? formatCoverage(result.coverage) : undefined,
+    coverage_warning: result.coverageWarning,
+    error: result.error,
+    note,
+  }, null, 2);
+}
@@ -0,0 +1,322 @@
+/**
+ * Reproduce Tool - Re-execute a past run from its input snapshot
+ *
+ * Restores the exact RTL, scripts and configs a run used, runs the same
+ * tool again into a new run (parent_run_id = original) and compares the
+ * resulting metrics and tool versions with the original.
+ */
+
+import type { CommandExecutor } from "../executor/index.js";
+import { projectManager } from "../files/project-manager.js";
+import type { CreateRunInput, Run, RunSnapshot, RunType } from "../types/project.js";
+import type { ProgressReporter } from "../types/progress.js";
+import { synthesizeVerilog } from "./synthesis.js";
+import { simulateVerilog } from "./simulation.js";
+import { runCocotb } from "./cocotb.js";
+import { runOpenlane } from "./openlane.js";
+
+const REPRODUCIBLE_RUN_TYPES: RunType[] = ["synthesis", "simulation", "openlane"];
+
+type MetricValue = number | string | undefined;
+
+/**
+ * A value that differs between the original and the reproduced run
+ */
+export interface ReproduceDiff {
+  name: string;
+  original: MetricValue;
+  reproduced: MetricValue;
+}
+
+/**
+ * Reproduce result interface
+ */
+export interface ReproduceResult {
+  success: boolean;
+  originalRunId: string;
+  reproducedRunId?: string;
+  projectId?: string;
+  runType?: RunType;
+  inputFiles?: number;
+  inputsMatch?: boolean;
+  toolVersionsMatch?: boolean;
+  toolVersionDiffs?: ReproduceDiff[];
+  metricsCompared?: number;
+  metricsMatch?: boolean;   // undefined when the original recorded no comparable metrics
+  metricDiffs?: ReproduceDiff[];
+  error?: string;
+}
+
+/**
+ * Reproduce options
+ */
+export interface ReproduceOptions {
+  runId: string;                 // Run to reproduce
+  jobRunId?: string;             // Record into this (background job) run instead of creating one
+  executor?: CommandExecutor;    // Defaults to the active executor
+  onProgress?: ProgressReporter;
+}
+
+/**
+ * Run record for a reproduction of the given run
+ */
+export function reproductionRunInput(original: Run): CreateRunInput {
+  return {
+    projectId: original.projectId,
+    runType: original.runType,
+    config: { ...original.config, reproducedFrom: original.id },
+    parentRunId: original.id,
+  };
+}
+
+/**
+ * Re-execute a run from its snapshot and compare the outcome
+ */
+export async function reproduceRun(options: ReproduceOptions): Promise<ReproduceResult> {
+  const originalRunId = options.runId;
+
+  const original = projectManager.getRun(originalRunId);
+  if (!original) {
+    return { success: false, originalRunId, error: `Run ${originalRunId} not found` };
+  }
+
+  if (!REPRODUCIBLE_RUN_TYPES.includes(original.runType)) {
+    return {
+      success: false,
+      originalRunId,
+      projectId: original.projectId,
+      runType: original.runType,
+      error: `Runs of type '${original.runType}' cannot be reproduced (supported: ${REPRODUCIBLE_RUN_TYPES.join(", ")})`,
+    };
+  }
+
+  const snapshot = projectManager.getRunSnapshot(original.id);
+  if (!snapshot || snapshot.files.length === 0) {
+    return {
+      success: false,
+      originalRunId,
+      projectId: original.projectId,
+      runType: original.runType,
+      error: `Run ${originalRunId} has no input snapshot (it predates snapshots or its inputs could not be read)`,
+    };
+  }
+
+  const existingRun = options.jobRunId ? projectManager.getRun(options.jobRunId) : null;
+  const run = existingRun || projectManager.createRun(reproductionRunInput(original));
+
+  const execution = await execute(original, snapshot, run.id, options);
+  const base = {
+    originalRunId,
+    reproducedRunId: run.id,
+    projectId: original.projectId,
+    runType: original.runType,
+    inputFiles: snapshot.files.length,
+  };
+
+  if (!execution.success) {
+    return { success: false, ...base, error: execution.error };
+  }
+
+  // Compare inputs, tool versions and metrics
+  const reproducedSnapshot = projectManager.getRunSnapshot(run.id);
+  const inputsMatch = !!reproducedSnapshot && sameInputs(snapshot, reproducedSnapshot);
+  const toolVersionDiffs = diffValues(snapshot.toolVersions, reproducedSnapshot?.toolVersions || {});
+
+  const originalMetrics = collectMetrics(original);
+  const reproducedMetrics = collectMetrics(projectManager.getRun(run.id) || run);
+  const metricDiffs = diffValues(originalMetrics, reproducedMetrics);
+  const metricsCompared = Object.keys(originalMetrics).length;
+
+  return {
+    success: true,
+    ...base,
+    inputsMatch,
+    toolVersionsMatch: toolVersionDiffs.length === 0,
+    toolVersionDiffs,
+    metricsCompared,
+    metricsMatch: metricsCompared > 0 ? metricDiffs.length === 0 : undefined,
+    metricDiffs,
+  };
+}
+
+/**
+ * Re-run the original tool with the restored inputs
+ */
+async function execute(
+  original: Run,
+  snapshot: RunSnapshot,
+  runId: string,
+  options: ReproduceOptions
+): Promise<{ success: boolean; error?: string }> {
+  const config = original.config || {};
+  const projectId = original.projectId;
+
+  switch (original.runType) {
+    case "synthesis":
+      return synthesizeVerilog({
+        topModule: config.topModule,
+        target: config.target,
+        language: config.language,
+        svFrontend: config.svFrontend,
+        includeDirs: config.includeDirs,
+        defines: config.defines,
+        parameters: config.parameters,
+        clockPort: config.clockPort,
+        clockPeriod: config.clockPeriod,
+        projectId,
+        runId,
+        restoreFrom: snapshot,
+        useCache: false,
+      });
+
+    case "simulation":
+      if (config.cocotb) {
+        return runCocotb({
+          simulator: config.simulator,
+          traceFormat: config.traceFormat,
+          language: config.language,
+          topModule: config.topModule,
+          testcases: config.testcases,
+          seed: config.seed,
+          plusargs: config.plusargs,
+          includeDirs: config.includeDirs,
+          defines: config.defines,
+          parameters: config.parameters,
+          projectId,
+          runId,
+          executor: options.executor,
+          restoreFrom: snapshot,
+        });
+      }
+      return simulateVerilog({
+        vcdFilename: config.vcdFilename,
+        language: config.language,
+        simulator: config.simulator,
+        traceFormat: config.traceFormat,
+        topModule: config.topModule,
+        topTestbench: config.topTestbench,
+        seed: config.seed,
+        plusargs: config.plusargs,
+        outputDir: config.outputDir,
+        coverage: config.coverage,
+        includeDirs: config.includeDirs,
+        defines: config.defines,
+        parameters: config.parameters,
+        projectId,
+        runId,
+        restoreFrom: snapshot,
+      });
+
+    case "openlane":
+      return runOpenlane({
+        designName: config.designName,
+        clockPort: config.clockPort,
+        clockPeriod: config.clockPeriod,
+        pdk: config.pdk,
+        includeDirs: config.includeDirs,
+        defines: config.defines,
+        parameters: config.parameters,
+        projectId,
+        runId,
+        executor: options.executor,
+        onProgress: options.onProgress,
+        restoreFrom: snapshot,
+        useCache: false,
+      });
+
+    default:
+      return { success: false, error: `Runs of type '${original.runType}' cannot be reproduced` };
+  }
+}
+
+/**
+ * Metrics that must be identical for a run to count as reproduced
+ */
+function collectMetrics(run: Run): Record<string, MetricValue> {
+  const metrics: Record<string, MetricValue> = {};
+
+  switch (run.runType) {
+    case "synthesis": {
+      const { cellBreakdown, hierarchy, ...statistics } = run.results?.statistics || {};
+      Object.assign(metrics, statistics);
+      for (const [cell, count] of Object.entries(cellBreakdown || {})) {
+        metrics[`cellBreakdown.${cell}`] = count as number;
+      }
+      break;
+    }
+
+    case "simulation":
+      if (run.results?.stdoutSha256) {
+        metrics.stdoutSha256 = run.results.stdoutSha256;
+      }
+      // cocotb logs wall-clock times, so its runs compare per-test status instead
+      for (const [test, status] of Object.entries(run.results?.testStatus || {})) {
+        metrics[`test.${test}`] = status as string;
+      }
+      break;
+
+    case "openlane": {
+      const ppa = projectManager.getPPAMetrics(run.id, "layout");
+      if (ppa) {
+        const { id, runId, ...values } = ppa;
+        for (const [name, value] of Object.entries(values)) {
+          if (value !== null && value !== undefined) metrics[name] = value;
+        }
+      }
+      break;
+    }
+  }
+
+  return metrics;
+}
+
+function sameInputs(a: RunSnapshot, b: RunSnapshot): boolean {
+  const key = (snapshot: RunSnapshot) =>
+    snapshot.files.map((file) => `${file.path}:${file.sha256}`).sort().join("\n");
+  return key(a) === key(b);
+}
+
+function diffValues(
+  original: Record<string, MetricValue>,
+  reproduced: Record<string, MetricValue>
+): ReproduceDiff[] {
+  const names = [...new Set([...Object.keys(original), ...Object.keys(reproduced)])].sort();
+  return names
+    .filter((name) => original[name] !== reproduced[name])
+    .map((name) => ({ name, original: original[name], reproduced: reproduced[name] }));
+}
+
+/**
+ * Format reproduce result for MCP response
+ */
+export function formatReproduceResult(result: ReproduceResult): string {
+  let note: string;
+  if (!result.success) {
+    note = "Reproduction failed. Check the error message for details.";
+  } else if (result.metricsMatch === undefined) {
+    note = "Reproduction finished, but the original run recorded no metrics to compare.";
+  } else if (result.metricsMatch && result.inputsMatch) {
+    note = "Run reproduced: identical inputs produced identical metrics.";
+  } else {
+    note = result.toolVersionsMatch
+      ? "Run did NOT reproduce with the same tool versions. See metric_diffs."
+      : "Run did NOT reproduce. Tool versions differ from the original run, see tool_version_diffs.";
+  }
+
+  return JSON.stringify({
+    success: result.success,
+    original_run_id: result.originalRunId,
+    reproduced_run_id: result.reproducedRunId,
+    project_id: result.projectId,
+    run_type: result.runType,
+    input_files: result.inputFiles,
+    inputs_match: result.inputsMatch,
+    tool_versions_match: result.toolVersionsMatch,
+    tool_version_diffs: result.toolVersionDiffs?.length ? result.toolVersionDiffs : undefined,
+    metrics_compared: result.metricsCompared,
+    metrics_match: result.metricsMatch,
+    metric_diffs: result.metricDiffs?.length ? result.metricDiffs : undefined,
+    error: result.error,
+    note,
+  }, null, 2);
+}
@@ -0,0 +1,250 @@
+/**
+ * Schematic Tool - Render a module's netlist as an image
+ *
+ * Draws a module before synthesis (RTL after `prep`) or after it (the
+ * synthesized netlist) with Yosys `show` (Graphviz) or netlistsvg on
+ * `write_json` output. The image is returned as MCP image content, so
+ * the structure can be inspected without the VNC GUI.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { getExecutor, yosysQuote, type CommandExecutor } from "../executor/index.js";
+import { projectManager } from "../files/project-manager.js";
+import { pathResolver } from "../files/path-resolver.js";
+import { fileManager } from "../files/file-manager.js";
+import {
+  projectDesignSources,
+  yosysReadCommands,
+  yosysChparamCommands,
+  validateBuildOptions,
+  type HdlBuildOptions,
+} from "../hdl/index.js";
+
+export type SchematicStage = "rtl" | "synth";
+export type SchematicRenderer = "yosys" | "netlistsvg";
+export type SchematicFormat = "png" | "svg";
+
+// Larger images are saved but not returned inline
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const MIME_TYPES: Record<SchematicFormat, string> = {
+  png: "image/png",
+  svg: "image/svg+xml",
+};
+
+// Plain or hierarchical (a.b) Verilog names, optionally with a bit index
+const NET_NAME = /^[A-Za-z_][A-Za-z0-9_$.]*(?:\[\d+\])?$/;
+
+/**
+ * Schematic options (build options apply to the RTL stage)
+ */
+export interface SchematicOptions extends HdlBuildOptions {
+  projectId: string;
+  module?: string;                // Default: the project's top module
+  stage?: SchematicStage;         // Default: rtl
+  renderer?: SchematicRenderer;   // Default: yosys
+  format?: SchematicFormat;       // Default: png
+  depth?: number;                 // Selection steps around the highlighted net (or back from the outputs)
+  highlightNet?: string;          // Net drawn in red (yosys renderer)
+  executor?: CommandExecutor;
+}
+
+/**
+ * Schematic result interface
+ */
+export interface SchematicResult {
+  success: boolean;
+  projectId: string;
+  module?: string;
+  stage?: SchematicStage;
+  renderer?: SchematicRenderer;
+  format?: SchematicFormat;
+  imageFile?: string;             // Project-relative path (output/)
+  mimeType?: string;
+  data?: string;                  // Base64 image, unless larger than MAX_IMAGE_BYTES
+  bytes?: number;
+  warning?: string;
+  error?: string;
+}
+
+/**
+ * Render a module's schematic
+ */
+export async function renderSchematic(options: SchematicOptions): Promise<SchematicResult> {
+  const { projectId, stage = "rtl", renderer = "yosys", format = "png", depth, highlightNet } = options;
+  const executor = options.executor || getExecutor();
+
+  const project = projectManager.getProject(projectId);
+  if (!project) {
+    return { success: false, projectId, error: `Project ${projectId} not found` };
+  }
+  const topModule = project.topModule || project.designName;
+  const module = options.module || topModule;
+
+  if (!module || !/^[A-Za-z_][A-Za-z0-9_$]*$/.test(module)) {
+    return {
+      success: false,
+      projectId,
+      error: module ? `Invalid module name: ${JSON.stringify(module)}` : "'module' is required (the project has no top module)",
+    };
+  }
+  if (highlightNet && !NET_NAME.test(highlightNet)) {
+    return { success: false, projectId, error: `Invalid net name: ${JSON.stringify(highlightNet)}` };
+  }
+  if (depth !== undefined && (!Number.isInteger(depth) || depth < 1 || depth > 100)) {
+    return { success: false, projectId, error: "'depth' must be an integer between 1 and 100" };
+  }
+  const buildError = validateBuildOptions(options);
+  if (buildError) {
+    return { success: false, projectId, error: buildError };
+  }
+
+  try {
+    if (!(await executor.ensureReady())) {
+      return {
+        success: false,
+        projectId,
+        error: "Docker container is not running. Please start the container first.",
+      };
+    }
+
+    const { containerPath } = projectManager.getProjectPaths(projectId);
+    const read: string[] = [];
+    if (stage === "rtl") {
+      const sources = projectDesignSources(projectId);
+      if (sources.length === 0) {
+        return { success: false, projectId, error: "No Verilog/SystemVerilog design files found in src/" };
+      }
+      read.push(yosysReadCommands(sources, "read_verilog", options));
+      if (module === topModule) read.push(...yosysChparamCommands(options, module));
+      read.push(`hierarchy -top ${module}`, "proc", "opt_clean");
+    } else {
+      if (!existsSync(pathResolver.getFileHostPath(projectId, "output/synth_output.v"))) {
+        return { success: false, projectId, error: "No synthesized netlist found. Run synthesize_verilog for this project first." };
+      }
+      read.push(`read_verilog ${yosysQuote("../output/synth_output.v")}`, `hierarchy -top ${module}`);
+    }
+
+    // What to draw: the whole module, or a cone around the net / back from the outputs
+    let selection = module;
+    if (highlightNet) {
+      selection = `${module}/w:${highlightNet} %x${depth ?? 2}`;
+    } else if (depth) {
+      selection = `${module}/o:* %ci${depth}`;
+    }
+
+    const prefix = `../output/schematic_${module}`;
+    const commands = [...read];
+    const steps: string[][] = [];
+    let imageFile = `output/schematic_${module}.${format}`;
+
+    if (renderer === "yosys") {
+      const highlight = highlightNet ? `-color red ${module}/w:${highlightNet} ` : "";
+      commands.push(`show -format ${format} -prefix ${yosysQuote(prefix)} ${highlight}-notitle ${selection}`);
+    } else {
+      commands.push(`select ${selection}`, `write_json -selected ${yosysQuote(`${prefix}.json`)}`);
+      steps.push(["netlistsvg", `${prefix}.json`, "-o", `${prefix}.svg`]);
+      if (format === "png") {
+        steps.push(["rsvg-convert", "-f", "png", "-o", `${prefix}.png`, `${prefix}.svg`]);
+      }
+    }
+    fileManager.writeFile(projectId, "schematic.ys", commands.join("\n"), "config");
+
+    const yosys = await executor.run(["yosys", "-q", "-s", "../schematic.ys"], {
+      workdir: `${containerPath}/src`,
+      timeout: 120000,
+    });
+    if (!yosys.success) {
+      const yosysError = `${yosys.stdout}\n${yosys.stderr}`.match(/ERROR:\s*(.*)$/m)?.[1];
+      return {
+        success: false,
+        projectId,
+        module,
+        stage,
+        error: yosys.exitCode === 127
+          ? "Yosys is not installed. Run check_environment for details."
+          : `Yosys failed: ${yosysError || yosys.stderr.trim()}`,
+      };
+    }
+
+    let warning: string | undefined;
+    for (const argv of steps) {
+      const step = await executor.run(argv, { workdir: `${containerPath}/src`, timeout: 120000 });
+      if (step.exitCode === 127 && argv[0] === "rsvg-convert") {
+        // Fall back to the SVG netlistsvg already wrote
+        imageFile = `output/schematic_${module}.svg`;
+        warning = "rsvg-convert is not installed; returning SVG instead of PNG";
+        break;
+      }
+      if (!step.success) {
+        return {
+          success: false,
+          projectId,
+          module,
+          stage,
+          error: step.exitCode === 127
+            ? `${argv[0]} is not installed. Use renderer 'yosys' instead.`
+            : `${argv[0]} failed: ${step.stderr.trim()}`,
+        };
+      }
+    }
+    if (renderer === "netlistsvg" && highlightNet) {
+      warning = "netlistsvg does not color nets; the schematic shows the cone around the net instead";
+    }
+
+    const hostFile = pathResolver.getFileHostPath(projectId, imageFile);
+    if (!existsSync(hostFile)) {
+      return { success: false, projectId, module, stage, error: `${imageFile} was not written` };
+    }
+    const image = readFileSync(hostFile);
+    const imageFormat: SchematicFormat = imageFile.endsWith(".svg") ? "svg" : "png";
+
+    return {
+      success: true,
+      projectId,
+      module,
+      stage,
+      renderer,
+      format: imageFormat,
+      imageFile,
+      mimeType: MIME_TYPES[imageFormat],
+      data: image.length <= MAX_IMAGE_BYTES ? image.toString("base64") : undefined,
+      bytes: image.length,
+      warning,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      projectId,
+      error: error.message || String(error),
+    };
+  }
+}
+
+/**
+ * Format schematic result for MCP response (the image itself is sent as image content)
+ */
+export function formatSchematicResult(result: SchematicResult): string {
+  let note: string;
+  if (!result.success) {
+    note = "Schematic rendering failed. Check the error message for details.";
+  } else if (!result.data) {
+    note = `The image is too large to return (${result.bytes} bytes). Limit it with 'depth' or 'highlight_net', or render a submodule.`;
+  } else {
+    note = `Schematic of ${result.module} (${result.stage === "synth" ? "synthesized netlist" : "RTL"}) saved to ${result.imageFile}.`;
+  }
+
+  return JSON.stringify({
+    success: result.success,
+    project_id: result.projectId,
+    module: result.module,
+    stage: result.stage,
+    renderer: result.renderer,
+    format: result.format,
+    image_file: result.imageFile,
+    bytes: result.bytes,
+    warning: result.warning,
+    error: result.error,
+    note,
+  }, null, 2);
+}
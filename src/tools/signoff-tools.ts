@@ -34,6 +34,8 @@ import {
   type ECOConfig,
   type ChecklistConfig,
 } from "../signoff/index.js";
+import type { CommandExecutor } from "../executor/index.js";
+import type { ProgressReporter } from "../types/progress.js";
 import { join } from "path";
 
 /**
@@ -103,6 +105,8 @@ export const signoffToolDefinitions = [
       runDir: z.string().describe("Run directory path"),
       platform: z.string().describe("Platform name"),
       maxIRDropMv: z.number().default(50).describe("Maximum allowed IR drop in mV"),
+      activityFile: z.string().optional().describe("VCD or SAIF from simulation (container path); default: vectorless activity"),
+      activityScope: z.string().optional().describe("Scope of the design in the activity file, e.g. tb/dut"),
     }),
   },
   {
@@ -257,6 +261,7 @@ export const signoffToolHandlers: Record<string, (args: Record<string, unknown>)
         timing: true,
       },
       limits: (args.limits as SignoffConfig["limits"]) || {},
+      executor: args.executor as CommandExecutor | undefined,
     };
 
     const report = await runAllSignoffChecks(config);
@@ -321,6 +326,9 @@ export const signoffToolHandlers: Record<string, (args: Record<string, unknown>)
       platform: args.platform as string,
       checks: { drc: false, lvs: false, antenna: false, irDrop: true, timing: false },
       limits: { maxIRDropMv: args.maxIRDropMv as number },
+      activity: args.activityFile
+        ? { file: args.activityFile as string, scope: args.activityScope as string }
+        : undefined,
     };
     const result = await runIRDropAnalysis(config);
     return {
@@ -345,9 +353,17 @@ export const signoffToolHandlers: Record<string, (args: Record<string, unknown>)
       enablePinSwap: args.enablePinSwap as boolean,
       targetWNS: args.targetWNS as number,
       stopOnConvergence: args.stopOnConvergence as boolean,
+      executor: args.executor as CommandExecutor | undefined,
     };
 
-    const result = await runIterativeECO(config);
+    const onProgress = args.onProgress as ProgressReporter | undefined;
+    const result = await runIterativeECO(config, onProgress
+      ? (iteration, wns) => onProgress({
+          progress: iteration,
+          total: config.maxIterations,
+          message: `ECO iteration ${iteration}/${config.maxIterations}: WNS ${wns.toFixed(3)} ns`,
+        })
+      : undefined);
 
     return {
       success: result.success,
@@ -451,6 +467,9 @@ export const signoffToolHandlers: Record<string, (args: Record<string, unknown>)
       platform: args.platform as string,
       design: args.design as string,
       requirements: args.requirements as ChecklistConfig["requirements"],
+      openlaneRunId: args.openlaneRunId as string | undefined,
+      equivalence: args.equivalence as ChecklistConfig["equivalence"],
+      coverage: args.coverage as ChecklistConfig["coverage"],
     };
 
     const checklist = await runTapeoutChecklist(config);
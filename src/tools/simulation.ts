@@ -1,13 +1,67 @@
 /**
  * Simulation Tool - Refactored for Docker execution
  *
- * Simulates Verilog code using Icarus Verilog running in the Docker container
+ * Simulates Verilog code using Icarus Verilog running in the Docker container,
+ * or Verilator (--binary for HDL testbenches, or a user-supplied C++ harness)
  */
 
-import { dockerManager } from "../docker/docker-manager.js";
+import { createHash } from "crypto";
+import { existsSync, readFileSync, rmSync, statSync } from "fs";
+import { basename, isAbsolute, join, posix } from "path";
+import { getExecutor, bashScript, type CommandExecutor, type ExecResult } from "../executor/index.js";
 import { projectManager } from "../files/project-manager.js";
 import { pathResolver } from "../files/path-resolver.js";
 import { fileManager } from "../files/file-manager.js";
+import {
+  languageOfCode,
+  languageOfFile,
+  isHeaderFile,
+  isTestbenchFile,
+  projectDesignSources,
+  projectTestbenchSources,
+  sourceFileName,
+  combinedLanguage,
+  iverilogFlags,
+  iverilogBuildFlags,
+  verilatorFlags,
+  verilatorBuildFlags,
+  validateBuildOptions,
+  includeDirFiles,
+  firstModuleName,
+  parseDiagnostics,
+  diagnosticsByFile,
+  readSourceFile,
+  parseFileList,
+  LANGUAGE_OPTIONS,
+  TESTBENCH_DIR,
+  type HdlBuildOptions,
+  type HdlDiagnostic,
+  type HdlLanguage,
+  type HdlSource,
+  type LanguageOption,
+} from "../hdl/index.js";
+import { readTraceFile } from "../waveform/index.js";
+import {
+  parseCoverageDat,
+  toggleCoverageFromVcd,
+  recordCoverage,
+  formatCoverageTotals,
+  type CoveragePoint,
+  type CoverageResult,
+} from "../coverage/index.js";
+import type { RunSnapshot } from "../types/project.js";
+
+export type Simulator = "icarus" | "verilator";
+export type TraceFormat = "vcd" | "fst";
+
+export const SIMULATORS: Simulator[] = ["icarus", "verilator"];
+
+// C++ harness for Verilator, written to src/
+const HARNESS_FILE = "sim_main.cpp";
+
+// Verilator build directory and executable (in output/)
+const VERILATOR_MDIR = "verilator";
+const VERILATOR_BINARY = "Vsim";
 
 /**
  * Simulation result interface
@@ -20,33 +74,118 @@ export interface SimulationResult {
   compileStderr?: string;
   simStdout?: string;
   simStderr?: string;
-  vcdFile?: string;
+  simExitCode?: number;
+  simulator?: Simulator;
+  files?: string[];            // Project-relative sources compiled (design first, then testbenches)
+  ignoredFileListEntries?: string[];  // .f options without a simulation equivalent
+  language?: HdlLanguage;      // Language generation used (-g2005 / -g2012, --default-language)
+  diagnostics?: HdlDiagnostic[];
+  vcdFile?: string;             // Trace file in output/ (VCD, or FST with Verilator --trace-fst)
   vcdContainerPath?: string;
   hostPath?: string;
   containerPath?: string;
+  coverage?: CoverageResult;
+  coveragePoints?: CoveragePoint[];  // Design points with counts, for merging across tests
+  coverageWarning?: string;
   error?: string;
 }
 
 /**
- * Simulation options
+ * Simulation options (include dirs, defines and testbench parameters from HdlBuildOptions)
  */
-export interface SimulationOptions {
-  verilogCode: string;
-  testbenchCode: string;
-  projectId?: string;  // Optional: use existing project
+export interface SimulationOptions extends HdlBuildOptions {
+  verilogCode?: string;         // Design code as string
+  testbenchCode?: string;       // Testbench code as string
+  verilogFiles?: string[];      // OR: design files (host or container paths, or files in the project's src/)
+  testbenchFiles?: string[];    // OR: testbench files (copied into src/tb/)
+  fileList?: string;            // OR: .f file list with sources, +incdir+ and +define+
+  topTestbench?: string;        // Simulation root module (default: elaborated automatically)
+  projectId?: string;  // Optional: use existing project; without code or files its sources are simulated
   projectName?: string; // Optional: name for new project
   vcdFilename?: string; // Optional: VCD output filename
+  language?: LanguageOption;  // Default: auto (SV if the code uses SystemVerilog constructs)
+  simulator?: Simulator;      // Default: icarus
+  traceFormat?: TraceFormat;  // Verilator trace format (default: vcd)
+  cppHarness?: string;        // Verilator: C++ main driving the design, instead of the HDL testbench
+  topModule?: string;         // Verilator with cppHarness: module the harness instantiates (default: first in the design)
+  seed?: number;              // Passed as +seed=<n> (and +verilator+seed+<n>); read it with $value$plusargs
+  plusargs?: string[];        // Runtime plusargs, e.g. +TEST=smoke
+  outputDir?: string;         // Build and trace directory under output/, cleared first (lets simulations of one project run side by side)
+  coverage?: boolean;         // Verilator: --coverage (line, toggle, user); Icarus: toggle coverage from the VCD
+
+  // Regression bookkeeping (optional)
+  testName?: string;           // Regression test this run belongs to
+  parentRunId?: string;        // Regression run that started this simulation
+  executor?: CommandExecutor;
+
+  // Reproduction (optional)
+  runId?: string;              // Record into an existing run instead of creating one
+  restoreFrom?: RunSnapshot;   // Re-run with a previous run's exact inputs instead of writing new ones
 }
 
 /**
  * Simulate Verilog code using Icarus Verilog in Docker
  */
 export async function simulateVerilog(options: SimulationOptions): Promise<SimulationResult> {
-  const { verilogCode, testbenchCode, vcdFilename = "output.vcd" } = options;
+  const { verilogCode, testbenchCode, vcdFilename = "output.vcd", language = "auto" } = options;
+  const { simulator = "icarus", traceFormat = "vcd", cppHarness } = options;
+
+  if (!LANGUAGE_OPTIONS.includes(language)) {
+    return {
+      success: false,
+      projectId: "",
+      error: `Invalid language '${language}' (expected one of: ${LANGUAGE_OPTIONS.join(", ")})`,
+    };
+  }
+
+  if (!SIMULATORS.includes(simulator) || !["vcd", "fst"].includes(traceFormat)) {
+    return {
+      success: false,
+      projectId: "",
+      error: `Invalid simulator '${simulator}' or trace_format '${traceFormat}' (simulator: ${SIMULATORS.join(", ")}; trace_format: vcd, fst)`,
+    };
+  }
+
+  if (cppHarness && simulator !== "verilator") {
+    return { success: false, projectId: "", error: "'cpp_harness' requires simulator 'verilator'" };
+  }
+
+  for (const name of [options.topModule, options.topTestbench]) {
+    if (name && !/^[A-Za-z_][A-Za-z0-9_$]*$/.test(name)) {
+      return { success: false, projectId: "", error: `Invalid module name: ${JSON.stringify(name)}` };
+    }
+  }
+
+  const hasDesignInput = !!verilogCode || !!options.verilogFiles?.length || !!options.fileList;
+  if (!hasDesignInput && !options.projectId && !options.restoreFrom) {
+    return {
+      success: false,
+      projectId: "",
+      error: "Either 'verilog_code', 'verilog_files', 'file_list', or 'project_id' must be provided",
+    };
+  }
+
+  const buildError = validateBuildOptions(options);
+  if (buildError) {
+    return { success: false, projectId: "", error: buildError };
+  }
+
+  if (options.seed !== undefined && !(Number.isInteger(options.seed) && options.seed >= 0)) {
+    return { success: false, projectId: "", error: "'seed' must be a non-negative integer" };
+  }
+  const badPlusarg = options.plusargs?.find((arg) => !/^\+\S+$/.test(arg));
+  if (badPlusarg !== undefined) {
+    return { success: false, projectId: "", error: `Invalid plusarg ${JSON.stringify(badPlusarg)} (expected +name or +name=value)` };
+  }
+  if (options.outputDir && (!/^[A-Za-z0-9_][A-Za-z0-9_.\/-]*$/.test(options.outputDir) || options.outputDir.split("/").includes(".."))) {
+    return { success: false, projectId: "", error: `Invalid output directory ${JSON.stringify(options.outputDir)}` };
+  }
+
+  const executor = options.executor || getExecutor();
 
   try {
     // Ensure Docker container is running
-    if (!(await dockerManager.ensureRunning())) {
+    if (!(await executor.ensureReady())) {
       return {
         success: false,
         projectId: "",
@@ -83,24 +222,220 @@ export async function simulateVerilog(options: SimulationOptions): Promise<Simul
       containerPath = result.containerPath;
     }
 
-    // Create a run for this simulation
-    const run = projectManager.createRun({
+    // A file list adds sources, include directories and defines (explicit options win)
+    let build: HdlBuildOptions = options;
+    let fileListSources: string[] = [];
+    let ignoredFileListEntries: string[] | undefined;
+    if (options.fileList && !options.restoreFrom) {
+      const listPath = projectFilePath(projectId, options.fileList);
+      const content = await readSourceFile(listPath, executor);
+      if (content === null) {
+        return { success: false, projectId, hostPath, containerPath, error: `Failed to read file list ${options.fileList}` };
+      }
+      const list = parseFileList(content, listPath);
+      fileListSources = list.files;
+      ignoredFileListEntries = list.ignored.length > 0 ? list.ignored : undefined;
+      build = {
+        ...options,
+        includeDirs: [...(options.includeDirs || []), ...list.includeDirs],
+        defines: { ...list.defines, ...options.defines },
+      };
+      const listError = validateBuildOptions(build);
+      if (listError) {
+        return { success: false, projectId, hostPath, containerPath, error: `${options.fileList}: ${listError}` };
+      }
+    }
+
+    // Create a run for this simulation (or adopt the caller's run)
+    const existingRun = options.runId ? projectManager.getRun(options.runId) : null;
+    const run = existingRun || projectManager.createRun({
       projectId,
       runType: "simulation",
-      config: { vcdFilename },
+      config: {
+        vcdFilename,
+        language: options.language,
+        simulator,
+        traceFormat: simulator === "verilator" ? traceFormat : undefined,
+        topModule: options.topModule,
+        topTestbench: options.topTestbench,
+        verilogFiles: options.verilogFiles,
+        testbenchFiles: options.testbenchFiles,
+        fileList: options.fileList,
+        includeDirs: build.includeDirs,
+        defines: build.defines,
+        parameters: options.parameters,
+        seed: options.seed,
+        plusargs: options.plusargs,
+        outputDir: options.outputDir,
+        coverage: options.coverage,
+        testName: options.testName,
+      },
+      parentRunId: options.parentRunId,
     });
     projectManager.startRun(run.id);
 
-    // Write the Verilog design and testbench files
-    projectManager.writeDesignFile(projectId, "design.v", verilogCode, run.id);
-    fileManager.writeFile(projectId, "testbench.v", testbenchCode, "input", run.id);
+    // Design and testbench sources (design.sv / testbench.sv for inline SystemVerilog)
+    // A C++ harness takes the place of the HDL testbench
+    const designSources: HdlSource[] = [];
+    const testbenchSources: HdlSource[] = [];
+    let harness: string | undefined;
+    const fail = (error: string): SimulationResult => {
+      projectManager.failRun(run.id, error);
+      return { success: false, projectId: projectId!, runId: run.id, hostPath, containerPath, error };
+    };
 
-    // Compile with Icarus Verilog in Docker
-    const compileCmd = `cd ${containerPath}/src && iverilog -o ${containerPath}/output/simulation design.v testbench.v 2>&1`;
-    const compileResult = await dockerManager.exec(compileCmd, {
-      workdir: containerPath,
-      timeout: 60000,
-    });
+    // Copy a file into the project (testbenches into src/tb/), or use it in place if it is already there
+    const addFile = async (filePath: string, testbench: boolean): Promise<string | null> => {
+      const name = await importSourceFile(projectId!, filePath, testbench, executor, run.id);
+      if (name === null) return `Failed to read file ${filePath}`;
+      if (!isHeaderFile(name) && !name.endsWith(".f")) {
+        (testbench ? testbenchSources : designSources).push({ name, language: languageOfFile(name, language) });
+      }
+      return null;
+    };
+
+    if (options.restoreFrom) {
+      projectManager.restoreSnapshot(projectId, options.restoreFrom);
+      for (const file of options.restoreFrom.files) {
+        const name = file.path.slice("src/".length);
+        if (!file.path.startsWith("src/")) continue;
+        if (name === HARNESS_FILE) {
+          harness = HARNESS_FILE;
+        } else if (/\.s?v$/i.test(name) && !isHeaderFile(name)) {
+          const testbench = name.startsWith(`${TESTBENCH_DIR}/`) || isTestbenchFile(basename(name));
+          (testbench ? testbenchSources : designSources).push({ name, language: languageOfFile(name, language) });
+        }
+      }
+    } else {
+      // Design: inline code, files and file list entries, or the project's design sources
+      if (verilogCode) {
+        const designLanguage = languageOfCode(verilogCode, language);
+        designSources.push({ name: sourceFileName("design", designLanguage), language: designLanguage });
+        projectManager.writeDesignFile(projectId, designSources[0].name, verilogCode, run.id);
+      }
+      for (const filePath of options.verilogFiles || []) {
+        const error = await addFile(filePath, false);
+        if (error) return fail(error);
+      }
+      for (const filePath of fileListSources) {
+        const error = await addFile(filePath, isTestbenchFile(basename(filePath)));
+        if (error) return fail(error);
+      }
+      if (!hasDesignInput) {
+        designSources.push(...projectDesignSources(projectId, language));
+      }
+
+      // Testbench: C++ harness, inline code and files, or the project's testbenches
+      if (cppHarness) {
+        harness = HARNESS_FILE;
+        fileManager.writeFile(projectId, harness, cppHarness, "input", run.id);
+      } else {
+        if (testbenchCode) {
+          const testbenchLanguage = languageOfCode(testbenchCode, language);
+          const name = sourceFileName("testbench", testbenchLanguage);
+          testbenchSources.push({ name, language: testbenchLanguage });
+          fileManager.writeFile(projectId, name, testbenchCode, "input", run.id);
+        }
+        for (const filePath of options.testbenchFiles || []) {
+          const error = await addFile(filePath, true);
+          if (error) return fail(error);
+        }
+        if (testbenchSources.length === 0 && !testbenchCode && !options.testbenchFiles?.length) {
+          testbenchSources.push(...projectTestbenchSources(projectId, language));
+        }
+      }
+    }
+
+    if (designSources.length === 0) {
+      return fail("No Verilog/SystemVerilog design files to simulate");
+    }
+    if (testbenchSources.length === 0 && !harness) {
+      return fail("No testbench given: provide 'testbench_code', 'testbench_files' or 'cpp_harness' (or keep testbenches in the project's src/tb/)");
+    }
+    const sources = harness ? designSources : [...designSources, ...testbenchSources];
+
+    await projectManager.snapshotRun(
+      run.id,
+      projectId,
+      [
+        ...sources.map((source) => `src/${source.name}`),
+        ...(harness ? [`src/${harness}`] : []),
+        ...includeDirFiles(projectId, build),
+      ],
+      executor
+    );
+
+    // Parameter overrides apply to the testbench, the root of the simulation (-P<root>.<name>)
+    let rootModule = harness ? undefined : options.topTestbench;
+    if (options.parameters && Object.keys(options.parameters).length > 0 && !harness && !rootModule) {
+      const testbench = testbenchSources[testbenchSources.length - 1];
+      rootModule = testbench && firstModuleName(readFileSync(join(hostPath, "src", testbench.name), "utf-8"));
+      if (!rootModule) {
+        projectManager.failRun(run.id, "No testbench module found for parameter overrides");
+        return {
+          success: false,
+          projectId,
+          runId: run.id,
+          hostPath,
+          containerPath,
+          error: "Parameter overrides need a testbench module, but none was found in the testbench code",
+        };
+      }
+    }
+
+    // Build and trace directory, and the seed as plusargs
+    const outputDir = options.outputDir ? `${containerPath}/output/${options.outputDir}` : `${containerPath}/output`;
+    if (options.outputDir) {
+      await executor.run(bashScript('rm -rf "$1" && mkdir -p "$1"', outputDir), { timeout: 30000 });
+    }
+    const plusargs = [
+      ...(options.seed !== undefined ? [`+seed=${options.seed}`] : []),
+      ...(options.seed !== undefined && simulator === "verilator" ? [`+verilator+seed+${options.seed}`] : []),
+      ...(options.plusargs || []),
+    ];
+
+    // Compile with Icarus Verilog or Verilator in Docker (SV if either file is SystemVerilog)
+    const simLanguage = combinedLanguage(sources);
+    let compileResult: ExecResult;
+    if (simulator === "verilator") {
+      // With a harness, the design module is the top; otherwise the testbench
+      const top = harness
+        ? options.topModule || firstModuleName(readFileSync(join(hostPath, "src", sources[0].name), "utf-8"))
+        : options.topTestbench;
+      compileResult = await executor.run(
+        [
+          "verilator",
+          ...(harness ? ["--cc", "--exe", "--build"] : ["--binary"]),
+          "-Wno-fatal",
+          traceFormat === "fst" ? "--trace-fst" : "--trace",
+          ...(options.coverage ? ["--coverage"] : []),
+          ...verilatorFlags(simLanguage),
+          ...verilatorBuildFlags(build),
+          ...(top ? ["--top-module", top] : []),
+          "--Mdir",
+          `${outputDir}/${VERILATOR_MDIR}`,
+          "-o",
+          VERILATOR_BINARY,
+          ...sources.map((source) => source.name),
+          ...(harness ? [harness] : []),
+        ],
+        { workdir: `${containerPath}/src`, timeout: 600000 }
+      );
+    } else {
+      compileResult = await executor.run(
+        [
+          "iverilog",
+          ...iverilogFlags(simLanguage),
+          ...iverilogBuildFlags(build, rootModule),
+          ...(options.topTestbench ? ["-s", options.topTestbench] : []),
+          "-o",
+          `${outputDir}/simulation`,
+          ...sources.map((source) => source.name),
+        ],
+        { workdir: `${containerPath}/src`, timeout: 60000 }
+      );
+    }
+    const diagnostics = parseDiagnostics(`${compileResult.stdout}\n${compileResult.stderr}`, simulator === "verilator" ? "verilator" : "iverilog");
 
     if (!compileResult.success) {
       projectManager.failRun(run.id, compileResult.stderr);
@@ -110,40 +445,80 @@ export async function simulateVerilog(options: SimulationOptions): Promise<Simul
         runId: run.id,
         compileStdout: compileResult.stdout,
         compileStderr: compileResult.stderr,
+        simulator,
+        language: simLanguage,
+        diagnostics,
         hostPath,
         containerPath,
-        error: `Compilation failed: ${compileResult.stderr}`,
+        error: compileResult.exitCode === 127
+          ? `${simulator === "verilator" ? "Verilator" : "Icarus Verilog"} is not installed. Run check_environment for details.`
+          : `Compilation failed: ${compileResult.stderr}`,
       };
     }
 
-    // Run the simulation with vvp (set LD_LIBRARY_PATH for libvvp.so)
-    const simCmd = `cd ${containerPath}/output && LD_LIBRARY_PATH=/foss/tools/iverilog/lib:$LD_LIBRARY_PATH vvp simulation 2>&1`;
-    const simResult = await dockerManager.exec(simCmd, {
-      workdir: containerPath,
-      timeout: 120000,
-    });
+    // A trace left under the expected name by an earlier run must not pass for this one
+    const expectedTrace = options.outputDir ? `${options.outputDir}/${vcdFilename}` : vcdFilename;
+    if (basename(vcdFilename) === vcdFilename) {
+      rmSync(join(hostPath, "output", expectedTrace), { force: true });
+    }
+    const startedAt = Date.now();
+
+    // Run the simulation with vvp (set LD_LIBRARY_PATH for libvvp.so), or the Verilator executable
+    const simResult = simulator === "verilator"
+      ? await executor.run([`${outputDir}/${VERILATOR_MDIR}/${VERILATOR_BINARY}`, ...plusargs], {
+          workdir: outputDir,
+          timeout: 600000,
+        })
+      : await executor.run(
+          bashScript("LD_LIBRARY_PATH=/foss/tools/iverilog/lib:$LD_LIBRARY_PATH exec vvp simulation \"$@\"", ...plusargs),
+          { workdir: outputDir, timeout: 120000 }
+        );
 
-    // Check if VCD file was generated
+    // Check if a trace file was generated (FST first when Verilator wrote FST)
     let vcdFile: string | undefined;
     let vcdContainerPath: string | undefined;
 
-    const checkVcdCmd = `ls -la ${containerPath}/output/*.vcd 2>/dev/null || echo "No VCD files"`;
-    const vcdCheck = await dockerManager.exec(checkVcdCmd, { workdir: containerPath });
+    const traceFiles = tracesWrittenSince(hostPath, await listVcdFiles(projectId, options.outputDir), startedAt);
+    const preferred = simulator === "verilator" && traceFormat === "fst" ? ".fst" : ".vcd";
+    vcdFile = traceFiles.find((file) => file === expectedTrace)
+      || traceFiles.find((file) => file.endsWith(preferred))
+      || traceFiles[0];
+    if (vcdFile) {
+      vcdContainerPath = `${containerPath}/output/${vcdFile}`;
+      fileManager.trackFile(projectId, vcdFile, "vcd", run.id);
+    }
 
-    if (vcdCheck.success && !vcdCheck.stdout.includes("No VCD files")) {
-      // Extract VCD filename from ls output
-      const vcdMatch = vcdCheck.stdout.match(/(\S+\.vcd)/);
-      if (vcdMatch) {
-        vcdFile = vcdMatch[1].split("/").pop();
-        vcdContainerPath = `${containerPath}/output/${vcdFile}`;
+    // Coverage of the design sources (standalone runs add it to the project's history)
+    let coverage: CoverageResult | undefined;
+    let coveragePoints: CoveragePoint[] | undefined;
+    let coverageWarning: string | undefined;
+    if (options.coverage) {
+      const collected = await collectCoverage(projectId, simulator, options.outputDir, vcdFile, designSources, executor);
+      if (typeof collected === "string") {
+        coverageWarning = collected;
+      } else {
+        coveragePoints = collected;
+        coverage = recordCoverage({
+          projectId,
+          runId: run.id,
+          source: simulator === "verilator" ? "verilator" : "vcd",
+          points: collected,
+          title: `simulation run ${run.id}${options.testName ? ` (${options.testName})` : ""}`,
+          dir: options.outputDir,
+          saveHistory: simResult.success && !options.parentRunId,
+        });
       }
     }
 
     // Update run status
     if (simResult.success) {
       projectManager.completeRun(run.id, {
+        simulator,
         vcdFile,
         hasVcd: !!vcdFile,
+        coverage: coverage && { source: coverage.source, totals: coverage.totals, reportFile: coverage.reportFile },
+        // Lets reproduce_run compare simulation output without storing it
+        stdoutSha256: createHash("sha256").update(simResult.stdout).digest("hex"),
       });
     } else {
       projectManager.failRun(run.id, simResult.stderr);
@@ -157,10 +532,19 @@ export async function simulateVerilog(options: SimulationOptions): Promise<Simul
       compileStderr: compileResult.stderr,
       simStdout: simResult.stdout,
       simStderr: simResult.stderr,
+      simExitCode: simResult.exitCode,
+      simulator,
+      language: simLanguage,
+      files: sources.map((source) => `src/${source.name}`),
+      ignoredFileListEntries,
+      diagnostics,
       vcdFile,
       vcdContainerPath,
       hostPath,
       containerPath,
+      coverage,
+      coveragePoints,
+      coverageWarning,
       error: simResult.success ? undefined : simResult.stderr,
     };
 
@@ -174,16 +558,40 @@ export async function simulateVerilog(options: SimulationOptions): Promise<Simul
 }
 
 /**
- * List VCD files in a project
+ * Traces (relative to output/) modified since a time, newest first
  */
-export async function listVcdFiles(projectId: string): Promise<string[]> {
+function tracesWrittenSince(hostPath: string, files: string[], since: number): string[] {
+  // Whole seconds: some file systems keep no finer modification times
+  const threshold = Math.floor(since / 1000) * 1000;
+  return files
+    .map((file) => {
+      try {
+        return { file, mtime: statSync(join(hostPath, "output", file)).mtimeMs };
+      } catch {
+        return { file, mtime: 0 };
+      }
+    })
+    .filter((trace) => trace.mtime >= threshold)
+    .sort((a, b) => b.mtime - a.mtime)
+    .map((trace) => trace.file);
+}
+
+/**
+ * List VCD (and FST) trace files in a project's output/ (or a subdirectory of it)
+ */
+export async function listVcdFiles(projectId: string, subdir?: string): Promise<string[]> {
   try {
     const paths = projectManager.getProjectPaths(projectId);
-    const listCmd = `ls ${paths.containerPath}/output/*.vcd 2>/dev/null | xargs -n1 basename`;
-    const result = await dockerManager.exec(listCmd, { workdir: paths.containerPath });
+    const result = await getExecutor().run(
+      ["find", `${paths.containerPath}/output${subdir ? `/${subdir}` : ""}`, "-maxdepth", "1", "(", "-name", "*.vcd", "-o", "-name", "*.fst", ")", "-printf", "%f\n"],
+      { workdir: paths.containerPath }
+    );
 
     if (result.success && result.stdout.trim()) {
-      return result.stdout.trim().split("\n").filter(f => f.endsWith(".vcd"));
+      return result.stdout.trim().split("\n")
+        .filter(f => f.endsWith(".vcd") || f.endsWith(".fst"))
+        .map(f => (subdir ? `${subdir}/${f}` : f))
+        .sort();
     }
     return [];
   } catch {
@@ -191,6 +599,47 @@ export async function listVcdFiles(projectId: string): Promise<string[]> {
   }
 }
 
+/**
+ * Coverage points of the design sources after a run, or why there are none:
+ * Verilator's coverage.dat (in the run directory or its logs/), else toggles counted in the trace
+ */
+async function collectCoverage(
+  projectId: string,
+  simulator: Simulator,
+  outputDir: string | undefined,
+  vcdFile: string | undefined,
+  designSources: HdlSource[],
+  executor: CommandExecutor
+): Promise<CoveragePoint[] | string> {
+  const runDir = outputDir ? `output/${outputDir}` : "output";
+
+  if (simulator === "verilator") {
+    const datFile = [`${runDir}/coverage.dat`, `${runDir}/logs/coverage.dat`]
+      .map((file) => pathResolver.getFileHostPath(projectId, file))
+      .find((file) => existsSync(file));
+    if (!datFile) {
+      return "Verilator wrote no coverage.dat (a C++ harness must call contextp->coveragep()->write(\"coverage.dat\") before exiting)";
+    }
+    // Keep the design's points; file names are as passed to Verilator, relative to src/
+    const design = new Set(designSources.map((source) => source.name));
+    const srcPrefix = `${pathResolver.getFileContainerPath(projectId, "src")}/`;
+    return parseCoverageDat(readFileSync(datFile, "utf-8")).flatMap((point) => {
+      const name = point.file?.replace(/^\.\//, "").replace(srcPrefix, "");
+      return name && design.has(name) ? [{ ...point, file: `src/${name}` }] : [];
+    });
+  }
+
+  if (!vcdFile) {
+    return "Icarus Verilog has no code coverage; toggle coverage needs a trace, so call $dumpfile()/$dumpvars() in the testbench (or use simulator 'verilator' for line coverage)";
+  }
+  const text = await readTraceFile(projectId, vcdFile, executor);
+  if (typeof text !== "string") return `Toggle coverage from ${vcdFile} failed: ${text.error}`;
+  const points = toggleCoverageFromVcd(text);
+  return points.length > 0
+    ? points
+    : `${vcdFile} has no design signals below the testbench; dump the design with $dumpvars(0, <testbench>)`;
+}
+
 /**
  * Format simulation result for MCP response
  */
@@ -201,6 +650,10 @@ export function formatSimulationResult(result: SimulationResult): string {
     success: result.success,
     host_path: result.hostPath,
     container_path: result.containerPath,
+    simulator: result.simulator,
+    language: result.language,
+    files: result.files,
+    ignored_file_list_entries: result.ignoredFileListEntries,
     vcd_file: result.vcdFile,
     vcd_container_path: result.vcdContainerPath,
     compile_stdout: result.compileStdout,
@@ -209,9 +662,84 @@ export function formatSimulationResult(result: SimulationResult): string {
       (result.simStdout.length > 5000 ? result.simStdout.substring(0, 5000) + "...(truncated)" : result.simStdout) :
       undefined,
     sim_stderr: result.simStderr,
+    sim_exit_code: result.simExitCode,
+    diagnostics: result.diagnostics?.length ? diagnosticsByFile(result.diagnostics) : undefined,
+    coverage: result.coverage ? formatCoverage(result.coverage) : undefined,
+    coverage_warning: result.coverageWarning,
     error: result.error,
     note: result.success ?
-      `Simulation completed. ${result.vcdFile ? `VCD file generated: ${result.vcdFile}. Use view_waveform with project_id '${result.projectId}' to open GTKWave via VNC.` : "No VCD file generated. Make sure your testbench includes $dumpfile() and $dumpvars() commands."}` :
+      `Simulation completed. ${result.coverage ? `Coverage: ${formatCoverageTotals(result.coverage.totals)}; annotated report in ${result.coverage.reportFile}. ` : ""}${result.vcdFile ? `VCD file generated: ${result.vcdFile}. Use view_waveform with project_id '${result.projectId}' to open GTKWave via VNC.` : `No VCD file generated. ${result.simulator === "verilator" ? "Make sure your testbench calls $dumpfile()/$dumpvars(), or your C++ harness opens a trace, in the working directory (output/)." : "Make sure your testbench includes $dumpfile() and $dumpvars() commands."}`}` :
       "Simulation failed. Check the error message for details."
   }, null, 2);
 }
+
+// Uncovered lines listed per file in the response (the report has all of them)
+const MAX_UNCOVERED_LINES = 50;
+
+/**
+ * Coverage for MCP responses: totals, modules and uncovered lines per file
+ */
+export function formatCoverage(coverage: CoverageResult): Record<string, unknown> {
+  return {
+    source: coverage.source,
+    totals: coverage.totals,
+    modules: coverage.modules.map((m) => ({ module: m.module, ...m.coverage })),
+    files: coverage.files.map((file) => ({
+      file: file.file,
+      lines_covered: `${file.linesHit}/${file.lines}`,
+      uncovered_lines: file.uncoveredLines.length > MAX_UNCOVERED_LINES
+        ? [...file.uncoveredLines.slice(0, MAX_UNCOVERED_LINES), "..."]
+        : file.uncoveredLines,
+    })),
+    report_file: coverage.reportFile,
+    dat_file: coverage.datFile,
+  };
+}
+
+/**
+ * Name relative to src/ of a source file: used in place if it is already in the
+ * project's src/, else copied there (testbenches into src/tb/); null if unreadable
+ */
+export async function importSourceFile(
+  projectId: string,
+  filePath: string,
+  testbench: boolean,
+  executor: CommandExecutor,
+  runId?: string
+): Promise<string | null> {
+  const { hostPath, containerPath } = projectManager.getProjectPaths(projectId);
+  const resolved = projectFilePath(projectId, filePath);
+  const inPlace = projectSourceName(resolved, hostPath, containerPath);
+  if (inPlace) return inPlace;
+
+  const content = await readSourceFile(resolved, executor);
+  if (content === null) return null;
+  const name = testbench ? `${TESTBENCH_DIR}/${basename(resolved)}` : basename(resolved);
+  fileManager.writeFile(projectId, name, content, "input", runId);
+  return name;
+}
+
+/**
+ * Host path of a project-relative file (src/ first, then the project root);
+ * absolute host and container paths are returned unchanged
+ */
+function projectFilePath(projectId: string, filePath: string): string {
+  if (isAbsolute(filePath) || pathResolver.isContainerPath(filePath)) return filePath;
+  for (const candidate of [join("src", filePath), filePath]) {
+    const hostFile = pathResolver.getFileHostPath(projectId, candidate);
+    if (existsSync(hostFile)) return hostFile;
+  }
+  return filePath;
+}
+
+/**
+ * Name relative to src/ of a file already in the project's src/, or null
+ */
+function projectSourceName(filePath: string, hostPath: string, containerPath: string): string | null {
+  const [path, srcDir] = pathResolver.isContainerPath(filePath)
+    ? [posix.normalize(filePath), `${containerPath}/src/`]
+    : [filePath.split("\\").join("/"), `${join(hostPath, "src").split("\\").join("/")}/`];
+  return path.startsWith(srcDir) && existsSync(join(hostPath, "src", path.slice(srcDir.length)))
+    ? path.slice(srcDir.length)
+    : null;
+}
@@ -4,10 +4,39 @@
  * Synthesizes Verilog code using Yosys running in the Docker container
  */
 
-import { dockerManager } from "../docker/docker-manager.js";
+import { existsSync, readFileSync, rmSync } from "fs";
+import { getExecutor } from "../executor/index.js";
 import { projectManager } from "../files/project-manager.js";
 import { pathResolver } from "../files/path-resolver.js";
 import { fileManager } from "../files/file-manager.js";
+import { resultCache } from "../cache/index.js";
+import {
+  languageOfCode,
+  languageOfFile,
+  isHeaderFile,
+  sourceFileName,
+  combinedLanguage,
+  sv2vCommand,
+  yosysReadCommands,
+  yosysChparamCommands,
+  validateBuildOptions,
+  hasExternalIncludeDirs,
+  includeDirFiles,
+  projectHeaderFiles,
+  parseDiagnostics,
+  diagnosticsByFile,
+  LANGUAGE_OPTIONS,
+  SV_FRONTENDS,
+  type HdlBuildOptions,
+  type HdlDiagnostic,
+  type HdlLanguage,
+  type HdlSource,
+  type LanguageOption,
+  type SvFrontend,
+} from "../hdl/index.js";
+import type { RunSnapshot } from "../types/project.js";
+import { estimatePreLayoutPPA, SKY130_HD_LIBERTY, type PreLayoutEstimate } from "./pre-layout-sta.js";
+import { parseStatJson, STAT_JSON_FILE, type DesignHierarchy } from "./hierarchy.js";
 
 /**
  * Synthesis result interface
@@ -20,9 +49,14 @@ export interface SynthesisResult {
   stderr?: string;
   synthesizedVerilog?: string;
   target: string;
+  language?: HdlLanguage;      // SV if any source is SystemVerilog
+  svFrontend?: SvFrontend;     // How SV sources were read
+  diagnostics?: HdlDiagnostic[];
   hostPath?: string;
   containerPath?: string;
   error?: string;
+  cacheHit?: boolean;          // Served from the result cache instead of running Yosys
+  cachedFromRunId?: string;    // Run whose result was reused
   statistics?: {
     cells?: number;
     wires?: number;
@@ -33,30 +67,46 @@ export interface SynthesisResult {
     memoryBits?: number;
     processes?: number;
     modules?: number;
+    chipArea?: number;         // um^2, from stat -liberty (sky130)
     cellBreakdown?: Record<string, number>;
+    hierarchy?: DesignHierarchy;  // Per-module statistics from stat -json
   };
+  timingEstimate?: PreLayoutEstimate;  // Pre-layout OpenSTA estimate (sky130)
 }
 
 /**
- * Synthesis options
+ * Synthesis options (include dirs, defines and parameters from HdlBuildOptions)
  */
-export interface SynthesisOptions {
+export interface SynthesisOptions extends HdlBuildOptions {
   verilogCode?: string;       // Verilog code as string
   verilogFiles?: string[];    // OR: array of Verilog file paths
   topModule: string;
-  target?: "generic" | "ice40" | "xilinx" | "sky130";
+  target?: "generic" | "ice40" | "ecp5" | "xilinx" | "sky130";
+  language?: LanguageOption;  // Default: auto (by extension, or by content for verilogCode)
+  svFrontend?: SvFrontend;    // SV reader: read_verilog -sv (default), yosys-slang or sv2v
   projectId?: string;  // Optional: use existing project
   projectName?: string; // Optional: name for new project
+  useCache?: boolean;   // Reuse the result of an identical earlier run (default: true)
+  clockPort?: string;   // sky130 pre-layout STA (default: clk)
+  clockPeriod?: number; // ns (default: 10)
+
+  // Reproduction (optional)
+  runId?: string;              // Record into an existing run instead of creating one
+  restoreFrom?: RunSnapshot;   // Re-run with a previous run's exact inputs instead of writing new ones
 }
 
+// Yosys log kept with a cached result (the statistics are at the end)
+const CACHED_LOG_LENGTH = 100_000;
+
 /**
  * Synthesize Verilog code using Yosys in Docker
  */
 export async function synthesizeVerilog(options: SynthesisOptions): Promise<SynthesisResult> {
   const { verilogCode, verilogFiles, topModule, target = "generic" } = options;
+  const { language = "auto", svFrontend = "read_verilog" } = options;
 
   // Validate input - must have either verilogCode or verilogFiles
-  if (!verilogCode && (!verilogFiles || verilogFiles.length === 0)) {
+  if (!verilogCode && (!verilogFiles || verilogFiles.length === 0) && !options.restoreFrom) {
     return {
       success: false,
       projectId: "",
@@ -65,6 +115,30 @@ export async function synthesizeVerilog(options: SynthesisOptions): Promise<Synt
     };
   }
 
+  // The module name is written into the Yosys script
+  if (!/^[A-Za-z_][A-Za-z0-9_$]*$/.test(topModule)) {
+    return {
+      success: false,
+      projectId: "",
+      target,
+      error: `Invalid top module name: ${JSON.stringify(topModule)}`,
+    };
+  }
+
+  if (!LANGUAGE_OPTIONS.includes(language) || !SV_FRONTENDS.includes(svFrontend)) {
+    return {
+      success: false,
+      projectId: "",
+      target,
+      error: `Invalid language '${language}' or sv_frontend '${svFrontend}' (language: ${LANGUAGE_OPTIONS.join(", ")}; sv_frontend: ${SV_FRONTENDS.join(", ")})`,
+    };
+  }
+
+  const buildError = validateBuildOptions(options);
+  if (buildError) {
+    return { success: false, projectId: "", target, error: buildError };
+  }
+
   // Convert container paths to host paths if needed
   let resolvedFiles = verilogFiles;
   if (verilogFiles && verilogFiles.length > 0) {
@@ -83,7 +157,7 @@ export async function synthesizeVerilog(options: SynthesisOptions): Promise<Synt
 
   try {
     // Ensure Docker container is running
-    if (!(await dockerManager.ensureRunning())) {
+    if (!(await getExecutor().ensureReady())) {
       return {
         success: false,
         projectId: "",
@@ -123,18 +197,47 @@ export async function synthesizeVerilog(options: SynthesisOptions): Promise<Synt
       containerPath = result.containerPath;
     }
 
-    // Create a run for this synthesis
-    const run = projectManager.createRun({
+    // Create a run for this synthesis (or adopt the caller's run)
+    const existingRun = options.runId ? projectManager.getRun(options.runId) : null;
+    const run = existingRun || projectManager.createRun({
       projectId,
       runType: "synthesis",
-      config: { target, topModule },
+      config: {
+        target,
+        topModule,
+        language: options.language,
+        svFrontend: options.svFrontend,
+        includeDirs: options.includeDirs,
+        defines: options.defines,
+        parameters: options.parameters,
+        clockPort: target === "sky130" ? options.clockPort : undefined,
+        clockPeriod: target === "sky130" ? options.clockPeriod : undefined,
+      },
     });
     projectManager.startRun(run.id);
 
+    // Paths (relative to the project) of every input Yosys reads
+    const inputPaths: string[] = [];
+    // Source files in src/ and the language each is read as
+    const sources: HdlSource[] = [];
+
     // Write the Verilog file(s)
-    if (verilogCode) {
+    if (options.restoreFrom) {
+      projectManager.restoreSnapshot(projectId, options.restoreFrom);
+      for (const file of options.restoreFrom.files) {
+        inputPaths.push(file.path);
+        const name = file.path.slice("src/".length);
+        if (file.path.startsWith("src/") && !name.includes("/") && !isHeaderFile(name)) {
+          sources.push({ name, language: languageOfFile(name, language) });
+        }
+      }
+    } else if (verilogCode) {
       // Single code string provided
-      projectManager.writeDesignFile(projectId, "design.v", verilogCode, run.id);
+      const codeLanguage = languageOfCode(verilogCode, language);
+      const name = sourceFileName("design", codeLanguage);
+      projectManager.writeDesignFile(projectId, name, verilogCode, run.id);
+      inputPaths.push(`src/${name}`);
+      sources.push({ name, language: codeLanguage });
     } else if (resolvedFiles && resolvedFiles.length > 0) {
       // File paths provided - read and copy files
       const fs = await import("fs");
@@ -148,7 +251,7 @@ export async function synthesizeVerilog(options: SynthesisOptions): Promise<Synt
           // Check if this is a container path - read from container instead
           if (pathResolver.isContainerPath(filePath)) {
             // Read file from inside Docker container
-            const catResult = await dockerManager.exec(`cat "${filePath}"`, { timeout: 10000 });
+            const catResult = await getExecutor().run(["cat", "--", filePath], { timeout: 10000 });
             if (!catResult.success) {
               return {
                 success: false,
@@ -165,6 +268,10 @@ export async function synthesizeVerilog(options: SynthesisOptions): Promise<Synt
           }
 
           projectManager.writeDesignFile(projectId, fileName, content, run.id);
+          inputPaths.push(`src/${fileName}`);
+          if (!isHeaderFile(fileName)) {
+            sources.push({ name: fileName, language: languageOfFile(fileName, language) });
+          }
         } catch (err: any) {
           return {
             success: false,
@@ -177,37 +284,143 @@ export async function synthesizeVerilog(options: SynthesisOptions): Promise<Synt
       }
     }
 
-    // Generate synthesis script based on target
-    const synthScript = generateSynthScript(topModule, target, resolvedFiles);
-    fileManager.writeFile(projectId, "synth.ys", synthScript, "config", run.id);
+    // Generate synthesis script based on target (a restored snapshot already has one)
+    if (!options.restoreFrom) {
+      const synthScript = generateSynthScript(topModule, target, sources, svFrontend, options);
+      fileManager.writeFile(projectId, "synth.ys", synthScript, "config", run.id);
+      inputPaths.push("synth.ys", ...projectHeaderFiles(projectId), ...includeDirFiles(projectId, options));
+    }
+    const snapshot = await projectManager.snapshotRun(run.id, projectId, [...new Set(inputPaths)], getExecutor());
+
+    // Identical inputs and tool versions: serve the stored result instead of running Yosys
+    // (not when headers come from outside the project, they are not part of the snapshot)
+    const cacheKey = options.useCache !== false && snapshot && !hasExternalIncludeDirs(options)
+      ? resultCache.keyFor("synthesis", snapshot, {
+          topModule,
+          target,
+          svFrontend: combinedLanguage(sources) === "sv2012" ? svFrontend : undefined,
+          includeDirs: options.includeDirs,
+          defines: options.defines,
+          parameters: options.parameters,
+          // The pre-layout estimate is timed against an SDC for this clock
+          clockPort: target === "sky130" ? options.clockPort : undefined,
+          clockPeriod: target === "sky130" ? options.clockPeriod : undefined,
+        })
+      : null;
+    const cached = cacheKey ? resultCache.get(cacheKey) : null;
+
+    if (cached && resultCache.restoreArtifacts(cached, projectId)) {
+      resultCache.recordHit(cached.key);
+      const synthesizedVerilog = fileManager.readFile(projectId, "synth_output.v") || "";
+      const timingEstimate = target === "sky130"
+        ? await estimateTiming(projectId, run.id, topModule, cached.result.statistics, options)
+        : undefined;
+
+      projectManager.completeRun(run.id, {
+        statistics: cached.result.statistics,
+        synthesizedVerilog: synthesizedVerilog ? "generated" : "not generated",
+        timingEstimate,
+        cacheHit: true,
+        cachedFromRunId: cached.runId,
+      });
+
+      return {
+        success: true,
+        projectId,
+        runId: run.id,
+        stdout: cached.result.stdout,
+        stderr: cached.result.stderr,
+        synthesizedVerilog,
+        target,
+        language: combinedLanguage(sources),
+        svFrontend,
+        diagnostics: parseDiagnostics(`${cached.result.stdout}\n${cached.result.stderr}`, "yosys"),
+        hostPath,
+        containerPath,
+        statistics: cached.result.statistics,
+        timingEstimate,
+        cacheHit: true,
+        cachedFromRunId: cached.runId,
+      };
+    }
+    if (cacheKey) resultCache.recordMiss();
+
+    // sv2v converts the SV sources to Verilog for Yosys to read
+    const sv2v = svFrontend === "sv2v" ? sv2vCommand(sources, options) : null;
+    if (sv2v) {
+      const conversion = await getExecutor().run(sv2v, { workdir: `${containerPath}/src`, timeout: 60000 });
+      if (!conversion.success) {
+        projectManager.failRun(run.id, conversion.stderr);
+        return {
+          success: false,
+          projectId,
+          runId: run.id,
+          stdout: conversion.stdout,
+          stderr: conversion.stderr,
+          target,
+          language: combinedLanguage(sources),
+          svFrontend,
+          diagnostics: parseDiagnostics(conversion.stderr, "sv2v"),
+          hostPath,
+          containerPath,
+          error: `sv2v conversion failed: ${conversion.stderr}`,
+        };
+      }
+    }
+
+    // Yosys writes to the project root; leftovers there must not pass for this run's output
+    for (const name of ["synth_output.v", STAT_JSON_FILE]) {
+      rmSync(pathResolver.getFileHostPath(projectId, name), { force: true });
+    }
 
     // Run Yosys in Docker container
-    const yosysCmd = `cd ${containerPath}/src && yosys -s ../synth.ys 2>&1`;
-    const result = await dockerManager.exec(yosysCmd, {
-      workdir: containerPath,
+    const result = await getExecutor().run(["yosys", "-s", "../synth.ys"], {
+      workdir: `${containerPath}/src`,
       timeout: 120000,
     });
 
-    // Read synthesized output if successful
+    // Move the netlist and statistics into output/ (the previous run's copies are replaced)
     let synthesizedVerilog = "";
+    let statJson: string | null = null;
     if (result.success) {
-      const synthOutput = fileManager.readFile(projectId, "synth_output.v");
-      if (synthOutput) {
-        synthesizedVerilog = synthOutput;
-        // Move output to output directory
-        fileManager.writeFile(projectId, "synth_output.v", synthOutput, "output", run.id);
+      synthesizedVerilog = moveToOutput(projectId, "synth_output.v", "output", run.id) || "";
+      statJson = moveToOutput(projectId, STAT_JSON_FILE, "report", run.id);
+      if (!statJson) {
+        rmSync(pathResolver.getFileHostPath(projectId, `output/${STAT_JSON_FILE}`), { force: true });
       }
     }
 
-    // Parse statistics from output
+    // Parse statistics from output (design totals come from the hierarchy when available)
     const statistics = parseYosysStats(result.stdout);
+    if (statJson) {
+      const hierarchy = parseStatJson(statJson, topModule);
+      if (hierarchy) {
+        statistics.hierarchy = hierarchy;
+        statistics.cells = hierarchy.cells;
+        statistics.memories = hierarchy.memories;
+        statistics.memoryBits = hierarchy.memoryBits;
+        statistics.cellBreakdown = hierarchy.cellBreakdown;
+        if (hierarchy.area !== undefined) statistics.chipArea = hierarchy.area;
+      }
+    }
+    const timingEstimate = result.success && target === "sky130"
+      ? await estimateTiming(projectId, run.id, topModule, statistics, options)
+      : undefined;
 
     // Update run status
     if (result.success) {
       projectManager.completeRun(run.id, {
         statistics,
         synthesizedVerilog: synthesizedVerilog ? "generated" : "not generated",
+        timingEstimate,
       });
+      if (cacheKey) {
+        resultCache.store("synthesis", cacheKey, run.id, projectId, {
+          stdout: result.stdout.slice(-CACHED_LOG_LENGTH),
+          stderr: result.stderr.slice(-CACHED_LOG_LENGTH),
+          statistics,
+        }, ["output/synth_output.v", ...(statJson ? [`output/${STAT_JSON_FILE}`] : [])]);
+      }
     } else {
       projectManager.failRun(run.id, result.stderr);
     }
@@ -220,9 +433,13 @@ export async function synthesizeVerilog(options: SynthesisOptions): Promise<Synt
       stderr: result.stderr,
       synthesizedVerilog,
       target,
+      language: combinedLanguage(sources),
+      svFrontend,
+      diagnostics: parseDiagnostics(`${result.stdout}\n${result.stderr}`, "yosys"),
       hostPath,
       containerPath,
       statistics,
+      timingEstimate,
       error: result.success ? undefined : result.stderr,
     };
 
@@ -236,22 +453,63 @@ export async function synthesizeVerilog(options: SynthesisOptions): Promise<Synt
   }
 }
 
+/**
+ * Move a file Yosys wrote to the project root into output/ (null if it was not written)
+ */
+function moveToOutput(projectId: string, filename: string, fileType: "output" | "report", runId: string): string | null {
+  const rootFile = pathResolver.getFileHostPath(projectId, filename);
+  if (!existsSync(rootFile)) {
+    return null;
+  }
+  const content = readFileSync(rootFile, "utf-8");
+  fileManager.writeFile(projectId, filename, content, fileType, runId);
+  rmSync(rootFile);
+  return content;
+}
+
+/**
+ * Pre-layout STA of the sky130 netlist (stored as synthesis-stage PPA metrics)
+ */
+async function estimateTiming(
+  projectId: string,
+  runId: string,
+  topModule: string,
+  statistics: YosysStatistics | undefined,
+  options: SynthesisOptions
+): Promise<PreLayoutEstimate> {
+  try {
+    return await estimatePreLayoutPPA({
+      projectId,
+      runId,
+      topModule,
+      clockPort: options.clockPort,
+      clockPeriod: options.clockPeriod,
+      areaUm2: statistics?.chipArea,
+      cellCount: statistics?.cells,
+    });
+  } catch (error: any) {
+    // The netlist is still good; only the estimate is missing
+    return { success: false, error: error.message || String(error) };
+  }
+}
+
 /**
  * Generate Yosys synthesis script
  */
-function generateSynthScript(topModule: string, target: string, verilogFiles?: string[]): string {
-  // Generate read commands for Verilog files
-  let readCommands: string;
-  if (verilogFiles && verilogFiles.length > 0) {
-    // Read each file by its basename - extract filename from path without require
-    readCommands = verilogFiles
-      .map(f => {
-        const parts = f.replace(/\\/g, '/').split('/');
-        return `read_verilog ${parts[parts.length - 1]}`;
-      })
-      .join("\n");
-  } else {
-    readCommands = "read_verilog design.v";
+function generateSynthScript(
+  topModule: string,
+  target: string,
+  sources: HdlSource[],
+  svFrontend: SvFrontend,
+  build: HdlBuildOptions
+): string {
+  // Read commands for the source files (by basename, in src/)
+  let readCommands = yosysReadCommands(sources, svFrontend, build);
+
+  // yosys-slang already applied the parameter overrides while elaborating
+  const slangElaborated = svFrontend === "slang" && combinedLanguage(sources) === "sv2012";
+  if (!slangElaborated) {
+    readCommands = [readCommands, ...yosysChparamCommands(build, topModule)].join("\n");
   }
 
   let script = `# Yosys Synthesis Script
@@ -269,6 +527,15 @@ synth_ice40 -top ${topModule}
 clean
 write_verilog -noattr ../synth_output.v
 stat
+`;
+      break;
+
+    case "ecp5":
+      script += `
+synth_ecp5 -top ${topModule}
+clean
+write_verilog -noattr ../synth_output.v
+stat
 `;
       break;
 
@@ -284,11 +551,11 @@ stat
     case "sky130":
       script += `
 synth -top ${topModule}
-dfflibmap -liberty /foss/pdks/sky130A/libs.ref/sky130_fd_sc_hd/lib/sky130_fd_sc_hd__tt_025C_1v80.lib
-abc -liberty /foss/pdks/sky130A/libs.ref/sky130_fd_sc_hd/lib/sky130_fd_sc_hd__tt_025C_1v80.lib
+dfflibmap -liberty ${SKY130_HD_LIBERTY}
+abc -liberty ${SKY130_HD_LIBERTY}
 clean
 write_verilog -noattr ../synth_output.v
-stat
+stat -liberty ${SKY130_HD_LIBERTY}
 `;
       break;
 
@@ -303,6 +570,11 @@ stat
 `;
   }
 
+  // Per-module statistics for the hierarchy (cell area with the sky130 liberty)
+  const liberty = target.toLowerCase() === "sky130" ? ` -liberty ${SKY130_HD_LIBERTY}` : "";
+  script += `tee -q -o ../${STAT_JSON_FILE} stat -json -top ${topModule}${liberty}
+`;
+
   return script;
 }
 
@@ -319,7 +591,9 @@ interface YosysStatistics {
   memories?: number;
   memoryBits?: number;
   processes?: number;
+  chipArea?: number;
   cellBreakdown?: Record<string, number>;
+  hierarchy?: DesignHierarchy;
 }
 
 /**
@@ -329,59 +603,65 @@ function parseYosysStats(output: string): YosysStatistics {
   const stats: YosysStatistics = {};
 
   // Parse cell count
-  const cellMatch = output.match(/Number of cells:\s*(\d+)/i);
+  const cellMatch = lastMatch(output, /Number of cells:\s*(\d+)/gi);
   if (cellMatch) {
     stats.cells = parseInt(cellMatch[1], 10);
   }
 
   // Parse wire count
-  const wireMatch = output.match(/Number of wires:\s*(\d+)/i);
+  const wireMatch = lastMatch(output, /Number of wires:\s*(\d+)/gi);
   if (wireMatch) {
     stats.wires = parseInt(wireMatch[1], 10);
   }
 
   // Parse wire bits
-  const wireBitsMatch = output.match(/Number of wire bits:\s*(\d+)/i);
+  const wireBitsMatch = lastMatch(output, /Number of wire bits:\s*(\d+)/gi);
   if (wireBitsMatch) {
     stats.wireBits = parseInt(wireBitsMatch[1], 10);
   }
 
   // Parse public wires
-  const publicWiresMatch = output.match(/Number of public wires:\s*(\d+)/i);
+  const publicWiresMatch = lastMatch(output, /Number of public wires:\s*(\d+)/gi);
   if (publicWiresMatch) {
     stats.publicWires = parseInt(publicWiresMatch[1], 10);
   }
 
   // Parse public wire bits
-  const publicWireBitsMatch = output.match(/Number of public wire bits:\s*(\d+)/i);
+  const publicWireBitsMatch = lastMatch(output, /Number of public wire bits:\s*(\d+)/gi);
   if (publicWireBitsMatch) {
     stats.publicWireBits = parseInt(publicWireBitsMatch[1], 10);
   }
 
   // Parse memories
-  const memoriesMatch = output.match(/Number of memories:\s*(\d+)/i);
+  const memoriesMatch = lastMatch(output, /Number of memories:\s*(\d+)/gi);
   if (memoriesMatch) {
     stats.memories = parseInt(memoriesMatch[1], 10);
   }
 
   // Parse memory bits
-  const memoryBitsMatch = output.match(/Number of memory bits:\s*(\d+)/i);
+  const memoryBitsMatch = lastMatch(output, /Number of memory bits:\s*(\d+)/gi);
   if (memoryBitsMatch) {
     stats.memoryBits = parseInt(memoryBitsMatch[1], 10);
   }
 
   // Parse processes
-  const processesMatch = output.match(/Number of processes:\s*(\d+)/i);
+  const processesMatch = lastMatch(output, /Number of processes:\s*(\d+)/gi);
   if (processesMatch) {
     stats.processes = parseInt(processesMatch[1], 10);
   }
 
   // Parse module count
-  const moduleMatch = output.match(/Number of modules:\s*(\d+)/i);
+  const moduleMatch = lastMatch(output, /Number of modules:\s*(\d+)/gi);
   if (moduleMatch) {
     stats.modules = parseInt(moduleMatch[1], 10);
   }
 
+  // Parse chip area (stat -liberty), e.g. "Chip area for module '\counter': 412.896000"
+  const areaMatches = [...output.matchAll(/Chip area for (?:top )?module '[^']*':\s*([\d.]+)/gi)];
+  if (areaMatches.length > 0) {
+    stats.chipArea = parseFloat(areaMatches[areaMatches.length - 1][1]);
+  }
+
   // Parse cell breakdown (e.g., "sky130_fd_sc_hd__inv_2    123")
   const cellBreakdown: Record<string, number> = {};
   const cellBreakdownRegex = /^\s+(sky130_\w+|\$\w+|[A-Z_]+\d*)\s+(\d+)\s*$/gm;
@@ -396,6 +676,14 @@ function parseYosysStats(output: string): YosysStatistics {
   return stats;
 }
 
+/**
+ * Last match of a pattern: the final stat (after all passes) is printed last
+ */
+function lastMatch(output: string, pattern: RegExp): RegExpMatchArray | null {
+  const matches = [...output.matchAll(pattern)];
+  return matches.length > 0 ? matches[matches.length - 1] : null;
+}
+
 /**
  * Extract final statistics section from Yosys output
  */
@@ -435,6 +723,7 @@ export function formatSynthesisResult(result: SynthesisResult): string {
     if (stats.wireBits !== undefined) summary += `Wire Bits: ${stats.wireBits}\n`;
     if (stats.memories !== undefined) summary += `Memories: ${stats.memories}\n`;
     if (stats.memoryBits !== undefined) summary += `Memory Bits: ${stats.memoryBits}\n`;
+    if (stats.chipArea !== undefined) summary += `Chip Area: ${stats.chipArea} um^2\n`;
 
     // Cell breakdown (top 10 by count)
     if (stats.cellBreakdown && Object.keys(stats.cellBreakdown).length > 0) {
@@ -465,10 +754,13 @@ export function formatSynthesisResult(result: SynthesisResult): string {
     run_id: result.runId,
     success: result.success,
     target: result.target,
+    language: result.language,
+    sv_frontend: result.language === "sv2012" ? result.svFrontend : undefined,
     host_path: result.hostPath,
     container_path: result.containerPath,
     statistics: result.statistics,
     summary: summary || undefined,
+    timing_estimate: result.timingEstimate ? formatTimingEstimate(result.timingEstimate) : undefined,
     final_statistics: finalStats || undefined,
     synthesized_verilog_preview: result.synthesizedVerilog ?
       (result.synthesizedVerilog.length > 500 ?
@@ -481,9 +773,38 @@ export function formatSynthesisResult(result: SynthesisResult): string {
         result.stdout) :
       undefined,
     stderr: result.stderr || undefined,
+    diagnostics: result.diagnostics?.length ? diagnosticsByFile(result.diagnostics) : undefined,
+    cache_hit: result.cacheHit || undefined,
+    cached_from_run_id: result.cachedFromRunId,
     error: result.error,
     note: result.success ?
-      `Synthesis completed successfully. Use project_id '${result.projectId}' for subsequent operations (simulation, OpenLane flow, etc.)` :
+      `${result.cacheHit ? `Result reused from identical run '${result.cachedFromRunId}' (cache hit). ` : ""}Synthesis completed successfully. Use project_id '${result.projectId}' for subsequent operations (simulation, OpenLane flow, etc.)` :
       "Synthesis failed. Check the error message for details."
   }, null, 2);
 }
+
+/**
+ * Pre-layout estimate in the snake_case shape of the MCP response
+ */
+function formatTimingEstimate(estimate: PreLayoutEstimate): Record<string, unknown> {
+  return {
+    success: estimate.success,
+    constrained: estimate.constrained,
+    clock_port: estimate.clockPort,
+    clock_period_ns: estimate.clockPeriod,
+    critical_path_ns: estimate.criticalPathNs,
+    frequency_mhz: estimate.frequencyMhz,
+    wns_ns: estimate.wnsNs,
+    tns_ns: estimate.tnsNs,
+    area_um2: estimate.areaUm2,
+    internal_power_mw: estimate.internalPowerMw,
+    switching_power_mw: estimate.switchingPowerMw,
+    leakage_power_mw: estimate.leakagePowerMw,
+    total_power_mw: estimate.totalPowerMw,
+    sdc_file: estimate.sdcFile,
+    error: estimate.error,
+    note: estimate.success
+      ? "Pre-layout estimate with ideal wires (no parasitics, no wire-load model), stored as synthesis-stage PPA metrics. Expect lower frequency after place and route."
+      : undefined,
+  };
+}
@@ -48,6 +48,7 @@ import {
 import { runOpenlane, type OpenlaneOptions, type OpenlaneResult } from "./openlane.js";
 import { projectManager } from "../files/project-manager.js";
 import { fileManager } from "../files/file-manager.js";
+import { getExecutor, runChecked, type CommandExecutor } from "../executor/index.js";
 
 /**
  * Tool result type
@@ -365,10 +366,13 @@ export async function runAutoTunerTool(options: {
     bestScore: number;
     currentStatus: string;
   }) => void;
+  executor?: CommandExecutor;
 }): Promise<ToolResult<AutoTunerResult & { configUsed: string; commandUsed: string }>> {
+  const executor = options.executor || getExecutor();
+
   try {
     // Check if AutoTuner is available
-    const status = await checkAutoTunerAvailable();
+    const status = await checkAutoTunerAvailable(executor);
     if (!status.available) {
       return {
         success: false,
@@ -382,7 +386,6 @@ export async function runAutoTunerTool(options: {
       // Try to read from project directory
       const { readFile } = await import("fs/promises");
       const { join } = await import("path");
-      const { execSync } = await import("child_process");
 
       try {
         // Convert host path to container path
@@ -394,11 +397,11 @@ export async function runAutoTunerTool(options: {
         const containerPath = `/workspace/projects/${projectId}`;
 
         const verilogPath = `${containerPath}/src/${options.designName}.v`;
-        const result = execSync(
-          `docker exec mcp4eda bash -c "cat ${verilogPath} 2>/dev/null || cat ${containerPath}/${options.designName}.v 2>/dev/null"`,
-          { encoding: "utf-8", timeout: 5000 }
-        );
-        verilogCode = result.trim();
+        let result = await executor.run(["cat", "--", verilogPath], { timeout: 5000 });
+        if (!result.success) {
+          result = await runChecked(executor, ["cat", "--", `${containerPath}/${options.designName}.v`], { timeout: 5000 });
+        }
+        verilogCode = result.stdout.trim();
       } catch {
         return {
           success: false,
@@ -441,6 +444,7 @@ export async function runAutoTunerTool(options: {
         clockPeriod: options.clockPeriod || 10.0,
         config: configResult.result.config,
         timeout: options.timeout || 60,
+        executor,
       },
       options.onProgress
     );
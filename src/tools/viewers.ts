@@ -5,9 +5,10 @@
  * via the VNC web interface at http://localhost:8888
  */
 
-import { dockerManager } from "../docker/docker-manager.js";
+import { getExecutor, bashScript } from "../executor/index.js";
 import { projectManager } from "../files/project-manager.js";
 import { fileManager } from "../files/file-manager.js";
+import { listVcdFiles } from "./simulation.js";
 
 /**
  * Viewer result interface
@@ -41,7 +42,7 @@ export async function viewWaveform(
     }
 
     // Ensure Docker container is running
-    if (!(await dockerManager.ensureRunning())) {
+    if (!(await getExecutor().ensureReady())) {
       return {
         success: false,
         projectId,
@@ -53,33 +54,24 @@ export async function viewWaveform(
 
     // Check if VCD file exists in container
     const vcdPath = `${paths.containerPath}/output/${vcdFile}`;
-    const checkCmd = `test -f ${vcdPath} && echo "exists" || echo "not found"`;
-    const checkResult = await dockerManager.exec(checkCmd, { workdir: paths.containerPath });
+    const checkResult = await getExecutor().run(["test", "-f", vcdPath], { workdir: paths.containerPath });
 
-    if (!checkResult.success || checkResult.stdout.includes("not found")) {
+    if (!checkResult.success) {
       // List available VCD files
-      const listCmd = `ls ${paths.containerPath}/output/*.vcd 2>/dev/null | xargs -n1 basename 2>/dev/null || echo "No VCD files found"`;
-      const listResult = await dockerManager.exec(listCmd, { workdir: paths.containerPath });
-
-      const availableFiles = listResult.stdout.trim();
+      const availableFiles = await listVcdFiles(projectId);
 
       return {
         success: false,
         projectId,
         error: `VCD file '${vcdFile}' not found in project ${projectId}`,
-        message: availableFiles.includes("No VCD files") ?
+        message: availableFiles.length === 0 ?
           "No VCD files available. Make sure your testbench includes $dumpfile() and $dumpvars() commands." :
-          `Available VCD files: ${availableFiles}`,
+          `Available VCD files: ${availableFiles.join("\n")}`,
       };
     }
 
     // Launch GTKWave in the container (displays via VNC)
-    // Use DISPLAY=:0 which is the VNC display
-    const launchCmd = `DISPLAY=:0 gtkwave ${vcdPath} &`;
-    const launchResult = await dockerManager.exec(launchCmd, {
-      workdir: paths.containerPath,
-      timeout: 5000,
-    });
+    await launchViewer("gtkwave", vcdPath, paths.containerPath);
 
     return {
       success: true,
@@ -118,7 +110,7 @@ export async function viewGds(
     }
 
     // Ensure Docker container is running
-    if (!(await dockerManager.ensureRunning())) {
+    if (!(await getExecutor().ensureReady())) {
       return {
         success: false,
         projectId,
@@ -134,32 +126,37 @@ export async function viewGds(
       gdsPath = `${paths.containerPath}/output/${gdsFile}`;
     } else {
       // Auto-find GDS file from OpenLane runs
-      const findCmd = `find ${paths.containerPath}/runs -name "*.gds" 2>/dev/null | head -1`;
-      const findResult = await dockerManager.exec(findCmd, { workdir: paths.containerPath });
+      const findResult = await getExecutor().run(
+        ["find", `${paths.containerPath}/runs`, "-name", "*.gds"],
+        { workdir: paths.containerPath }
+      );
+      const runGds = findResult.stdout.split("\n")[0].trim();
 
-      if (!findResult.success || !findResult.stdout.trim()) {
+      if (!runGds) {
         // Also check output directory
-        const checkOutput = `ls ${paths.containerPath}/output/*.gds 2>/dev/null | head -1`;
-        const outputResult = await dockerManager.exec(checkOutput, { workdir: paths.containerPath });
+        const outputResult = await getExecutor().run(
+          ["find", `${paths.containerPath}/output`, "-maxdepth", "1", "-name", "*.gds"],
+          { workdir: paths.containerPath }
+        );
+        const outputGds = outputResult.stdout.split("\n")[0].trim();
 
-        if (!outputResult.success || !outputResult.stdout.trim()) {
+        if (!outputGds) {
           return {
             success: false,
             projectId,
             error: "No GDS files found. Run OpenLane flow first.",
           };
         }
-        gdsPath = outputResult.stdout.trim();
+        gdsPath = outputGds;
       } else {
-        gdsPath = findResult.stdout.trim();
+        gdsPath = runGds;
       }
     }
 
     // Check if GDS file exists
-    const checkCmd = `test -f ${gdsPath} && echo "exists" || echo "not found"`;
-    const checkResult = await dockerManager.exec(checkCmd, { workdir: paths.containerPath });
+    const checkResult = await getExecutor().run(["test", "-f", gdsPath], { workdir: paths.containerPath });
 
-    if (!checkResult.success || checkResult.stdout.includes("not found")) {
+    if (!checkResult.success) {
       return {
         success: false,
         projectId,
@@ -168,11 +165,7 @@ export async function viewGds(
     }
 
     // Launch KLayout in the container (displays via VNC)
-    const launchCmd = `DISPLAY=:0 klayout ${gdsPath} &`;
-    const launchResult = await dockerManager.exec(launchCmd, {
-      workdir: paths.containerPath,
-      timeout: 5000,
-    });
+    await launchViewer("klayout", gdsPath, paths.containerPath);
 
     const fileName = gdsPath.split("/").pop();
 
@@ -207,10 +200,12 @@ export async function listGdsFiles(projectId: string): Promise<string[]> {
     const paths = projectManager.getProjectPaths(projectId);
 
     // Find all GDS files
-    const findCmd = `find ${paths.containerPath} -name "*.gds" 2>/dev/null`;
-    const result = await dockerManager.exec(findCmd, { workdir: paths.containerPath });
+    const result = await getExecutor().run(
+      ["find", paths.containerPath, "-name", "*.gds"],
+      { workdir: paths.containerPath }
+    );
 
-    if (!result.success || !result.stdout.trim()) {
+    if (!result.stdout.trim()) {
       return [];
     }
 
@@ -237,7 +232,7 @@ export async function openFileViewer(
       };
     }
 
-    if (!(await dockerManager.ensureRunning())) {
+    if (!(await getExecutor().ensureReady())) {
       return {
         success: false,
         projectId,
@@ -268,11 +263,7 @@ export async function openFileViewer(
         viewer = "gedit";
     }
 
-    const launchCmd = `DISPLAY=:0 ${viewer} ${fullPath} &`;
-    await dockerManager.exec(launchCmd, {
-      workdir: paths.containerPath,
-      timeout: 5000,
-    });
+    await launchViewer(viewer, fullPath, paths.containerPath);
 
     return {
       success: true,
@@ -292,6 +283,17 @@ export async function openFileViewer(
   }
 }
 
+/**
+ * Start a GUI viewer in the background on the VNC display (DISPLAY=:0)
+ */
+async function launchViewer(viewer: string, filePath: string, workdir: string): Promise<void> {
+  await getExecutor().run(bashScript('"$@" >/dev/null 2>&1 &', viewer, filePath), {
+    workdir,
+    timeout: 5000,
+    env: { DISPLAY: ":0" },
+  });
+}
+
 /**
  * Get VNC connection info
  */
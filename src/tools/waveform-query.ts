@@ -0,0 +1,311 @@
+/**
+ * Waveform Query Tool - Read simulation traces without a GUI
+ *
+ * Answers questions about a project's VCD (or FST, converted with
+ * fst2vcd) as compact text tables: which signals exist, their values at
+ * a time, their transitions in a window, when a condition first holds,
+ * and how often they toggle.
+ */
+
+import { getExecutor, type CommandExecutor } from "../executor/index.js";
+import { projectManager } from "../files/project-manager.js";
+import {
+  defaultTraceFile,
+  readTraceFile,
+  parseVcdHeader,
+  readVcdChanges,
+  parseTime,
+  formatTimescale,
+  resolveSignal,
+  valueAt,
+  formatValue,
+  countToggles,
+  parseExpression,
+  formatTable,
+  type Radix,
+  type VcdChanges,
+  type VcdSignal,
+} from "../waveform/index.js";
+
+export type WaveformOperation = "list_signals" | "value_at" | "transitions" | "find" | "toggles";
+
+export const WAVEFORM_OPERATIONS: WaveformOperation[] = ["list_signals", "value_at", "transitions", "find", "toggles"];
+
+// Signals per transitions table
+const MAX_TRANSITION_SIGNALS = 8;
+
+const DEFAULT_LIMITS: Record<WaveformOperation, number> = {
+  list_signals: 200,
+  value_at: 200,
+  transitions: 100,
+  find: 1,
+  toggles: 50,
+};
+
+/**
+ * Waveform query options
+ */
+export interface WaveformQueryOptions {
+  projectId: string;
+  operation: WaveformOperation;
+  vcdFile?: string;             // Trace under output/ (default: the latest simulation's trace, else output.vcd)
+  signals?: string[];           // Full names or unique suffixes
+  filter?: string;              // list_signals/toggles: substring or glob (*) on signal names
+  time?: number | string;       // value_at: ticks, or with a unit ("120ns")
+  start?: number | string;      // Window start (default: 0)
+  end?: number | string;        // Window end (default: end of the dump)
+  expression?: string;          // find: condition, e.g. "state == 3 && valid"
+  limit?: number;               // Rows (find: occurrences)
+  radix?: Radix;                // Vector display (default: hex)
+  executor?: CommandExecutor;
+}
+
+/**
+ * Waveform query result
+ */
+export interface WaveformQueryResult {
+  success: boolean;
+  projectId: string;
+  operation: WaveformOperation;
+  vcdFile?: string;
+  timescale?: string;
+  endTime?: number;
+  summary?: string;
+  table?: string;
+  truncated?: boolean;
+  error?: string;
+}
+
+/**
+ * Run one query against a project's trace file
+ */
+export async function queryWaveform(options: WaveformQueryOptions): Promise<WaveformQueryResult> {
+  const { projectId, operation, radix = "hex" } = options;
+  const fail = (error: string, extra: Partial<WaveformQueryResult> = {}): WaveformQueryResult =>
+    ({ success: false, projectId, operation, error, ...extra });
+
+  if (!WAVEFORM_OPERATIONS.includes(operation)) {
+    return fail(`Invalid operation '${operation}' (expected one of: ${WAVEFORM_OPERATIONS.join(", ")})`);
+  }
+  if (!["hex", "bin", "dec"].includes(radix)) {
+    return fail(`Invalid radix '${radix}' (expected hex, bin or dec)`);
+  }
+  if (!projectManager.getProject(projectId)) {
+    return fail(`Project ${projectId} not found`);
+  }
+
+  const vcdFile = options.vcdFile || defaultTraceFile(projectId);
+
+  try {
+    const text = await readTraceFile(projectId, vcdFile, options.executor || getExecutor());
+    if (typeof text !== "string") return fail(text.error, { vcdFile });
+
+    const header = parseVcdHeader(text);
+    const timescale = formatTimescale(header.timescale);
+    const base = { projectId, operation, vcdFile, timescale };
+    const limit = Math.max(1, Math.floor(options.limit ?? DEFAULT_LIMITS[operation]));
+
+    // Names given by the caller, resolved before the dump body is read
+    const resolveAll = (names: string[]): VcdSignal[] | string => {
+      const signals: VcdSignal[] = [];
+      for (const name of names) {
+        const signal = resolveSignal(header, name);
+        if (typeof signal === "string") return signal;
+        signals.push(signal);
+      }
+      return signals;
+    };
+    const filtered = () => header.signals.filter(nameFilter(options.filter));
+
+    if (operation === "list_signals") {
+      const signals = filtered();
+      const rows = signals.slice(0, limit).map((s) => [s.name, String(s.width), s.type, s.range || ""]);
+      return {
+        success: true,
+        ...base,
+        summary: `${signals.length} of ${header.signals.length} signals${options.filter ? ` matching '${options.filter}'` : ""}`,
+        table: formatTable(["signal", "width", "type", "range"], rows),
+        truncated: signals.length > limit,
+      };
+    }
+
+    const signals = options.signals?.length ? resolveAll(options.signals) : null;
+    if (typeof signals === "string") return fail(signals, { vcdFile, timescale });
+
+    // The time window, in ticks
+    const times = (changes: VcdChanges) => {
+      const start = options.start === undefined ? 0 : parseTime(options.start, header.timescale);
+      const end = options.end === undefined ? changes.endTime : parseTime(options.end, header.timescale);
+      return start === null || end === null ? null : { start, end };
+    };
+
+    switch (operation) {
+      case "value_at": {
+        if (options.time === undefined) return fail("'time' is required for operation 'value_at'", { vcdFile, timescale });
+        const time = parseTime(options.time, header.timescale);
+        if (time === null) return fail(`Invalid time '${options.time}'`, { vcdFile, timescale });
+        const selected = signals || filtered();
+        const shown = selected.slice(0, limit);
+        const changes = readVcdChanges(text, header, new Set(shown.map((s) => s.id)));
+        const rows = shown.map((s) => [s.name, formatValue(valueAt(changes.traces.get(s.id)!, time), s, radix)]);
+        return {
+          success: true,
+          ...base,
+          endTime: changes.endTime,
+          summary: `Values at t=${time} (${timescale} units)`,
+          table: formatTable(["signal", "value"], rows),
+          truncated: selected.length > limit,
+        };
+      }
+
+      case "transitions": {
+        if (!signals) return fail("'signals' is required for operation 'transitions'", { vcdFile, timescale });
+        if (signals.length > MAX_TRANSITION_SIGNALS) {
+          return fail(`At most ${MAX_TRANSITION_SIGNALS} signals per transitions query`, { vcdFile, timescale });
+        }
+        const changes = readVcdChanges(text, header, new Set(signals.map((s) => s.id)));
+        const window = times(changes);
+        if (!window) return fail("Invalid 'start' or 'end' time", { vcdFile, timescale });
+
+        // One row per timestamp where any of the signals changed, starting with the values at the window start
+        const stamps = new Set<number>([window.start]);
+        for (const s of signals) {
+          for (const t of changes.traces.get(s.id)!.times) {
+            if (t > window.start && t <= window.end) stamps.add(t);
+          }
+        }
+        const ordered = [...stamps].sort((a, b) => a - b);
+        const rows = ordered.slice(0, limit).map((t) => [
+          String(t),
+          ...signals.map((s) => formatValue(valueAt(changes.traces.get(s.id)!, t), s, radix)),
+        ]);
+        return {
+          success: true,
+          ...base,
+          endTime: changes.endTime,
+          summary: `${ordered.length - 1} change times in [${window.start}, ${window.end}] (${timescale} units)`,
+          table: formatTable(["time", ...signals.map((s) => s.name)], rows),
+          truncated: ordered.length > limit,
+        };
+      }
+
+      case "find": {
+        if (!options.expression) return fail("'expression' is required for operation 'find'", { vcdFile, timescale });
+        let expression;
+        try {
+          expression = parseExpression(options.expression);
+        } catch (error: any) {
+          return fail(`Invalid expression: ${error.message}`, { vcdFile, timescale });
+        }
+        const operands = resolveAll(expression.signals);
+        if (typeof operands === "string") return fail(operands, { vcdFile, timescale });
+
+        const changes = readVcdChanges(text, header, new Set(operands.map((s) => s.id)));
+        const window = times(changes);
+        if (!window) return fail("Invalid 'start' or 'end' time", { vcdFile, timescale });
+
+        const bySymbol = new Map(expression.signals.map((name, i) => [name, operands[i]]));
+        const holds = (t: number) => {
+          const value = expression.evaluate((name) => valueAt(changes.traces.get(bySymbol.get(name)!.id)!, t));
+          return value !== null && value !== 0n;
+        };
+
+        // Times where the condition becomes true: at the window start, or on a change that makes it true
+        const stamps = new Set<number>();
+        for (const s of operands) {
+          for (const t of changes.traces.get(s.id)!.times) {
+            if (t > window.start && t <= window.end) stamps.add(t);
+          }
+        }
+        const hits: number[] = [];
+        let previous = holds(window.start);
+        if (previous) hits.push(window.start);
+        for (const t of [...stamps].sort((a, b) => a - b)) {
+          if (hits.length >= limit) break;
+          const now = holds(t);
+          if (now && !previous) hits.push(t);
+          previous = now;
+        }
+
+        const rows = hits.map((t) => [
+          String(t),
+          ...operands.map((s) => formatValue(valueAt(changes.traces.get(s.id)!, t), s, radix)),
+        ]);
+        return {
+          success: true,
+          ...base,
+          endTime: changes.endTime,
+          summary: hits.length > 0
+            ? `'${options.expression}' becomes true at t=${hits[0]} (${timescale} units)${hits.length > 1 ? `, ${hits.length} occurrences shown` : ""}`
+            : `'${options.expression}' is never true in [${window.start}, ${window.end}]`,
+          table: hits.length > 0 ? formatTable(["time", ...operands.map((s) => s.name)], rows) : undefined,
+        };
+      }
+
+      case "toggles": {
+        const selected = signals || filtered();
+        const changes = readVcdChanges(text, header, new Set(selected.map((s) => s.id)));
+        const window = times(changes);
+        if (!window) return fail("Invalid 'start' or 'end' time", { vcdFile, timescale });
+
+        const counts = selected
+          .map((s) => ({ signal: s, ...countToggles(changes.traces.get(s.id)!, window.start, window.end) }))
+          .sort((a, b) => b.bitToggles - a.bitToggles || b.transitions - a.transitions);
+        const rows = counts.slice(0, limit).map((c) => [
+          c.signal.name,
+          String(c.signal.width),
+          String(c.transitions),
+          String(c.bitToggles),
+        ]);
+        const idle = counts.filter((c) => c.transitions === 0).length;
+        return {
+          success: true,
+          ...base,
+          endTime: changes.endTime,
+          summary: `Toggle counts in [${window.start}, ${window.end}] (${timescale} units); ${idle} of ${counts.length} signals never change`,
+          table: formatTable(["signal", "width", "transitions", "bit_toggles"], rows),
+          truncated: counts.length > limit,
+        };
+      }
+    }
+  } catch (error: any) {
+    return fail(error.message || String(error), { vcdFile });
+  }
+  return fail(`Unsupported operation '${operation}'`);
+}
+
+/**
+ * Signal name filter: glob when it contains *, else case-insensitive substring
+ */
+function nameFilter(filter?: string): (signal: VcdSignal) => boolean {
+  if (!filter) return () => true;
+  if (filter.includes("*")) {
+    const pattern = new RegExp(`^${filter.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*")}$`, "i");
+    return (signal) => pattern.test(signal.name);
+  }
+  const needle = filter.toLowerCase();
+  return (signal) => signal.name.toLowerCase().includes(needle);
+}
+
+/**
+ * Format waveform query result for MCP response: a summary line and a text table
+ */
+export function formatWaveformQueryResult(result: WaveformQueryResult): string {
+  if (!result.success) {
+    return JSON.stringify({
+      success: false,
+      project_id: result.projectId,
+      operation: result.operation,
+      vcd_file: result.vcdFile,
+      error: result.error,
+      note: "Waveform query failed. Check the error message for details.",
+    }, null, 2);
+  }
+
+  const lines = [
+    `${result.vcdFile} (timescale ${result.timescale}${result.endTime !== undefined ? `, ends at t=${result.endTime}` : ""}): ${result.summary}`,
+  ];
+  if (result.table) lines.push("", result.table);
+  if (result.truncated) lines.push("", "(truncated: raise 'limit' or narrow the query to see more rows)");
+  return lines.join("\n");
+}
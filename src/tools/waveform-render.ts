@@ -0,0 +1,225 @@
+/**
+ * Waveform Render Tool - Timing diagrams of a simulation trace as images
+ *
+ * Converts selected signals of a project's VCD (or FST) in a time window
+ * to WaveDrom JSON, renders it with wavedrom-cli (SVG, then PNG with
+ * rsvg-convert) and returns it as MCP image content, so waveforms can be
+ * shown in the conversation without GTKWave over VNC.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { getExecutor, type CommandExecutor } from "../executor/index.js";
+import { projectManager } from "../files/project-manager.js";
+import { pathResolver } from "../files/path-resolver.js";
+import { fileManager } from "../files/file-manager.js";
+import {
+  defaultTraceFile,
+  readTraceFile,
+  parseVcdHeader,
+  readVcdChanges,
+  parseTime,
+  formatTimescale,
+  resolveSignal,
+  toWaveDrom,
+  type VcdSignal,
+} from "../waveform/index.js";
+
+export type WaveformFormat = "png" | "svg";
+
+// Larger images are saved but not returned inline
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const MAX_SIGNALS = 32;
+const DEFAULT_COLUMNS = 64;
+const MAX_COLUMNS = 256;
+
+const MIME_TYPES: Record<WaveformFormat, string> = {
+  png: "image/png",
+  svg: "image/svg+xml",
+};
+
+/**
+ * Waveform render options
+ */
+export interface WaveformRenderOptions {
+  projectId: string;
+  signals: string[];            // Full names or unique suffixes, drawn top to bottom
+  vcdFile?: string;             // Trace under output/ (default: the latest simulation's trace, else output.vcd)
+  start?: number | string;      // Ticks or with a unit ("120ns"); default: 0
+  end?: number | string;        // Default: end of the dump
+  marker?: number | string;     // Time to mark
+  maxColumns?: number;          // Default: 64
+  format?: WaveformFormat;      // Default: png
+  executor?: CommandExecutor;
+}
+
+/**
+ * Waveform render result
+ */
+export interface WaveformRenderResult {
+  success: boolean;
+  projectId: string;
+  vcdFile?: string;
+  signals?: string[];
+  start?: number;
+  end?: number;
+  step?: number;                // Ticks per column
+  timescale?: string;
+  format?: WaveformFormat;
+  wavedromFile?: string;        // Project-relative path (output/)
+  imageFile?: string;
+  mimeType?: string;
+  data?: string;                // Base64 image, unless larger than MAX_IMAGE_BYTES
+  bytes?: number;
+  warning?: string;
+  error?: string;
+}
+
+/**
+ * Render signals of a trace in a time window
+ */
+export async function renderWaveform(options: WaveformRenderOptions): Promise<WaveformRenderResult> {
+  const { projectId, signals: names, format = "png" } = options;
+  const maxColumns = Math.min(MAX_COLUMNS, Math.max(4, Math.floor(options.maxColumns ?? DEFAULT_COLUMNS)));
+  const executor = options.executor || getExecutor();
+
+  if (!projectManager.getProject(projectId)) {
+    return { success: false, projectId, error: `Project ${projectId} not found` };
+  }
+  if (names.length === 0 || names.length > MAX_SIGNALS) {
+    return { success: false, projectId, error: `'signals' must name 1 to ${MAX_SIGNALS} signals` };
+  }
+  if (!(format in MIME_TYPES)) {
+    return { success: false, projectId, error: `Invalid format '${format}' (expected png or svg)` };
+  }
+
+  const vcdFile = options.vcdFile || defaultTraceFile(projectId);
+  try {
+    const text = await readTraceFile(projectId, vcdFile, executor);
+    if (typeof text !== "string") return { success: false, projectId, vcdFile, error: text.error };
+
+    const header = parseVcdHeader(text);
+    const timescale = formatTimescale(header.timescale);
+    const signals: VcdSignal[] = [];
+    for (const name of names) {
+      const signal = resolveSignal(header, name);
+      if (typeof signal === "string") return { success: false, projectId, vcdFile, error: signal };
+      signals.push(signal);
+    }
+
+    const changes = readVcdChanges(text, header, new Set(signals.map((s) => s.id)));
+    const start = options.start === undefined ? 0 : parseTime(options.start, header.timescale);
+    const end = options.end === undefined ? changes.endTime : parseTime(options.end, header.timescale);
+    const marker = options.marker === undefined ? undefined : parseTime(options.marker, header.timescale);
+    if (start === null || end === null || marker === null || end <= start) {
+      return { success: false, projectId, vcdFile, error: "Invalid time window: 'start', 'end' and 'marker' must be times with end after start" };
+    }
+
+    const conversion = toWaveDrom(
+      signals.map((signal) => ({ signal, trace: changes.traces.get(signal.id)! })),
+      { start, end },
+      { maxColumns, marker, timescale, title: `${vcdFile} [${start}, ${end}]` }
+    );
+    let warning = conversion.warning;
+    if (marker !== undefined && (marker < start || marker > end)) {
+      warning = [warning, `Marker t=${marker} is outside the window and was not drawn`].filter(Boolean).join("; ");
+    }
+
+    const wavedromFile = "output/waveform.json";
+    fileManager.writeFile(projectId, "waveform.json", JSON.stringify(conversion.wavedrom, null, 2), "output");
+    const base = {
+      projectId,
+      vcdFile,
+      signals: signals.map((s) => s.name),
+      start,
+      end,
+      step: conversion.step,
+      timescale,
+      wavedromFile,
+    };
+
+    if (!(await executor.ensureReady())) {
+      return { success: false, ...base, error: "Docker container is not running. Please start the container first." };
+    }
+
+    const json = pathResolver.getFileContainerPath(projectId, wavedromFile);
+    const svg = pathResolver.getFileContainerPath(projectId, "output/waveform.svg");
+    const render = await executor.run(["wavedrom-cli", "-i", json, "-s", svg], { timeout: 120000 });
+    if (!render.success) {
+      return {
+        success: false,
+        ...base,
+        error: render.exitCode === 127
+          ? `wavedrom-cli is not installed. Run check_environment for details; the WaveDrom source is in ${wavedromFile}.`
+          : `wavedrom-cli failed: ${render.stderr.trim() || render.stdout.trim()}`,
+      };
+    }
+
+    let imageFile = "output/waveform.svg";
+    if (format === "png") {
+      const png = await executor.run(
+        ["rsvg-convert", "-f", "png", "-o", pathResolver.getFileContainerPath(projectId, "output/waveform.png"), svg],
+        { timeout: 120000 }
+      );
+      if (png.success) {
+        imageFile = "output/waveform.png";
+      } else {
+        warning = [warning, png.exitCode === 127
+          ? "rsvg-convert is not installed; returning SVG instead of PNG"
+          : `rsvg-convert failed (${png.stderr.trim()}); returning SVG instead of PNG`].filter(Boolean).join("; ");
+      }
+    }
+
+    const hostFile = pathResolver.getFileHostPath(projectId, imageFile);
+    if (!existsSync(hostFile)) {
+      return { success: false, ...base, error: `${imageFile} was not written` };
+    }
+    const image = readFileSync(hostFile);
+    const imageFormat: WaveformFormat = imageFile.endsWith(".svg") ? "svg" : "png";
+
+    return {
+      success: true,
+      ...base,
+      format: imageFormat,
+      imageFile,
+      mimeType: MIME_TYPES[imageFormat],
+      data: image.length <= MAX_IMAGE_BYTES ? image.toString("base64") : undefined,
+      bytes: image.length,
+      warning,
+    };
+  } catch (error: any) {
+    return { success: false, projectId, vcdFile, error: error.message || String(error) };
+  }
+}
+
+/**
+ * Format waveform render result for MCP response (the image itself is sent as image content)
+ */
+export function formatWaveformRenderResult(result: WaveformRenderResult): string {
+  let note: string;
+  if (!result.success) {
+    note = "Waveform rendering failed. Check the error message for details.";
+  } else if (!result.data) {
+    note = `The image is too large to return (${result.bytes} bytes). Render fewer signals or a shorter window.`;
+  } else {
+    note = `Waveform saved to ${result.imageFile}. One column is ${result.step} ticks of ${result.timescale}; bus values are hex. Use query_waveform for exact values.`;
+  }
+
+  return JSON.stringify({
+    success: result.success,
+    project_id: result.projectId,
+    vcd_file: result.vcdFile,
+    signals: result.signals,
+    start: result.start,
+    end: result.end,
+    step: result.step,
+    timescale: result.timescale,
+    format: result.format,
+    wavedrom_file: result.wavedromFile,
+    image_file: result.imageFile,
+    bytes: result.bytes,
+    warning: result.warning,
+    error: result.error,
+    note,
+  }, null, 2);
+}
@@ -12,13 +12,12 @@
  *     tune --samples <n> --algorithm <algo>
  */
 
-import { exec } from "child_process";
-import { promisify } from "util";
 import { writeFile, readFile, access, mkdir } from "fs/promises";
 import { join } from "path";
 import type { AutoTunerConfig } from "./config-generator.js";
 import { configToJson, validateConfig } from "./config-generator.js";
 import { type ExtendedPPAMetrics } from "./metrics-extractor.js";
+import { getExecutor, runChecked, bashScript, ExecError, type CommandExecutor } from "../executor/index.js";
 import {
   setupORFSDesign,
   cleanupORFSDesign,
@@ -26,8 +25,6 @@ import {
   type ORFSDesignConfig,
 } from "./orfs-setup.js";
 
-const execAsync = promisify(exec);
-
 /**
  * AutoTuner run configuration
  */
@@ -40,7 +37,7 @@ export interface AutoTunerRunConfig {
   clockPeriod: number;
   config: AutoTunerConfig;
   timeout?: number; // in minutes
-  containerName?: string;
+  executor?: CommandExecutor;
   // User-defined ORFS config and SDC (optional)
   userConfigMk?: string;   // User-defined config.mk content (replaces auto-generated)
   userSdcContent?: string; // User-defined SDC content (replaces auto-generated)
@@ -94,12 +91,12 @@ export type ProgressCallback = (progress: {
  * Check if ORFS AutoTuner is available in the container
  */
 export async function checkAutoTunerAvailable(
-  containerName: string = "mcp4eda"
+  executor: CommandExecutor = getExecutor()
 ): Promise<{ available: boolean; version?: string; error?: string }> {
   try {
     // Check for autotuner Python module
-    const { stdout: moduleCheck } = await execAsync(
-      `docker exec ${containerName} python3 -c "import autotuner; print('available')" 2>&1`,
+    const { stdout: moduleCheck } = await executor.run(
+      ["python3", "-c", "import autotuner; print('available')"],
       { timeout: 15000 }
     );
 
@@ -107,8 +104,9 @@ export async function checkAutoTunerAvailable(
       // Module is available - try to get version info but don't fail if it errors
       let version = "ORFS AutoTuner";
       try {
-        const { stdout: helpOutput } = await execAsync(
-          `docker exec ${containerName} bash -c "python3 -m autotuner.distributed --help 2>&1 | head -3"`,
+        const { stdout: helpOutput } = await runChecked(
+          executor,
+          ["python3", "-m", "autotuner.distributed", "--help"],
           { timeout: 15000 }
         );
         // Version info extracted if needed
@@ -123,12 +121,12 @@ export async function checkAutoTunerAvailable(
     }
 
     // Check if ORFS is cloned but module not installed
-    const { stdout: orfsCheck } = await execAsync(
-      `docker exec ${containerName} bash -c "ls /foss/tools/OpenROAD-flow-scripts/tools/AutoTuner/setup.py 2>/dev/null && echo found"`,
+    const orfsCheck = await executor.run(
+      ["test", "-f", "/foss/tools/OpenROAD-flow-scripts/tools/AutoTuner/setup.py"],
       { timeout: 10000 }
     );
 
-    if (orfsCheck.includes("found")) {
+    if (orfsCheck.success) {
       return {
         available: false,
         error: "AutoTuner source found but not installed. Run: cd /foss/tools/OpenROAD-flow-scripts/tools/AutoTuner && pip3 install -e .",
@@ -205,6 +203,7 @@ export async function prepareAutoTunerRun(
     coreUtilization: tunerConfig.parameters.FP_CORE_UTIL?.min || 40,
     existingSdcContent,  // Pass existing SDC if found or user-provided
     existingConfigMkContent,  // Pass user-provided config.mk if any
+    executor: config.executor,
   };
 
   const orfsSetup = await setupORFSDesign(orfsConfig);
@@ -328,12 +327,12 @@ export async function runAutoTuner(
   onProgress?: ProgressCallback
 ): Promise<AutoTunerResult> {
   const startTime = Date.now();
-  const containerName = config.containerName || "mcp4eda";
+  const executor = config.executor || getExecutor();
   const allTrials: TrialResult[] = [];
 
   try {
     // Check AutoTuner availability
-    const available = await checkAutoTunerAvailable(containerName);
+    const available = await checkAutoTunerAvailable(executor);
     if (!available.available) {
       return {
         status: "failed",
@@ -371,17 +370,27 @@ export async function runAutoTuner(
     // ORFS AutoTuner expects to be run from ORFS directory
     // First create the autotuner directory inside the container
     const containerAutotunerDir = containerLogPath.replace(/\/[^/]+$/, "");
-    const command = `mkdir -p ${containerAutotunerDir} && ` +
-      `cd /foss/tools/OpenROAD-flow-scripts && ` +
-      `python3 -m autotuner.distributed ` +
-      `--design ${config.designName} ` +
-      `--platform ${platform} ` +
-      `--config ${containerConfigPath} ` +
-      `--jobs ${jobs} ` +
-      `tune ` +
-      `--samples ${samples} ` +
-      `--algorithm ${algorithm} ` +
-      `2>&1 | tee ${containerLogPath}`;
+    const command = bashScript(
+      `mkdir -p "$1" && ` +
+        `cd /foss/tools/OpenROAD-flow-scripts && ` +
+        `python3 -m autotuner.distributed ` +
+        `--design "$2" ` +
+        `--platform "$3" ` +
+        `--config "$4" ` +
+        `--jobs "$5" ` +
+        `tune ` +
+        `--samples "$6" ` +
+        `--algorithm "$7" ` +
+        `2>&1 | tee "$8"`,
+      containerAutotunerDir,
+      config.designName,
+      platform,
+      containerConfigPath,
+      String(jobs),
+      String(samples),
+      algorithm,
+      containerLogPath
+    );
 
     // Set timeout
     const timeoutMs = (config.timeout || 60) * 60 * 1000;
@@ -395,11 +404,39 @@ export async function runAutoTuner(
       });
     }
 
-    // Execute AutoTuner
-    const { stdout, stderr } = await execAsync(
-      `docker exec ${containerName} bash -c "${command}"`,
-      { timeout: timeoutMs, maxBuffer: 100 * 1024 * 1024 }
-    );
+    // Execute AutoTuner, reporting trials as Ray Tune finishes them
+    let completedTrials = 0;
+    let bestScore = 0;
+    let outputTail = "";
+
+    const execResult = await executor.run(command, {
+      timeout: timeoutMs,
+      onOutput: (data) => {
+        if (!onProgress) return;
+
+        const text = outputTail + data;
+        outputTail = text.slice(-TRIAL_TAIL_LENGTH);
+        const progress = parseTrialProgress(text);
+        if (!progress) return;
+
+        if (progress.bestScore !== undefined && progress.bestScore > bestScore) {
+          bestScore = progress.bestScore;
+        }
+        if (progress.completed > completedTrials) {
+          completedTrials = progress.completed;
+          onProgress({
+            currentTrial: completedTrials,
+            totalTrials: progress.total || samples,
+            bestScore,
+            currentStatus: `Trial ${completedTrials}/${progress.total || samples} finished`,
+          });
+        }
+      },
+    });
+    if (!execResult.success) {
+      throw new ExecError(command, execResult);
+    }
+    const { stdout, stderr } = execResult;
 
     // Parse results from output
     const result = parseAutoTunerOutput(stdout, stderr, startTime, samples);
@@ -415,7 +452,7 @@ export async function runAutoTuner(
     const errorMsg = error instanceof Error ? error.message : "Unknown error";
 
     // Check if it's a timeout
-    if (errorMsg.includes("ETIMEDOUT") || errorMsg.includes("timeout")) {
+    if (errorMsg.includes("ETIMEDOUT") || errorMsg.includes("timeout") || errorMsg.includes("timed out")) {
       return {
         status: "stopped",
         totalTrials: allTrials.length,
@@ -437,6 +474,44 @@ export async function runAutoTuner(
   }
 }
 
+const TRIAL_TAIL_LENGTH = 500;
+
+/**
+ * Extract trial progress from a chunk of Ray Tune output
+ *
+ * Ray Tune prints a status table with either
+ * "Number of trials: 3/10 (1 RUNNING, 2 TERMINATED)" or
+ * "Trial status: 2 TERMINATED | 1 RUNNING".
+ */
+function parseTrialProgress(
+  output: string
+): { completed: number; total?: number; bestScore?: number } | null {
+  let completed: number | undefined;
+  let total: number | undefined;
+
+  const statusLines = [...output.matchAll(/(?:Number of trials: (\d+)\/(\d+)|Trial status:)([^\n]*)/g)];
+  const status = statusLines[statusLines.length - 1];
+  if (status) {
+    if (status[2]) total = parseInt(status[2], 10);
+    completed = 0;
+    for (const count of status[3].matchAll(/(\d+) (?:TERMINATED|ERROR)/g)) {
+      completed += parseInt(count[1], 10);
+    }
+  }
+
+  const scores = [...output.matchAll(/Trial[:\s]+\d+.*?(?:score|Score)[:\s]+([\d.e+-]+)/g)]
+    .map((match) => parseFloat(match[1]))
+    .filter((score) => !isNaN(score));
+
+  if (completed === undefined && scores.length === 0) return null;
+
+  return {
+    completed: completed ?? 0,
+    total,
+    bestScore: scores.length > 0 ? Math.max(...scores) : undefined,
+  };
+}
+
 /**
  * Parse AutoTuner output from stdout/stderr
  */
@@ -570,20 +645,14 @@ function extractTrialParameters(stdout: string, trialId: number): Record<string,
  * Stop a running AutoTuner process
  */
 export async function stopAutoTuner(
-  containerName: string = "mcp4eda"
+  executor: CommandExecutor = getExecutor()
 ): Promise<boolean> {
   try {
     // Kill python autotuner processes
-    await execAsync(
-      `docker exec ${containerName} pkill -f "autotuner.distributed"`,
-      { timeout: 10000 }
-    );
+    await runChecked(executor, ["pkill", "-f", "autotuner.distributed"], { timeout: 10000 });
 
     // Also kill any Ray processes
-    await execAsync(
-      `docker exec ${containerName} pkill -f "ray"`,
-      { timeout: 10000 }
-    );
+    await runChecked(executor, ["pkill", "-f", "ray"], { timeout: 10000 });
 
     return true;
   } catch {
@@ -595,7 +664,8 @@ export async function stopAutoTuner(
  * Get AutoTuner run status
  */
 export async function getAutoTunerStatus(
-  projectDir: string
+  projectDir: string,
+  executor: CommandExecutor = getExecutor()
 ): Promise<{
   running: boolean;
   progress?: number;
@@ -604,10 +674,8 @@ export async function getAutoTunerStatus(
 }> {
   try {
     // Check if autotuner process is running
-    const { stdout } = await execAsync(
-      `docker exec mcp4eda bash -c "pgrep -f 'autotuner.distributed' 2>/dev/null || echo ''"`,
-      { timeout: 5000 }
-    );
+    // pgrep exits 1 when nothing matches, so only the output matters
+    const { stdout } = await executor.run(["pgrep", "-f", "autotuner.distributed"], { timeout: 5000 });
 
     const running = stdout.trim().length > 0;
 
@@ -12,65 +12,33 @@
  *   └── <design>.v         # Verilog source
  */
 
-import { exec } from "child_process";
-import { promisify } from "util";
-import * as fs from "fs";
-import * as path from "path";
-import * as os from "os";
-
-const execAsync = promisify(exec);
-
-const CONTAINER_NAME = process.env.DOCKER_CONTAINER_NAME || "mcp4eda";
+import { getExecutor, type CommandExecutor } from "../executor/index.js";
 
 /**
- * Execute a command in the Docker container
+ * Run a command through the active executor
  */
-async function execInDocker(command: string): Promise<{ success: boolean; output?: string; error?: string }> {
-  try {
-    const { stdout, stderr } = await execAsync(
-      `docker exec ${CONTAINER_NAME} bash -c "${command.replace(/"/g, '\\"')}"`,
-      { timeout: 30000, maxBuffer: 10 * 1024 * 1024 }
-    );
-    return { success: true, output: stdout };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error",
-    };
+async function runCommand(
+  argv: string[],
+  executor: CommandExecutor = getExecutor()
+): Promise<{ success: boolean; output?: string; error?: string }> {
+  const result = await executor.run(argv, { timeout: 30000 });
+  if (result.success) {
+    return { success: true, output: result.stdout };
   }
+  return { success: false, error: result.stderr || `Command failed with exit code ${result.exitCode}` };
 }
 
 /**
- * Write content to a file in the Docker container using docker cp
- * This avoids Windows command line length limits
+ * Write content to a file through the active executor
+ * (the Docker executor uses docker cp to avoid Windows command line length limits)
  */
-async function writeFileToDocker(content: string, containerPath: string): Promise<{ success: boolean; error?: string }> {
-  const tempDir = os.tmpdir();
-  const tempFile = path.join(tempDir, `mcp4eda_${Date.now()}_${Math.random().toString(36).substring(7)}`);
-
-  try {
-    // Write to temp file on host
-    fs.writeFileSync(tempFile, content, "utf8");
-
-    // Copy to container
-    await execAsync(`docker cp "${tempFile}" ${CONTAINER_NAME}:${containerPath}`, { timeout: 30000 });
-
-    return { success: true };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error",
-    };
-  } finally {
-    // Clean up temp file
-    try {
-      if (fs.existsSync(tempFile)) {
-        fs.unlinkSync(tempFile);
-      }
-    } catch {
-      // Ignore cleanup errors
-    }
-  }
+async function writeTargetFile(
+  content: string,
+  containerPath: string,
+  executor: CommandExecutor = getExecutor()
+): Promise<{ success: boolean; error?: string }> {
+  const result = await executor.writeFile(containerPath, content);
+  return result.success ? { success: true } : { success: false, error: result.stderr };
 }
 
 /**
@@ -101,6 +69,7 @@ export interface ORFSDesignConfig {
   dieArea?: { width: number; height: number };  // optional fixed die size
   existingSdcContent?: string;  // Use existing SDC if provided, otherwise generate
   existingConfigMkContent?: string;  // Use existing config.mk if provided, otherwise generate
+  executor?: CommandExecutor;  // Defaults to the active executor
 }
 
 /**
@@ -181,11 +150,11 @@ export async function setupORFSDesign(config: ORFSDesignConfig): Promise<ORFSSet
   const orfsRoot = "/foss/tools/OpenROAD-flow-scripts";
   const designDir = `${orfsRoot}/flow/designs/${platform}/${config.designName}`;
   const srcDir = `${orfsRoot}/flow/designs/src/${config.designName}`;
+  const executor = config.executor || getExecutor();
 
   try {
     // Create directories
-    const mkdirCmd = `mkdir -p ${designDir} ${srcDir}`;
-    const mkdirResult = await execInDocker(mkdirCmd);
+    const mkdirResult = await runCommand(["mkdir", "-p", "--", designDir, srcDir], executor);
     if (!mkdirResult.success) {
       return {
         success: false,
@@ -201,7 +170,7 @@ export async function setupORFSDesign(config: ORFSDesignConfig): Promise<ORFSSet
     // Use existing config.mk if provided, otherwise generate
     const configMk = config.existingConfigMkContent || generateConfigMk(config);
     const configMkPath = `${designDir}/config.mk`;
-    const configResult = await writeFileToDocker(configMk, configMkPath);
+    const configResult = await writeTargetFile(configMk, configMkPath, executor);
     if (!configResult.success) {
       return {
         success: false,
@@ -217,7 +186,7 @@ export async function setupORFSDesign(config: ORFSDesignConfig): Promise<ORFSSet
     // Use existing SDC if provided, otherwise generate
     const sdc = config.existingSdcContent || generateConstraintSdc(config);
     const sdcPath = `${designDir}/constraint.sdc`;
-    const sdcResult = await writeFileToDocker(sdc, sdcPath);
+    const sdcResult = await writeTargetFile(sdc, sdcPath, executor);
     if (!sdcResult.success) {
       return {
         success: false,
@@ -232,7 +201,7 @@ export async function setupORFSDesign(config: ORFSDesignConfig): Promise<ORFSSet
 
     // Write Verilog source using docker cp to avoid command line length limits
     const verilogPath = `${srcDir}/${config.designName}.v`;
-    const verilogResult = await writeFileToDocker(config.verilogCode, verilogPath);
+    const verilogResult = await writeTargetFile(config.verilogCode, verilogPath, executor);
     if (!verilogResult.success) {
       return {
         success: false,
@@ -246,8 +215,7 @@ export async function setupORFSDesign(config: ORFSDesignConfig): Promise<ORFSSet
     }
 
     // Verify all files exist
-    const verifyCmd = `ls -la ${configMkPath} ${sdcPath} ${verilogPath}`;
-    const verifyResult = await execInDocker(verifyCmd);
+    const verifyResult = await runCommand(["ls", "-la", "--", configMkPath, sdcPath, verilogPath], executor);
     if (!verifyResult.success) {
       return {
         success: false,
@@ -291,8 +259,7 @@ export async function cleanupORFSDesign(designName: string, platform: string): P
   const srcDir = `${orfsRoot}/flow/designs/src/${designName}`;
 
   try {
-    const cleanupCmd = `rm -rf ${designDir} ${srcDir}`;
-    const result = await execInDocker(cleanupCmd);
+    const result = await runCommand(["rm", "-rf", "--", designDir, srcDir]);
     return result.success;
   } catch {
     return false;
@@ -308,9 +275,8 @@ export async function checkORFSDesignExists(designName: string, platform: string
   const configMkPath = `${orfsRoot}/flow/designs/${platformMapped}/${designName}/config.mk`;
 
   try {
-    const checkCmd = `test -f ${configMkPath} && echo "exists"`;
-    const result = await execInDocker(checkCmd);
-    return result.success && (result.output?.includes("exists") ?? false);
+    const result = await runCommand(["test", "-f", configMkPath]);
+    return result.success;
   } catch {
     return false;
   }
@@ -328,8 +294,10 @@ export async function copyProjectToORFS(
 ): Promise<ORFSSetupResult> {
   try {
     // Read Verilog from project directory
-    const readCmd = `cat ${projectDir}/src/${designName}.v 2>/dev/null || cat ${projectDir}/${designName}.v 2>/dev/null`;
-    const readResult = await execInDocker(readCmd);
+    let readResult = await runCommand(["cat", "--", `${projectDir}/src/${designName}.v`]);
+    if (!readResult.success) {
+      readResult = await runCommand(["cat", "--", `${projectDir}/${designName}.v`]);
+    }
 
     if (!readResult.success || !readResult.output) {
       return {
@@ -0,0 +1,17 @@
+/**
+ * Progress Types for long-running tools
+ */
+
+/**
+ * A single progress update
+ */
+export interface ProgressUpdate {
+  progress: number;   // Monotonic counter (step number, iteration, trial)
+  total?: number;     // Known upper bound, if any
+  message: string;    // Human-readable status, e.g. "LibreLane step 23-openroad-globalrouting"
+}
+
+/**
+ * Callback receiving progress updates
+ */
+export type ProgressReporter = (update: ProgressUpdate) => void;
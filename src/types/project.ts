@@ -17,12 +17,12 @@ export interface Project {
 /**
  * Run types
  */
-export type RunType = 'synthesis' | 'simulation' | 'openlane' | 'tuning';
+export type RunType = 'synthesis' | 'simulation' | 'openlane' | 'tuning' | 'signoff' | 'eco' | 'lint' | 'equivalence' | 'formal' | 'fpga' | 'regression' | 'gate_level';
 
 /**
  * Run status
  */
-export type RunStatus = 'pending' | 'running' | 'success' | 'failed';
+export type RunStatus = 'pending' | 'running' | 'success' | 'failed' | 'cancelled';
 
 /**
  * Run represents an execution of a tool
@@ -37,6 +37,7 @@ export interface Run {
   startedAt?: Date;
   completedAt?: Date;
   parentRunId?: string;  // For AutoTuner runs, reference to base OpenLane run
+  jobTool?: string;      // Set when the run was submitted as a background job
 }
 
 /**
@@ -57,11 +58,18 @@ export interface TrackedFile {
 }
 
 /**
- * PPA Metrics from OpenLane runs
+ * Where PPA metrics come from: pre-layout STA on the synthesized netlist, an OpenLane run
+ * (vectorless power), or power of an OpenLane run with simulation switching activity
+ */
+export type PPAStage = 'synthesis' | 'layout' | 'activity';
+
+/**
+ * PPA Metrics from OpenLane runs (or pre-layout estimates after synthesis)
  */
 export interface PPAMetrics {
   id: number;
   runId: string;
+  stage?: PPAStage;
   areaUm2?: number;
   powerMw?: number;
   frequencyMhz?: number;
@@ -70,6 +78,62 @@ export interface PPAMetrics {
   cellCount?: number;
 }
 
+/**
+ * Where coverage comes from: Verilator --coverage, or toggles counted in a VCD
+ */
+export type CoverageSource = 'verilator' | 'vcd';
+
+/**
+ * Coverage of a simulation or regression run (percent of points hit)
+ */
+export interface CoverageMetrics {
+  id: number;
+  runId: string;
+  source: CoverageSource;
+  linePct?: number;
+  togglePct?: number;
+  userPct?: number;
+  expressionPct?: number;
+  coveredPoints: number;
+  totalPoints: number;
+}
+
+/**
+ * A file captured in a run's input snapshot
+ */
+export interface SnapshotFile {
+  path: string;    // Relative to the project directory, e.g. "src/design.v"
+  sha256: string;  // Key in the content-addressed snapshot store
+  size: number;
+}
+
+/**
+ * Exact inputs and tool versions a run was executed with
+ */
+export interface RunSnapshot {
+  runId: string;
+  files: SnapshotFile[];
+  toolVersions: Record<string, string>;
+  executor: string;
+  createdAt: Date;
+}
+
+/**
+ * Result of a synthesis or OpenLane run stored for reuse
+ */
+export interface ResultCacheEntry {
+  key: string;                     // Hash of inputs, parameters and tool versions
+  tool: 'synthesis' | 'openlane';
+  runId: string;                   // Run that produced the result
+  projectId: string;
+  result: Record<string, any>;
+  artifacts: SnapshotFile[];       // Output files, stored in the snapshot store
+  sizeBytes: number;
+  hitCount: number;
+  createdAt: Date;
+  lastHitAt?: Date;
+}
+
 /**
  * Project with associated data
  */
@@ -77,6 +141,7 @@ export interface ProjectWithDetails extends Project {
   runs: Run[];
   files: TrackedFile[];
   latestPPA?: PPAMetrics;
+  latestCoverage?: CoverageMetrics;
 }
 
 /**
@@ -96,4 +161,5 @@ export interface CreateRunInput {
   runType: RunType;
   config?: Record<string, any>;
   parentRunId?: string;  // For AutoTuner runs, reference to base OpenLane run
+  jobTool?: string;      // MCP tool name when submitted through the job queue
 }
@@ -0,0 +1,41 @@
+/**
+ * Waveform Module
+ *
+ * VCD parsing and the queries behind query_waveform: signal lists,
+ * values at a time, transitions, condition search and toggle counts.
+ * Traces are read from a project's output/ (FST via fst2vcd) and can be
+ * converted to WaveDrom for render_waveform.
+ */
+
+export { defaultTraceFile, readTraceFile } from "./trace-file.js";
+
+export {
+  parseVcdHeader,
+  readVcdChanges,
+  parseTime,
+  formatTimescale,
+  type VcdSignal,
+  type VcdTimescale,
+  type VcdHeader,
+  type SignalTrace,
+  type VcdChanges,
+} from "./vcd.js";
+
+export {
+  resolveSignal,
+  valueAt,
+  formatValue,
+  numericValue,
+  countToggles,
+  parseExpression,
+  formatTable,
+  type Radix,
+  type Expression,
+} from "./query.js";
+
+export {
+  toWaveDrom,
+  type WaveDrom,
+  type WaveDromSignal,
+  type WaveDromConversion,
+} from "./wavedrom.js";
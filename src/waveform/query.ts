@@ -0,0 +1,250 @@
+/**
+ * Waveform Queries - Values, transitions, conditions and toggle counts
+ *
+ * Operates on the header and value changes read by the VCD parser.
+ * Signals are named by their full hierarchical name or any unique
+ * suffix of it (e.g. "dut.count" or "count"). Expressions use Verilog
+ * operators on signal values; a value with x/z bits is unknown and
+ * never satisfies a condition.
+ */
+
+import type { SignalTrace, VcdHeader, VcdSignal } from "./vcd.js";
+
+export type Radix = "hex" | "bin" | "dec";
+
+/**
+ * Find a signal by full name or unique hierarchical suffix; error message if none or several match
+ */
+export function resolveSignal(header: VcdHeader, name: string): VcdSignal | string {
+  const exact = header.signals.find((s) => s.name === name);
+  if (exact) return exact;
+
+  const matches = header.signals.filter((s) => s.name.endsWith(`.${name}`));
+  if (matches.length === 1) return matches[0];
+  if (matches.length > 1) {
+    const names = matches.slice(0, 5).map((s) => s.name).join(", ");
+    return `Signal '${name}' is ambiguous: ${names}${matches.length > 5 ? ", ..." : ""}`;
+  }
+  return `Signal '${name}' not found (use operation 'list_signals' to see the available names)`;
+}
+
+/**
+ * Value of a trace at a time (the last change at or before it); undefined before the first change
+ */
+export function valueAt(trace: SignalTrace, time: number): string | undefined {
+  let low = 0;
+  let high = trace.times.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (trace.times[mid] <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found >= 0 ? trace.values[found] : undefined;
+}
+
+/**
+ * Display a value: scalars as 0/1/x/z, vectors in the given radix ('h3f, 'b0011_1111, 63)
+ */
+export function formatValue(value: string | undefined, signal: VcdSignal, radix: Radix = "hex"): string {
+  if (value === undefined) return "-";
+  if (signal.width <= 1 || !/^[01xz]+$/.test(value)) return value;
+
+  if (radix === "bin") return `'b${value}`;
+  if (radix === "dec") return /[xz]/.test(value) ? "x" : BigInt(`0b${value}`).toString(10);
+
+  let hex = "";
+  for (let end = value.length; end > 0; end -= 4) {
+    const nibble = value.slice(Math.max(0, end - 4), end);
+    if (/^[01]+$/.test(nibble)) hex = parseInt(nibble, 2).toString(16) + hex;
+    else if (/^x+$/.test(nibble)) hex = "x" + hex;
+    else if (/^z+$/.test(nibble)) hex = "z" + hex;
+    else hex = "X" + hex;
+  }
+  return `'h${hex}`;
+}
+
+/**
+ * Numeric value of a trace value; null when it has x/z bits
+ */
+export function numericValue(value: string | undefined): bigint | null {
+  if (value === undefined || !/^[01]+$/.test(value)) return null;
+  return BigInt(`0b${value}`);
+}
+
+/**
+ * Number of value changes and of 0<->1 bit flips in a time window
+ */
+export function countToggles(trace: SignalTrace, start: number, end: number): { transitions: number; bitToggles: number } {
+  let transitions = 0;
+  let bitToggles = 0;
+  let previous = valueAt(trace, start);
+  for (let i = 0; i < trace.times.length; i++) {
+    const time = trace.times[i];
+    if (time <= start) continue;
+    if (time > end) break;
+    const value = trace.values[i];
+    if (value === previous) continue;
+    transitions++;
+    if (previous !== undefined && previous.length === value.length) {
+      for (let bit = 0; bit < value.length; bit++) {
+        const a = previous[bit];
+        const b = value[bit];
+        if ((a === "0" && b === "1") || (a === "1" && b === "0")) bitToggles++;
+      }
+    }
+    previous = value;
+  }
+  return { transitions, bitToggles };
+}
+
+/**
+ * A parsed condition: the signal names it reads and its evaluation
+ */
+export interface Expression {
+  signals: string[];
+  evaluate: (lookup: (signal: string) => string | undefined) => bigint | null;
+}
+
+type Node = (lookup: (signal: string) => string | undefined) => bigint | null;
+
+const TOKEN = /\s*(0x[0-9a-fA-F_]+|\d*'[sS]?[bBoOdDhH][0-9a-fA-F_xXzZ]+|\d+|[A-Za-z_\\][\w$.\\]*|&&|\|\||==|!=|<=|>=|[()[\]!~&|^<>:+-])/y;
+
+/**
+ * Parse a Verilog-style condition, e.g. "state == 'h3 && !fifo.full" or "count[3:0] >= 10"
+ */
+export function parseExpression(source: string): Expression {
+  const tokens: string[] = [];
+  let offset = 0;
+  let match: RegExpExecArray | null;
+  TOKEN.lastIndex = 0;
+  while ((match = TOKEN.exec(source))) {
+    tokens.push(match[1]);
+    offset = TOKEN.lastIndex;
+  }
+  if (source.slice(offset).trim()) {
+    throw new Error(`Unexpected '${source.slice(offset).trim()}' in expression`);
+  }
+
+  const signals = new Set<string>();
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const expect = (value: string) => {
+    if (tokens[pos] !== value) throw new Error(`Expected '${value}' in expression`);
+    pos++;
+  };
+
+  // Lowest precedence first, as in Verilog
+  const binary = (ops: string[], next: () => Node, apply: (op: string, a: bigint, b: bigint) => bigint): (() => Node) =>
+    () => {
+      let left = next();
+      while (ops.includes(peek())) {
+        const op = tokens[pos++];
+        const l = left;
+        const r = next();
+        left = (lookup) => {
+          const a = l(lookup);
+          const b = r(lookup);
+          // Known operands decide logical operators even if the other side is unknown
+          if (op === "&&" && (a === 0n || b === 0n)) return 0n;
+          if (op === "||" && ((a !== null && a !== 0n) || (b !== null && b !== 0n))) return 1n;
+          return a === null || b === null ? null : apply(op, a, b);
+        };
+      }
+      return left;
+    };
+
+  const bool = (value: boolean) => (value ? 1n : 0n);
+  // Width of signal and bit-select operands, so ~ inverts only their bits
+  const widths = new Map<Node, (lookup: (signal: string) => string | undefined) => number | undefined>();
+  const primary = (): Node => {
+    const token = tokens[pos++];
+    if (token === undefined) throw new Error("Unexpected end of expression");
+    if (token === "(") {
+      const inner = logicalOr();
+      expect(")");
+      return inner;
+    }
+    if (token === "!" || token === "~" || token === "-") {
+      const operand = primary();
+      const width = widths.get(operand);
+      return (lookup) => {
+        const value = operand(lookup);
+        if (value === null) return null;
+        if (token === "!") return bool(value === 0n);
+        if (token === "-") return -value;
+        const bits = width?.(lookup);
+        return bits ? ~value & ((1n << BigInt(bits)) - 1n) : ~value;
+      };
+    }
+    const literal = parseLiteral(token);
+    if (literal !== undefined) return () => literal;
+    if (!/^[A-Za-z_\\]/.test(token)) throw new Error(`Unexpected '${token}' in expression`);
+
+    signals.add(token);
+    let node: Node = (lookup) => numericValue(lookup(token));
+    widths.set(node, (lookup) => lookup(token)?.length);
+    // Bit select or part select
+    if (peek() === "[") {
+      pos++;
+      const msb = Number(tokens[pos++]);
+      let lsb = msb;
+      if (peek() === ":") {
+        pos++;
+        lsb = Number(tokens[pos++]);
+      }
+      expect("]");
+      if (!Number.isInteger(msb) || !Number.isInteger(lsb) || lsb > msb) {
+        throw new Error(`Invalid bit select on '${token}'`);
+      }
+      const whole = node;
+      const mask = (1n << BigInt(msb - lsb + 1)) - 1n;
+      node = (lookup) => {
+        const value = whole(lookup);
+        return value === null ? null : (value >> BigInt(lsb)) & mask;
+      };
+      widths.set(node, () => msb - lsb + 1);
+    }
+    return node;
+  };
+
+  const relational = binary(["<", "<=", ">", ">="], primary, (op, a, b) =>
+    bool(op === "<" ? a < b : op === "<=" ? a <= b : op === ">" ? a > b : a >= b));
+  const equality = binary(["==", "!="], relational, (op, a, b) => bool(op === "==" ? a === b : a !== b));
+  const bitAnd = binary(["&"], equality, (_op, a, b) => a & b);
+  const bitXor = binary(["^"], bitAnd, (_op, a, b) => a ^ b);
+  const bitOr = binary(["|"], bitXor, (_op, a, b) => a | b);
+  const logicalAnd = binary(["&&"], bitOr, (_op, a, b) => bool(a !== 0n && b !== 0n));
+  const logicalOr: () => Node = binary(["||"], logicalAnd, (_op, a, b) => bool(a !== 0n || b !== 0n));
+
+  const root = logicalOr();
+  if (pos < tokens.length) throw new Error(`Unexpected '${tokens[pos]}' in expression`);
+  return { signals: [...signals], evaluate: root };
+}
+
+/**
+ * Numeric literal: 42, 0x2a, 'h2a, 8'b0010_1010; undefined if the token is not a literal
+ */
+function parseLiteral(token: string): bigint | undefined {
+  if (/^\d+$/.test(token)) return BigInt(token);
+  if (/^0x[0-9a-fA-F_]+$/.test(token)) return BigInt(token.replace(/_/g, ""));
+  const sized = token.match(/^\d*'[sS]?([bBoOdDhH])([0-9a-fA-F_]+)$/);
+  if (!sized) return undefined;
+  const digits = sized[2].replace(/_/g, "");
+  const prefix = { b: "0b", o: "0o", d: "", h: "0x" }[sized[1].toLowerCase() as "b" | "o" | "d" | "h"];
+  return BigInt(`${prefix}${digits}`);
+}
+
+/**
+ * Render rows as an aligned text table
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map((row) => (row[column] ?? "").length)));
+  const line = (cells: string[]) => cells.map((cell, column) => (cell ?? "").padEnd(widths[column])).join("  ").trimEnd();
+  return [line(headers), line(widths.map((width) => "-".repeat(width))), ...rows.map(line)].join("\n");
+}
@@ -0,0 +1,62 @@
+/**
+ * Trace Files - A project's simulation traces as VCD text
+ *
+ * Traces live under output/. FST files are converted once with fst2vcd
+ * (to output/<name>.fst.vcd, redone when the FST is newer) so every
+ * query works on VCD.
+ */
+
+import { existsSync, readFileSync, statSync } from "fs";
+import type { CommandExecutor } from "../executor/executor.js";
+import { projectManager } from "../files/project-manager.js";
+import { pathResolver } from "../files/path-resolver.js";
+
+// Larger dumps should be narrowed in the testbench ($dumpvars scope/depth)
+const MAX_TRACE_BYTES = 256 * 1024 * 1024;
+
+/**
+ * Trace of the latest (RTL or gate-level) simulation run that produced one, else output.vcd
+ */
+export function defaultTraceFile(projectId: string): string {
+  const run = projectManager.getProjectRuns(projectId).find((r) => (r.runType === "simulation" || r.runType === "gate_level") && r.results?.vcdFile);
+  return run?.results?.vcdFile || "output.vcd";
+}
+
+/**
+ * Read a trace from output/, converting FST to VCD (output/<name>.fst.vcd) first
+ */
+export async function readTraceFile(projectId: string, traceFile: string, executor: CommandExecutor): Promise<string | { error: string }> {
+  if (traceFile.split(/[\\/]/).includes("..") || !/\.(vcd|fst)$/i.test(traceFile)) {
+    return { error: `Invalid trace file '${traceFile}' (expected a .vcd or .fst file under output/)` };
+  }
+  let hostFile = pathResolver.getFileHostPath(projectId, `output/${traceFile}`);
+  if (!existsSync(hostFile)) {
+    return { error: `Trace file '${traceFile}' not found in the project's output/ directory` };
+  }
+
+  if (/\.fst$/i.test(traceFile)) {
+    const converted = `${hostFile}.vcd`;
+    if (!existsSync(converted) || statSync(converted).mtimeMs < statSync(hostFile).mtimeMs) {
+      const result = await executor.run(
+        ["fst2vcd", "-f", pathResolver.hostToContainer(hostFile), "-o", pathResolver.hostToContainer(converted)],
+        { timeout: 300000 }
+      );
+      if (!result.success) {
+        return {
+          error: result.exitCode === 127
+            ? "fst2vcd (GTKWave) is not installed. Run check_environment for details."
+            : `fst2vcd failed: ${result.stderr.trim() || result.stdout.trim()}`,
+        };
+      }
+    }
+    hostFile = converted;
+  }
+
+  const size = statSync(hostFile).size;
+  if (size > MAX_TRACE_BYTES) {
+    return {
+      error: `Trace file is ${Math.round(size / 1024 / 1024)} MB (limit ${MAX_TRACE_BYTES / 1024 / 1024} MB). Narrow $dumpvars to the scopes of interest.`,
+    };
+  }
+  return readFileSync(hostFile, "utf-8");
+}
@@ -0,0 +1,188 @@
+/**
+ * VCD Parser - Signals and value changes of a Value Change Dump
+ *
+ * The header is parsed on its own so signals can be listed without
+ * reading the dump; value changes are then collected only for the
+ * identifier codes a query needs. Vector values are kept as binary
+ * strings extended to the signal width (x/z bits included).
+ */
+
+/**
+ * A variable declared in the VCD header
+ */
+export interface VcdSignal {
+  name: string;                 // Hierarchical name, e.g. tb.dut.count
+  id: string;                   // Identifier code (shared by aliases of the same net)
+  width: number;
+  type: string;                 // wire, reg, integer, real, parameter, ...
+  range?: string;               // Declared bit range, e.g. [7:0]
+}
+
+/**
+ * Time unit of the dump: one tick is magnitude * unit
+ */
+export interface VcdTimescale {
+  magnitude: number;            // 1, 10 or 100
+  unit: string;                 // s, ms, us, ns, ps, fs
+}
+
+export interface VcdHeader {
+  timescale: VcdTimescale;
+  signals: VcdSignal[];
+  bodyOffset: number;           // Index of the first character after $enddefinitions
+}
+
+/**
+ * Value changes of one identifier code, in time order
+ */
+export interface SignalTrace {
+  times: number[];
+  values: string[];             // "0", "1", "x", "z", binary vectors, or real numbers
+}
+
+export interface VcdChanges {
+  traces: Map<string, SignalTrace>;
+  endTime: number;              // Last timestamp in the dump
+}
+
+const UNIT_SECONDS: Record<string, number> = { s: 1, ms: 1e-3, us: 1e-6, ns: 1e-9, ps: 1e-12, fs: 1e-15 };
+
+/**
+ * Parse the declarations up to $enddefinitions
+ */
+export function parseVcdHeader(text: string): VcdHeader {
+  const header: VcdHeader = { timescale: { magnitude: 1, unit: "ns" }, signals: [], bodyOffset: text.length };
+  const scopes: string[] = [];
+  const token = /\S+/g;
+  let match: RegExpExecArray | null;
+
+  // Tokens of a $keyword ... $end section
+  const section = (): string[] => {
+    const tokens: string[] = [];
+    while ((match = token.exec(text)) && match[0] !== "$end") tokens.push(match[0]);
+    return tokens;
+  };
+
+  while ((match = token.exec(text))) {
+    switch (match[0]) {
+      case "$timescale": {
+        const spec = section().join("");
+        const parsed = spec.match(/^(\d+)\s*([munpf]?s)$/);
+        if (parsed) header.timescale = { magnitude: parseInt(parsed[1], 10), unit: parsed[2] };
+        break;
+      }
+      case "$scope": {
+        const [, name] = section();
+        scopes.push(name);
+        break;
+      }
+      case "$upscope":
+        section();
+        scopes.pop();
+        break;
+      case "$var": {
+        const [type, size, id, reference, ...rest] = section();
+        if (!id || !reference) break;
+        // The range is either part of the reference (count[7:0]) or a separate token
+        const bracket = reference.indexOf("[");
+        const ref = bracket > 0 && !reference.startsWith("\\") ? reference.slice(0, bracket) : reference;
+        const range = rest.join("") || (bracket > 0 ? reference.slice(bracket) : "") || undefined;
+        header.signals.push({
+          name: [...scopes, ref].join("."),
+          id,
+          width: parseInt(size, 10) || 1,
+          type,
+          range,
+        });
+        break;
+      }
+      case "$enddefinitions":
+        section();
+        header.bodyOffset = token.lastIndex;
+        return header;
+      default:
+        // $date, $version, $comment and unknown sections
+        if (match[0].startsWith("$")) section();
+    }
+  }
+  return header;
+}
+
+/**
+ * Collect the value changes of the given identifier codes (all when ids is omitted)
+ */
+export function readVcdChanges(text: string, header: VcdHeader, ids?: Set<string>): VcdChanges {
+  const widths = new Map<string, number>();
+  for (const signal of header.signals) {
+    if (!ids || ids.has(signal.id)) widths.set(signal.id, signal.width);
+  }
+  const traces = new Map<string, SignalTrace>();
+  for (const id of widths.keys()) traces.set(id, { times: [], values: [] });
+
+  const record = (id: string, value: string, time: number) => {
+    const trace = traces.get(id);
+    if (!trace) return;
+    const normalized = normalizeValue(value, widths.get(id)!);
+    const last = trace.times.length - 1;
+    // A later change at the same timestamp replaces the earlier one
+    if (last >= 0 && trace.times[last] === time) {
+      trace.values[last] = normalized;
+    } else {
+      trace.times.push(time);
+      trace.values.push(normalized);
+    }
+  };
+
+  const token = /\S+/g;
+  token.lastIndex = header.bodyOffset;
+  let time = 0;
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(text))) {
+    const word = match[0];
+    const first = word[0];
+    if (first === "#") {
+      time = Number(word.slice(1));
+    } else if (first === "b" || first === "B" || first === "r" || first === "R" || first === "s" || first === "S") {
+      const id = token.exec(text)?.[0];
+      if (id) record(id, first === "b" || first === "B" ? word.slice(1).toLowerCase() : word.slice(1), time);
+    } else if (first === "$") {
+      // $dumpvars/$dumpall/$dumpon/$dumpoff wrap plain value changes; $comment is skipped
+      if (word === "$comment") {
+        while ((match = token.exec(text)) && match[0] !== "$end");
+      }
+    } else if ("01xXzZ".includes(first)) {
+      record(word.slice(1), first.toLowerCase(), time);
+    }
+  }
+
+  return { traces, endTime: time };
+}
+
+/**
+ * Extend a vector value to the signal width (0-extended, or x/z when the top bit is x/z)
+ */
+function normalizeValue(value: string, width: number): string {
+  if (width <= 1 || !/^[01xz]+$/.test(value)) return value;
+  if (value.length >= width) return value.slice(value.length - width);
+  const pad = value[0] === "x" || value[0] === "z" ? value[0] : "0";
+  return pad.repeat(width - value.length) + value;
+}
+
+/**
+ * Ticks for a time given as a tick count or with a unit ("125ns", "1.5 us")
+ */
+export function parseTime(value: number | string, timescale: VcdTimescale): number | null {
+  if (typeof value === "number") return Number.isFinite(value) && value >= 0 ? value : null;
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([munpf]?s)?$/);
+  if (!match) return null;
+  if (!match[2]) return Number(match[1]);
+  const seconds = Number(match[1]) * UNIT_SECONDS[match[2]];
+  return Math.round(seconds / (timescale.magnitude * UNIT_SECONDS[timescale.unit]));
+}
+
+/**
+ * Timescale as written in the dump, e.g. "1ns"
+ */
+export function formatTimescale(timescale: VcdTimescale): string {
+  return `${timescale.magnitude}${timescale.unit}`;
+}
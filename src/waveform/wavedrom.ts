@@ -0,0 +1,115 @@
+/**
+ * WaveDrom Conversion - VCD traces as WaveDrom timing diagrams
+ *
+ * WaveDrom draws one column per cycle, so the window is sampled at a
+ * fixed step: the shortest interval between changes of the selected
+ * signals, widened when that would exceed the column limit. Buses show
+ * their values in hex; a marked time is drawn as a pulse row.
+ */
+
+import { formatValue, valueAt } from "./query.js";
+import type { SignalTrace, VcdSignal } from "./vcd.js";
+
+/**
+ * One WaveDrom lane
+ */
+export interface WaveDromSignal {
+  name: string;
+  wave: string;
+  data?: string[];
+}
+
+/**
+ * WaveDrom source (the subset this module writes)
+ */
+export interface WaveDrom {
+  signal: WaveDromSignal[];
+  head?: { text?: string; tick?: number; every?: number };
+  foot?: { text?: string };
+  config?: { hscale?: number };
+}
+
+export interface WaveDromConversion {
+  wavedrom: WaveDrom;
+  step: number;                 // Ticks per column
+  columns: number;
+  warning?: string;
+}
+
+/**
+ * Convert traces in [start, end] to WaveDrom, with at most maxColumns columns
+ */
+export function toWaveDrom(
+  lanes: { signal: VcdSignal; trace: SignalTrace }[],
+  window: { start: number; end: number },
+  options: { maxColumns: number; marker?: number; title?: string; timescale: string }
+): WaveDromConversion {
+  const { start, end } = window;
+  const span = Math.max(1, end - start);
+
+  // Shortest interval between changes in the window
+  const stamps = new Set<number>([start]);
+  for (const { trace } of lanes) {
+    for (const t of trace.times) {
+      if (t > start && t <= end) stamps.add(t);
+    }
+  }
+  const ordered = [...stamps].sort((a, b) => a - b);
+  let shortest = span;
+  for (let i = 1; i < ordered.length; i++) shortest = Math.min(shortest, ordered[i] - ordered[i - 1]);
+
+  let step = shortest;
+  let warning: string | undefined;
+  // Columns sample start, start + step, ... up to and including end
+  if (Math.floor(span / step) + 1 > options.maxColumns) {
+    step = Math.ceil(span / (options.maxColumns - 1));
+    warning = `Changes closer than ${step} ticks are merged into one column; narrow the window for full detail`;
+  }
+  const columns = Math.floor(span / step) + 1;
+
+  const signal: WaveDromSignal[] = lanes.map(({ signal: vcdSignal, trace }) => {
+    const bus = vcdSignal.width > 1 || vcdSignal.type === "real";
+    let wave = "";
+    const data: string[] = [];
+    let previous: string | undefined;
+    for (let column = 0; column < columns; column++) {
+      const value = valueAt(trace, start + column * step);
+      if (column > 0 && value === previous) {
+        wave += ".";
+        continue;
+      }
+      previous = value;
+      if (value === undefined || /^x+$/.test(value)) {
+        wave += "x";
+      } else if (/^z+$/.test(value)) {
+        wave += "z";
+      } else if (!bus) {
+        wave += value;
+      } else {
+        wave += "=";
+        data.push(formatValue(value, vcdSignal, "hex").replace(/^'h/, ""));
+      }
+    }
+    return { name: vcdSignal.name, wave, ...(data.length > 0 ? { data } : {}) };
+  });
+
+  if (options.marker !== undefined && options.marker >= start && options.marker <= end) {
+    const column = Math.min(columns - 1, Math.floor((options.marker - start) / step));
+    const wave = "0".repeat(column) + "1" + (column + 1 < columns ? "0" : "");
+    signal.unshift({ name: `marker t=${options.marker}`, wave: wave.padEnd(columns, ".") });
+  }
+
+  // Wider columns when bus values need the room
+  const longest = Math.max(0, ...signal.flatMap((lane) => (lane.data || []).map((value) => value.length)));
+  return {
+    wavedrom: {
+      signal,
+      head: { text: options.title, tick: 0, every: Math.max(1, Math.ceil(columns / 16)) },
+      foot: { text: `t = ${start} + column x ${step} (${options.timescale} units)` },
+      config: { hscale: longest > 4 ? Math.min(4, Math.ceil(longest / 4)) : 1 },
+    },
+    step,
+    columns,
+    warning,
+  };
+}